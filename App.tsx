@@ -11,6 +11,7 @@ import { FileEditorView } from './components/FileEditorView';
 import { KeyRenamerView } from './components/KeyRenamerView';
 import { MergeStringsView } from './components/MergeStringsView';
 import { MergeStringCatalogsView } from './components/MergeStringCatalogsView';
+import { CatalogDiffView } from './components/CatalogDiffView';
 
 import { StringsAnalyserView } from './components/StringsAnalyserView';
 import { JsonConverterView } from './components/JsonConverterView';
@@ -29,6 +30,7 @@ import { AppIconGeneratorView } from './components/AppIconGeneratorView';
 import { ColorConverterView } from './components/ColorConverterView';
 import { EncodingToolView } from './components/EncodingToolView';
 import { ScreenshotGeneratorView } from './components/ScreenshotGeneratorView';
+import { XclocView } from './components/XclocView';
 
 function App() {
   const [view, setView] = useState<ViewMode>('dashboard');
@@ -49,6 +51,8 @@ function App() {
         return <MergeStringsView onBack={() => setView('dashboard')} />;
       case 'merge-catalogs':
         return <MergeStringCatalogsView onBack={() => setView('dashboard')} />;
+      case 'catalog-diff':
+        return <CatalogDiffView onBack={() => setView('dashboard')} />;
 
       case 'analyser':
         return <StringsAnalyserView onBack={() => setView('dashboard')} />;
@@ -74,6 +78,8 @@ function App() {
         return <EncodingToolView onBack={() => setView('dashboard')} />;
       case 'screenshot-generator':
         return <ScreenshotGeneratorView onBack={() => setView('dashboard')} />;
+      case 'xcloc':
+        return <XclocView onBack={() => setView('dashboard')} />;
       case 'dashboard':
       default:
         return <Dashboard setView={setView} />;
@@ -0,0 +1,389 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { ArrowLeft, Upload, X, FileText, GitCompare, Copy, Check, Download, Sparkles, ArrowRight } from 'lucide-react';
+import { LanguageFile } from '../types';
+import { CatalogDiff, CatalogTextChange, countCatalogDiffChanges, diffLocalizationFiles, formatCatalogDiffMarkdown } from '../services/catalogDiff';
+import { getFormatExtensions } from '../services/formatRegistry';
+import { DragDropZone } from './DragDropZone';
+
+interface CatalogDiffViewProps {
+    onBack: () => void;
+}
+
+type FileSlot = 'old' | 'new';
+
+const readFile = (file: File): Promise<LanguageFile> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve({
+            name: file.name,
+            content: reader.result as string,
+            langCode: '', // Single-language files take their language from the file name
+        });
+        reader.onerror = (err) => reject(err);
+        reader.readAsText(file);
+    });
+};
+
+// --- Sample Data ---
+const sampleUnit = (value: string, state = 'translated') => ({ stringUnit: { state, value } });
+
+const SAMPLE_OLD: LanguageFile = {
+    name: 'Localizable-1.0.xcstrings',
+    content: JSON.stringify({
+        sourceLanguage: 'en',
+        version: '1.0',
+        strings: {
+            login_button: {
+                localizations: { en: sampleUnit('Sign In'), de: sampleUnit('Anmelden'), fr: sampleUnit('Se connecter') },
+            },
+            welcome_title: {
+                comment: 'Title of the welcome screen',
+                localizations: { en: sampleUnit('Welcome'), de: sampleUnit('Willkommen'), fr: sampleUnit('Bienvenue', 'needs_review') },
+            },
+            legacy_banner: {
+                localizations: { en: sampleUnit('Try our new app!'), de: sampleUnit('Probiere unsere neue App!') },
+            },
+        },
+    }, null, 2),
+    langCode: '',
+};
+
+const SAMPLE_NEW: LanguageFile = {
+    name: 'Localizable-1.1.xcstrings',
+    content: JSON.stringify({
+        sourceLanguage: 'en',
+        version: '1.0',
+        strings: {
+            welcome_title: {
+                comment: 'Title of the onboarding screen',
+                localizations: { en: sampleUnit('Welcome back'), de: sampleUnit('Willkommen zurück'), fr: sampleUnit('Bienvenue') },
+            },
+            auth_sign_in: {
+                localizations: { en: sampleUnit('Sign In'), de: sampleUnit('Einloggen'), fr: sampleUnit('Se connecter') },
+            },
+            share_action: {
+                localizations: { en: sampleUnit('Share'), de: sampleUnit('Teilen', 'new') },
+            },
+        },
+    }, null, 2),
+    langCode: '',
+};
+
+const formatPath = (path: string) => path ? <span className="text-slate-500 font-normal"> ({path})</span> : null;
+
+const TextChangeList: React.FC<{ changes: CatalogTextChange[]; showLanguage?: boolean }> = ({ changes, showLanguage }) => (
+    <div className="divide-y divide-slate-800/60">
+        {changes.map((change, idx) => (
+            <div key={idx} className="px-4 py-3 hover:bg-slate-800/20 transition-colors">
+                <div className="flex items-center justify-between gap-4">
+                    <span className="text-sm font-mono font-semibold text-indigo-300 break-all">{change.key}{formatPath(change.path)}</span>
+                    {showLanguage && <span className="text-xs bg-slate-800 text-slate-300 px-2 py-0.5 rounded border border-slate-700 flex-shrink-0">{change.language}</span>}
+                </div>
+                <div className="mt-1 grid grid-cols-1 md:grid-cols-2 gap-2 text-xs font-mono">
+                    <p className="px-2 py-1 rounded bg-rose-500/10 text-rose-300 whitespace-pre-wrap break-all">
+                        {change.oldText === undefined ? <span className="italic text-slate-500">none</span> : change.oldText}
+                    </p>
+                    <p className="px-2 py-1 rounded bg-emerald-500/10 text-emerald-300 whitespace-pre-wrap break-all">
+                        {change.newText === undefined ? <span className="italic text-slate-500">none</span> : change.newText}
+                    </p>
+                </div>
+            </div>
+        ))}
+    </div>
+);
+
+const Section: React.FC<{ title: string; count: number; children: React.ReactNode }> = ({ title, count, children }) => {
+    if (count === 0) return null;
+    return (
+        <div className="border-b border-slate-800">
+            <div className="px-4 py-3 bg-slate-800/30 flex items-center justify-between sticky top-0 backdrop-blur-sm">
+                <h3 className="text-sm font-semibold text-slate-200">{title}</h3>
+                <span className="text-xs text-slate-400">{count}</span>
+            </div>
+            {children}
+        </div>
+    );
+};
+
+export const CatalogDiffView: React.FC<CatalogDiffViewProps> = ({ onBack }) => {
+    const [files, setFiles] = useState<Record<FileSlot, LanguageFile | null>>({ old: null, new: null });
+    const [activeTab, setActiveTab] = useState<'changes' | 'markdown'>('changes');
+    const [readError, setReadError] = useState<string | null>(null);
+    const [copied, setCopied] = useState(false);
+
+    const oldInputRef = useRef<HTMLInputElement>(null);
+    const newInputRef = useRef<HTMLInputElement>(null);
+
+    const { diff, error }: { diff: CatalogDiff | null; error: string | null } = useMemo(() => {
+        if (!files.old || !files.new) return { diff: null, error: null };
+        try {
+            return { diff: diffLocalizationFiles(files.old, files.new), error: null };
+        } catch (e: any) {
+            return { diff: null, error: e.message || 'The files could not be compared.' };
+        }
+    }, [files]);
+
+    const markdown: string = useMemo(() => diff ? formatCatalogDiffMarkdown(diff) : '', [diff]);
+
+    const translationsByLanguage: Record<string, CatalogTextChange[]> = useMemo(() => {
+        const groups: Record<string, CatalogTextChange[]> = {};
+        diff?.translationChanges.forEach(change => {
+            if (!groups[change.language]) groups[change.language] = [];
+            groups[change.language].push(change);
+        });
+        return groups;
+    }, [diff]);
+
+    const processFiles = async (slot: FileSlot, fileList: FileList) => {
+        const [file] = Array.from(fileList);
+        if (!file) return;
+        try {
+            const loaded = await readFile(file);
+            setFiles(prev => ({ ...prev, [slot]: loaded }));
+            setReadError(null);
+        } catch (err) {
+            setReadError('Failed to read file.');
+        }
+    };
+
+    const handleFileUpload = async (slot: FileSlot, event: React.ChangeEvent<HTMLInputElement>) => {
+        if (event.target.files) await processFiles(slot, event.target.files);
+        event.target.value = '';
+    };
+
+    const handleExecuteSample = () => {
+        setFiles({ old: SAMPLE_OLD, new: SAMPLE_NEW });
+        setReadError(null);
+        setActiveTab('changes');
+    };
+
+    const handleCopy = () => {
+        navigator.clipboard.writeText(markdown);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    };
+
+    const handleDownload = () => {
+        const blob = new Blob([markdown], { type: 'text/markdown' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = 'catalog-diff.md';
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    };
+
+    const renderFileSlot = (slot: FileSlot, label: string, inputRef: React.RefObject<HTMLInputElement | null>) => {
+        const file = files[slot];
+        return (
+            <div className="flex-1 min-w-0">
+                <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-3">{label}</h2>
+                <DragDropZone
+                    onFilesDropped={(fileList) => processFiles(slot, fileList)}
+                    className="w-full flex flex-col min-h-[96px] rounded-xl border border-slate-700 bg-slate-800/20"
+                    isDraggingClass="border-teal-500 bg-teal-500/10 ring-2 ring-teal-500/50"
+                >
+                    {file ? (
+                        <div className="flex-grow p-3 flex items-center justify-between gap-2">
+                            <div className="flex items-center gap-2 overflow-hidden">
+                                <FileText size={14} className="text-teal-400 flex-shrink-0" />
+                                <span className="text-sm text-slate-200 truncate" title={file.name}>{file.name}</span>
+                            </div>
+                            <button onClick={() => setFiles(prev => ({ ...prev, [slot]: null }))} className="p-1 text-slate-500 hover:text-rose-400">
+                                <X size={14} />
+                            </button>
+                        </div>
+                    ) : (
+                        <div
+                            className="flex-grow flex flex-col items-center justify-center p-4 cursor-pointer hover:bg-slate-800/30 transition-colors"
+                            onClick={() => inputRef.current?.click()}
+                        >
+                            <Upload className="w-5 h-5 text-slate-500 mb-2" />
+                            <p className="text-sm text-slate-400 font-medium">Upload the {slot} version</p>
+                        </div>
+                    )}
+                </DragDropZone>
+                <input
+                    type="file"
+                    ref={inputRef}
+                    onChange={(e) => handleFileUpload(slot, e)}
+                    accept={getFormatExtensions().join(',')}
+                    className="hidden"
+                />
+            </div>
+        );
+    };
+
+    const changeCount = diff ? countCatalogDiffChanges(diff) : 0;
+
+    return (
+        <div className="flex flex-col min-h-screen md:h-screen bg-slate-900 text-slate-100 font-sans">
+            {/* Header */}
+            <div className="flex items-center px-6 py-4 border-b border-slate-700 bg-slate-800/50 backdrop-blur-md sticky top-0 z-10">
+                <button
+                    onClick={onBack}
+                    className="p-2 mr-4 rounded-full hover:bg-slate-700 text-slate-400 hover:text-white transition-all transform hover:scale-105 active:scale-95"
+                    aria-label="Go back"
+                >
+                    <ArrowLeft size={24} />
+                </button>
+                <div>
+                    <h1 className="text-2xl font-bold bg-gradient-to-r from-teal-400 to-cyan-400 bg-clip-text text-transparent">
+                        Catalog Diff
+                    </h1>
+                    <p className="text-slate-400 text-sm">Compare two versions of a localization file key by key</p>
+                </div>
+                <div className="ml-auto">
+                    <button
+                        onClick={handleExecuteSample}
+                        className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-amber-500/20 to-orange-500/20 hover:from-amber-500/30 hover:to-orange-500/30 text-amber-300 border border-amber-500/40 hover:border-amber-400/60 rounded-lg font-semibold active:scale-95 transition-all text-sm"
+                        title="Compare two versions of a sample .xcstrings catalog"
+                    >
+                        <Sparkles size={16} />
+                        <span className="hidden sm:inline">Execute Sample</span>
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-6 space-y-6">
+                <div className="flex flex-col md:flex-row md:items-end gap-4">
+                    {renderFileSlot('old', 'Old Version', oldInputRef)}
+                    <ArrowRight size={20} className="hidden md:block text-slate-600 mb-10 flex-shrink-0" />
+                    {renderFileSlot('new', 'New Version', newInputRef)}
+                </div>
+
+                {(readError || error) && (
+                    <div className="px-4 py-3 text-sm text-rose-400 bg-rose-500/10 border border-rose-500/20 rounded-lg">
+                        {readError || error}
+                    </div>
+                )}
+
+                {diff ? (
+                    <div className="bg-slate-900/50 rounded-xl border border-slate-800 overflow-hidden">
+                        <div className="p-4 bg-slate-800/30 border-b border-slate-700 flex flex-wrap items-center justify-between gap-3">
+                            <div className="flex gap-2">
+                                {(['changes', 'markdown'] as const).map(tab => (
+                                    <button
+                                        key={tab}
+                                        onClick={() => setActiveTab(tab)}
+                                        className={`px-3 py-1.5 text-sm rounded-lg border transition-colors ${activeTab === tab
+                                            ? 'bg-teal-600 text-white border-teal-500'
+                                            : 'text-slate-300 border-slate-700 hover:bg-slate-800'
+                                            }`}
+                                    >
+                                        {tab === 'changes' ? `Changes (${changeCount})` : 'Markdown'}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={handleCopy}
+                                    className="flex items-center gap-2 px-3 py-1.5 text-sm text-slate-300 border border-slate-700 rounded-lg hover:bg-slate-800 transition-colors"
+                                >
+                                    {copied ? <Check size={14} className="text-emerald-400" /> : <Copy size={14} />}
+                                    Copy Markdown
+                                </button>
+                                <button
+                                    onClick={handleDownload}
+                                    className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-teal-950 bg-teal-400 rounded-lg hover:bg-teal-300 transition-colors"
+                                >
+                                    <Download size={14} />
+                                    Download .md
+                                </button>
+                            </div>
+                        </div>
+
+                        {activeTab === 'markdown' ? (
+                            <textarea
+                                readOnly
+                                value={markdown}
+                                className="w-full h-[600px] p-6 bg-transparent text-slate-300 font-mono text-xs md:text-sm resize-none focus:outline-none custom-scrollbar leading-relaxed"
+                                spellCheck={false}
+                            />
+                        ) : changeCount === 0 ? (
+                            <div className="p-12 text-center text-slate-500">
+                                <Check size={48} className="mx-auto mb-4 text-emerald-500/50" />
+                                <p>Both versions have the same keys, texts, states and comments.</p>
+                            </div>
+                        ) : (
+                            <div className="max-h-[600px] overflow-y-auto">
+                                <Section title="Added Keys" count={diff.addedKeys.length}>
+                                    <div className="divide-y divide-slate-800/60">
+                                        {diff.addedKeys.map(change => (
+                                            <div key={change.key} className="px-4 py-2 flex items-center justify-between gap-4">
+                                                <span className="text-sm font-mono text-emerald-300 break-all">+ {change.key}</span>
+                                                <span className="text-xs text-slate-400 truncate">{change.sourceText}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </Section>
+                                <Section title="Removed Keys" count={diff.removedKeys.length}>
+                                    <div className="divide-y divide-slate-800/60">
+                                        {diff.removedKeys.map(change => (
+                                            <div key={change.key} className="px-4 py-2 flex items-center justify-between gap-4">
+                                                <span className="text-sm font-mono text-rose-300 break-all">− {change.key}</span>
+                                                <span className="text-xs text-slate-400 truncate">{change.sourceText}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </Section>
+                                <Section title="Renamed Keys" count={diff.renamedKeys.length}>
+                                    <div className="divide-y divide-slate-800/60">
+                                        {diff.renamedKeys.map(rename => (
+                                            <div key={rename.newKey} className="px-4 py-2 flex items-center gap-3 text-sm font-mono">
+                                                <span className="text-rose-300 break-all">{rename.oldKey}</span>
+                                                <ArrowRight size={14} className="text-slate-500 flex-shrink-0" />
+                                                <span className="text-emerald-300 break-all">{rename.newKey}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </Section>
+                                <Section title={`Changed Source Strings (${diff.sourceLanguage})`} count={diff.sourceChanges.length}>
+                                    <TextChangeList changes={diff.sourceChanges} />
+                                </Section>
+                                <Section title="Changed Translations" count={diff.translationChanges.length}>
+                                    {Object.entries(translationsByLanguage).sort(([a], [b]) => a.localeCompare(b)).map(([language, changes]) => (
+                                        <div key={language}>
+                                            <div className="px-4 py-2 text-xs font-semibold text-slate-400 uppercase tracking-wider bg-slate-900/60">
+                                                {language} · {changes.length}
+                                            </div>
+                                            <TextChangeList changes={changes} />
+                                        </div>
+                                    ))}
+                                </Section>
+                                <Section title="State Changes" count={diff.stateChanges.length}>
+                                    <div className="divide-y divide-slate-800/60">
+                                        {diff.stateChanges.map((change, idx) => (
+                                            <div key={idx} className="px-4 py-2 flex items-center justify-between gap-4">
+                                                <span className="text-sm font-mono text-indigo-300 break-all">{change.key}</span>
+                                                <div className="flex items-center gap-2 text-xs flex-shrink-0">
+                                                    <span className="bg-slate-800 text-slate-300 px-2 py-0.5 rounded border border-slate-700">{change.language}</span>
+                                                    <span className="text-slate-400">{change.oldState}</span>
+                                                    <ArrowRight size={12} className="text-slate-500" />
+                                                    <span className={change.newState === 'translated' ? 'text-emerald-400' : 'text-amber-400'}>{change.newState}</span>
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </Section>
+                                <Section title="Comment Changes" count={diff.commentChanges.length}>
+                                    <TextChangeList
+                                        changes={diff.commentChanges.map(change => ({ key: change.key, language: '', path: '', oldText: change.oldComment, newText: change.newComment }))}
+                                    />
+                                </Section>
+                            </div>
+                        )}
+                    </div>
+                ) : !error && (
+                    <div className="p-12 text-center text-slate-600 border border-dashed border-slate-800 rounded-xl">
+                        <GitCompare size={48} className="mx-auto mb-4 opacity-50" />
+                        <p className="text-base font-medium">No comparison yet</p>
+                        <p className="text-sm">Upload an old and a new version of an .xcstrings, .strings, Android XML or other localization file.</p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
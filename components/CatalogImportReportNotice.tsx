@@ -0,0 +1,51 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { CatalogImportReport } from '../services/converter';
+
+interface CatalogImportReportNoticeProps {
+    report: CatalogImportReport | null;
+}
+
+const MAX_LISTED_KEYS = 20;
+
+export const CatalogImportReportNotice: React.FC<CatalogImportReportNoticeProps> = ({ report }) => {
+    if (!report) return null;
+
+    const listedKeys = report.unknownKeys.slice(0, MAX_LISTED_KEYS);
+    const hiddenCount = report.unknownKeys.length - listedKeys.length;
+
+    return (
+        <>
+            {(report.skippedFiles.length > 0 || report.unknownKeys.length > 0) && (
+                <div className="mb-4 p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg text-xs text-amber-300 space-y-2">
+                    <h3 className="font-bold text-amber-400 flex items-center gap-2">
+                        <AlertTriangle size={14} /> Not Imported
+                    </h3>
+                    {report.skippedFiles.length > 0 && (
+                        <p>
+                            XLIFF files of other project files were skipped:{' '}
+                            <span className="font-mono">{report.skippedFiles.join(', ')}</span>
+                        </p>
+                    )}
+                    {report.unknownKeys.length > 0 && (
+                        <p>
+                            {report.unknownKeys.length} {report.unknownKeys.length === 1 ? 'key is' : 'keys are'} not in the catalog and {report.unknownKeys.length === 1 ? 'was' : 'were'} skipped:{' '}
+                            <span className="font-mono break-all">{listedKeys.join(', ')}</span>
+                            {hiddenCount > 0 && ` and ${hiddenCount} more`}
+                        </p>
+                    )}
+                </div>
+            )}
+            {report.issues.length > 0 && (
+                <div className="mb-4 p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg">
+                    <h3 className="text-xs font-bold text-amber-400 flex items-center gap-2 mb-2">
+                        <AlertTriangle size={14} /> Imported With Warnings
+                    </h3>
+                    <ul className="text-xs text-amber-300 space-y-1 list-disc list-inside">
+                        {report.issues.map((issue, i) => <li key={i}>{issue}</li>)}
+                    </ul>
+                </div>
+            )}
+        </>
+    );
+};
@@ -3,10 +3,15 @@ import {
   mergeAndParseStrings,
   generateIosStringCatalog,
   generateAllAndroidXml,
+  findAllFormatConversionIssues,
+  formatFormatConversionWarning,
 } from '../services/converter';
+import { findFormatAdapter, getFormatExtensions } from '../services/formatRegistry';
+import { detectFileLanguage } from '../services/languageDetection';
 import { OutputFormat, LanguageFile } from '../types';
-import { Save, FolderOpen, Trash2, ArrowLeft, Combine, Plus, X, FileText, Upload, Download, Sparkles } from 'lucide-react';
+import { Save, FolderOpen, Trash2, ArrowLeft, Combine, Plus, X, FileText, Upload, Download, Sparkles, AlertTriangle } from 'lucide-react';
 import { DragDropZone } from './DragDropZone';
+import { LanguageConfidenceBadge } from './LanguageConfidenceBadge';
 
 const PROJECT_STORAGE_KEY = 'stringsExporterProject_combine';
 
@@ -14,15 +19,6 @@ interface CombineStringsViewProps {
   onBack: () => void;
 }
 
-const guessLangCode = (fileName: string): string => {
-  const name = fileName.toLowerCase().replace(/\.(strings|stringsdict|xml)$/, '');
-  const lprojMatch = name.match(/([a-z]{2,3}(-[a-z0-9]+)?)\.lproj/);
-  if (lprojMatch) return lprojMatch[1];
-  const simpleMatch = name.match(/^[a-z]{2,3}(-[a-z0-9]+)?$/);
-  if (simpleMatch) return simpleMatch[0];
-  return '';
-}
-
 // --- Sample Data ---
 const SAMPLE_FILES: LanguageFile[] = [
   {
@@ -82,6 +78,7 @@ export const CombineStringsView: React.FC<CombineStringsViewProps> = ({ onBack }
 
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
   const [hasSavedProject, setHasSavedProject] = useState(false);
   const [saveStatus, setSaveStatus] = useState('');
 
@@ -96,6 +93,7 @@ export const CombineStringsView: React.FC<CombineStringsViewProps> = ({ onBack }
   const clearAllOutputs = () => {
     setIosOutput('');
     setAndroidOutputs({});
+    setWarnings([]);
   }
 
   const handleConvert = (files?: LanguageFile[]) => {
@@ -107,9 +105,12 @@ export const CombineStringsView: React.FC<CombineStringsViewProps> = ({ onBack }
       try {
         const filesToProcess = files || languageFiles;
         if (filesToProcess.length === 0) return;
-        const { parsedData, sourceLanguage, languages } = mergeAndParseStrings(filesToProcess);
-        setIosOutput(generateIosStringCatalog(parsedData, sourceLanguage));
-        setAndroidOutputs(generateAllAndroidXml(parsedData, languages));
+        const { parsedData, comments, attributes, nonTranslatableKeys, sourceLanguage, languages, issues } = mergeAndParseStrings(filesToProcess);
+        setIosOutput(generateIosStringCatalog(parsedData, sourceLanguage, undefined, comments, nonTranslatableKeys));
+        setAndroidOutputs(generateAllAndroidXml(parsedData, languages, comments, attributes, nonTranslatableKeys));
+        // Placeholders and messages kept as written, from the files read and from the strings written for Android
+        const androidIssues = findAllFormatConversionIssues(parsedData, languages, 'android').map(formatFormatConversionWarning);
+        setWarnings(Array.from(new Set([...issues, ...androidIssues])));
       } catch (e: any) {
         setError(e.message || 'An unexpected error occurred during conversion.');
       } finally {
@@ -122,10 +123,16 @@ export const CombineStringsView: React.FC<CombineStringsViewProps> = ({ onBack }
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
       reader.onload = () => {
+        const content = reader.result as string;
+        // Files from a dropped folder keep their path, so "fr.lproj/Localizable.strings" and
+        // "de.lproj/Localizable.strings" stay apart and the folder tells their language
+        const name = file.webkitRelativePath || file.name;
+        const langDetection = detectFileLanguage(name, content);
         resolve({
-          name: file.name,
-          content: reader.result as string,
-          langCode: guessLangCode(file.name),
+          name,
+          content,
+          langCode: langDetection?.langCode || '',
+          langDetection,
         });
       };
       reader.onerror = (err) => reject(err);
@@ -175,7 +182,7 @@ export const CombineStringsView: React.FC<CombineStringsViewProps> = ({ onBack }
   }
 
   const handleLangCodeChange = (fileName: string, newLangCode: string) => {
-    const newFiles = languageFiles.map(f => f.name === fileName ? { ...f, langCode: newLangCode } : f);
+    const newFiles = languageFiles.map(f => f.name === fileName ? { ...f, langCode: newLangCode, langDetection: undefined } : f);
     setLanguageFiles(newFiles);
     handleConvert(newFiles);
   };
@@ -379,8 +386,10 @@ export const CombineStringsView: React.FC<CombineStringsViewProps> = ({ onBack }
                   <div key={file.name} className="flex items-center justify-between p-3 bg-slate-800/60 hover:bg-slate-800 rounded-lg group transition-colors border border-slate-700 hover:border-slate-600">
                     <div className="flex-1 min-w-0 mr-2">
                       <span className="text-sm font-mono text-slate-300 truncate block" title={file.name}>{file.name}</span>
+                      <span className="text-[10px] text-slate-500">{findFormatAdapter(file.name, file.content)?.label}</span>
                     </div>
                     <div className="flex items-center gap-2">
+                      <LanguageConfidenceBadge detection={file.langDetection} />
                       <input
                         type="text"
                         value={file.langCode}
@@ -405,6 +414,17 @@ export const CombineStringsView: React.FC<CombineStringsViewProps> = ({ onBack }
             </div>
           )}
 
+          {warnings.length > 0 && (
+            <div className="mt-4 p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg">
+              <h3 className="text-xs font-bold text-amber-400 flex items-center gap-2 mb-2">
+                <AlertTriangle size={14} /> Conversion Warnings
+              </h3>
+              <ul className="text-xs text-amber-300 space-y-1 list-disc list-inside">
+                {warnings.map((w, i) => <li key={i}>{w}</li>)}
+              </ul>
+            </div>
+          )}
+
           <div className="mt-4 flex flex-col gap-3">
             <button
               onClick={() => fileInputRef.current?.click()}
@@ -413,7 +433,7 @@ export const CombineStringsView: React.FC<CombineStringsViewProps> = ({ onBack }
               <Plus size={16} />
               <span>Add Files</span>
             </button>
-            <input type="file" ref={fileInputRef} onChange={handleFilesUpload} accept=".strings,.stringsdict,.xml" className="hidden" multiple />
+            <input type="file" ref={fileInputRef} onChange={handleFilesUpload} accept={getFormatExtensions().join(',')} className="hidden" multiple />
 
             <button
               onClick={() => handleConvert()}
@@ -1,11 +1,14 @@
 import React, { useState, useRef } from 'react';
-import { ParsedStrings } from '../types';
+import { ParsedStrings, ParsedMultiLanguageStrings, StringComments } from '../types';
 import {
-    parseStringsFile,
-    parseStringsDictFile,
-    parseAndroidXml,
     generatePropertiesFile,
+    getPropertiesLanguage,
+    generateAllStringsFiles,
+    generateIosStringCatalog,
+    findFormatConversionIssues,
+    formatFormatConversionWarning,
 } from '../services/converter';
+import { getFormatAdapters, getFormatExtensions, parseLocalizationFile } from '../services/formatRegistry';
 import {
     ArrowLeft,
     X,
@@ -13,6 +16,7 @@ import {
     Trash2,
     Upload,
     Sparkles,
+    AlertTriangle,
 } from 'lucide-react';
 import { CodeBlock } from './CodeBlock';
 import { DragDropZone } from './DragDropZone';
@@ -21,6 +25,16 @@ interface PropertiesConverterViewProps {
     onBack: () => void;
 }
 
+type ConversionDirection = 'to-properties' | 'from-properties';
+
+type ReverseOutput = 'strings' | 'catalog';
+
+interface OutputFile {
+    fileName: string;
+    content: string;
+    language: string;
+}
+
 const readFileContent = (file: File): Promise<{ name: string; content: string }> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
@@ -33,6 +47,9 @@ const readFileContent = (file: File): Promise<{ name: string; content: string }>
     });
 };
 
+// Every other format the registry reads can be converted to .properties
+const SOURCE_FORMATS = getFormatAdapters().map(adapter => adapter.id).filter(id => id !== 'properties');
+
 // --- Sample Data ---
 const SAMPLE_PROP_FILES: { name: string; content: string }[] = [
     {
@@ -60,9 +77,13 @@ const SAMPLE_PROP_FILES: { name: string; content: string }[] = [
 
 export const PropertiesConverterView: React.FC<PropertiesConverterViewProps> = ({ onBack }) => {
     const [inputFiles, setInputFiles] = useState<{ name: string, content: string }[]>([]);
-    const [outputContent, setOutputContent] = useState('');
+    const [direction, setDirection] = useState<ConversionDirection>('to-properties');
+    const [reverseOutput, setReverseOutput] = useState<ReverseOutput>('strings');
+    const [sourceLanguage, setSourceLanguage] = useState('en');
+    const [outputs, setOutputs] = useState<OutputFile[]>([]);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [warnings, setWarnings] = useState<string[]>([]);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     const processFiles = async (filesToProcess: FileList | null) => {
@@ -98,59 +119,114 @@ export const PropertiesConverterView: React.FC<PropertiesConverterViewProps> = (
         handleConvert(updatedFiles);
     };
 
-    const handleConvert = (filesToProcess: { name: string, content: string }[]) => {
+    const convertToProperties = (filesToProcess: { name: string, content: string }[], warnings: string[]): OutputFile[] => {
+        const allStrings: ParsedStrings = {};
+        for (const file of filesToProcess) {
+            const { parsed } = parseLocalizationFile({ ...file, langCode: '' }, SOURCE_FORMATS);
+            // A multi-language file such as a String Catalog is converted from its source language
+            const language = parsed.sourceLanguage || parsed.languages[0];
+            for (const [key, values] of Object.entries(parsed.data)) {
+                if (values[language] !== undefined) allStrings[key] = values[language];
+            }
+        }
+
+        if (Object.keys(allStrings).length === 0) return [];
+        warnings.push(...findFormatConversionIssues(allStrings, 'java').map(formatFormatConversionWarning));
+        return [{ fileName: 'strings.properties', content: generatePropertiesFile(allStrings), language: 'properties' }];
+    };
+
+    const convertFromProperties = (filesToProcess: { name: string, content: string }[], output: ReverseOutput, baseLanguage: string, warnings: string[]): OutputFile[] => {
+        const data: ParsedMultiLanguageStrings = {};
+        const comments: StringComments = {};
+        const languages = new Set<string>();
+        for (const file of filesToProcess) {
+            // "messages_fr.properties" holds French; the bundle without a suffix holds the source language
+            const language = getPropertiesLanguage(file.name) || baseLanguage;
+            const { parsed } = parseLocalizationFile({ ...file, langCode: language }, ['properties']);
+            languages.add(language);
+            warnings.push(...(parsed.issues || []).map(issue => `${file.name}: ${issue}`));
+            for (const [key, values] of Object.entries(parsed.data)) {
+                data[key] = { ...data[key], ...values };
+            }
+            for (const [key, comment] of Object.entries(parsed.comments)) {
+                if (!comments[key]) comments[key] = comment;
+            }
+        }
+
+        if (Object.keys(data).length === 0) return [];
+        if (output === 'catalog') {
+            return [{ fileName: 'Localizable.xcstrings', content: generateIosStringCatalog(data, baseLanguage, undefined, comments), language: 'json' }];
+        }
+        return Object.entries(generateAllStringsFiles(data, Array.from(languages), comments)).map(([fileName, content]) => ({
+            fileName,
+            content,
+            language: fileName.endsWith('.stringsdict') ? 'xml' : 'properties',
+        }));
+    };
+
+    const handleConvert = (
+        filesToProcess: { name: string, content: string }[],
+        mode: ConversionDirection = direction,
+        output: ReverseOutput = reverseOutput,
+        baseLanguage: string = sourceLanguage
+    ) => {
         if (filesToProcess.length === 0) {
-            setOutputContent('');
+            setOutputs([]);
             setError(null);
+            setWarnings([]);
             return;
         }
 
         setIsLoading(true);
         setError(null);
+        setWarnings([]);
 
         setTimeout(() => {
             try {
-                const allStrings: ParsedStrings = {};
-                for (const file of filesToProcess) {
-                    let parsed: ParsedStrings = {};
-                    if (file.name.endsWith('.strings')) {
-                        parsed = parseStringsFile(file.content);
-                    } else if (file.name.endsWith('.stringsdict')) {
-                        parsed = parseStringsDictFile(file.content);
-                    } else if (file.name.endsWith('.xml')) {
-                        parsed = parseAndroidXml(file.content);
-                    } else {
-                        // Skip unsupported files
-                        continue;
-                    }
-                    Object.assign(allStrings, parsed);
-                }
+                const conversionWarnings: string[] = [];
+                const files = mode === 'to-properties'
+                    ? convertToProperties(filesToProcess, conversionWarnings)
+                    : convertFromProperties(filesToProcess, output, baseLanguage || 'en', conversionWarnings);
 
-                if (Object.keys(allStrings).length === 0) {
+                if (files.length === 0) {
                     setError("No localizable strings found in the uploaded files.");
-                    setOutputContent('');
-                } else {
-                    setOutputContent(generatePropertiesFile(allStrings));
                 }
+                setOutputs(files);
+                setWarnings(conversionWarnings);
             } catch (e: any) {
                 setError(e.message || 'An unexpected error occurred during conversion.');
-                setOutputContent('');
+                setOutputs([]);
             } finally {
                 setIsLoading(false);
             }
         }, 300);
     };
 
+    const handleDirectionChange = (mode: ConversionDirection) => {
+        setDirection(mode);
+        setInputFiles([]);
+        setOutputs([]);
+        setError(null);
+        setWarnings([]);
+    };
+
+    const handleReverseOutputChange = (output: ReverseOutput) => {
+        setReverseOutput(output);
+        handleConvert(inputFiles, direction, output);
+    };
+
     const handleClearProject = () => {
         setInputFiles([]);
-        setOutputContent('');
+        setOutputs([]);
         setError(null);
+        setWarnings([]);
     };
 
     const handleExecuteSample = () => {
+        setDirection('to-properties');
         setInputFiles(SAMPLE_PROP_FILES);
         setError(null);
-        handleConvert(SAMPLE_PROP_FILES);
+        handleConvert(SAMPLE_PROP_FILES, 'to-properties');
     };
 
     return (
@@ -167,7 +243,7 @@ export const PropertiesConverterView: React.FC<PropertiesConverterViewProps> = (
                     <h1 className="text-2xl font-bold bg-gradient-to-r from-emerald-400 to-teal-400 bg-clip-text text-transparent">
                         Properties Converter
                     </h1>
-                    <p className="text-slate-400 text-sm">Convert iOS/Android files to Java properties</p>
+                    <p className="text-slate-400 text-sm">Convert iOS/Android files to Java properties and back</p>
                 </div>
                 <div className="ml-auto">
                     <button
@@ -184,6 +260,53 @@ export const PropertiesConverterView: React.FC<PropertiesConverterViewProps> = (
             <div className="flex-1 flex flex-col md:flex-row md:overflow-hidden">
                 {/* Input Panel */}
                 <div className="w-full md:w-1/3 md:max-w-md p-6 border-r border-slate-700 overflow-visible md:overflow-y-auto bg-slate-900/50 flex flex-col min-h-0">
+                    <div className="flex space-x-1 bg-slate-800 p-1 rounded-xl mb-6 border border-slate-700">
+                        <button
+                            onClick={() => handleDirectionChange('to-properties')}
+                            className={`flex-1 py-2 text-xs font-bold uppercase tracking-wider rounded-lg transition-all ${direction === 'to-properties' ? 'bg-slate-700 text-white shadow' : 'text-slate-400 hover:text-slate-200'}`}
+                        >
+                            To Properties
+                        </button>
+                        <button
+                            onClick={() => handleDirectionChange('from-properties')}
+                            className={`flex-1 py-2 text-xs font-bold uppercase tracking-wider rounded-lg transition-all ${direction === 'from-properties' ? 'bg-slate-700 text-white shadow' : 'text-slate-400 hover:text-slate-200'}`}
+                        >
+                            From Properties
+                        </button>
+                    </div>
+
+                    {direction === 'from-properties' && (
+                        <div className="mb-6 space-y-3">
+                            <div className="flex space-x-1 bg-slate-800 p-1 rounded-lg border border-slate-700">
+                                <button
+                                    onClick={() => handleReverseOutputChange('strings')}
+                                    className={`flex-1 py-1.5 text-xs font-semibold rounded-md transition-all ${reverseOutput === 'strings' ? 'bg-emerald-500/20 text-emerald-300' : 'text-slate-400 hover:text-slate-200'}`}
+                                >
+                                    .strings / .stringsdict
+                                </button>
+                                <button
+                                    onClick={() => handleReverseOutputChange('catalog')}
+                                    className={`flex-1 py-1.5 text-xs font-semibold rounded-md transition-all ${reverseOutput === 'catalog' ? 'bg-emerald-500/20 text-emerald-300' : 'text-slate-400 hover:text-slate-200'}`}
+                                >
+                                    String Catalog
+                                </button>
+                            </div>
+                            <div>
+                                <label className="block text-xs text-slate-500 mb-1">Language of files without a suffix (e.g. messages.properties)</label>
+                                <input
+                                    type="text"
+                                    value={sourceLanguage}
+                                    onChange={(e) => {
+                                        setSourceLanguage(e.target.value.trim());
+                                        handleConvert(inputFiles, direction, reverseOutput, e.target.value.trim());
+                                    }}
+                                    placeholder="en"
+                                    className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-sm text-slate-200 focus:outline-none focus:border-emerald-500/50"
+                                />
+                            </div>
+                        </div>
+                    )}
+
                     <div className="flex items-center justify-between mb-4">
                         <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">
                             Input Files
@@ -210,7 +333,7 @@ export const PropertiesConverterView: React.FC<PropertiesConverterViewProps> = (
                                         <Upload size={20} className="text-slate-400" />
                                     </div>
                                     <p className="text-sm font-medium text-slate-400">Drag & Drop files</p>
-                                    <p className="text-xs text-slate-600 mt-1">.strings, .stringsdict, .xml</p>
+                                    <p className="text-xs text-slate-600 mt-1">{direction === 'to-properties' ? getFormatExtensions(SOURCE_FORMATS).join(', ') : '.properties (e.g. messages_fr.properties)'}</p>
                                 </div>
                             ) : (
                                 inputFiles.map(file => (
@@ -231,6 +354,17 @@ export const PropertiesConverterView: React.FC<PropertiesConverterViewProps> = (
                         </div>
                     )}
 
+                    {warnings.length > 0 && (
+                        <div className="mt-4 p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg">
+                            <h3 className="text-xs font-bold text-amber-400 flex items-center gap-2 mb-2">
+                                <AlertTriangle size={14} /> Placeholders Kept As Written
+                            </h3>
+                            <ul className="text-xs text-amber-300 space-y-1 list-disc list-inside">
+                                {warnings.map((w, i) => <li key={i}>{w}</li>)}
+                            </ul>
+                        </div>
+                    )}
+
                     <div className="mt-4 flex flex-col gap-3">
                         <button
                             onClick={() => fileInputRef.current?.click()}
@@ -239,14 +373,14 @@ export const PropertiesConverterView: React.FC<PropertiesConverterViewProps> = (
                             <Upload size={16} />
                             <span>Add Files</span>
                         </button>
-                        <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".strings,.stringsdict,.xml" className="hidden" multiple />
+                        <input type="file" ref={fileInputRef} onChange={handleFileChange} accept={getFormatExtensions(direction === 'to-properties' ? SOURCE_FORMATS : ['properties']).join(',')} className="hidden" multiple />
 
                         <button
                             onClick={() => handleConvert(inputFiles)}
                             disabled={isLoading || inputFiles.length === 0}
                             className="w-full px-6 py-3.5 text-sm font-bold text-white bg-emerald-600 rounded-xl hover:bg-emerald-500 disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed transition-all active:scale-95 shadow-lg shadow-emerald-500/20"
                         >
-                            {isLoading ? 'Processing...' : 'Convert to Properties'}
+                            {isLoading ? 'Processing...' : direction === 'to-properties' ? 'Convert to Properties' : reverseOutput === 'catalog' ? 'Convert to String Catalog' : 'Convert to .strings'}
                         </button>
                     </div>
                 </div>
@@ -254,18 +388,22 @@ export const PropertiesConverterView: React.FC<PropertiesConverterViewProps> = (
                 {/* Output Panel */}
                 <div className="w-full md:flex-1 min-h-[500px] md:min-h-0 md:h-full overflow-visible md:overflow-y-auto bg-slate-950 p-6 flex flex-col border-t md:border-t-0 border-slate-800">
                     <h2 className="text-sm font-semibold text-slate-400 mb-3 flex-shrink-0 uppercase tracking-wider">Output Result</h2>
-                    <div className="flex-1 overflow-hidden rounded-xl border border-slate-800 bg-slate-900/50 shadow-inner relative">
-                        {outputContent ? (
-                            <CodeBlock
-                                content={outputContent}
-                                language="properties"
-                                fileName="strings.properties"
-                            />
+                    <div className="flex-1 overflow-hidden rounded-xl border border-slate-800 bg-slate-900/50 shadow-inner relative flex flex-col gap-4">
+                        {outputs.length > 0 ? (
+                            outputs.map(output => (
+                                <div key={output.fileName} className="flex-1 min-h-0">
+                                    <CodeBlock
+                                        content={output.content}
+                                        language={output.language}
+                                        fileName={output.fileName}
+                                    />
+                                </div>
+                            ))
                         ) : (
                             <div className="absolute inset-0 flex flex-col items-center justify-center text-slate-600 opacity-50">
                                 <FileJson size={48} className="mb-4" />
                                 <p className="text-lg font-medium">Ready to convert</p>
-                                <p className="text-sm">Upload files to generate properties</p>
+                                <p className="text-sm">{direction === 'to-properties' ? 'Upload files to generate properties' : 'Upload .properties files to generate iOS strings'}</p>
                             </div>
                         )}
                     </div>
@@ -24,7 +24,9 @@ import {
     Wrench,
     Palette,
     Binary,
-    Smartphone
+    Smartphone,
+    Package,
+    GitCompare
 } from 'lucide-react';
 import {
     DndContext,
@@ -474,7 +476,7 @@ const initialTools: Tool[] = [
     {
         id: 'combine',
         title: 'Combine Strings',
-        description: 'Merge multiple .strings files into a single file',
+        description: 'Combine .strings, .xml, .po and other files into one catalog',
         icon: FileCode2,
         color: 'from-blue-500 to-cyan-400',
         glowColor: '#06b6d4',
@@ -525,10 +527,19 @@ const initialTools: Tool[] = [
         glowColor: '#7c3aed',
         category: 'localization',
     },
+    {
+        id: 'catalog-diff',
+        title: 'Catalog Diff',
+        description: 'Compare two versions of a catalog key by key',
+        icon: GitCompare,
+        color: 'from-teal-500 to-cyan-400',
+        glowColor: '#14b8a6',
+        category: 'localization',
+    },
     {
         id: 'analyser',
         title: 'Strings Analyser',
-        description: 'Deep analysis for .xcstrings and .xml files',
+        description: 'Deep analysis for .xcstrings, .xml, .xliff and other files',
         icon: ScanSearch,
         color: 'from-purple-600 to-violet-400',
         glowColor: '#8b5cf6',
@@ -543,11 +554,20 @@ const initialTools: Tool[] = [
         glowColor: '#06b6d4',
         category: 'localization',
     },
+    {
+        id: 'xcloc',
+        title: 'Localization Bundles',
+        description: 'Import and export Xcode .xcloc bundles for translators',
+        icon: Package,
+        color: 'from-sky-500 to-indigo-400',
+        glowColor: '#0ea5e9',
+        category: 'localization',
+    },
     // Converters
     {
         id: 'properties',
         title: 'Properties Converter',
-        description: 'Convert .properties files to .strings format',
+        description: 'Convert between Java .properties and .strings or String Catalogs',
         icon: FileJson,
         color: 'from-emerald-500 to-teal-400',
         glowColor: '#14b8a6',
@@ -565,7 +585,7 @@ const initialTools: Tool[] = [
     {
         id: 'xml-converter',
         title: 'XML Converter',
-        description: 'Convert .strings, .stringsdict, .xcstrings to Android XML',
+        description: 'Convert .strings, .xcstrings, .xliff and more to Android XML',
         icon: FileCode2,
         color: 'from-teal-500 to-cyan-400',
         glowColor: '#22d3d1',
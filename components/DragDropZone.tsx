@@ -82,6 +82,10 @@ export const DragDropZone: React.FC<DragDropZoneProps> = ({
         if (entry.isFile) {
             return new Promise((resolve) => {
                 entry.file((file: File) => {
+                    // Files read from a dropped folder lose their path, which carries the language (fr.lproj/, values-fr/)
+                    if (!file.webkitRelativePath) {
+                        Object.defineProperty(file, 'webkitRelativePath', { value: entry.fullPath.replace(/^\//, '') });
+                    }
                     files.push(file);
                     resolve();
                 }, (err: any) => {
@@ -3,7 +3,9 @@ import React, { useState, useRef } from 'react';
 import { ArrowLeft, Copy, Upload, X, Trash2, Search, FileText, Check, Sparkles } from 'lucide-react';
 import { DragDropZone } from './DragDropZone';
 import { LanguageFile } from '../types';
+import { detectFileLanguage } from '../services/languageDetection';
 import { findDuplicates, DuplicateResult } from '../services/duplicateFinder';
+import { formatUnsupportedFilesMessage, getFormatExtensions, partitionSupportedFiles } from '../services/formatRegistry';
 
 interface DuplicateFinderViewProps {
     onBack: () => void;
@@ -30,23 +32,20 @@ const CopyButton = ({ text, className = "" }: { text: string, className?: string
     );
 };
 
-const guessLangCode = (fileName: string): string => {
-    const name = fileName.toLowerCase().replace(/\.(strings|stringsdict|xcstrings|xml|json)$/, '');
-    const lprojMatch = name.match(/([a-z]{2,3}(-[a-z0-9]+)?)\.lproj/);
-    if (lprojMatch) return lprojMatch[1];
-    const simpleMatch = name.match(/^[a-z]{2,3}(-[a-z0-9]+)?$/);
-    if (simpleMatch) return simpleMatch[0];
-    return '';
-}
-
 const readFile = (file: File): Promise<LanguageFile> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
-        reader.onload = () => resolve({
-            name: file.name,
-            content: reader.result as string,
-            langCode: guessLangCode(file.name),
-        });
+        reader.onload = () => {
+            const content = reader.result as string;
+            // Files from a dropped folder keep their path, so "values-fr/strings.xml" and
+            // "values-de/strings.xml" stay apart and the folder tells their language
+            const name = file.webkitRelativePath || file.name;
+            resolve({
+                name,
+                content,
+                langCode: detectFileLanguage(name, content)?.langCode || '',
+            });
+        };
         reader.onerror = (err) => reject(err);
         reader.readAsText(file);
     });
@@ -96,6 +95,7 @@ const SAMPLE_DUP_FILES: LanguageFile[] = [
 export const DuplicateFinderView: React.FC<DuplicateFinderViewProps> = ({ onBack }) => {
     const [files, setFiles] = useState<LanguageFile[]>([]);
     const [duplicates, setDuplicates] = useState<DuplicateResult[]>([]);
+    const [error, setError] = useState<string | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     const handleFilesChange = (newFiles: LanguageFile[]) => {
@@ -112,9 +112,10 @@ export const DuplicateFinderView: React.FC<DuplicateFinderViewProps> = ({ onBack
         if (!selectedFiles || selectedFiles.length === 0) return;
         try {
             const promises = Array.from(selectedFiles).map(readFile);
-            const newlyReadFiles = await Promise.all(promises);
+            const { supported, unsupported } = partitionSupportedFiles(await Promise.all(promises));
+            setError(unsupported.length > 0 ? formatUnsupportedFilesMessage(unsupported) : null);
             const existingFileNames = new Set(files.map(f => f.name));
-            const uniqueNewFiles = newlyReadFiles.filter(f => !existingFileNames.has(f.name));
+            const uniqueNewFiles = supported.filter(f => !existingFileNames.has(f.name));
 
             if (uniqueNewFiles.length > 0) {
                 handleFilesChange([...files, ...uniqueNewFiles]);
@@ -209,7 +210,7 @@ export const DuplicateFinderView: React.FC<DuplicateFinderViewProps> = ({ onBack
                                 onChange={handleFileSelect}
                                 className="hidden"
                                 multiple
-                                accept=".strings,.stringsdict,.xcstrings,.xml,.json"
+                                accept={getFormatExtensions().join(',')}
                             />
                             <div className="w-16 h-16 bg-slate-800 rounded-full flex items-center justify-center mb-4 shadow-lg">
                                 <Upload size={24} className="text-teal-400" />
@@ -221,6 +222,12 @@ export const DuplicateFinderView: React.FC<DuplicateFinderViewProps> = ({ onBack
                         </div>
                     </DragDropZone>
 
+                    {error && (
+                        <div className="mb-4 p-3 bg-rose-500/10 border border-rose-500/20 rounded-lg">
+                            <p className="text-xs text-rose-300">{error}</p>
+                        </div>
+                    )}
+
                     {/* File List */}
                     <div className="flex-1 overflow-y-auto pr-2 space-y-2 custom-scrollbar">
                         {files.map(file => (
@@ -1,11 +1,17 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   parseStringCatalog,
   generateAllStringsFiles,
   generateAllAndroidXml,
+  generateXliffFiles,
+  generateAllPoFiles,
+  findAllFormatConversionIssues,
+  formatFormatConversionWarning,
 } from '../services/converter';
+import { generateSpreadsheet, getCatalogKeyStates, importSpreadsheetIntoCatalog, SpreadsheetImportResult } from '../services/spreadsheet';
+import { pseudoLocalizeCatalog, PseudoLocale, PSEUDO_LOCALES } from '../services/pseudoLocalization';
 import { OutputFormat, LanguageFile } from '../types';
-import { Save, FolderOpen, Trash2, ArrowLeft, FileOutput, X, Download, Sparkles } from 'lucide-react';
+import { Save, FolderOpen, Trash2, ArrowLeft, FileOutput, X, Download, Sparkles, AlertTriangle, Upload } from 'lucide-react';
 import JSZip from 'jszip';
 import { DragDropZone } from './DragDropZone';
 
@@ -88,7 +94,14 @@ export const ExtractCatalogView: React.FC<ExtractCatalogViewProps> = ({ onBack }
   const [catalogFile, setCatalogFile] = useState<LanguageFile | null>(null);
   const [generatedStrings, setGeneratedStrings] = useState<Record<string, string>>({});
   const [androidOutputs, setAndroidOutputs] = useState<Record<string, string>>({});
+  const [xliffOutputs, setXliffOutputs] = useState<Record<string, string>>({});
+  const [gettextOutputs, setGettextOutputs] = useState<Record<string, string>>({});
+  const [spreadsheetOutputs, setSpreadsheetOutputs] = useState<Record<string, string>>({});
+  const [spreadsheetImport, setSpreadsheetImport] = useState<SpreadsheetImportResult | null>(null);
+  const [androidWarnings, setAndroidWarnings] = useState<string[]>([]);
   const [activeTab, setActiveTab] = useState<OutputFormat>(OutputFormat.IOS);
+  const [pseudoLocales, setPseudoLocales] = useState<PseudoLocale[]>(['en-XA', 'ar-XB']);
+  const [pseudoExpansion, setPseudoExpansion] = useState(30);
 
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -106,6 +119,11 @@ export const ExtractCatalogView: React.FC<ExtractCatalogViewProps> = ({ onBack }
   const clearAllOutputs = () => {
     setGeneratedStrings({});
     setAndroidOutputs({});
+    setXliffOutputs({});
+    setGettextOutputs({});
+    setSpreadsheetOutputs({});
+    setSpreadsheetImport(null);
+    setAndroidWarnings([]);
   }
 
   const handleConvert = (catalog?: LanguageFile | null) => {
@@ -117,9 +135,18 @@ export const ExtractCatalogView: React.FC<ExtractCatalogViewProps> = ({ onBack }
       try {
         const fileToProcess = catalog || catalogFile;
         if (!fileToProcess) return;
-        const { parsedData, languages } = parseStringCatalog(fileToProcess.content);
-        setGeneratedStrings(generateAllStringsFiles(parsedData, languages));
-        setAndroidOutputs(generateAllAndroidXml(parsedData, languages));
+        const { parsedData, comments, languages, nonTranslatableKeys } = parseStringCatalog(fileToProcess.content);
+        setGeneratedStrings(generateAllStringsFiles(parsedData, languages, comments));
+        setAndroidOutputs(generateAllAndroidXml(parsedData, languages, comments, undefined, nonTranslatableKeys));
+        setAndroidWarnings(findAllFormatConversionIssues(parsedData, languages, 'android').map(formatFormatConversionWarning));
+        setXliffOutputs(generateXliffFiles(fileToProcess.content, fileToProcess.name));
+        setGettextOutputs(generateAllPoFiles(parsedData, languages, comments));
+        const states = getCatalogKeyStates(fileToProcess.content);
+        const baseName = fileToProcess.name.replace(/\.xcstrings$/, '');
+        setSpreadsheetOutputs({
+          [`${baseName}.csv`]: generateSpreadsheet(parsedData, languages, 'csv', comments, states),
+          [`${baseName}.tsv`]: generateSpreadsheet(parsedData, languages, 'tsv', comments, states),
+        });
       } catch (e: any) {
         setError(e.message || 'An unexpected error occurred during conversion.');
       } finally {
@@ -138,7 +165,13 @@ export const ExtractCatalogView: React.FC<ExtractCatalogViewProps> = ({ onBack }
       catalogFile,
       generatedStrings,
       androidOutputs,
+      xliffOutputs,
+      gettextOutputs,
+      spreadsheetOutputs,
+      androidWarnings,
       activeTab,
+      pseudoLocales,
+      pseudoExpansion,
     };
     localStorage.setItem(PROJECT_STORAGE_KEY, JSON.stringify(projectData));
     setHasSavedProject(true);
@@ -154,7 +187,14 @@ export const ExtractCatalogView: React.FC<ExtractCatalogViewProps> = ({ onBack }
         setCatalogFile(data.catalogFile || null);
         setGeneratedStrings(data.generatedStrings || {});
         setAndroidOutputs(data.androidOutputs || {});
+        setXliffOutputs(data.xliffOutputs || {});
+        setGettextOutputs(data.gettextOutputs || {});
+        setSpreadsheetOutputs(data.spreadsheetOutputs || {});
+        setSpreadsheetImport(null);
+        setAndroidWarnings(data.androidWarnings || []);
         setActiveTab(data.activeTab || OutputFormat.IOS);
+        setPseudoLocales(data.pseudoLocales || ['en-XA', 'ar-XB']);
+        setPseudoExpansion(data.pseudoExpansion ?? 30);
         setError(null);
       } catch (e) {
         setError("Failed to load project. The saved data might be corrupted.");
@@ -198,16 +238,35 @@ export const ExtractCatalogView: React.FC<ExtractCatalogViewProps> = ({ onBack }
 
 
 
+  // The pseudo-localized catalog follows its options as they are edited, so it is derived rather than converted
+  const pseudoOutput = useMemo(() => {
+    if (!catalogFile || pseudoLocales.length === 0) return { outputs: {} };
+    try {
+      return { outputs: { [catalogFile.name]: pseudoLocalizeCatalog(catalogFile.content, pseudoLocales, { expansion: pseudoExpansion }) } };
+    } catch (e: any) {
+      return { outputs: {}, error: e.message as string };
+    }
+  }, [catalogFile, pseudoLocales, pseudoExpansion]);
+
+  // Outputs of the tabs that list plain files by name
+  const getFileOutputs = () => {
+    if (activeTab === OutputFormat.XLIFF) return xliffOutputs;
+    if (activeTab === OutputFormat.GETTEXT) return gettextOutputs;
+    if (activeTab === OutputFormat.SPREADSHEET) return spreadsheetOutputs;
+    if (activeTab === OutputFormat.PSEUDO) return pseudoOutput.outputs;
+    return generatedStrings;
+  };
+
   const handleDownloadAll = async () => {
     const zip = new JSZip();
-    const isIOS = activeTab === OutputFormat.IOS;
-    const sourceData = isIOS ? generatedStrings : androidOutputs;
+    const isAndroid = activeTab === OutputFormat.ANDROID;
+    const sourceData = isAndroid ? androidOutputs : getFileOutputs();
 
     if (Object.keys(sourceData).length === 0) return;
 
     Object.entries(sourceData).forEach(([filename, content]) => {
       // For Android, filename key is language code, we need to construct path
-      if (!isIOS) {
+      if (isAndroid) {
         zip.file(`values-${filename}/strings.xml`, content as string);
       } else {
         zip.file(filename, content as string);
@@ -219,7 +278,7 @@ export const ExtractCatalogView: React.FC<ExtractCatalogViewProps> = ({ onBack }
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = isIOS ? 'ios-strings.zip' : 'android-strings.zip';
+      a.download = isAndroid ? 'android-strings.zip' : activeTab === OutputFormat.XLIFF ? 'xliff.zip' : activeTab === OutputFormat.GETTEXT ? 'gettext.zip' : activeTab === OutputFormat.SPREADSHEET ? 'spreadsheet.zip' : activeTab === OutputFormat.PSEUDO ? 'pseudo-localization.zip' : 'ios-strings.zip';
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -230,6 +289,145 @@ export const ExtractCatalogView: React.FC<ExtractCatalogViewProps> = ({ onBack }
     }
   };
 
+  const handleSpreadsheetImport = (file: File) => {
+    if (!catalogFile) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        setError(null);
+        const format = file.name.toLowerCase().endsWith('.tsv') ? 'tsv' : 'csv';
+        setSpreadsheetImport(importSpreadsheetIntoCatalog(catalogFile.content, e.target?.result as string, format));
+      } catch (e: any) {
+        setSpreadsheetImport(null);
+        setError(e.message || 'Failed to apply the spreadsheet.');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleUseImportedCatalog = () => {
+    if (!catalogFile || !spreadsheetImport) return;
+    handleCatalogFileChange({ ...catalogFile, content: spreadsheetImport.content });
+  };
+
+  const renderSpreadsheetImport = () => (
+    <div className="mb-6 p-3 bg-slate-800/50 border border-slate-700 rounded-lg">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h3 className="text-xs font-bold text-slate-300">Apply Edited Spreadsheet</h3>
+          <p className="text-[11px] text-slate-500">Upload the reviewed .csv or .tsv to write its edits back onto {catalogFile?.name || 'the catalog'}.</p>
+        </div>
+        <label className="flex items-center space-x-1 px-2 py-1 text-[10px] font-bold text-slate-300 bg-slate-700 border border-slate-600 rounded hover:bg-slate-600 transition-all active:scale-95 cursor-pointer flex-shrink-0">
+          <Upload size={12} />
+          <span>Upload</span>
+          <input
+            type="file"
+            className="hidden"
+            accept=".csv,.tsv"
+            disabled={!catalogFile}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleSpreadsheetImport(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+
+      {spreadsheetImport && (
+        <div className="mt-3 pt-3 border-t border-slate-700">
+          <div className="flex items-center justify-between gap-3 mb-2">
+            <p className="text-xs text-slate-300">
+              <span className="text-emerald-400 font-bold">{spreadsheetImport.changed.length}</span> changed,{' '}
+              <span className="text-sky-400 font-bold">{spreadsheetImport.added.length}</span> added,{' '}
+              <span className={`${spreadsheetImport.invalid.length > 0 ? 'text-amber-400' : 'text-slate-400'} font-bold`}>{spreadsheetImport.invalid.length}</span> invalid
+            </p>
+            {(spreadsheetImport.changed.length > 0 || spreadsheetImport.added.length > 0) && (
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={handleUseImportedCatalog}
+                  className="px-2 py-1 text-[10px] font-bold text-slate-300 bg-slate-700 border border-slate-600 rounded hover:bg-slate-600 transition-all active:scale-95"
+                  title="Replace the source catalog with the updated one and extract again"
+                >
+                  Use as Source
+                </button>
+                <button
+                  onClick={() => handleDownload(spreadsheetImport.content, catalogFile?.name || 'Localizable.xcstrings')}
+                  className="flex items-center space-x-1 px-2 py-1 text-[10px] font-bold text-white bg-teal-600 rounded hover:bg-teal-500 transition-all active:scale-95"
+                >
+                  <Download size={12} />
+                  <span>Updated Catalog</span>
+                </button>
+              </div>
+            )}
+          </div>
+          {[...spreadsheetImport.changed, ...spreadsheetImport.added].length > 0 && (
+            <ul className="text-[11px] text-slate-400 space-y-0.5 max-h-32 overflow-y-auto custom-scrollbar font-mono">
+              {[...spreadsheetImport.changed, ...spreadsheetImport.added].sort((a, b) => a.row - b.row).map((change, i) => (
+                <li key={i}>Row {change.row} · {change.rowKey} ({change.column}): {change.previous !== undefined ? `"${change.previous}" → ` : '+ '}"{change.value}"</li>
+              ))}
+            </ul>
+          )}
+          {spreadsheetImport.invalid.length > 0 && (
+            <div className="mt-3 p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg">
+              <h3 className="text-xs font-bold text-amber-400 flex items-center gap-2 mb-2">
+                <AlertTriangle size={14} /> Cells Not Applied
+              </h3>
+              <ul className="text-xs text-amber-300 space-y-1 list-disc list-inside">
+                {spreadsheetImport.invalid.map((issue, i) => (
+                  <li key={i}>Row {issue.row}{issue.rowKey ? ` · ${issue.rowKey}` : ''}{issue.column ? ` (${issue.column})` : ''}: {issue.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  const togglePseudoLocale = (locale: PseudoLocale) => {
+    setPseudoLocales(pseudoLocales.includes(locale)
+      ? pseudoLocales.filter(selected => selected !== locale)
+      : PSEUDO_LOCALES.map(option => option.id).filter(id => id === locale || pseudoLocales.includes(id)));
+  };
+
+  const renderPseudoOptions = () => (
+    <div className="mb-6 p-3 bg-slate-800/50 border border-slate-700 rounded-lg">
+      <h3 className="text-xs font-bold text-slate-300">Pseudo-Languages</h3>
+      <p className="text-[11px] text-slate-500 mb-3">Adds synthetic languages generated from {catalogFile?.name || 'the catalog'}'s source language. Placeholders, plural cases and Markdown are kept as they are.</p>
+      <div className="flex flex-wrap items-center gap-4">
+        {PSEUDO_LOCALES.map(option => (
+          <label key={option.id} className="flex items-center space-x-2 text-xs text-slate-300 cursor-pointer" title={option.description}>
+            <input
+              type="checkbox"
+              checked={pseudoLocales.includes(option.id)}
+              onChange={() => togglePseudoLocale(option.id)}
+              className="accent-rose-500"
+            />
+            <span>{option.label}</span>
+          </label>
+        ))}
+        <label className="flex items-center space-x-2 text-xs text-slate-300" title="How much longer the en-XA texts are made">
+          <span>Expansion</span>
+          <input
+            type="number"
+            min={0}
+            max={200}
+            step={5}
+            value={pseudoExpansion}
+            onChange={(e) => setPseudoExpansion(Math.max(0, Number(e.target.value) || 0))}
+            disabled={!pseudoLocales.includes('en-XA')}
+            className="w-16 px-2 py-1 bg-slate-900 border border-slate-700 rounded text-slate-200 focus:outline-none focus:border-rose-500 disabled:opacity-50"
+          />
+          <span>%</span>
+        </label>
+      </div>
+      {pseudoOutput.error && (
+        <p className="mt-3 text-xs text-rose-400 flex items-center gap-2"><AlertTriangle size={14} /> {pseudoOutput.error}</p>
+      )}
+    </div>
+  );
+
   const renderOutputContent = () => {
     if (!generatedStrings && Object.keys(androidOutputs).length === 0) {
       return (
@@ -241,11 +439,14 @@ export const ExtractCatalogView: React.FC<ExtractCatalogViewProps> = ({ onBack }
       );
     }
 
-    if (activeTab === OutputFormat.IOS) {
+    if (activeTab !== OutputFormat.ANDROID) {
+      const files = getFileOutputs();
       return (
         <div className="h-full overflow-y-auto custom-scrollbar p-1">
-          {Object.entries(generatedStrings).length > 0 ? (
-            Object.entries(generatedStrings).map(([fileName, content]) => (
+          {activeTab === OutputFormat.SPREADSHEET && catalogFile && renderSpreadsheetImport()}
+          {activeTab === OutputFormat.PSEUDO && catalogFile && renderPseudoOptions()}
+          {Object.entries(files).length > 0 ? (
+            Object.entries(files).map(([fileName, content]) => (
               <div key={fileName} className="mb-6">
                 <div className="flex items-center justify-between mb-2">
                   <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wide flex items-center">
@@ -270,13 +471,25 @@ export const ExtractCatalogView: React.FC<ExtractCatalogViewProps> = ({ onBack }
               </div>
             ))
           ) : (
-            <div className="p-4 text-center text-slate-500">No iOS strings generated.</div>
+            <div className="p-4 text-center text-slate-500">
+              {activeTab === OutputFormat.XLIFF ? 'No XLIFF files generated. The catalog has no target languages.' : activeTab === OutputFormat.GETTEXT ? 'No gettext files generated.' : activeTab === OutputFormat.SPREADSHEET ? 'No spreadsheet generated.' : activeTab === OutputFormat.PSEUDO ? (catalogFile && pseudoLocales.length === 0 ? 'Select at least one pseudo-language.' : 'No pseudo-localized catalog generated.') : 'No iOS strings generated.'}
+            </div>
           )}
         </div>
       )
     } else {
       return (
         <div className="h-full overflow-y-auto custom-scrollbar p-1">
+          {androidWarnings.length > 0 && (
+            <div className="mb-6 p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg">
+              <h3 className="text-xs font-bold text-amber-400 flex items-center gap-2 mb-2">
+                <AlertTriangle size={14} /> Placeholders Without an Android Equivalent
+              </h3>
+              <ul className="text-xs text-amber-300 space-y-1 list-disc list-inside">
+                {androidWarnings.map((w, i) => <li key={i}>{w}</li>)}
+              </ul>
+            </div>
+          )}
           {Object.entries(androidOutputs).length > 0 ? (
             Object.entries(androidOutputs).map(([lang, content]) => (
               <div key={lang} className="mb-6">
@@ -444,6 +657,30 @@ export const ExtractCatalogView: React.FC<ExtractCatalogViewProps> = ({ onBack }
                 >
                   Android (.xml)
                 </button>
+                <button
+                  onClick={() => setActiveTab(OutputFormat.XLIFF)}
+                  className={`px-4 py-1.5 rounded-md text-xs font-medium transition-all ${activeTab === OutputFormat.XLIFF ? 'bg-amber-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                >
+                  XLIFF (.xliff)
+                </button>
+                <button
+                  onClick={() => setActiveTab(OutputFormat.GETTEXT)}
+                  className={`px-4 py-1.5 rounded-md text-xs font-medium transition-all ${activeTab === OutputFormat.GETTEXT ? 'bg-sky-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                >
+                  Gettext (.po)
+                </button>
+                <button
+                  onClick={() => setActiveTab(OutputFormat.SPREADSHEET)}
+                  className={`px-4 py-1.5 rounded-md text-xs font-medium transition-all ${activeTab === OutputFormat.SPREADSHEET ? 'bg-teal-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                >
+                  Spreadsheet (.csv)
+                </button>
+                <button
+                  onClick={() => setActiveTab(OutputFormat.PSEUDO)}
+                  className={`px-4 py-1.5 rounded-md text-xs font-medium transition-all ${activeTab === OutputFormat.PSEUDO ? 'bg-rose-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                >
+                  Pseudo (.xcstrings)
+                </button>
               </div>
             </div>
           </div>
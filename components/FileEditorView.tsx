@@ -3,9 +3,19 @@ import {
   ArrowLeft, X, Download, Search, Upload, ChevronUp, ChevronDown,
   CaseSensitive, Regex, WholeWord, RotateCcw, RotateCw, Info,
   AlertTriangle, Check, Code, Columns, FileText, Plus, Hash,
-  Copy, Scissors, Trash2, ClipboardPaste, CopyPlus, Languages, CheckSquare, Square, Zap, Loader2
+  Copy, Scissors, Trash2, ClipboardPaste, CopyPlus, Languages, CheckSquare, Square, Zap, Loader2, Database
 } from 'lucide-react';
 import { DragDropZone } from './DragDropZone';
+import { TranslationMemoryDialog } from './TranslationMemoryDialog';
+import { parseStringCatalogDocument, serializeStringCatalogDocument, quoteXcodeJsonString } from '../services/stringCatalog';
+import { parseStringsEntries } from '../services/stringsParser';
+import { validateCatalogPlaceholders } from '../services/placeholderValidator';
+import { translationMemoryStore } from '../services/translationMemoryStore';
+import { checkGlossary, Glossary } from '../services/glossary';
+import { findFormatAdapter } from '../services/formatRegistry';
+import { glossaryStore } from '../services/glossaryStore';
+import { detectFileLanguage } from '../services/languageDetection';
+import { LANGUAGES } from '../constants/languages';
 
 interface FileEditorViewProps {
   onBack: () => void;
@@ -14,6 +24,8 @@ interface FileEditorViewProps {
 interface LoadedFile {
   id: string;
   name: string;
+  // Language of a single-language file, from its folder or name or picked by the user; empty when unknown
+  langCode: string;
   originalContent: string;
   content: string;
 }
@@ -25,7 +37,10 @@ interface HistoryState {
 
 interface ValidationError {
   line: number;
+  column?: number;
   message: string;
+  /** Warnings, such as glossary violations, are shown but do not make the file invalid. */
+  severity?: 'warning';
 }
 
 // Large file threshold — files above this size activate performance mode
@@ -89,14 +104,69 @@ const getLanguageDisplayName = (code: string): string => {
   }
 };
 
+// Line of a JSON property path such as ["strings", "Hello", "localizations", "fr", "plural", "few"],
+// found by searching each property after the previous one
+const findJsonPropertyLine = (content: string, path: string[]): number => {
+  let index = 0;
+  for (const property of path) {
+    const quoted = quoteXcodeJsonString(property).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(`${quoted}\\s*:`, 'g');
+    pattern.lastIndex = index;
+    const match = pattern.exec(content);
+    if (!match) break;
+    index = match.index;
+  }
+  return (content.substring(0, index).match(/\n/g) || []).length + 1;
+};
+
+// Translations whose placeholders differ from the source language would crash String(format:)
+const validateCatalogContent = (content: string): ValidationError[] => {
+  let issues;
+  try {
+    issues = validateCatalogPlaceholders(parseStringCatalogDocument(content));
+  } catch {
+    return [];
+  }
+  return issues.map(issue => ({
+    line: findJsonPropertyLine(content, ['strings', issue.key, 'localizations', issue.langCode, ...issue.path.split('.').filter(Boolean)]),
+    message: `Placeholder mismatch in "${issue.key}" (${issue.langCode}${issue.path ? `, ${issue.path}` : ''}): ${issue.message}`,
+  }));
+};
+
+// Line of a key in a single-language file: the `"key" =` of a .strings file or the `name="key"` of Android XML
+const findKeyLine = (content: string, fileType: string, key: string): number => {
+  if (fileType === 'strings') {
+    return parseStringsEntries(content).entries.find(entry => entry.key === key)?.line ?? 1;
+  }
+  const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = new RegExp(fileType === 'xml' ? `name="${escaped}"` : `"${escaped}"\\s*:`).exec(content);
+  return match ? (content.substring(0, match.index).match(/\n/g) || []).length + 1 : 1;
+};
+
+// Translations that break the glossary. A single-language file has no source texts, so a translation is only
+// checked for terms left untranslated, and a file in the glossary's source language has nothing to check.
+const validateGlossaryContent = (content: string, fileType: string, fileName: string, langCode: string, glossary: Glossary): ValidationError[] => {
+  if (glossary.terms.length === 0 || !findFormatAdapter(fileName, content)) return [];
+  return checkGlossary([{ name: fileName, content, langCode }], glossary).map(issue => ({
+    line: isXcstringsFile(fileName)
+      ? findJsonPropertyLine(content, ['strings', issue.key, 'localizations', issue.langCode, ...issue.path.split('.').filter(Boolean)])
+      : findKeyLine(content, fileType, issue.key),
+    message: `Glossary: ${issue.message} in "${issue.key}" (${issue.langCode}${issue.path ? `, ${issue.path}` : ''})`,
+    severity: 'warning' as const,
+  }));
+};
+
 // Validate content based on file type
-const validateContent = (content: string, fileType: string): ValidationError[] => {
+const validateContent = (content: string, fileType: string, fileName: string = '', glossary?: Glossary, langCode: string = ''): ValidationError[] => {
   const errors: ValidationError[] = [];
+  let isParsed = true;
 
   if (fileType === 'json') {
     try {
       JSON.parse(content);
+      if (isXcstringsFile(fileName)) errors.push(...validateCatalogContent(content));
     } catch (e: unknown) {
+      isParsed = false;
       const error = e as Error;
       const match = error.message.match(/position (\d+)/);
       let line = 1;
@@ -133,19 +203,16 @@ const validateContent = (content: string, fileType: string): ValidationError[] =
     if (openTags.length > 0) {
       errors.push({ line: lines.length, message: `Unclosed tags: ${openTags.join(', ')}` });
     }
+    isParsed = errors.length === 0;
   } else if (fileType === 'strings') {
-    // Basic .strings validation
-    const lines = content.split('\n');
-    lines.forEach((line, idx) => {
-      const trimmed = line.trim();
-      if (trimmed && !trimmed.startsWith('//') && !trimmed.startsWith('/*')) {
-        if (trimmed.includes('=') && !trimmed.match(/^\s*"[^"]*"\s*=\s*".*";\s*$/)) {
-          if (!trimmed.endsWith(';') && !trimmed.startsWith('/*')) {
-            errors.push({ line: idx + 1, message: 'Line should end with semicolon' });
-          }
-        }
-      }
+    parseStringsEntries(content).errors.forEach(error => {
+      errors.push({ line: error.line, column: error.column, message: error.message });
     });
+    isParsed = errors.length === 0;
+  }
+
+  if (glossary && isParsed && ['json', 'xml', 'strings'].includes(fileType)) {
+    errors.push(...validateGlossaryContent(content, fileType, fileName, langCode, glossary));
   }
 
   return errors;
@@ -181,8 +248,7 @@ const countKeys = (content: string, fileType: string): number => {
       return 0;
     }
   } else if (fileType === 'strings') {
-    const matches = content.match(/^\s*"[^"]+"\s*=/gm);
-    return matches ? matches.length : 0;
+    return parseStringsEntries(content).entries.length;
   }
   return 0;
 };
@@ -374,6 +440,7 @@ export const FileEditorView: React.FC<FileEditorViewProps> = ({ onBack }) => {
 
   // Delete Languages state
   const [showDeleteLanguages, setShowDeleteLanguages] = useState(false);
+  const [showTranslationMemory, setShowTranslationMemory] = useState(false);
   const [selectedLanguages, setSelectedLanguages] = useState<Set<string>>(new Set());
   const [deletionComplete, setDeletionComplete] = useState(false);
   const [deletedCount, setDeletedCount] = useState(0);
@@ -403,11 +470,14 @@ export const FileEditorView: React.FC<FileEditorViewProps> = ({ onBack }) => {
   const [debouncedValidationErrors, setDebouncedValidationErrors] = useState<ValidationError[]>([]);
   const [debouncedFileStats, setDebouncedFileStats] = useState({ lines: 0, chars: 0, words: 0, keys: 0, size: 0 });
 
+  // The glossary is edited in the Strings Analyser; reading it per file picks up its changes
+  const glossary = useMemo(() => glossaryStore.load(), [activeFileId]);
+
   // Validation errors — synchronous for small files, debounced for large
   const syncValidationErrors = useMemo(() => {
     if (isLargeFile || !activeFile) return [];
-    return validateContent(editedContent, fileType);
-  }, [editedContent, fileType, activeFile, isLargeFile]);
+    return validateContent(editedContent, fileType, activeFile.name, glossary, activeFile.langCode);
+  }, [editedContent, fileType, activeFile, isLargeFile, glossary]);
 
   useEffect(() => {
     if (!isLargeFile || !activeFile) {
@@ -415,13 +485,25 @@ export const FileEditorView: React.FC<FileEditorViewProps> = ({ onBack }) => {
       return;
     }
     const timeoutId = setTimeout(() => {
-      setDebouncedValidationErrors(validateContent(editedContent, fileType));
+      setDebouncedValidationErrors(validateContent(editedContent, fileType, activeFile.name, glossary, activeFile.langCode));
     }, 1500);
     return () => clearTimeout(timeoutId);
-  }, [editedContent, fileType, activeFile, isLargeFile]);
+  }, [editedContent, fileType, activeFile, isLargeFile, glossary]);
 
   const validationErrors = isLargeFile ? debouncedValidationErrors : syncValidationErrors;
 
+  // Messages by line, shown inline next to the line numbers
+  const errorsByLine = useMemo(() => {
+    const byLine = new Map<number, string[]>();
+    validationErrors.forEach(err => byLine.set(err.line, [...(byLine.get(err.line) || []), err.message]));
+    return byLine;
+  }, [validationErrors]);
+
+  // Lines with at least one error rather than only warnings
+  const errorLines = useMemo(() => new Set(validationErrors.filter(err => err.severity !== 'warning').map(err => err.line)), [validationErrors]);
+  const errorCount = validationErrors.filter(err => err.severity !== 'warning').length;
+  const warningCount = validationErrors.length - errorCount;
+
   // File statistics — synchronous for small files, debounced for large
   const syncFileStats = useMemo(() => {
     if (isLargeFile) return { lines: 0, chars: 0, words: 0, keys: 0, size: 0 };
@@ -469,6 +551,13 @@ export const FileEditorView: React.FC<FileEditorViewProps> = ({ onBack }) => {
     ));
   }, [activeFileId]);
 
+  // The glossary check needs the language of single-language files the folder or name did not give away
+  const setActiveFileLanguage = (langCode: string) => {
+    setOpenFiles(prev => prev.map(f =>
+      f.id === activeFileId ? { ...f, langCode } : f
+    ));
+  };
+
   // Initialize history when file opens
   useEffect(() => {
     if (activeFile && !history.has(activeFile.id)) {
@@ -649,10 +738,12 @@ export const FileEditorView: React.FC<FileEditorViewProps> = ({ onBack }) => {
       const newFile: LoadedFile = {
         id: generateId(),
         name: selectedFile.name,
+        langCode: detectFileLanguage(selectedFile.webkitRelativePath || selectedFile.name, content)?.langCode || '',
         originalContent: content,
         content: content,
       };
       setUploadProgress(prev => prev ? { ...prev, percent: 100 } : null);
+      translationMemoryStore.addFiles([{ name: selectedFile.name, content, langCode: '' }]);
       // Brief delay to show 100% before clearing
       setTimeout(() => {
         setOpenFiles(prev => [...prev, newFile]);
@@ -696,6 +787,7 @@ export const FileEditorView: React.FC<FileEditorViewProps> = ({ onBack }) => {
     setOpenFiles(prev => prev.map(f =>
       f.id === activeFile.id ? { ...f, originalContent: editedContent } : f
     ));
+    translationMemoryStore.addFiles([{ name: activeFile.name, content: editedContent, langCode: '' }]);
   };
 
   const handleCloseFile = (fileId: string) => {
@@ -862,7 +954,14 @@ export const FileEditorView: React.FC<FileEditorViewProps> = ({ onBack }) => {
   };
 
   const handleFormat = () => {
-    const formatted = formatContent(editedContent, fileType);
+    let formatted = formatContent(editedContent, fileType);
+    if (activeFile && isXcstringsFile(activeFile.name)) {
+      try {
+        formatted = serializeStringCatalogDocument(parseStringCatalogDocument(editedContent));
+      } catch {
+        // Not a valid catalog yet; keep the generic JSON formatting
+      }
+    }
     if (formatted !== editedContent) {
       setEditedContent(formatted);
     }
@@ -908,7 +1007,7 @@ export const FileEditorView: React.FC<FileEditorViewProps> = ({ onBack }) => {
     if (!activeFile || selectedLanguages.size === 0) return;
 
     try {
-      const parsed = JSON.parse(editedContent);
+      const parsed = parseStringCatalogDocument(editedContent);
 
       if (parsed.strings && typeof parsed.strings === 'object') {
         const allKeys = Object.keys(parsed.strings);
@@ -942,7 +1041,7 @@ export const FileEditorView: React.FC<FileEditorViewProps> = ({ onBack }) => {
           } else {
             // All done — finalize
             setTimeout(() => {
-              const updatedJson = JSON.stringify(parsed, null, 2);
+              const updatedJson = serializeStringCatalogDocument(parsed);
               setEditedContent(updatedJson);
               setDeletedCount(selectedLanguages.size);
               setDeletionProgress(null);
@@ -1074,7 +1173,12 @@ export const FileEditorView: React.FC<FileEditorViewProps> = ({ onBack }) => {
       return (
         <>
           {Array.from({ length: totalLineCount }, (_, i) => (
-            <div key={i} className="text-right pr-3 text-slate-500 select-none" style={{ height: lineHeight }}>
+            <div
+              key={i}
+              className={`text-right pr-3 select-none ${errorLines.has(i + 1) ? 'text-rose-400 bg-rose-500/20' : errorsByLine.has(i + 1) ? 'text-amber-400 bg-amber-500/20' : 'text-slate-500'}`}
+              style={{ height: lineHeight }}
+              title={errorsByLine.get(i + 1)?.join('\n')}
+            >
               {i + 1}
             </div>
           ))}
@@ -1096,8 +1200,9 @@ export const FileEditorView: React.FC<FileEditorViewProps> = ({ onBack }) => {
           return (
             <div
               key={lineNum}
-              className="text-right pr-3 text-slate-500 select-none"
+              className={`text-right pr-3 select-none ${errorLines.has(lineNum + 1) ? 'text-rose-400 bg-rose-500/20' : errorsByLine.has(lineNum + 1) ? 'text-amber-400 bg-amber-500/20' : 'text-slate-500'}`}
               style={{ height: lineHeight, position: 'absolute', top: lineNum * lineHeight, right: 0, left: 0 }}
+              title={errorsByLine.get(lineNum + 1)?.join('\n')}
             >
               {lineNum + 1}
             </div>
@@ -1105,7 +1210,7 @@ export const FileEditorView: React.FC<FileEditorViewProps> = ({ onBack }) => {
         })}
       </div>
     );
-  }, [editedContent, lineHeight, isLargeFile, editorScrollTop, editorHeight, totalLineCount]);
+  }, [editedContent, lineHeight, isLargeFile, editorScrollTop, editorHeight, totalLineCount, errorsByLine, errorLines]);
 
   // Diff view — fast index-based comparison + virtualized rendering
   const [diffScrollTop, setDiffScrollTop] = useState(0);
@@ -1406,6 +1511,20 @@ export const FileEditorView: React.FC<FileEditorViewProps> = ({ onBack }) => {
               <Code className="w-5 h-5" />
             </button>
           )}
+          {activeFile && !isXcstringsFile(activeFile.name) && glossary.terms.length > 0 && ['json', 'xml', 'strings'].includes(fileType) && (
+            <select
+              value={activeFile.langCode}
+              onChange={(e) => setActiveFileLanguage(e.target.value)}
+              className="text-xs px-2 py-1.5 bg-slate-900 border border-slate-700 rounded-lg text-slate-300 focus:outline-none focus:border-orange-500"
+              title="Language of the file, for the glossary check"
+            >
+              <option value="">Language: unknown</option>
+              {activeFile.langCode && !LANGUAGES.some(language => language.code === activeFile.langCode) && (
+                <option value={activeFile.langCode}>{activeFile.langCode}</option>
+              )}
+              {LANGUAGES.map(language => <option key={language.code} value={language.code}>{language.name} ({language.code})</option>)}
+            </select>
+          )}
           {activeFile && isXcstringsFile(activeFile.name) && (
             <>
               <div className="h-6 w-px bg-slate-700 mx-1" />
@@ -1417,18 +1536,36 @@ export const FileEditorView: React.FC<FileEditorViewProps> = ({ onBack }) => {
                 <Languages className="w-4 h-4" />
                 <span className="text-xs font-medium">Delete Languages</span>
               </button>
+              <button
+                onClick={() => setShowTranslationMemory(true)}
+                className="flex items-center space-x-1.5 px-3 py-1.5 rounded-lg text-violet-400 hover:bg-violet-500/15 transition-colors border border-violet-500/20"
+                title="Fill missing translations from the translation memory"
+              >
+                <Database className="w-4 h-4" />
+                <span className="text-xs font-medium">Fill from Memory</span>
+              </button>
             </>
           )}
-          {validationErrors.length > 0 && (
+          {errorCount > 0 && (
             <button
               onClick={() => setShowErrors(!showErrors)}
               className="flex items-center space-x-1 px-2 py-1 rounded-lg bg-rose-500/20 text-rose-400 hover:bg-rose-500/30 transition-colors"
             >
               <AlertTriangle className="w-4 h-4" />
-              <span className="text-xs font-medium">{validationErrors.length}</span>
+              <span className="text-xs font-medium">{errorCount}</span>
             </button>
           )}
-          {validationErrors.length === 0 && activeFile && (
+          {warningCount > 0 && (
+            <button
+              onClick={() => setShowErrors(!showErrors)}
+              className="flex items-center space-x-1 px-2 py-1 rounded-lg bg-amber-500/20 text-amber-400 hover:bg-amber-500/30 transition-colors"
+              title="Warnings"
+            >
+              <AlertTriangle className="w-4 h-4" />
+              <span className="text-xs font-medium">{warningCount}</span>
+            </button>
+          )}
+          {errorCount === 0 && activeFile && (
             <div className="flex items-center space-x-1 px-2 py-1 text-emerald-400">
               <Check className="w-4 h-4" />
               <span className="text-xs">Valid</span>
@@ -1503,15 +1640,15 @@ export const FileEditorView: React.FC<FileEditorViewProps> = ({ onBack }) => {
 
       {/* Errors Panel */}
       {showErrors && validationErrors.length > 0 && (
-        <div className="mb-3 p-3 bg-rose-500/10 border border-rose-500/30 rounded-lg flex-shrink-0 max-h-32 overflow-auto">
-          <div className="text-xs font-semibold text-rose-400 mb-2">Validation Errors</div>
+        <div className={`mb-3 p-3 border rounded-lg flex-shrink-0 max-h-32 overflow-auto ${errorCount > 0 ? 'bg-rose-500/10 border-rose-500/30' : 'bg-amber-500/10 border-amber-500/30'}`}>
+          <div className={`text-xs font-semibold mb-2 ${errorCount > 0 ? 'text-rose-400' : 'text-amber-400'}`}>{errorCount > 0 ? 'Validation Errors' : 'Warnings'}</div>
           {validationErrors.map((err, i) => (
             <div
               key={i}
-              className="text-sm text-rose-300 cursor-pointer hover:bg-rose-500/20 px-2 py-1 rounded"
+              className={`text-sm cursor-pointer px-2 py-1 rounded ${err.severity === 'warning' ? 'text-amber-300 hover:bg-amber-500/20' : 'text-rose-300 hover:bg-rose-500/20'}`}
               onClick={() => scrollToLine(err.line)}
             >
-              <span className="text-rose-400 font-mono">Line {err.line}:</span> {err.message}
+              <span className={`font-mono ${err.severity === 'warning' ? 'text-amber-400' : 'text-rose-400'}`}>Line {err.line}{err.column !== undefined && `, col ${err.column}`}:</span> {err.message}
             </div>
           ))}
         </div>
@@ -1605,6 +1742,15 @@ export const FileEditorView: React.FC<FileEditorViewProps> = ({ onBack }) => {
         </div>
       )}
 
+      {showTranslationMemory && activeFile && (
+        <TranslationMemoryDialog
+          fileName={activeFile.name}
+          content={editedContent}
+          onApply={setEditedContent}
+          onClose={() => setShowTranslationMemory(false)}
+        />
+      )}
+
       {/* Delete Languages Modal */}
       {showDeleteLanguages && xcstringsInfo && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50" onClick={() => { if (!deletionComplete) setShowDeleteLanguages(false); }}>
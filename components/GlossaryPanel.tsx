@@ -0,0 +1,239 @@
+import React, { useState, useMemo } from 'react';
+import { CheckCircle, BookOpen, Upload, Plus, Trash2, X } from 'lucide-react';
+import { LanguageFile } from '../types';
+import { checkGlossary, Glossary, GlossaryIssue, GlossaryTerm, importGlossary, mergeGlossaries } from '../services/glossary';
+import { glossaryStore } from '../services/glossaryStore';
+
+interface GlossaryPanelProps {
+    files: LanguageFile[];
+}
+
+// "de=Einstellungen, fr=Réglages" → { de: "Einstellungen", fr: "Réglages" }
+const parseTranslationsInput = (input: string): Record<string, string> => {
+    const translations: Record<string, string> = {};
+    input.split(',').forEach(pair => {
+        const [language, ...rest] = pair.split('=');
+        const translation = rest.join('=').trim();
+        if (language?.trim() && translation) translations[language.trim()] = translation;
+    });
+    return translations;
+};
+
+export const GlossaryPanel: React.FC<GlossaryPanelProps> = ({ files }) => {
+    const [glossary, setGlossary] = useState<Glossary>(() => glossaryStore.load());
+    const [showTerms, setShowTerms] = useState(false);
+    const [importError, setImportError] = useState<string | null>(null);
+    const [newTerm, setNewTerm] = useState('');
+    const [newDoNotTranslate, setNewDoNotTranslate] = useState(false);
+    const [newTranslations, setNewTranslations] = useState('');
+
+    const issues: GlossaryIssue[] = useMemo(() => checkGlossary(files, glossary), [files, glossary]);
+
+    const issuesByKey: Record<string, GlossaryIssue[]> = useMemo(() => {
+        const groups: Record<string, GlossaryIssue[]> = {};
+        issues.forEach(issue => {
+            if (!groups[issue.key]) groups[issue.key] = [];
+            groups[issue.key].push(issue);
+        });
+        return groups;
+    }, [issues]);
+
+    const updateGlossary = (newGlossary: Glossary) => {
+        setGlossary(newGlossary);
+        glossaryStore.save(newGlossary);
+    };
+
+    const handleImport = (file: File) => {
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            try {
+                updateGlossary(mergeGlossaries(glossary, importGlossary(file.name, e.target?.result as string)));
+                setImportError(null);
+            } catch (err: any) {
+                setImportError(err.message || 'The glossary could not be imported.');
+            }
+        };
+        reader.readAsText(file);
+    };
+
+    const handleAddTerm = () => {
+        const term = newTerm.trim();
+        if (!term) return;
+        const added: GlossaryTerm = {
+            term,
+            doNotTranslate: newDoNotTranslate,
+            translations: newDoNotTranslate ? {} : parseTranslationsInput(newTranslations),
+            caseSensitive: false,
+        };
+        updateGlossary(mergeGlossaries(glossary, { sourceLanguage: glossary.sourceLanguage, terms: [added] }));
+        setNewTerm('');
+        setNewTranslations('');
+        setNewDoNotTranslate(false);
+    };
+
+    const handleRemoveTerm = (term: string) => {
+        updateGlossary({ ...glossary, terms: glossary.terms.filter(existing => existing.term !== term) });
+    };
+
+    const handleClear = () => {
+        glossaryStore.clear();
+        setGlossary(glossaryStore.load());
+    };
+
+    return (
+        <div>
+            <div className="p-4 bg-slate-800/30 border-b border-slate-700 flex flex-wrap items-center justify-between gap-3">
+                <div>
+                    <h3 className="font-semibold text-white">Glossary Check</h3>
+                    <p className="text-sm text-slate-400 mt-1">
+                        {glossary.terms.length} terms ({glossary.sourceLanguage}) · {issues.length} violations in {Object.keys(issuesByKey).length} keys
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <label className="flex items-center gap-2 px-3 py-1.5 text-sm text-slate-300 border border-slate-700 rounded-lg hover:bg-slate-800 transition-colors cursor-pointer">
+                        <Upload size={14} />
+                        Import
+                        <input
+                            type="file"
+                            className="hidden"
+                            accept=".csv,.tsv,.tbx"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) handleImport(file);
+                                e.target.value = '';
+                            }}
+                        />
+                    </label>
+                    <button
+                        onClick={() => setShowTerms(!showTerms)}
+                        className={`flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg border transition-colors ${showTerms
+                            ? 'bg-indigo-600 text-white border-indigo-500'
+                            : 'text-slate-300 border-slate-700 hover:bg-slate-800'
+                            }`}
+                    >
+                        <BookOpen size={14} />
+                        Terms
+                    </button>
+                </div>
+            </div>
+
+            {importError && (
+                <div className="px-4 py-3 text-sm text-rose-400 bg-rose-500/10 border-b border-rose-500/20 flex items-center justify-between">
+                    {importError}
+                    <button onClick={() => setImportError(null)} className="text-rose-400 hover:text-rose-300"><X size={14} /></button>
+                </div>
+            )}
+
+            {showTerms && (
+                <div className="p-4 bg-slate-900/40 border-b border-slate-700 space-y-2">
+                    {glossary.terms.length === 0 && (
+                        <p className="text-sm text-slate-500">No terms yet. Import a .csv, .tsv or .tbx glossary, or add terms below.</p>
+                    )}
+                    <div className="max-h-64 overflow-y-auto divide-y divide-slate-800/60">
+                        {glossary.terms.map(term => (
+                            <div key={term.term} className="flex items-center justify-between gap-4 p-2 hover:bg-slate-800/40">
+                                <div className="min-w-0">
+                                    <span className="text-sm text-slate-200">{term.term}</span>
+                                    {term.note && <span className="text-xs text-slate-500 ml-2">{term.note}</span>}
+                                    <div className="flex flex-wrap gap-1 mt-1">
+                                        {term.doNotTranslate ? (
+                                            <span className="text-xs px-2 py-0.5 rounded border bg-amber-500/20 text-amber-300 border-amber-500/30">Do not translate</span>
+                                        ) : Object.entries(term.translations).map(([language, translation]) => (
+                                            <span key={language} className="text-xs px-2 py-0.5 rounded border bg-slate-800 text-slate-300 border-slate-700">
+                                                <span className="font-mono text-slate-500">{language}</span> {translation}
+                                            </span>
+                                        ))}
+                                    </div>
+                                </div>
+                                <button
+                                    onClick={() => handleRemoveTerm(term.term)}
+                                    className="p-1.5 text-slate-500 hover:text-rose-400 hover:bg-rose-500/10 rounded-lg transition-colors flex-shrink-0"
+                                    title="Remove term"
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2 pt-3 border-t border-slate-800">
+                        <input
+                            type="text"
+                            value={newTerm}
+                            onChange={(e) => setNewTerm(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleAddTerm()}
+                            placeholder="Term"
+                            className="w-40 text-sm px-3 py-1.5 bg-slate-900 border border-slate-700 rounded-lg text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-indigo-500"
+                        />
+                        <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={newDoNotTranslate}
+                                onChange={(e) => setNewDoNotTranslate(e.target.checked)}
+                                className="accent-indigo-500"
+                            />
+                            Do not translate
+                        </label>
+                        <input
+                            type="text"
+                            value={newTranslations}
+                            onChange={(e) => setNewTranslations(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleAddTerm()}
+                            disabled={newDoNotTranslate}
+                            placeholder="de=Einstellungen, fr=Réglages"
+                            className="flex-1 min-w-[12rem] text-sm px-3 py-1.5 bg-slate-900 border border-slate-700 rounded-lg text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+                        />
+                        <button
+                            onClick={handleAddTerm}
+                            disabled={!newTerm.trim()}
+                            className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-slate-300 border border-slate-700 rounded-lg hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                            <Plus size={14} />
+                            Add Term
+                        </button>
+                        {glossary.terms.length > 0 && (
+                            <button
+                                onClick={handleClear}
+                                className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-slate-500 hover:text-rose-400 rounded-lg transition-colors"
+                            >
+                                <Trash2 size={14} />
+                                Clear Glossary
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {issues.length === 0 ? (
+                <div className="p-12 text-center text-slate-500">
+                    <CheckCircle size={48} className="mx-auto mb-4 text-emerald-500/50" />
+                    <p>{glossary.terms.length === 0 ? 'Add or import glossary terms to check the translations.' : 'All translations follow the glossary.'}</p>
+                </div>
+            ) : (
+                <div className="max-h-[600px] overflow-y-auto">
+                    {Object.entries(issuesByKey).map(([key, keyIssues]) => (
+                        <div key={key} className="border-b border-slate-800">
+                            <div className="px-4 py-3 bg-slate-800/30 flex items-center justify-between sticky top-0 backdrop-blur-sm">
+                                <span className="text-sm font-mono font-semibold text-indigo-300 break-all">{key}</span>
+                                <span className="text-xs text-slate-400">{keyIssues.length}</span>
+                            </div>
+                            <div className="divide-y divide-slate-800/60">
+                                {keyIssues.map((issue, idx) => (
+                                    <div key={idx} className="px-4 py-3 hover:bg-slate-800/20 transition-colors">
+                                        <div className="flex items-center justify-between gap-4">
+                                            <p className="text-sm text-slate-300">
+                                                {issue.message}
+                                                {issue.path && <span className="text-slate-500"> · {issue.path}</span>}
+                                            </p>
+                                            <span className="text-xs bg-slate-800 text-slate-300 px-2 py-0.5 rounded border border-slate-700 flex-shrink-0">{issue.langCode}</span>
+                                        </div>
+                                        <p className="text-xs font-mono text-slate-500 mt-1 whitespace-pre-wrap break-all">"{issue.sourceText}" → "{issue.text}"</p>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,7 +1,10 @@
 import React, { useRef, useState, useMemo, useEffect } from 'react';
 import { Upload, X } from 'lucide-react';
 import { LanguageFile, ConversionMode } from '../types';
+import { findFormatAdapter, getFormatExtensions } from '../services/formatRegistry';
+import { detectFileLanguage } from '../services/languageDetection';
 import { DragDropZone } from './DragDropZone';
+import { LanguageConfidenceBadge } from './LanguageConfidenceBadge';
 
 interface InputPanelProps {
     conversionMode: ConversionMode;
@@ -18,23 +21,16 @@ interface InputPanelProps {
     setError: (error: string | null) => void;
 }
 
-const guessLangCode = (fileName: string): string => {
-    const name = fileName.toLowerCase().replace(/\.(strings|stringsdict)$/, '');
-    const lprojMatch = name.match(/([a-z]{2,3}(-[a-z0-9]+)?)\.lproj/);
-    if (lprojMatch) return lprojMatch[1];
-    const simpleMatch = name.match(/^[a-z]{2,3}(-[a-z0-9]+)?$/);
-    if (simpleMatch) return simpleMatch[0];
-    return '';
-}
-
 const readFile = (file: File): Promise<LanguageFile> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
-        reader.onload = () => resolve({
-            name: file.name,
-            content: reader.result as string,
-            langCode: guessLangCode(file.name),
-        });
+        reader.onload = () => {
+            // Files from a dropped folder keep their path, whose fr.lproj/ or values-fr/ folder tells their language
+            const name = file.webkitRelativePath || file.name;
+            const content = reader.result as string;
+            const langDetection = detectFileLanguage(name, content);
+            resolve({ name, content, langCode: langDetection?.langCode || '', langDetection });
+        };
         reader.onerror = (err) => reject(err);
         reader.readAsText(file);
     });
@@ -94,12 +90,12 @@ export const InputPanel: React.FC<InputPanelProps> = (props) => {
         };
 
         const handleLangCodeChange = (fileName: string, newLangCode: string) => {
-            onFilesChange(files.map(f => f.name === fileName ? { ...f, langCode: newLangCode } : f));
+            onFilesChange(files.map(f => f.name === fileName ? { ...f, langCode: newLangCode, langDetection: undefined } : f));
         };
 
         return (
             <>
-                <h2 className="text-sm font-semibold text-gray-400 mb-3 flex-shrink-0 uppercase tracking-wider">Input Files (.strings, .stringsdict)</h2>
+                <h2 className="text-sm font-semibold text-gray-400 mb-3 flex-shrink-0 uppercase tracking-wider">Input Files</h2>
                 {files.length > 0 && (
                     <div className="mb-2 flex-shrink-0">
                         <input
@@ -127,8 +123,12 @@ export const InputPanel: React.FC<InputPanelProps> = (props) => {
                         ) : (
                             filteredFiles.map((file) => (
                                 <div key={file.name} className="flex items-center justify-between p-2 bg-gray-800/50 hover:bg-gray-800 rounded-md group transition-colors border border-transparent hover:border-gray-700">
-                                    <span className="text-sm font-mono text-gray-300 truncate pr-2" title={file.name}>{file.name}</span>
+                                    <div className="min-w-0 pr-2">
+                                        <span className="text-sm font-mono text-gray-300 truncate block" title={file.name}>{file.name}</span>
+                                        <span className="text-[10px] text-gray-500">{findFormatAdapter(file.name, file.content)?.label}</span>
+                                    </div>
                                     <div className="flex items-center space-x-2">
+                                        <LanguageConfidenceBadge detection={file.langDetection} />
                                         <input
                                             type="text"
                                             value={file.langCode}
@@ -150,7 +150,7 @@ export const InputPanel: React.FC<InputPanelProps> = (props) => {
                     <button onClick={handleUploadClick} className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-gray-300 bg-gray-800 border border-gray-700 rounded-md hover:bg-gray-700 hover:text-white transition-all active:scale-95">
                         <Upload size={16} /><span>Add Files</span>
                     </button>
-                    <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".strings,.stringsdict" className="hidden" multiple />
+                    <input type="file" ref={fileInputRef} onChange={handleFileChange} accept={getFormatExtensions().join(',')} className="hidden" multiple />
                     <button
                         onClick={onConvert}
                         disabled={isLoading || files.length === 0}
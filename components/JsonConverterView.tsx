@@ -3,12 +3,19 @@ import { ArrowLeft, Upload, Trash2, FileJson, FileType, CheckCircle, AlertTriang
 import { DragDropZone } from './DragDropZone';
 import { CodeBlock } from './CodeBlock';
 import {
-    parseStringsFile,
+    parseStringsFileWithComments,
+    parseStringsDictFile,
     parseJson,
     generateJson,
+    parseI18nextJson,
+    generateI18nextJson,
+    parseArbFile,
+    generateArbFile,
+    readIcuMessages,
     generateSingleStringsFileContent,
+    generateSingleStringsDictFileContent,
 } from '../services/converter';
-import { ParsedStrings } from '../types';
+import { ParsedStrings, StringComments, isPlural, isDeviceVariations, isSubstitution } from '../types';
 
 interface JsonConverterViewProps {
     onBack: () => void;
@@ -16,6 +23,20 @@ interface JsonConverterViewProps {
 
 type TabMode = 'strings-to-json' | 'json-to-strings';
 
+type JsonFlavor = 'plain' | 'i18next' | 'arb';
+
+const JSON_FLAVORS: { id: JsonFlavor; label: string }[] = [
+    { id: 'plain', label: 'Plain' },
+    { id: 'i18next', label: 'i18next' },
+    { id: 'arb', label: 'Flutter ARB' },
+];
+
+interface OutputFile {
+    fileName: string;
+    content: string;
+    language: string;
+}
+
 // --- Sample Data ---
 const SAMPLE_STRINGS_CONTENT = [
     '/* App UI Strings */',
@@ -29,8 +50,11 @@ const SAMPLE_STRINGS_CONTENT = [
 export const JsonConverterView: React.FC<JsonConverterViewProps> = ({ onBack }) => {
     const [activeTab, setActiveTab] = useState<TabMode>('strings-to-json');
     const [inputFile, setInputFile] = useState<{ name: string, content: string } | null>(null);
-    const [outputContent, setOutputContent] = useState('');
+    const [jsonFlavor, setJsonFlavor] = useState<JsonFlavor>('plain');
+    const [arbLocale, setArbLocale] = useState('en');
+    const [outputs, setOutputs] = useState<OutputFile[]>([]);
     const [error, setError] = useState<string | null>(null);
+    const [warnings, setWarnings] = useState<string[]>([]);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -47,43 +71,74 @@ export const JsonConverterView: React.FC<JsonConverterViewProps> = ({ onBack })
         const reader = new FileReader();
         reader.onload = (e) => {
             const content = e.target?.result as string;
+            // .arb files can only be Flutter ARB
+            const flavor = file.name.endsWith('.arb') ? 'arb' : jsonFlavor;
+            setJsonFlavor(flavor);
             setInputFile({ name: file.name, content });
-            convert(content, file.name);
+            convert(content, file.name, flavor);
         };
         reader.readAsText(file);
     };
 
-    const convert = (content: string, fileName: string) => {
+    const convert = (content: string, fileName: string, flavor: JsonFlavor = jsonFlavor, locale: string = arbLocale) => {
         setError(null);
-        setOutputContent('');
+        setWarnings([]);
+        setOutputs([]);
         try {
             if (activeTab === 'strings-to-json') {
-                if (!fileName.endsWith('.strings')) {
+                if (!fileName.endsWith('.strings') && !fileName.endsWith('.stringsdict')) {
                     // Warn but try anyway
-                    console.warn("File doesn't end with .strings, attempting parse anyway");
+                    console.warn("File doesn't end with .strings or .stringsdict, attempting parse anyway");
                 }
-                const parsed = parseStringsFile(content);
-                if (Object.keys(parsed).length === 0 && content.trim().length > 0) {
-                    setError("No valid key-values found in .strings file.");
+                const { strings, comments } = fileName.endsWith('.stringsdict')
+                    ? { strings: parseStringsDictFile(content), comments: {} as StringComments }
+                    : parseStringsFileWithComments(content);
+                if (Object.keys(strings).length === 0 && content.trim().length > 0) {
+                    setError("No valid key-values found in the input file.");
+                } else if (flavor === 'arb') {
+                    setOutputs([{ fileName: `app_${locale || 'en'}.arb`, content: generateArbFile(strings, locale || undefined, comments), language: 'json' }]);
+                } else if (flavor === 'i18next') {
+                    setOutputs([{ fileName: 'translation.json', content: generateI18nextJson(strings), language: 'json' }]);
                 } else {
-                    setOutputContent(generateJson(parsed));
+                    setOutputs([{ fileName: 'Localizable.json', content: generateJson(strings), language: 'json' }]);
                 }
             } else {
-                if (!fileName.endsWith('.json')) {
-                    console.warn("File doesn't end with .json, attempting parse anyway");
+                if (!fileName.endsWith('.json') && !fileName.endsWith('.arb')) {
+                    console.warn("File doesn't end with .json or .arb, attempting parse anyway");
                 }
-                const parsed = parseJson(content);
-                if (Object.keys(parsed).length === 0) {
+                let strings: ParsedStrings;
+                let comments: StringComments = {};
+                let issues: string[];
+                if (flavor === 'arb') {
+                    ({ strings, comments, issues } = parseArbFile(content));
+                } else {
+                    // Plain and i18next JSON may hold ICU plurals, as written by i18next-icu and web exports
+                    ({ strings, issues } = readIcuMessages(flavor === 'i18next' ? parseI18nextJson(content) : parseJson(content)));
+                }
+                setWarnings(issues);
+
+                if (Object.keys(strings).length === 0) {
                     setError("No valid translation keys found in JSON.");
                 } else {
-                    // Re-use logic from converter but expose or copy basic single file gen
-                    // We need a helper for single file generation in converter.ts if not exported
-                    // But we can just use generateSingleStringsFileContent if exported, or verify it is exported.
-                    // It was not exported in the view I saw earlier, but I can check.
-                    // Wait, I saw generateSingleStringsFileContent in the previous `view_file` output but it was NOT exported.
-                    // I should have checked that. I will assume for now I need to implement a simple generator here or rely on the fact I can request to export it.
-                    // Actually, I can just write a simple generator here for now to be safe and avoiding refactoring the service again immediately.
-                    setOutputContent(Object.entries(parsed).map(([k, v]) => `"${k}" = "${(v as string).replace(/"/g, '\\"').replace(/\n/g, '\\n')}";`).join('\n'));
+                    // Plurals can't be written to .strings; they go to a .stringsdict alongside it
+                    const simpleStrings: ParsedStrings = {};
+                    const pluralStrings: ParsedStrings = {};
+                    for (const [key, value] of Object.entries(strings)) {
+                        if (isPlural(value) || isDeviceVariations(value) || isSubstitution(value)) {
+                            pluralStrings[key] = value;
+                        } else {
+                            simpleStrings[key] = String(value);
+                        }
+                    }
+
+                    const files: OutputFile[] = [];
+                    if (Object.keys(simpleStrings).length > 0) {
+                        files.push({ fileName: 'Localizable.strings', content: generateSingleStringsFileContent(simpleStrings, comments), language: 'properties' });
+                    }
+                    if (Object.keys(pluralStrings).length > 0) {
+                        files.push({ fileName: 'Localizable.stringsdict', content: generateSingleStringsDictFileContent(pluralStrings), language: 'xml' });
+                    }
+                    setOutputs(files);
                 }
             }
         } catch (err: any) {
@@ -91,11 +146,22 @@ export const JsonConverterView: React.FC<JsonConverterViewProps> = ({ onBack })
         }
     };
 
+    const handleFlavorChange = (flavor: JsonFlavor) => {
+        setJsonFlavor(flavor);
+        if (inputFile) convert(inputFile.content, inputFile.name, flavor);
+    };
+
+    const handleLocaleChange = (locale: string) => {
+        setArbLocale(locale);
+        if (inputFile && activeTab === 'strings-to-json') convert(inputFile.content, inputFile.name, jsonFlavor, locale);
+    };
+
     const handleTabChange = (mode: TabMode) => {
         setActiveTab(mode);
         setInputFile(null);
-        setOutputContent('');
+        setOutputs([]);
         setError(null);
+        setWarnings([]);
     };
 
     const handleExecuteSample = () => {
@@ -107,16 +173,17 @@ export const JsonConverterView: React.FC<JsonConverterViewProps> = ({ onBack })
     };
 
     const handleDownload = () => {
-        if (!outputContent) return;
-        const blob = new Blob([outputContent], { type: 'text/plain' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = activeTab === 'strings-to-json' ? 'Localizable.json' : 'Localizable.strings';
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        for (const output of outputs) {
+            const blob = new Blob([output.content], { type: 'text/plain' });
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = output.fileName;
+            document.body.appendChild(a);
+            a.click();
+            document.body.removeChild(a);
+            URL.revokeObjectURL(url);
+        }
     };
 
     return (
@@ -132,7 +199,7 @@ export const JsonConverterView: React.FC<JsonConverterViewProps> = ({ onBack })
                     <h1 className="text-2xl font-bold bg-gradient-to-r from-yellow-400 to-amber-500 bg-clip-text text-transparent">
                         JSON Converter
                     </h1>
-                    <p className="text-slate-400 text-sm">Convert between .strings and JSON formats</p>
+                    <p className="text-slate-400 text-sm">Convert between .strings, i18next JSON and Flutter ARB</p>
                 </div>
                 <div className="ml-auto">
                     <button
@@ -166,6 +233,34 @@ export const JsonConverterView: React.FC<JsonConverterViewProps> = ({ onBack })
                         </button>
                     </div>
 
+                    <h2 className="text-sm font-semibold text-slate-400 mb-2 uppercase tracking-wider">
+                        JSON Flavor
+                    </h2>
+                    <div className="flex space-x-1 bg-slate-800 p-1 rounded-lg mb-4 border border-slate-700">
+                        {JSON_FLAVORS.map(flavor => (
+                            <button
+                                key={flavor.id}
+                                onClick={() => handleFlavorChange(flavor.id)}
+                                className={`flex-1 py-1.5 text-xs font-semibold rounded-md transition-all ${jsonFlavor === flavor.id ? 'bg-amber-500/20 text-amber-300' : 'text-slate-400 hover:text-slate-200'
+                                    }`}
+                            >
+                                {flavor.label}
+                            </button>
+                        ))}
+                    </div>
+                    {jsonFlavor === 'arb' && activeTab === 'strings-to-json' && (
+                        <div className="mb-4">
+                            <label className="block text-xs text-slate-500 mb-1">Locale (@@locale)</label>
+                            <input
+                                type="text"
+                                value={arbLocale}
+                                onChange={(e) => handleLocaleChange(e.target.value.trim())}
+                                placeholder="en"
+                                className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-sm text-slate-200 focus:outline-none focus:border-amber-500/50"
+                            />
+                        </div>
+                    )}
+
                     <h2 className="text-sm font-semibold text-slate-400 mb-4 uppercase tracking-wider">
                         Input File
                     </h2>
@@ -188,7 +283,7 @@ export const JsonConverterView: React.FC<JsonConverterViewProps> = ({ onBack })
                                     )}
                                 </div>
                                 <h3 className="text-lg font-medium text-slate-200 mb-1">
-                                    Upload {activeTab === 'strings-to-json' ? '.strings' : '.json'}
+                                    Upload {activeTab === 'strings-to-json' ? '.strings / .stringsdict' : jsonFlavor === 'arb' ? '.arb' : '.json'}
                                 </h3>
                                 <p className="text-sm text-slate-500">Click or drag & drop</p>
                             </div>
@@ -196,12 +291,12 @@ export const JsonConverterView: React.FC<JsonConverterViewProps> = ({ onBack })
                             <div className="p-4 bg-slate-800 rounded-xl border border-slate-700 flex items-center justify-between group">
                                 <div className="flex items-center space-x-3 overflow-hidden">
                                     <div className="p-2 bg-amber-500/20 rounded-lg text-amber-400">
-                                        {inputFile.name.endsWith('.json') ? <FileJson size={18} /> : <FileType size={18} />}
+                                        {inputFile.name.endsWith('.json') || inputFile.name.endsWith('.arb') ? <FileJson size={18} /> : <FileType size={18} />}
                                     </div>
                                     <span className="text-sm font-medium text-slate-200 truncate">{inputFile.name}</span>
                                 </div>
                                 <button
-                                    onClick={(e) => { e.stopPropagation(); setInputFile(null); setOutputContent(''); setError(null); }}
+                                    onClick={(e) => { e.stopPropagation(); setInputFile(null); setOutputs([]); setError(null); setWarnings([]); }}
                                     className="p-2 text-slate-400 hover:text-rose-400 hover:bg-rose-500/10 rounded-lg transition-colors"
                                 >
                                     <Trash2 size={16} />
@@ -213,7 +308,7 @@ export const JsonConverterView: React.FC<JsonConverterViewProps> = ({ onBack })
                             ref={fileInputRef}
                             onChange={handleFileSelect}
                             className="hidden"
-                            accept={activeTab === 'strings-to-json' ? ".strings" : ".json"}
+                            accept={activeTab === 'strings-to-json' ? ".strings,.stringsdict" : ".json,.arb"}
                         />
                     </DragDropZone>
 
@@ -223,6 +318,17 @@ export const JsonConverterView: React.FC<JsonConverterViewProps> = ({ onBack })
                             <p className="text-xs text-rose-300 leading-relaxed">{error}</p>
                         </div>
                     )}
+
+                    {warnings.length > 0 && (
+                        <div className="p-4 bg-amber-500/10 border border-amber-500/20 rounded-xl">
+                            <h3 className="text-xs font-bold text-amber-400 flex items-center gap-2 mb-2">
+                                <AlertTriangle size={14} /> Kept As Written
+                            </h3>
+                            <ul className="text-xs text-amber-300 space-y-1 list-disc list-inside leading-relaxed">
+                                {warnings.map((w, i) => <li key={i}>{w}</li>)}
+                            </ul>
+                        </div>
+                    )}
                 </div>
 
                 {/* Main Content / Output */}
@@ -230,26 +336,30 @@ export const JsonConverterView: React.FC<JsonConverterViewProps> = ({ onBack })
                     <div className="flex items-center justify-between mb-4">
                         <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
                             Output
-                            {outputContent && <CheckCircle size={14} className="text-emerald-500" />}
+                            {outputs.length > 0 && <CheckCircle size={14} className="text-emerald-500" />}
                         </h2>
-                        {outputContent && (
+                        {outputs.length > 0 && (
                             <button
                                 onClick={handleDownload}
                                 className="flex items-center space-x-2 px-4 py-2 text-xs font-bold text-slate-900 bg-amber-400 rounded-lg hover:bg-amber-300 transition-all shadow-lg active:scale-95"
                             >
                                 <Download size={14} />
-                                <span>Download File</span>
+                                <span>{outputs.length > 1 ? 'Download Files' : 'Download File'}</span>
                             </button>
                         )}
                     </div>
 
-                    <div className="flex-1 overflow-hidden rounded-xl border border-slate-800 bg-slate-900/50 relative shadow-inner">
-                        {outputContent ? (
-                            <CodeBlock
-                                content={outputContent}
-                                language={activeTab === 'strings-to-json' ? 'json' : 'properties'} // properties highlighting works okay for .strings usually
-                                fileName={activeTab === 'strings-to-json' ? 'Localizable.json' : 'Localizable.strings'}
-                            />
+                    <div className="flex-1 overflow-hidden rounded-xl border border-slate-800 bg-slate-900/50 relative shadow-inner flex flex-col gap-4">
+                        {outputs.length > 0 ? (
+                            outputs.map(output => (
+                                <div key={output.fileName} className="flex-1 min-h-0">
+                                    <CodeBlock
+                                        content={output.content}
+                                        language={output.language} // properties highlighting works okay for .strings usually
+                                        fileName={output.fileName}
+                                    />
+                                </div>
+                            ))
                         ) : (
                             <div className="absolute inset-0 flex flex-col items-center justify-center text-slate-600 opacity-50">
                                 {activeTab === 'strings-to-json' ? <FileJson size={48} className="mb-4" /> : <FileType size={48} className=" mb-4" />}
@@ -1,6 +1,7 @@
 import React, { useState, useRef } from 'react';
 import { ArrowLeft, X, Type, Trash2, Upload, Sparkles, FileText, FileJson, Download, Info } from 'lucide-react';
 import { parseStringsFile } from '../services/converter';
+import { decodeStringsFile, escapeStringsLiteral } from '../services/stringsParser';
 import { ParsedStrings } from '../types';
 import { DragDropZone } from './DragDropZone';
 
@@ -18,13 +19,22 @@ const readFile = (file: File): Promise<LoadedFile> => {
         const reader = new FileReader();
         reader.onload = () => resolve({
             name: file.name,
-            content: reader.result as string,
+            content: decodeStringsFile(reader.result as ArrayBuffer),
         });
         reader.onerror = (err) => reject(err);
-        reader.readAsText(file);
+        reader.readAsArrayBuffer(file);
     });
 };
 
+// Prefixes parse errors with the file name so the exact file, line and column are shown
+const parseLoadedFile = (file: LoadedFile): ParsedStrings => {
+    try {
+        return parseStringsFile(file.content);
+    } catch (err: any) {
+        throw new Error(`${file.name}: ${err.message}`);
+    }
+};
+
 // --- Sample Data ---
 const SAMPLE_SOURCE: LoadedFile = {
     name: 'albanian.strings',
@@ -173,13 +183,12 @@ export const KeyRenamerView: React.FC<KeyRenamerViewProps> = ({ onBack }) => {
 
         setTimeout(() => {
             try {
-                const sourceData = parseStringsFile(SAMPLE_SOURCE.content);
-                const keyCompData = parseStringsFile(SAMPLE_KEY_COMP.content);
-                const valCompDatas = [parseStringsFile(SAMPLE_VAL_COMP.content)];
+                const sourceData = parseLoadedFile(SAMPLE_SOURCE);
+                const keyCompData = parseLoadedFile(SAMPLE_KEY_COMP);
+                const valCompDatas = [parseLoadedFile(SAMPLE_VAL_COMP)];
 
                 const logs: string[] = [];
                 const newSourceData: ParsedStrings = {};
-                const escape = (str: string) => str.replace(/"/g, '\\"').replace(/\n/g, '\\n');
 
                 Object.entries(sourceData).forEach(([srcKey, srcValue]) => {
                     const intermediateValue = keyCompData[srcKey];
@@ -201,7 +210,7 @@ export const KeyRenamerView: React.FC<KeyRenamerViewProps> = ({ onBack }) => {
                 });
 
                 const generatedContent = Object.entries(newSourceData)
-                    .map(([key, value]) => `"${key}" = "${escape(value as string)}";`)
+                    .map(([key, value]) => `"${escapeStringsLiteral(key)}" = "${escapeStringsLiteral(value as string)}";`)
                     .join('\n');
 
                 setOutputContent(generatedContent);
@@ -228,16 +237,13 @@ export const KeyRenamerView: React.FC<KeyRenamerViewProps> = ({ onBack }) => {
         setTimeout(() => {
             try {
                 // Parse all files
-                const sourceData = parseStringsFile(sourceFile.content);
-                const keyCompData = parseStringsFile(keyCompFile.content);
-                const valCompDatas = valCompFiles.map(f => parseStringsFile(f.content));
+                const sourceData = parseLoadedFile(sourceFile);
+                const keyCompData = parseLoadedFile(keyCompFile);
+                const valCompDatas = valCompFiles.map(parseLoadedFile);
 
                 const logs: string[] = [];
                 const newSourceData: ParsedStrings = {};
 
-                // Helper to escape string for .strings file output
-                const escape = (str: string) => str.replace(/"/g, '\\"').replace(/\n/g, '\\n');
-
                 Object.entries(sourceData).forEach(([srcKey, srcValue]) => {
                     // Step 1: Look up sourceKey in KeyComparable
                     const intermediateValue = keyCompData[srcKey];
@@ -271,7 +277,7 @@ export const KeyRenamerView: React.FC<KeyRenamerViewProps> = ({ onBack }) => {
 
                 // Generate Output
                 const generatedContent = Object.entries(newSourceData)
-                    .map(([key, value]) => `"${key}" = "${escape(value as string)}";`)
+                    .map(([key, value]) => `"${escapeStringsLiteral(key)}" = "${escapeStringsLiteral(value as string)}";`)
                     .join('\n');
 
                 setOutputContent(generatedContent);
@@ -0,0 +1,25 @@
+import React from 'react';
+import { LanguageDetection } from '../types';
+
+interface LanguageConfidenceBadgeProps {
+    detection?: LanguageDetection;
+}
+
+const CONFIDENCE_STYLES: Record<LanguageDetection['confidence'], string> = {
+    high: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20',
+    medium: 'bg-amber-500/10 text-amber-400 border-amber-500/20',
+    low: 'bg-rose-500/10 text-rose-400 border-rose-500/20',
+};
+
+export const LanguageConfidenceBadge: React.FC<LanguageConfidenceBadgeProps> = ({ detection }) => {
+    if (!detection) return null;
+
+    return (
+        <span
+            className={`text-[10px] font-medium uppercase tracking-wider px-1.5 py-0.5 rounded border flex-shrink-0 ${CONFIDENCE_STYLES[detection.confidence]}`}
+            title={`${detection.reason} (${detection.confidence} confidence)`}
+        >
+            {detection.confidence}
+        </span>
+    );
+};
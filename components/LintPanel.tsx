@@ -0,0 +1,197 @@
+import React, { useState, useMemo } from 'react';
+import { CheckCircle, SlidersHorizontal, Plus, Trash2 } from 'lucide-react';
+import { LanguageFile } from '../types';
+import { getLintRules, lintFiles, LintFinding, LintSettings, LintSeverity, LINT_SEVERITIES } from '../services/lintEngine';
+import { lintSettingsStore, DEFAULT_LINT_PROJECT } from '../services/lintSettingsStore';
+
+interface LintPanelProps {
+    files: LanguageFile[];
+}
+
+const SEVERITY_STYLES: Record<LintSeverity, string> = {
+    error: 'bg-rose-500/20 text-rose-300 border-rose-500/30',
+    warning: 'bg-amber-500/20 text-amber-300 border-amber-500/30',
+    info: 'bg-sky-500/20 text-sky-300 border-sky-500/30',
+};
+
+export const LintPanel: React.FC<LintPanelProps> = ({ files }) => {
+    const rules = useMemo(() => getLintRules(), []);
+    const [projects, setProjects] = useState<string[]>(() => lintSettingsStore.getProjects());
+    const [project, setProject] = useState<string>(() => lintSettingsStore.getActiveProject());
+    const [settings, setSettings] = useState<LintSettings>(() => lintSettingsStore.load(lintSettingsStore.getActiveProject()));
+    const [showSettings, setShowSettings] = useState(false);
+    const [newProjectName, setNewProjectName] = useState('');
+
+    const result = useMemo(() => lintFiles(files, settings), [files, settings]);
+
+    const findingsByRule = useMemo(() => {
+        const groups: Record<string, LintFinding[]> = {};
+        result.findings.forEach(finding => {
+            if (!groups[finding.ruleId]) groups[finding.ruleId] = [];
+            groups[finding.ruleId].push(finding);
+        });
+        return groups;
+    }, [result]);
+
+    const severityCounts = useMemo(() => {
+        const counts: Record<LintSeverity, number> = { error: 0, warning: 0, info: 0 };
+        result.findings.forEach(finding => counts[finding.severity]++);
+        return counts;
+    }, [result]);
+
+    const updateSettings = (newSettings: LintSettings) => {
+        setSettings(newSettings);
+        lintSettingsStore.save(project, newSettings);
+    };
+
+    const handleProjectChange = (name: string) => {
+        setProject(name);
+        setSettings(lintSettingsStore.load(name));
+        lintSettingsStore.setActiveProject(name);
+    };
+
+    const handleCreateProject = () => {
+        const name = newProjectName.trim();
+        if (!name) return;
+        // A new project starts from the rules of the current one
+        lintSettingsStore.save(name, settings);
+        setProjects(lintSettingsStore.getProjects());
+        setNewProjectName('');
+        handleProjectChange(name);
+    };
+
+    const handleDeleteProject = () => {
+        if (project === DEFAULT_LINT_PROJECT) return;
+        lintSettingsStore.remove(project);
+        setProjects(lintSettingsStore.getProjects());
+        handleProjectChange(DEFAULT_LINT_PROJECT);
+    };
+
+    return (
+        <div>
+            <div className="p-4 bg-slate-800/30 border-b border-slate-700 flex flex-wrap items-center justify-between gap-3">
+                <div>
+                    <h3 className="font-semibold text-white">Lint Results</h3>
+                    <p className="text-sm text-slate-400 mt-1">
+                        {severityCounts.error} errors · {severityCounts.warning} warnings · {severityCounts.info} info
+                        {result.sourceLanguage && ` · compared with ${result.sourceLanguage}`}
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <select
+                        value={project}
+                        onChange={(e) => handleProjectChange(e.target.value)}
+                        className="text-sm px-3 py-1.5 bg-slate-900 border border-slate-700 rounded-lg text-slate-200 focus:outline-none focus:border-indigo-500"
+                        title="Rule set"
+                    >
+                        {projects.map(name => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                    {project !== DEFAULT_LINT_PROJECT && (
+                        <button
+                            onClick={handleDeleteProject}
+                            className="p-1.5 text-slate-500 hover:text-rose-400 hover:bg-rose-500/10 rounded-lg transition-colors"
+                            title="Delete rule set"
+                        >
+                            <Trash2 size={16} />
+                        </button>
+                    )}
+                    <button
+                        onClick={() => setShowSettings(!showSettings)}
+                        className={`flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg border transition-colors ${showSettings
+                            ? 'bg-indigo-600 text-white border-indigo-500'
+                            : 'text-slate-300 border-slate-700 hover:bg-slate-800'
+                            }`}
+                    >
+                        <SlidersHorizontal size={14} />
+                        Rules
+                    </button>
+                </div>
+            </div>
+
+            {showSettings && (
+                <div className="p-4 bg-slate-900/40 border-b border-slate-700 space-y-2">
+                    {rules.map(rule => (
+                        <div key={rule.id} className="flex items-center justify-between gap-4 p-2 rounded-lg hover:bg-slate-800/40">
+                            <label className="flex items-start gap-3 cursor-pointer min-w-0">
+                                <input
+                                    type="checkbox"
+                                    checked={settings[rule.id].enabled}
+                                    onChange={(e) => updateSettings({ ...settings, [rule.id]: { ...settings[rule.id], enabled: e.target.checked } })}
+                                    className="mt-1 accent-indigo-500"
+                                />
+                                <span className="min-w-0">
+                                    <span className="block text-sm text-slate-200">{rule.name}</span>
+                                    <span className="block text-xs text-slate-500">{rule.description}</span>
+                                </span>
+                            </label>
+                            <select
+                                value={settings[rule.id].severity}
+                                onChange={(e) => updateSettings({ ...settings, [rule.id]: { ...settings[rule.id], severity: e.target.value as LintSeverity } })}
+                                disabled={!settings[rule.id].enabled}
+                                className="text-xs px-2 py-1 bg-slate-900 border border-slate-700 rounded text-slate-300 focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+                            >
+                                {LINT_SEVERITIES.map(severity => <option key={severity} value={severity}>{severity}</option>)}
+                            </select>
+                        </div>
+                    ))}
+                    <div className="flex items-center gap-2 pt-3 border-t border-slate-800">
+                        <input
+                            type="text"
+                            value={newProjectName}
+                            onChange={(e) => setNewProjectName(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleCreateProject()}
+                            placeholder="New rule set name"
+                            className="flex-1 text-sm px-3 py-1.5 bg-slate-900 border border-slate-700 rounded-lg text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-indigo-500"
+                        />
+                        <button
+                            onClick={handleCreateProject}
+                            disabled={!newProjectName.trim()}
+                            className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-slate-300 border border-slate-700 rounded-lg hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                            <Plus size={14} />
+                            Save as New
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {result.findings.length === 0 ? (
+                <div className="p-12 text-center text-slate-500">
+                    <CheckCircle size={48} className="mx-auto mb-4 text-emerald-500/50" />
+                    <p>No lint findings.</p>
+                </div>
+            ) : (
+                <div className="max-h-[600px] overflow-y-auto">
+                    {rules.filter(rule => findingsByRule[rule.id]).map(rule => (
+                        <div key={rule.id} className="border-b border-slate-800">
+                            <div className="px-4 py-3 bg-slate-800/30 flex items-center justify-between sticky top-0 backdrop-blur-sm">
+                                <span className="text-sm font-semibold text-white">{rule.name}</span>
+                                <div className="flex items-center gap-2">
+                                    <span className={`text-xs px-2 py-0.5 rounded border ${SEVERITY_STYLES[settings[rule.id].severity]}`}>
+                                        {settings[rule.id].severity}
+                                    </span>
+                                    <span className="text-xs text-slate-400">{findingsByRule[rule.id].length}</span>
+                                </div>
+                            </div>
+                            <div className="divide-y divide-slate-800/60">
+                                {findingsByRule[rule.id].map((finding, idx) => (
+                                    <div key={idx} className="px-4 py-3 hover:bg-slate-800/20 transition-colors">
+                                        <div className="flex items-center justify-between gap-4">
+                                            <span className="text-sm font-mono text-indigo-300 break-all">
+                                                {finding.key}
+                                                {finding.path && <span className="text-slate-500"> · {finding.path}</span>}
+                                            </span>
+                                            <span className="text-xs bg-slate-800 text-slate-300 px-2 py-0.5 rounded border border-slate-700 flex-shrink-0">{finding.langCode}</span>
+                                        </div>
+                                        <p className="text-sm text-slate-300 mt-1">{finding.message}</p>
+                                        <p className="text-xs font-mono text-slate-500 mt-1 whitespace-pre-wrap break-all">"{finding.text}"</p>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
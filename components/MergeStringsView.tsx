@@ -1,32 +1,34 @@
 import React, { useState, useRef } from 'react';
 import { ArrowLeft, Upload, X, Save, Merge, FileText, Plus, AlertCircle, Sparkles } from 'lucide-react';
 import { LanguageFile } from '../types';
-import { mergeStringsIntoCatalog } from '../services/converter';
+import { CatalogImportReport, mergeStringsIntoCatalog } from '../services/converter';
+import { findFormatAdapter, formatUnsupportedFilesMessage, getFormatExtensions, partitionSupportedFiles } from '../services/formatRegistry';
+import { detectFileLanguage } from '../services/languageDetection';
+import { decodeStringsFile } from '../services/stringsParser';
+import { translationMemoryStore } from '../services/translationMemoryStore';
+import { CatalogImportReportNotice } from './CatalogImportReportNotice';
 import { DragDropZone } from './DragDropZone';
+import { LanguageConfidenceBadge } from './LanguageConfidenceBadge';
 
 interface MergeStringsViewProps {
     onBack: () => void;
 }
 
-const guessLangCode = (fileName: string): string => {
-    const name = fileName.toLowerCase().replace(/\.(strings|stringsdict)$/, '');
-    const lprojMatch = name.match(/([a-z]{2,3}(-[a-z0-9]+)?)\.lproj/);
-    if (lprojMatch) return lprojMatch[1];
-    const simpleMatch = name.match(/^[a-z]{2,3}(-[a-z0-9]+)?$/);
-    if (simpleMatch) return simpleMatch[0];
-    return '';
-}
+// XLIFF files and catalogs name their own languages, so they need no language code
+const isMultiLanguageFile = (file: LanguageFile): boolean => !!findFormatAdapter(file.name, file.content)?.multiLanguage;
 
 const readFile = (file: File): Promise<LanguageFile> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
-        reader.onload = () => resolve({
-            name: file.name,
-            content: reader.result as string,
-            langCode: guessLangCode(file.name),
-        });
+        reader.onload = () => {
+            // Files from a dropped folder keep their path, whose fr.lproj/ or values-fr/ folder tells their language
+            const name = file.webkitRelativePath || file.name;
+            const content = decodeStringsFile(reader.result as ArrayBuffer);
+            const langDetection = detectFileLanguage(name, content);
+            resolve({ name, content, langCode: langDetection?.langCode || '', langDetection });
+        };
         reader.onerror = (err) => reject(err);
-        reader.readAsText(file);
+        reader.readAsArrayBuffer(file);
     });
 };
 
@@ -93,6 +95,7 @@ export const MergeStringsView: React.FC<MergeStringsViewProps> = ({ onBack }) =>
     const [sourceCatalog, setSourceCatalog] = useState<LanguageFile | null>(null);
     const [stringsFiles, setStringsFiles] = useState<LanguageFile[]>([]);
     const [mergedOutput, setMergedOutput] = useState<string>('');
+    const [importReport, setImportReport] = useState<CatalogImportReport | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(false);
 
@@ -123,9 +126,10 @@ export const MergeStringsView: React.FC<MergeStringsViewProps> = ({ onBack }) =>
         setError(null);
         try {
             const promises = Array.from(selectedFiles).map(readFile);
-            const newlyReadFiles = await Promise.all(promises);
+            const { supported, unsupported } = partitionSupportedFiles(await Promise.all(promises));
+            if (unsupported.length > 0) setError(formatUnsupportedFilesMessage(unsupported));
             const existingFileNames = new Set(stringsFiles.map(f => f.name));
-            const uniqueNewFiles = newlyReadFiles.filter(f => !existingFileNames.has(f.name));
+            const uniqueNewFiles = supported.filter(f => !existingFileNames.has(f.name));
             if (uniqueNewFiles.length > 0) setStringsFiles([...stringsFiles, ...uniqueNewFiles]);
         } catch (err) {
             setError("Failed to read one or more strings files.");
@@ -153,7 +157,7 @@ export const MergeStringsView: React.FC<MergeStringsViewProps> = ({ onBack }) =>
     };
 
     const handleLangCodeChange = (fileName: string, newLangCode: string) => {
-        setStringsFiles(stringsFiles.map(f => f.name === fileName ? { ...f, langCode: newLangCode } : f));
+        setStringsFiles(stringsFiles.map(f => f.name === fileName ? { ...f, langCode: newLangCode, langDetection: undefined } : f));
     };
 
     const handleMerge = () => {
@@ -162,10 +166,13 @@ export const MergeStringsView: React.FC<MergeStringsViewProps> = ({ onBack }) =>
         setError(null);
         setTimeout(() => {
             try {
-                const result = mergeStringsIntoCatalog(sourceCatalog.content, stringsFiles);
-                setMergedOutput(result);
+                const { outputContent, report } = mergeStringsIntoCatalog(sourceCatalog.content, stringsFiles, sourceCatalog.name);
+                setMergedOutput(outputContent);
+                setImportReport(report);
+                translationMemoryStore.addFiles([{ name: sourceCatalog.name, content: outputContent, langCode: '' }]);
             } catch (e: any) {
                 setError(e.message || "An error occurred during the merge.");
+                setImportReport(null);
             } finally {
                 setIsLoading(false);
             }
@@ -180,8 +187,9 @@ export const MergeStringsView: React.FC<MergeStringsViewProps> = ({ onBack }) =>
 
         setTimeout(() => {
             try {
-                const result = mergeStringsIntoCatalog(SAMPLE_CATALOG.content, SAMPLE_TRANSLATIONS);
-                setMergedOutput(result);
+                const { outputContent, report } = mergeStringsIntoCatalog(SAMPLE_CATALOG.content, SAMPLE_TRANSLATIONS, SAMPLE_CATALOG.name);
+                setMergedOutput(outputContent);
+                setImportReport(report);
             } catch (e: any) {
                 setError(e.message || 'An error occurred during the merge.');
             } finally {
@@ -302,22 +310,28 @@ export const MergeStringsView: React.FC<MergeStringsViewProps> = ({ onBack }) =>
                                         onClick={() => stringsInputRef.current?.click()}
                                     >
                                         <p className="text-sm text-slate-500 mb-1">No translation files added</p>
-                                        <p className="text-xs text-slate-600">Drag & drop or click to upload<br />(.strings or .stringsdict)</p>
+                                        <p className="text-xs text-slate-600">Drag & drop or click to upload<br />(.strings, .stringsdict, .xliff and more)</p>
                                     </div>
                                 ) : (
                                     stringsFiles.map((file) => (
                                         <div key={file.name} className="flex items-center justify-between p-2.5 bg-slate-800/80 rounded-lg border border-slate-700 hover:border-slate-600 transition-colors group">
                                             <div className="flex-1 min-w-0 mr-2">
                                                 <p className="text-sm text-slate-200 truncate" title={file.name}>{file.name}</p>
+                                                <p className="text-[10px] text-slate-500">{findFormatAdapter(file.name, file.content)?.label}</p>
                                             </div>
                                             <div className="flex items-center gap-2">
-                                                <input
-                                                    type="text"
-                                                    value={file.langCode}
-                                                    onChange={(e) => handleLangCodeChange(file.name, e.target.value)}
-                                                    placeholder="lang"
-                                                    className="w-14 text-xs py-1 px-1.5 bg-slate-900 border border-slate-600 rounded text-slate-300 focus:text-white focus:border-indigo-500 focus:outline-none text-center"
-                                                />
+                                                <LanguageConfidenceBadge detection={file.langDetection} />
+                                                {isMultiLanguageFile(file) ? (
+                                                    <span className="w-14 text-[10px] py-1 text-slate-500 text-center" title="The languages are read from the file">{file.langCode || 'File'}</span>
+                                                ) : (
+                                                    <input
+                                                        type="text"
+                                                        value={file.langCode}
+                                                        onChange={(e) => handleLangCodeChange(file.name, e.target.value)}
+                                                        placeholder="lang"
+                                                        className="w-14 text-xs py-1 px-1.5 bg-slate-900 border border-slate-600 rounded text-slate-300 focus:text-white focus:border-indigo-500 focus:outline-none text-center"
+                                                    />
+                                                )}
                                                 <button onClick={() => handleRemoveStringsFile(file.name)} className="p-1.5 text-slate-500 hover:text-rose-400 hover:bg-rose-500/10 rounded-md transition-colors opacity-0 group-hover:opacity-100">
                                                     <X size={14} />
                                                 </button>
@@ -331,7 +345,7 @@ export const MergeStringsView: React.FC<MergeStringsViewProps> = ({ onBack }) =>
                             <button onClick={() => stringsInputRef.current?.click()} className="text-xs text-indigo-400 hover:text-indigo-300 flex items-center justify-end gap-1 ml-auto px-2 py-1 rounded hover:bg-indigo-500/10 transition-colors">
                                 <Plus size={14} /> Add files
                             </button>
-                            <input type="file" ref={stringsInputRef} onChange={handleStringsUpload} accept=".strings,.stringsdict" className="hidden" multiple />
+                            <input type="file" ref={stringsInputRef} onChange={handleStringsUpload} accept={getFormatExtensions().join(',')} className="hidden" multiple />
                         </div>
                     </div>
 
@@ -342,6 +356,8 @@ export const MergeStringsView: React.FC<MergeStringsViewProps> = ({ onBack }) =>
                         </div>
                     )}
 
+                    <CatalogImportReportNotice report={importReport} />
+
                     <div className="flex-shrink-0 pt-2 mt-auto">
                         <button
                             onClick={handleMerge}
@@ -2,31 +2,40 @@
 import React, { useState, useRef } from 'react';
 import { ArrowLeft, Languages, AlertCircle, CheckCircle, AlertTriangle, Copy, FileText, Search, Upload, X, Trash2, ScanSearch, Calculator, Download, Sparkles } from 'lucide-react';
 import { DragDropZone } from './DragDropZone';
+import { LintPanel } from './LintPanel';
+import { GlossaryPanel } from './GlossaryPanel';
 import { LanguageFile } from '../types';
+import { detectFileLanguage } from '../services/languageDetection';
 import { analyzeStrings, StringsAnalysisResult } from '../services/stringsAnalyser';
 import { calculateTotalWords, WordCountResult, FileWordCount } from '../services/wordCounter';
+import { findFormatAdapter, formatUnreadableFilesMessage, formatUnsupportedFilesMessage, getFormatExtensions, partitionSupportedFiles } from '../services/formatRegistry';
+import { lintFiles } from '../services/lintEngine';
+import { lintSettingsStore } from '../services/lintSettingsStore';
+import { checkGlossary } from '../services/glossary';
+import { glossaryStore } from '../services/glossaryStore';
+import { translationMemoryStore } from '../services/translationMemoryStore';
 
 interface StringsAnalyserViewProps {
     onBack: () => void;
 }
 
-const guessLangCode = (fileName: string): string => {
-    const name = fileName.toLowerCase().replace(/\.(strings|stringsdict|xcstrings|xml)$/, '');
-    const lprojMatch = name.match(/([a-z]{2,3}(-[a-z0-9]+)?)\.lproj/);
-    if (lprojMatch) return lprojMatch[1];
-    const simpleMatch = name.match(/^[a-z]{2,3}(-[a-z0-9]+)?$/);
-    if (simpleMatch) return simpleMatch[0];
-    return '';
-}
+// Files from a dropped folder are told apart by their path
+const getFilePath = (file: File): string => file.webkitRelativePath || file.name;
 
 const readFile = (file: File): Promise<LanguageFile> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
-        reader.onload = () => resolve({
-            name: file.name,
-            content: reader.result as string,
-            langCode: guessLangCode(file.name),
-        });
+        reader.onload = () => {
+            const content = reader.result as string;
+            // Files from a dropped folder keep their path, so "values-fr/strings.xml" and
+            // "values-de/strings.xml" stay apart and the folder tells their language
+            const name = getFilePath(file);
+            resolve({
+                name,
+                content,
+                langCode: detectFileLanguage(name, content)?.langCode || '',
+            });
+        };
         reader.onerror = (err) => reject(err);
         reader.readAsText(file);
     });
@@ -129,7 +138,8 @@ export const StringsAnalyserView: React.FC<StringsAnalyserViewProps> = ({ onBack
     const [files, setFiles] = useState<LanguageFile[]>([]);
     const [result, setResult] = useState<StringsAnalysisResult | null>(null);
     const [wordCountResult, setWordCountResult] = useState<WordCountResult | null>(null);
-    const [activeTab, setActiveTab] = useState<'languages' | 'duplicates' | 'wordcount'>('languages');
+    const [activeTab, setActiveTab] = useState<'languages' | 'duplicates' | 'plurals' | 'placeholders' | 'lint' | 'glossary' | 'wordcount'>('languages');
+    const [error, setError] = useState<string | null>(null);
 
     // File Selection State
     const [pendingFiles, setPendingFiles] = useState<File[]>([]);
@@ -159,12 +169,14 @@ export const StringsAnalyserView: React.FC<StringsAnalyserViewProps> = ({ onBack
 
         try {
             const promises = fileList.map(readFile);
-            const newlyReadFiles = await Promise.all(promises);
+            const { supported, unsupported } = partitionSupportedFiles(await Promise.all(promises));
+            setError(unsupported.length > 0 ? formatUnsupportedFilesMessage(unsupported) : null);
             const existingFileNames = new Set(files.map(f => f.name));
-            const uniqueNewFiles = newlyReadFiles.filter(f => !existingFileNames.has(f.name));
+            const uniqueNewFiles = supported.filter(f => !existingFileNames.has(f.name));
 
             if (uniqueNewFiles.length > 0) {
                 handleFilesChange([...files, ...uniqueNewFiles]);
+                translationMemoryStore.addFiles([...files, ...uniqueNewFiles]);
             }
         } catch (err) {
             console.error("Error reading files", err);
@@ -178,12 +190,10 @@ export const StringsAnalyserView: React.FC<StringsAnalyserViewProps> = ({ onBack
 
     const handleFilesDropped = async (droppedFiles: FileList | File[]) => { // Updated type to accept File[] from DragDropZone
         const fileList = Array.isArray(droppedFiles) ? droppedFiles : Array.from(droppedFiles);
-        // Filter for supported types
-        const relevantFiles = fileList.filter(f =>
-            f.name.endsWith('.xcstrings') ||
-            f.name.endsWith('.xml') ||
-            f.name.endsWith('.xliff')
-        );
+        // Filter for supported types; files without a known extension are reported rather than read
+        const relevantFiles = fileList.filter(f => findFormatAdapter(f.name));
+        const unsupported = fileList.filter(f => !findFormatAdapter(f.name)).map(f => f.name);
+        setError(unsupported.length > 0 ? formatUnsupportedFilesMessage(unsupported) : null);
 
         if (relevantFiles.length === 0) return;
 
@@ -195,7 +205,7 @@ export const StringsAnalyserView: React.FC<StringsAnalyserViewProps> = ({ onBack
 
         if (relevantFiles.length > 1) {
             setPendingFiles(relevantFiles);
-            setSelectedPendingFiles(new Set(relevantFiles.map(f => f.name))); // Select all by default
+            setSelectedPendingFiles(new Set(relevantFiles.map(getFilePath))); // Select all by default
             setShowSelectionModal(true);
         } else {
             await processFiles(relevantFiles);
@@ -203,7 +213,7 @@ export const StringsAnalyserView: React.FC<StringsAnalyserViewProps> = ({ onBack
     };
 
     const handleConfirmSelection = async () => {
-        const filesToProcess = pendingFiles.filter(f => selectedPendingFiles.has(f.name));
+        const filesToProcess = pendingFiles.filter(f => selectedPendingFiles.has(getFilePath(f)));
         setShowSelectionModal(false);
         setPendingFiles([]);
         await processFiles(filesToProcess);
@@ -244,7 +254,10 @@ export const StringsAnalyserView: React.FC<StringsAnalyserViewProps> = ({ onBack
             languages: result.languages,
             duplicates: result.duplicates,
             looseDuplicates: result.looseDuplicates,
-            wordCounts: wordCountResult?.fileCounts
+            unreadableFiles: result.unreadableFiles,
+            wordCounts: wordCountResult?.fileCounts,
+            lint: lintFiles(files, lintSettingsStore.load(lintSettingsStore.getActiveProject())).findings,
+            glossary: checkGlossary(files, glossaryStore.load())
         };
 
         const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
@@ -276,23 +289,23 @@ export const StringsAnalyserView: React.FC<StringsAnalyserViewProps> = ({ onBack
                         <div className="p-2 overflow-y-auto flex-1 custom-scrollbar">
                             {pendingFiles.map(file => (
                                 <div
-                                    key={file.name}
-                                    onClick={() => togglePendingFile(file.name)}
-                                    className={`flex items-center p-3 rounded-lg cursor-pointer transition-colors border mb-1 ${selectedPendingFiles.has(file.name)
+                                    key={getFilePath(file)}
+                                    onClick={() => togglePendingFile(getFilePath(file))}
+                                    className={`flex items-center p-3 rounded-lg cursor-pointer transition-colors border mb-1 ${selectedPendingFiles.has(getFilePath(file))
                                         ? 'bg-indigo-600/20 border-indigo-500/50'
                                         : 'bg-slate-900/40 border-slate-700/50 hover:bg-slate-700/50'
                                         }`}
                                 >
-                                    <div className={`w-5 h-5 rounded border mr-3 flex items-center justify-center ${selectedPendingFiles.has(file.name)
+                                    <div className={`w-5 h-5 rounded border mr-3 flex items-center justify-center ${selectedPendingFiles.has(getFilePath(file))
                                         ? 'bg-indigo-500 border-indigo-500 text-white'
                                         : 'border-slate-500'
                                         }`}>
-                                        {selectedPendingFiles.has(file.name) && <CheckCircle size={14} />}
+                                        {selectedPendingFiles.has(getFilePath(file)) && <CheckCircle size={14} />}
                                     </div>
                                     <div className="flex-1 overflow-hidden">
                                         <div className="flex items-center">
                                             <FileText size={14} className="mr-2 text-slate-400" />
-                                            <span className="text-sm font-medium text-slate-200 truncate">{file.name}</span>
+                                            <span className="text-sm font-medium text-slate-200 truncate">{getFilePath(file)}</span>
                                         </div>
                                         <div className="text-xs text-slate-500 ml-6">
                                             {(file.size / 1024).toFixed(1)} KB
@@ -382,7 +395,7 @@ export const StringsAnalyserView: React.FC<StringsAnalyserViewProps> = ({ onBack
                                 onChange={handleFileSelect}
                                 className="hidden"
                                 multiple
-                                accept=".xcstrings,.xml,.xliff"
+                                accept={getFormatExtensions().join(',')}
                             />
                             <input
                                 type="file"
@@ -397,7 +410,7 @@ export const StringsAnalyserView: React.FC<StringsAnalyserViewProps> = ({ onBack
                             </div>
                             <h3 className="text-lg font-medium text-slate-200 mb-1">Upload Files</h3>
                             <p className="text-sm text-slate-500 max-w-[200px] mb-4">
-                                Drag & drop .xcstrings, .xml files or .xcloc folders
+                                Drag & drop localization files or .xcloc folders
                             </p>
                             <button
                                 onClick={(e) => {
@@ -411,13 +424,25 @@ export const StringsAnalyserView: React.FC<StringsAnalyserViewProps> = ({ onBack
                         </div>
                     </DragDropZone>
 
+                    {error && (
+                        <div className="mb-4 p-3 bg-rose-500/10 border border-rose-500/20 rounded-lg">
+                            <p className="text-xs text-rose-300">{error}</p>
+                        </div>
+                    )}
+
+                    {result && result.unreadableFiles.length > 0 && (
+                        <div className="mb-4 p-3 bg-rose-500/10 border border-rose-500/20 rounded-lg">
+                            <p className="text-xs text-rose-300">{formatUnreadableFilesMessage(result.unreadableFiles)}</p>
+                        </div>
+                    )}
+
                     {/* File List */}
                     <div className="flex-1 overflow-y-auto pr-2 space-y-2 custom-scrollbar">
                         {files.map(file => (
                             <div key={file.name} className="flex items-center justify-between p-3 bg-slate-800 rounded-lg border border-slate-700 hover:border-slate-600 transition-all group">
                                 <div className="flex items-center overflow-hidden">
-                                    <div className={`w-8 h-8 rounded flex items-center justify-center mr-3 flex-shrink-0 ${file.name.endsWith('.xcstrings') ? 'bg-purple-500/20 text-purple-400' :
-                                        file.name.endsWith('.xliff') ? 'bg-indigo-500/20 text-indigo-400' :
+                                    <div className={`w-8 h-8 rounded flex items-center justify-center mr-3 flex-shrink-0 ${findFormatAdapter(file.name, file.content)?.id === 'xcstrings' ? 'bg-purple-500/20 text-purple-400' :
+                                        findFormatAdapter(file.name, file.content)?.id === 'xliff' ? 'bg-indigo-500/20 text-indigo-400' :
                                             'bg-orange-500/20 text-orange-400'
                                         }`}>
                                         <FileText size={16} />
@@ -574,6 +599,42 @@ export const StringsAnalyserView: React.FC<StringsAnalyserViewProps> = ({ onBack
                                 >
                                     Duplicate Detection
                                 </button>
+                                <button
+                                    onClick={() => setActiveTab('plurals')}
+                                    className={`px-6 py-2.5 rounded-lg text-sm font-medium transition-all duration-200 ${activeTab === 'plurals'
+                                        ? 'bg-indigo-600 text-white shadow-md'
+                                        : 'text-slate-400 hover:text-white hover:bg-slate-800'
+                                        }`}
+                                >
+                                    Plural Completeness
+                                </button>
+                                <button
+                                    onClick={() => setActiveTab('placeholders')}
+                                    className={`px-6 py-2.5 rounded-lg text-sm font-medium transition-all duration-200 ${activeTab === 'placeholders'
+                                        ? 'bg-indigo-600 text-white shadow-md'
+                                        : 'text-slate-400 hover:text-white hover:bg-slate-800'
+                                        }`}
+                                >
+                                    Placeholders
+                                </button>
+                                <button
+                                    onClick={() => setActiveTab('lint')}
+                                    className={`px-6 py-2.5 rounded-lg text-sm font-medium transition-all duration-200 ${activeTab === 'lint'
+                                        ? 'bg-indigo-600 text-white shadow-md'
+                                        : 'text-slate-400 hover:text-white hover:bg-slate-800'
+                                        }`}
+                                >
+                                    Lint
+                                </button>
+                                <button
+                                    onClick={() => setActiveTab('glossary')}
+                                    className={`px-6 py-2.5 rounded-lg text-sm font-medium transition-all duration-200 ${activeTab === 'glossary'
+                                        ? 'bg-indigo-600 text-white shadow-md'
+                                        : 'text-slate-400 hover:text-white hover:bg-slate-800'
+                                        }`}
+                                >
+                                    Glossary
+                                </button>
                                 <button
                                     onClick={() => setActiveTab('wordcount')}
                                     className={`px-6 py-2.5 rounded-lg text-sm font-medium transition-all duration-200 ${activeTab === 'wordcount'
@@ -714,6 +775,105 @@ export const StringsAnalyserView: React.FC<StringsAnalyserViewProps> = ({ onBack
                                     </div>
                                 )}
 
+                                {activeTab === 'plurals' && (
+                                    <div>
+                                        <div className="p-4 bg-slate-800/30 border-b border-slate-700">
+                                            <h3 className="font-semibold text-white flex items-center">
+                                                <AlertTriangle size={18} className="text-amber-500 mr-2" />
+                                                Plural Categories
+                                            </h3>
+                                            <p className="text-sm text-slate-400 mt-1">Plurals missing a category their language needs, or with one it never uses (CLDR rules)</p>
+                                        </div>
+                                        {result.pluralIssues.length === 0 ? (
+                                            <div className="p-12 text-center text-slate-500">
+                                                <CheckCircle size={48} className="mx-auto mb-4 text-emerald-500/50" />
+                                                <p>Every plural has the categories its language needs.</p>
+                                            </div>
+                                        ) : (
+                                            <div className="max-h-[500px] overflow-auto">
+                                                <table className="w-full text-left border-collapse">
+                                                    <thead>
+                                                        <tr className="bg-slate-800/50 border-b border-slate-700 text-xs uppercase tracking-wider text-slate-400 font-semibold">
+                                                            <th className="px-6 py-4">Key</th>
+                                                            <th className="px-6 py-4">Language</th>
+                                                            <th className="px-6 py-4">Missing</th>
+                                                            <th className="px-6 py-4">Superfluous</th>
+                                                        </tr>
+                                                    </thead>
+                                                    <tbody className="divide-y divide-slate-800">
+                                                        {result.pluralIssues.map((issue) => (
+                                                            <tr key={`${issue.key}|${issue.langCode}|${issue.path}`} className="hover:bg-slate-800/30 transition-colors">
+                                                                <td className="px-6 py-4">
+                                                                    <span className="text-sm font-mono text-slate-200 break-all">{issue.key}</span>
+                                                                    {issue.path && <span className="block text-xs text-slate-500 font-mono mt-0.5">{issue.path}</span>}
+                                                                </td>
+                                                                <td className="px-6 py-4 text-sm font-medium text-white">{issue.langCode}</td>
+                                                                <td className="px-6 py-4">
+                                                                    <div className="flex flex-wrap gap-1.5">
+                                                                        {issue.missing.map(category => (
+                                                                            <span key={category} className="text-xs bg-rose-500/20 text-rose-300 px-2 py-0.5 rounded border border-rose-500/30">{category}</span>
+                                                                        ))}
+                                                                    </div>
+                                                                </td>
+                                                                <td className="px-6 py-4">
+                                                                    <div className="flex flex-wrap gap-1.5">
+                                                                        {issue.superfluous.map(category => (
+                                                                            <span key={category} className="text-xs bg-amber-500/20 text-amber-300 px-2 py-0.5 rounded border border-amber-500/30">{category}</span>
+                                                                        ))}
+                                                                    </div>
+                                                                </td>
+                                                            </tr>
+                                                        ))}
+                                                    </tbody>
+                                                </table>
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
+                                {activeTab === 'placeholders' && (
+                                    <div>
+                                        <div className="p-4 bg-slate-800/30 border-b border-slate-700">
+                                            <h3 className="font-semibold text-white flex items-center">
+                                                <AlertCircle size={18} className="text-rose-500 mr-2" />
+                                                Placeholder Mismatches
+                                            </h3>
+                                            <p className="text-sm text-slate-400 mt-1">
+                                                Translations whose format specifiers differ from the source language{result.sourceLanguage && ` (${result.sourceLanguage})`}; these can crash String(format:)
+                                            </p>
+                                        </div>
+                                        {result.placeholderIssues.length === 0 ? (
+                                            <div className="p-12 text-center text-slate-500">
+                                                <CheckCircle size={48} className="mx-auto mb-4 text-emerald-500/50" />
+                                                <p>Every translation uses the placeholders of its source text.</p>
+                                            </div>
+                                        ) : (
+                                            <div className="max-h-[500px] overflow-y-auto divide-y divide-slate-800">
+                                                {result.placeholderIssues.map((issue, idx) => (
+                                                    <div key={idx} className="p-4 hover:bg-slate-800/20 transition-colors">
+                                                        <div className="flex items-center justify-between gap-4 mb-2">
+                                                            <span className="text-sm font-mono text-indigo-300 break-all">
+                                                                {issue.key}
+                                                                {issue.path && <span className="text-slate-500"> · {issue.path}</span>}
+                                                            </span>
+                                                            <span className="text-xs bg-slate-800 text-slate-300 px-2 py-1 rounded border border-slate-700 flex-shrink-0">{issue.langCode}</span>
+                                                        </div>
+                                                        <p className="text-sm text-rose-300 mb-2">{issue.message}</p>
+                                                        <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs font-mono">
+                                                            <div className="bg-slate-900/50 rounded p-2 text-slate-400 break-all border border-slate-700/50">{issue.sourceText}</div>
+                                                            <div className="bg-slate-900/50 rounded p-2 text-slate-200 break-all border border-slate-700/50">{issue.translationText}</div>
+                                                        </div>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
+                                {activeTab === 'lint' && <LintPanel files={files} />}
+
+                                {activeTab === 'glossary' && <GlossaryPanel files={files} />}
+
                                 {activeTab === 'wordcount' && wordCountResult && (
                                     <div className="p-6">
                                         <div className="flex flex-col items-center justify-center py-8 border-b border-slate-700/50 mb-6">
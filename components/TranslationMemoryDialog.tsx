@@ -0,0 +1,213 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Database, Loader2, Trash2, Check, CheckSquare, Square } from 'lucide-react';
+import { TranslationMemoryEntry, fillFromTranslationMemory, DEFAULT_MIN_SIMILARITY } from '../services/translationMemory';
+import { translationMemoryStore } from '../services/translationMemoryStore';
+import { parseStringCatalogDocument, serializeStringCatalogDocument } from '../services/stringCatalog';
+import { XCStringsDocument } from '../types';
+
+interface TranslationMemoryDialogProps {
+    fileName: string;
+    /** The .xcstrings content to fill. */
+    content: string;
+    onApply: (content: string) => void;
+    onClose: () => void;
+}
+
+export const TranslationMemoryDialog: React.FC<TranslationMemoryDialogProps> = ({ fileName, content, onApply, onClose }) => {
+    const [entries, setEntries] = useState<TranslationMemoryEntry[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [minSimilarity, setMinSimilarity] = useState(Math.round(DEFAULT_MIN_SIMILARITY * 100));
+    const [selectedLanguages, setSelectedLanguages] = useState<Set<string> | null>(null);
+
+    useEffect(() => {
+        translationMemoryStore.getEntries()
+            .then(setEntries)
+            .catch(e => {
+                console.error('Failed to read the translation memory', e);
+                setError('The translation memory could not be opened. The browser may block storage for this site.');
+                setEntries([]);
+            });
+    }, []);
+
+    const catalog: XCStringsDocument | null = useMemo(() => {
+        try {
+            return parseStringCatalogDocument(content);
+        } catch {
+            return null;
+        }
+    }, [content]);
+
+    // The catalog's own languages, plus every language the memory can translate its source language into
+    const languages = useMemo(() => {
+        if (!catalog || !entries) return [];
+        const languageSet = new Set<string>();
+        Object.values(catalog.strings).forEach(entry => Object.keys(entry.localizations || {}).forEach(language => languageSet.add(language)));
+        entries.filter(entry => entry.sourceLanguage === catalog.sourceLanguage).forEach(entry => languageSet.add(entry.language));
+        languageSet.delete(catalog.sourceLanguage);
+        return Array.from(languageSet).sort((a, b) => a.localeCompare(b));
+    }, [catalog, entries]);
+
+    // Every language is filled until the user picks
+    const activeLanguages = useMemo(() => selectedLanguages ?? new Set(languages), [selectedLanguages, languages]);
+
+    const result = useMemo(() => {
+        if (!catalog || !entries) return null;
+        return fillFromTranslationMemory(catalog, entries, { languages: Array.from(activeLanguages), minSimilarity: minSimilarity / 100 });
+    }, [catalog, entries, activeLanguages, minSimilarity]);
+
+    const exactCount = result ? result.fills.filter(fill => fill.match.similarity === 1).length : 0;
+
+    const handleToggleLanguage = (language: string) => {
+        const next = new Set(activeLanguages);
+        if (next.has(language)) {
+            next.delete(language);
+        } else {
+            next.add(language);
+        }
+        setSelectedLanguages(next);
+    };
+
+    const handleClearMemory = async () => {
+        if (!window.confirm('Delete every remembered translation from this browser?')) return;
+        try {
+            await translationMemoryStore.clear();
+            setEntries([]);
+        } catch (e) {
+            console.error('Failed to clear the translation memory', e);
+            setError('The translation memory could not be cleared.');
+        }
+    };
+
+    const handleApply = () => {
+        if (!result || result.fills.length === 0) return;
+        onApply(serializeStringCatalogDocument(result.doc));
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50" onClick={onClose}>
+            <div
+                className="bg-slate-800 rounded-2xl shadow-2xl border border-slate-700 w-full max-w-3xl mx-4 overflow-hidden flex flex-col max-h-[85vh]"
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between px-6 py-4 border-b border-slate-700">
+                    <div className="flex items-center space-x-3">
+                        <div className="w-9 h-9 bg-violet-500/15 rounded-xl flex items-center justify-center">
+                            <Database className="w-5 h-5 text-violet-400" />
+                        </div>
+                        <div>
+                            <h3 className="text-lg font-bold text-white">Fill from Translation Memory</h3>
+                            <p className="text-xs text-slate-400">
+                                {fileName}{entries && ` · ${entries.length} remembered translation${entries.length !== 1 ? 's' : ''}`}
+                            </p>
+                        </div>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 rounded-lg hover:bg-slate-700 text-slate-400 hover:text-white transition-colors"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {error && <div className="px-6 py-3 text-sm text-rose-400 bg-rose-500/10 border-b border-rose-500/20">{error}</div>}
+
+                {!entries ? (
+                    <div className="py-16 flex items-center justify-center text-slate-400">
+                        <Loader2 className="w-6 h-6 animate-spin mr-3" />
+                        Loading translation memory...
+                    </div>
+                ) : !catalog ? (
+                    <div className="py-16 text-center text-slate-500 text-sm">Fix the JSON errors in the catalog to fill it.</div>
+                ) : (
+                    <>
+                        <div className="px-6 py-3 bg-slate-800/50 border-b border-slate-700/50 space-y-3">
+                            <div className="flex flex-wrap items-center gap-2">
+                                {languages.length === 0 && <span className="text-xs text-slate-500">No languages to fill. Load translated catalogs in the Analyser, Merge or Editor tools to build the memory.</span>}
+                                {languages.map(language => (
+                                    <button
+                                        key={language}
+                                        onClick={() => handleToggleLanguage(language)}
+                                        className={`flex items-center space-x-1.5 px-2.5 py-1 rounded-lg text-xs font-mono border transition-colors ${activeLanguages.has(language)
+                                            ? 'bg-violet-500/15 border-violet-500/30 text-violet-200'
+                                            : 'border-slate-700 text-slate-500 hover:text-slate-300'
+                                            }`}
+                                    >
+                                        {activeLanguages.has(language) ? <CheckSquare className="w-3.5 h-3.5" /> : <Square className="w-3.5 h-3.5" />}
+                                        <span>{language}</span>
+                                    </button>
+                                ))}
+                            </div>
+                            <label className="flex items-center space-x-3 text-xs text-slate-300">
+                                <span>Minimum similarity</span>
+                                <input
+                                    type="range"
+                                    min={50}
+                                    max={100}
+                                    step={5}
+                                    value={minSimilarity}
+                                    onChange={(e) => setMinSimilarity(Number(e.target.value))}
+                                    className="flex-1 accent-violet-500"
+                                />
+                                <span className="font-mono w-10 text-right">{minSimilarity}%</span>
+                            </label>
+                        </div>
+
+                        <div className="flex-1 overflow-y-auto custom-scrollbar divide-y divide-slate-700/50">
+                            {result && result.fills.length > 0 ? result.fills.map((fill, idx) => (
+                                <div key={idx} className="px-6 py-3">
+                                    <div className="flex items-center justify-between gap-4">
+                                        <span className="text-sm font-mono text-indigo-300 break-all">{fill.key}</span>
+                                        <div className="flex items-center gap-2 flex-shrink-0">
+                                            <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full ${fill.match.similarity === 1
+                                                ? 'bg-emerald-500/20 text-emerald-300'
+                                                : 'bg-amber-500/20 text-amber-300'
+                                                }`}>
+                                                {fill.match.similarity === 1 ? 'Exact' : `Fuzzy ${Math.floor(fill.match.similarity * 100)}%`}
+                                            </span>
+                                            <span className="text-xs bg-slate-900 text-slate-300 px-2 py-0.5 rounded border border-slate-700 font-mono">{fill.language}</span>
+                                        </div>
+                                    </div>
+                                    {fill.match.similarity < 1 && (
+                                        <p className="text-xs text-slate-500 mt-1 break-all">Remembered for "{fill.match.entry.sourceText}"</p>
+                                    )}
+                                    <p className="text-sm text-slate-200 mt-1 break-all">"{fill.match.entry.translation}"</p>
+                                    <p className="text-[11px] text-slate-600 mt-0.5">{fill.state} · from {fill.match.entry.origin}</p>
+                                </div>
+                            )) : (
+                                <div className="py-12 text-center text-slate-500 text-sm">No missing translations have a match in the memory.</div>
+                            )}
+                        </div>
+                    </>
+                )}
+
+                <div className="px-6 py-4 border-t border-slate-700 flex items-center justify-between">
+                    <button
+                        onClick={handleClearMemory}
+                        disabled={!entries || entries.length === 0}
+                        className="flex items-center space-x-1.5 text-xs text-slate-500 hover:text-rose-400 disabled:opacity-40 disabled:hover:text-slate-500 transition-colors"
+                    >
+                        <Trash2 className="w-3.5 h-3.5" />
+                        <span>Clear Memory</span>
+                    </button>
+                    <div className="flex items-center space-x-3">
+                        {result && result.fills.length > 0 && (
+                            <span className="text-xs text-slate-400">{exactCount} exact · {result.fills.length - exactCount} fuzzy</span>
+                        )}
+                        <button
+                            onClick={handleApply}
+                            disabled={!result || result.fills.length === 0}
+                            className={`flex items-center space-x-2 px-5 py-2.5 rounded-xl text-sm font-semibold transition-all ${result && result.fills.length > 0
+                                ? 'bg-violet-500 hover:bg-violet-600 text-white shadow-lg shadow-violet-500/25'
+                                : 'bg-slate-700 text-slate-500 cursor-not-allowed'
+                                }`}
+                        >
+                            <Check className="w-4 h-4" />
+                            <span>Fill {result && result.fills.length > 0 ? `(${result.fills.length})` : ''}</span>
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -3,6 +3,7 @@ import React, { useState, useRef } from 'react';
 import { ArrowLeft, Upload, X, Calculator, FileText } from 'lucide-react';
 import { LanguageFile } from '../types';
 import { calculateTotalWords, WordCountResult, FileWordCount } from '../services/wordCounter';
+import { formatUnsupportedFilesMessage, getFormatExtensions, partitionSupportedFiles } from '../services/formatRegistry';
 import { DragDropZone } from './DragDropZone';
 
 interface WordCountViewProps {
@@ -13,6 +14,7 @@ export const WordCountView: React.FC<WordCountViewProps> = ({ onBack }) => {
     const [files, setFiles] = useState<LanguageFile[]>([]);
     const [result, setResult] = useState<WordCountResult | null>(null);
     const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     const handleUploadClick = () => {
@@ -37,7 +39,8 @@ export const WordCountView: React.FC<WordCountViewProps> = ({ onBack }) => {
 
         try {
             const promises = Array.from(selectedFiles).map(readFile);
-            const newlyReadFiles = await Promise.all(promises);
+            const { supported: newlyReadFiles, unsupported } = partitionSupportedFiles(await Promise.all(promises));
+            setError(unsupported.length > 0 ? formatUnsupportedFilesMessage(unsupported) : null);
 
             // Filter out duplicates based on name
             const existingNames = new Set(files.map(f => f.name));
@@ -85,7 +88,7 @@ export const WordCountView: React.FC<WordCountViewProps> = ({ onBack }) => {
                     </div>
                     <div>
                         <h1 className="text-lg font-bold text-white">Words Count</h1>
-                        <p className="text-xs text-gray-400">Count words in .xcstrings, .strings, .xml, and .stringsdict files</p>
+                        <p className="text-xs text-gray-400">Count words in String Catalogs, .strings, Android XML, XLIFF, gettext and other localization files</p>
                     </div>
                 </div>
             </header>
@@ -122,6 +125,8 @@ export const WordCountView: React.FC<WordCountViewProps> = ({ onBack }) => {
                         </div>
                     </DragDropZone>
 
+                    {error && <p className="text-xs text-red-400 mt-2 flex-shrink-0 bg-red-500/10 p-2 rounded border border-red-500/20">{error}</p>}
+
                     <div className="flex items-center justify-between mt-4 flex-shrink-0 gap-3">
                         <button onClick={handleUploadClick} className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-gray-300 bg-gray-800 border border-gray-700 rounded-md hover:bg-gray-700 hover:text-white transition-all active:scale-95">
                             <Upload size={16} /><span>Add Files</span>
@@ -130,7 +135,7 @@ export const WordCountView: React.FC<WordCountViewProps> = ({ onBack }) => {
                             type="file"
                             ref={fileInputRef}
                             onChange={handleFileChange}
-                            accept=".xcstrings,.strings,.xml,.stringsdict"
+                            accept={getFormatExtensions().join(',')}
                             className="hidden"
                             multiple
                         />
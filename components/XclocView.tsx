@@ -0,0 +1,372 @@
+import React, { useState, useRef } from 'react';
+import { ArrowLeft, Upload, X, Save, FileText, FolderOpen, Package, AlertCircle, Download, CheckCircle } from 'lucide-react';
+import { LanguageFile } from '../types';
+import { CatalogImportReport } from '../services/converter';
+import { CatalogImportReportNotice } from './CatalogImportReportNotice';
+import { DragDropZone } from './DragDropZone';
+import {
+    XclocBundle,
+    readXclocBundlesFromZip,
+    readXclocBundlesFromFiles,
+    applyXclocBundles,
+    buildXclocArchive,
+} from '../services/xclocService';
+
+interface XclocViewProps {
+    onBack: () => void;
+}
+
+type Mode = 'import' | 'export';
+
+const readFile = (file: File): Promise<LanguageFile> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve({
+            name: file.name,
+            content: reader.result as string,
+            langCode: '',
+        });
+        reader.onerror = (err) => reject(err);
+        reader.readAsText(file);
+    });
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
+
+export const XclocView: React.FC<XclocViewProps> = ({ onBack }) => {
+    const [catalog, setCatalog] = useState<LanguageFile | null>(null);
+    const [mode, setMode] = useState<Mode>('import');
+    const [bundles, setBundles] = useState<XclocBundle[]>([]);
+    const [mergedOutput, setMergedOutput] = useState('');
+    const [importReport, setImportReport] = useState<CatalogImportReport | null>(null);
+    const [extraLanguages, setExtraLanguages] = useState('');
+    const [exportedBundles, setExportedBundles] = useState<string[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const catalogInputRef = useRef<HTMLInputElement>(null);
+    const archiveInputRef = useRef<HTMLInputElement>(null);
+    const folderInputRef = useRef<HTMLInputElement>(null);
+
+    const loadCatalog = async (file: File | undefined) => {
+        if (!file) return;
+        setError(null);
+        try {
+            setCatalog(await readFile(file));
+            setMergedOutput('');
+            setExportedBundles([]);
+        } catch (err) {
+            setError("Failed to read the catalog file.");
+        }
+    };
+
+    // A single zip (or zipped .xcloc) is read as an archive; anything else is treated as picked folder contents
+    const loadBundles = async (files: File[]) => {
+        if (files.length === 0) return;
+        setError(null);
+        setIsLoading(true);
+        try {
+            const isArchive = files.length === 1 && /\.(zip|xcloc)$/i.test(files[0].name);
+            const found = isArchive
+                ? await readXclocBundlesFromZip(files[0])
+                : await readXclocBundlesFromFiles(files);
+            setBundles(found);
+            setMergedOutput('');
+        } catch (e: any) {
+            setError(e.message || "Failed to read the localization bundles.");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleImport = () => {
+        if (!catalog || bundles.length === 0) return;
+        setError(null);
+        try {
+            const { outputContent, report } = applyXclocBundles(catalog.content, catalog.name, bundles);
+            setMergedOutput(outputContent);
+            setImportReport(report);
+        } catch (e: any) {
+            setError(e.message || "An error occurred while applying the bundles.");
+        }
+    };
+
+    const handleExport = async () => {
+        if (!catalog) return;
+        setError(null);
+        setIsLoading(true);
+        try {
+            const languages = extraLanguages.split(/[\s,]+/).filter(Boolean);
+            const { blob, bundleNames } = await buildXclocArchive(catalog.content, catalog.name, languages);
+            setExportedBundles(bundleNames);
+            downloadBlob(blob, 'Localizations.zip');
+        } catch (e: any) {
+            setError(e.message || "An error occurred while building the bundles.");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleDownloadCatalog = () => {
+        if (!mergedOutput || !catalog) return;
+        downloadBlob(new Blob([mergedOutput], { type: 'application/json' }), catalog.name);
+    };
+
+    return (
+        <div className="flex flex-col min-h-screen md:h-screen bg-slate-900 text-slate-100 font-sans">
+            {/* Header */}
+            <div className="flex items-center px-6 py-4 border-b border-slate-700 bg-slate-800/50 backdrop-blur-md sticky top-0 z-10">
+                <button
+                    onClick={onBack}
+                    className="p-2 mr-4 rounded-full hover:bg-slate-700 text-slate-400 hover:text-white transition-all transform hover:scale-105 active:scale-95"
+                    aria-label="Go back"
+                >
+                    <ArrowLeft size={24} />
+                </button>
+                <div>
+                    <h1 className="text-2xl font-bold bg-gradient-to-r from-sky-400 to-indigo-400 bg-clip-text text-transparent">
+                        Localization Bundles
+                    </h1>
+                    <p className="text-slate-400 text-sm">Import and export Xcode .xcloc bundles without opening Xcode</p>
+                </div>
+                <div className="ml-auto flex space-x-1 bg-slate-900/50 p-1 rounded-lg border border-slate-800">
+                    <button
+                        onClick={() => { setMode('import'); setError(null); }}
+                        className={`px-4 py-1.5 rounded-md text-xs font-medium transition-all ${mode === 'import' ? 'bg-sky-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                    >
+                        Import
+                    </button>
+                    <button
+                        onClick={() => { setMode('export'); setError(null); }}
+                        className={`px-4 py-1.5 rounded-md text-xs font-medium transition-all ${mode === 'export' ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                    >
+                        Export
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex-1 flex flex-col md:flex-row md:overflow-hidden">
+                {/* Left Panel: Inputs */}
+                <div className="w-full md:w-1/3 md:max-w-md p-6 border-r border-slate-700 overflow-visible md:overflow-y-auto bg-slate-900/50 flex flex-col min-h-0">
+
+                    {/* Catalog Section */}
+                    <div className="flex-shrink-0 mb-6">
+                        <h2 className="text-sm font-semibold text-slate-400 mb-3 uppercase tracking-wider">
+                            1. String Catalog
+                        </h2>
+                        <div className="bg-slate-800/30 rounded-xl border border-slate-700 p-2">
+                            <DragDropZone
+                                onFilesDropped={(files) => loadCatalog(files[0])}
+                                className="w-full"
+                                isDraggingClass="border-sky-500 bg-sky-500/10 ring-2 ring-sky-500/50"
+                            >
+                                {catalog ? (
+                                    <div className="flex items-center justify-between p-3 bg-slate-700/50 rounded-lg border border-slate-600/50">
+                                        <div className="flex items-center overflow-hidden">
+                                            <div className="w-8 h-8 rounded bg-sky-500/20 text-sky-400 flex items-center justify-center mr-3 flex-shrink-0">
+                                                <FileText size={16} />
+                                            </div>
+                                            <span className="text-sm font-medium text-slate-200 truncate pr-2" title={catalog.name}>
+                                                {catalog.name}
+                                            </span>
+                                        </div>
+                                        <button onClick={() => setCatalog(null)} className="p-1.5 text-slate-400 hover:text-rose-400 hover:bg-rose-500/10 rounded-md transition-colors">
+                                            <X size={16} />
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <div
+                                        className="w-full flex flex-col items-center justify-center p-6 border-2 border-dashed border-slate-700 rounded-lg hover:border-sky-500/50 hover:bg-slate-800/50 transition-all cursor-pointer group"
+                                        onClick={() => catalogInputRef.current?.click()}
+                                    >
+                                        <div className="w-10 h-10 bg-slate-800 rounded-full flex items-center justify-center mb-2 group-hover:bg-sky-500/10 transition-colors">
+                                            <Upload className="w-5 h-5 text-slate-500 group-hover:text-sky-400" />
+                                        </div>
+                                        <p className="text-xs text-slate-400 font-medium">Upload .xcstrings</p>
+                                    </div>
+                                )}
+                            </DragDropZone>
+                            <input
+                                type="file"
+                                ref={catalogInputRef}
+                                onChange={(e) => { loadCatalog(e.target.files?.[0]); e.target.value = ''; }}
+                                accept=".xcstrings"
+                                className="hidden"
+                            />
+                        </div>
+                    </div>
+
+                    {mode === 'import' ? (
+                        <div className="flex-grow flex flex-col min-h-0 mb-4">
+                            <div className="flex items-center justify-between mb-3">
+                                <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">
+                                    2. Translated Bundles
+                                </h2>
+                                {bundles.length > 0 && (
+                                    <button onClick={() => setBundles([])} className="text-xs text-rose-400 hover:text-rose-300">
+                                        Clear All
+                                    </button>
+                                )}
+                            </div>
+                            <DragDropZone
+                                onFilesDropped={(files) => loadBundles(Array.from(files))}
+                                className="flex-grow flex flex-col min-h-0 overflow-hidden rounded-xl border border-slate-700 bg-slate-800/20"
+                                isDraggingClass="border-sky-500 bg-sky-500/10 ring-2 ring-sky-500/50"
+                            >
+                                <div className="flex-grow overflow-y-auto p-2 space-y-2 custom-scrollbar min-h-[200px]">
+                                    {bundles.length === 0 ? (
+                                        <div
+                                            className="h-full flex flex-col items-center justify-center p-4 text-center cursor-pointer hover:bg-slate-800/30 transition-colors"
+                                            onClick={() => archiveInputRef.current?.click()}
+                                        >
+                                            <p className="text-sm text-slate-500 mb-1">No bundles added</p>
+                                            <p className="text-xs text-slate-600">Drag & drop or click to upload<br />a zipped .xcloc or a zip of several</p>
+                                        </div>
+                                    ) : (
+                                        bundles.map((bundle) => (
+                                            <div key={`${bundle.path}-${bundle.targetLocale}`} className="flex items-center justify-between p-2.5 bg-slate-800/80 rounded-lg border border-slate-700">
+                                                <div className="flex items-center min-w-0 mr-2">
+                                                    <Package size={14} className="text-sky-400 mr-2 flex-shrink-0" />
+                                                    <p className="text-sm text-slate-200 truncate" title={bundle.path}>{bundle.path || `${bundle.targetLocale}.xcloc`}</p>
+                                                </div>
+                                                <span className="text-xs text-slate-400 flex-shrink-0">
+                                                    {bundle.targetLocale} · {bundle.unitCount} units
+                                                </span>
+                                            </div>
+                                        ))
+                                    )}
+                                </div>
+                            </DragDropZone>
+                            <div className="mt-2 flex justify-end gap-2">
+                                <button onClick={() => archiveInputRef.current?.click()} className="text-xs text-sky-400 hover:text-sky-300 flex items-center gap-1 px-2 py-1 rounded hover:bg-sky-500/10 transition-colors">
+                                    <Upload size={14} /> Zip archive
+                                </button>
+                                <button onClick={() => folderInputRef.current?.click()} className="text-xs text-sky-400 hover:text-sky-300 flex items-center gap-1 px-2 py-1 rounded hover:bg-sky-500/10 transition-colors">
+                                    <FolderOpen size={14} /> Folder
+                                </button>
+                                <input
+                                    type="file"
+                                    ref={archiveInputRef}
+                                    onChange={(e) => { loadBundles(Array.from(e.target.files || [])); e.target.value = ''; }}
+                                    accept=".zip,.xcloc"
+                                    className="hidden"
+                                />
+                                <input
+                                    type="file"
+                                    ref={folderInputRef}
+                                    onChange={(e) => { loadBundles(Array.from(e.target.files || [])); e.target.value = ''; }}
+                                    className="hidden"
+                                    multiple
+                                    {...({ webkitdirectory: "", directory: "" } as any)}
+                                />
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="flex-grow flex flex-col min-h-0 mb-4">
+                            <h2 className="text-sm font-semibold text-slate-400 mb-3 uppercase tracking-wider">
+                                2. Target Languages
+                            </h2>
+                            <p className="text-xs text-slate-500 mb-3">
+                                One bundle is built for every language already in the catalog. Add language codes to start new translations.
+                            </p>
+                            <input
+                                type="text"
+                                value={extraLanguages}
+                                onChange={(e) => setExtraLanguages(e.target.value)}
+                                placeholder="e.g. de, ja, pt-BR"
+                                className="w-full text-sm py-2 px-3 bg-slate-900 border border-slate-600 rounded-lg text-slate-300 focus:text-white focus:border-indigo-500 focus:outline-none"
+                            />
+                        </div>
+                    )}
+
+                    {error && (
+                        <div className="mb-4 p-3 bg-rose-500/10 border border-rose-500/20 rounded-lg flex items-start gap-2">
+                            <AlertCircle size={16} className="text-rose-400 mt-0.5 flex-shrink-0" />
+                            <p className="text-xs text-rose-300">{error}</p>
+                        </div>
+                    )}
+
+                    {mode === 'import' && mergedOutput && <CatalogImportReportNotice report={importReport} />}
+
+                    <div className="flex-shrink-0 pt-2 mt-auto">
+                        {mode === 'import' ? (
+                            <button
+                                onClick={handleImport}
+                                disabled={isLoading || !catalog || bundles.length === 0}
+                                className="w-full py-3.5 text-sm font-bold text-white bg-sky-600 rounded-xl shadow-lg shadow-sky-500/20 hover:bg-sky-500 disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed transition-all active:scale-95 flex items-center justify-center gap-2"
+                            >
+                                <Package size={18} /> Apply to Catalog
+                            </button>
+                        ) : (
+                            <button
+                                onClick={handleExport}
+                                disabled={isLoading || !catalog}
+                                className="w-full py-3.5 text-sm font-bold text-white bg-indigo-600 rounded-xl shadow-lg shadow-indigo-500/20 hover:bg-indigo-500 disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed transition-all active:scale-95 flex items-center justify-center gap-2"
+                            >
+                                {isLoading ? 'Building...' : (
+                                    <>
+                                        <Download size={18} /> Build .xcloc Bundles
+                                    </>
+                                )}
+                            </button>
+                        )}
+                    </div>
+                </div>
+
+                {/* Right Panel: Output */}
+                <div className="w-full md:flex-1 min-h-[500px] md:min-h-0 md:h-full overflow-visible md:overflow-y-auto bg-slate-950 p-6 flex flex-col border-t md:border-t-0 border-slate-800">
+                    <div className="flex items-center justify-between mb-4">
+                        <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Output Result</h2>
+                        {mode === 'import' && mergedOutput && (
+                            <button
+                                onClick={handleDownloadCatalog}
+                                className="flex items-center space-x-2 px-4 py-2 text-xs font-bold text-emerald-900 bg-emerald-400 rounded-lg hover:bg-emerald-300 shadow-lg shadow-emerald-900/20 transition-all active:scale-95"
+                            >
+                                <Save size={14} />
+                                <span>Download .xcstrings</span>
+                            </button>
+                        )}
+                    </div>
+
+                    <div className="flex-1 bg-slate-900/50 rounded-xl border border-slate-800 overflow-hidden relative shadow-inner">
+                        {mode === 'import' && mergedOutput ? (
+                            <textarea
+                                readOnly
+                                value={mergedOutput}
+                                className="w-full h-full p-6 bg-transparent text-slate-300 font-mono text-sm resize-none focus:outline-none custom-scrollbar leading-relaxed"
+                                spellCheck={false}
+                            />
+                        ) : mode === 'export' && exportedBundles.length > 0 ? (
+                            <div className="p-6 space-y-2">
+                                <p className="text-sm text-slate-400 mb-4">Localizations.zip was downloaded with these bundles:</p>
+                                {exportedBundles.map(name => (
+                                    <div key={name} className="flex items-center gap-2 text-sm text-slate-200">
+                                        <CheckCircle size={16} className="text-emerald-400" />
+                                        <span className="font-mono">{name}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        ) : (
+                            <div className="absolute inset-0 flex flex-col items-center justify-center text-slate-600 opacity-50">
+                                <Package size={48} className="mb-4" />
+                                <p className="text-lg font-medium">{mode === 'import' ? 'Ready to import' : 'Ready to export'}</p>
+                                <p className="text-sm">
+                                    {mode === 'import' ? 'Upload a catalog and translated bundles' : 'Upload a catalog to build bundles'}
+                                </p>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,15 +1,20 @@
 import React, { useState, useRef } from 'react';
-import { ArrowLeft, Save, FolderOpen, Trash2, FileType, FileCode, Download, FolderArchive, X, Sparkles } from 'lucide-react';
+import { ParsedStrings } from '../types';
+import { ArrowLeft, Save, FolderOpen, Trash2, FileType, FileCode, Download, FolderArchive, X, Sparkles, AlertTriangle } from 'lucide-react';
 import { DragDropZone } from './DragDropZone';
 import JSZip from 'jszip';
 import {
-    parseStringsFile,
-    parseStringsDictFile,
-    parseStringCatalog,
-    parseJson,
     generateSingleAndroidXml,
     generateAllAndroidXml,
+    findFormatConversionIssues,
+    findAllFormatConversionIssues,
+    formatFormatConversionWarning,
+    FormatConversionWarning,
 } from '../services/converter';
+import { getFormatAdapters, getFormatExtensions, parseLocalizationFile } from '../services/formatRegistry';
+
+// Every other format the registry reads can be converted to Android XML
+const SOURCE_FORMATS = getFormatAdapters().map(adapter => adapter.id).filter(id => id !== 'android');
 
 interface XmlConverterViewProps {
     onBack: () => void;
@@ -60,6 +65,7 @@ export const XmlConverterView: React.FC<XmlConverterViewProps> = ({ onBack }) =>
     const [outputs, setOutputs] = useState<Record<string, string>>({});
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [warnings, setWarnings] = useState<string[]>([]);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -86,29 +92,29 @@ export const XmlConverterView: React.FC<XmlConverterViewProps> = ({ onBack }) =>
     const convert = (content: string, fileName: string) => {
         setIsLoading(true);
         setError(null);
+        setWarnings([]);
         setOutputs({});
 
         setTimeout(() => {
             try {
-                if (fileName.endsWith('.xcstrings')) {
-                    const { parsedData, languages } = parseStringCatalog(content);
-                    const xmls = generateAllAndroidXml(parsedData, languages);
+                let issues: FormatConversionWarning[];
+                const { adapter, parsed } = parseLocalizationFile({ name: fileName, content, langCode: '' }, SOURCE_FORMATS);
+                if (adapter.multiLanguage) {
+                    // One strings.xml per language, written to values-<lang>/ in the zip
+                    const xmls = generateAllAndroidXml(parsed.data, parsed.languages, parsed.comments, parsed.attributes, parsed.nonTranslatableKeys);
+                    issues = findAllFormatConversionIssues(parsed.data, parsed.languages, 'android');
                     setOutputs(xmls);
-                } else if (fileName.endsWith('.strings')) {
-                    const parsed = parseStringsFile(content);
-                    const xml = generateSingleAndroidXml(parsed);
-                    setOutputs({ 'strings.xml': xml });
-                } else if (fileName.endsWith('.stringsdict')) {
-                    const parsed = parseStringsDictFile(content);
-                    const xml = generateSingleAndroidXml(parsed);
-                    setOutputs({ 'strings.xml': xml });
-                } else if (fileName.endsWith('.json')) {
-                    const parsed = parseJson(content);
-                    const xml = generateSingleAndroidXml(parsed);
-                    setOutputs({ 'strings.xml': xml });
                 } else {
-                    throw new Error("Unsupported file format. Please upload .strings, .stringsdict, .json, or .xcstrings.");
+                    const [language] = parsed.languages;
+                    const strings: ParsedStrings = {};
+                    for (const [key, values] of Object.entries(parsed.data)) {
+                        if (values[language] !== undefined) strings[key] = values[language];
+                    }
+                    const xml = generateSingleAndroidXml(strings, parsed.comments, parsed.attributes, parsed.nonTranslatableKeys);
+                    issues = findFormatConversionIssues(strings, 'android');
+                    setOutputs({ 'strings.xml': xml });
                 }
+                setWarnings(issues.map(formatFormatConversionWarning));
             } catch (err: any) {
                 setError(err.message || "An error occurred during conversion.");
             } finally {
@@ -163,6 +169,7 @@ export const XmlConverterView: React.FC<XmlConverterViewProps> = ({ onBack }) =>
         setInputFile(null);
         setOutputs({});
         setError(null);
+        setWarnings([]);
     };
 
     const handleExecuteSample = () => {
@@ -185,7 +192,7 @@ export const XmlConverterView: React.FC<XmlConverterViewProps> = ({ onBack }) =>
                     <h1 className="text-2xl font-bold bg-gradient-to-r from-teal-400 to-emerald-500 bg-clip-text text-transparent">
                         XML Converter
                     </h1>
-                    <p className="text-slate-400 text-sm">Convert .strings, .stringsdict, .json, .xcstrings to Android XML</p>
+                    <p className="text-slate-400 text-sm">Convert String Catalogs, .strings, XLIFF, gettext, JSON and more to Android XML</p>
                 </div>
                 {/* Placeholder for future save/load actions if aligning strictly with Extract View, 
                      but for now user only asked for UI similarity, not necessarily project persistence. 
@@ -247,7 +254,7 @@ export const XmlConverterView: React.FC<XmlConverterViewProps> = ({ onBack }) =>
                                     <h3 className="text-sm font-medium text-slate-400 group-hover:text-emerald-400 transition-colors">
                                         Upload File
                                     </h3>
-                                    <p className="text-xs text-slate-500 mt-1">.xcstrings, .strings, .stringsdict, .json</p>
+                                    <p className="text-xs text-slate-500 mt-1">{getFormatExtensions(SOURCE_FORMATS).join(', ')}</p>
                                 </div>
                             )}
                             <input
@@ -255,7 +262,7 @@ export const XmlConverterView: React.FC<XmlConverterViewProps> = ({ onBack }) =>
                                 ref={fileInputRef}
                                 onChange={handleFileSelect}
                                 className="hidden"
-                                accept=".strings,.stringsdict,.xcstrings,.json"
+                                accept={getFormatExtensions(SOURCE_FORMATS).join(',')}
                             />
                         </DragDropZone>
                     </div>
@@ -266,6 +273,17 @@ export const XmlConverterView: React.FC<XmlConverterViewProps> = ({ onBack }) =>
                         </div>
                     )}
 
+                    {warnings.length > 0 && (
+                        <div className="mb-4 p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg">
+                            <h3 className="text-xs font-bold text-amber-400 flex items-center gap-2 mb-2">
+                                <AlertTriangle size={14} /> Placeholders Without an Android Equivalent
+                            </h3>
+                            <ul className="text-xs text-amber-300 space-y-1 list-disc list-inside">
+                                {warnings.map((w, i) => <li key={i}>{w}</li>)}
+                            </ul>
+                        </div>
+                    )}
+
                     <button
                         onClick={() => inputFile && convert(inputFile.content, inputFile.name)}
                         disabled={isLoading || !inputFile}
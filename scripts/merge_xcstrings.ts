@@ -0,0 +1,104 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { mergeStringCatalogsThreeWay, formatThreeWayMergeReport, MergeSide } from '../services/catalogMerge';
+import { parseStringCatalogDocument, serializeStringCatalogDocument } from '../services/stringCatalog';
+
+// Mock DOMParser for Node.js environment as it's used in converter.ts
+import { JSDOM } from 'jsdom';
+global.DOMParser = new JSDOM().window.DOMParser;
+
+/*
+ * Git merge driver for String Catalogs. Install this project's dependencies (`npm install`), then
+ * register the driver once per clone of the app, with the absolute path of this project, as git
+ * runs the driver from the app's repository:
+ *
+ *   git config merge.xcstrings.name "Three-way String Catalog merge"
+ *   git config merge.xcstrings.driver "/path/to/ios-development-tools/node_modules/.bin/tsx /path/to/ios-development-tools/scripts/merge_xcstrings.ts %O %A %B %P"
+ *
+ * and route catalogs to it in .gitattributes:
+ *
+ *   *.xcstrings merge=xcstrings
+ *
+ * Git passes the ancestor (%O), ours (%A) and theirs (%B) as temporary files, and the path of the
+ * file in the repository (%P). The merged catalog is written to %A. When there are conflicts, they
+ * are written to a report in the git directory (".git/xcstrings-merge/<path>.md"), so the working
+ * tree gets no untracked file, and the driver exits with 1, so git reports the file as conflicted;
+ * the merged catalog then holds the favored side of each conflict.
+ *
+ * Options: --theirs to favor theirs instead of ours (the default, --ours), --report <file> to choose the report path.
+ */
+
+const USAGE = 'Usage: merge_xcstrings.ts [--ours | --theirs] [--report <file>] <base> <ours> <theirs> [path]';
+
+function readCatalog(filePath: string, label: string) {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    try {
+        return parseStringCatalogDocument(content);
+    } catch (e: any) {
+        throw new Error(`The ${label} version (${filePath}) is not a valid String Catalog: ${e.message}`);
+    }
+}
+
+// Inside the git directory, where git itself keeps merge state, or undefined outside a repository
+function getDefaultReportPath(fileName: string): string | undefined {
+    try {
+        const reportName = `xcstrings-merge/${path.isAbsolute(fileName) ? path.basename(fileName) : fileName}.md`;
+        return execFileSync('git', ['rev-parse', '--git-path', reportName], { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+    } catch {
+        return undefined;
+    }
+}
+
+function runMergeDriver(args: string[]): number {
+    let favor: MergeSide = 'ours';
+    let reportPath: string | undefined;
+    const files: string[] = [];
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === '--theirs') {
+            favor = 'theirs';
+        } else if (args[i] === '--ours') {
+            favor = 'ours';
+        } else if (args[i] === '--report') {
+            reportPath = args[++i];
+        } else {
+            files.push(args[i]);
+        }
+    }
+
+    const [basePath, oursPath, theirsPath, repositoryPath] = files;
+    if (!basePath || !oursPath || !theirsPath) {
+        console.error(USAGE);
+        return 2;
+    }
+
+    try {
+        // A catalog added on both branches has an empty ancestor
+        const base = fs.readFileSync(basePath, 'utf-8').trim() ? readCatalog(basePath, 'base') : null;
+        const ours = readCatalog(oursPath, 'ours');
+        const theirs = readCatalog(theirsPath, 'theirs');
+
+        const result = mergeStringCatalogsThreeWay(base, ours, theirs, { favor });
+        fs.writeFileSync(oursPath, serializeStringCatalogDocument(result.doc));
+
+        if (result.conflicts.length === 0) return 0;
+
+        const fileName = repositoryPath || oursPath;
+        const report = reportPath || getDefaultReportPath(fileName);
+        const markdown = formatThreeWayMergeReport(result, fileName);
+        if (report) {
+            fs.mkdirSync(path.dirname(report), { recursive: true });
+            fs.writeFileSync(report, markdown);
+        }
+        result.logs.filter(log => log.startsWith('CONFLICT')).forEach(log => console.error(log));
+        const count = result.conflicts.length;
+        console.error(`${count} ${count === 1 ? 'conflict' : 'conflicts'} in ${fileName}, resolved with ${favor}.${report ? ` See ${report}.` : ''}`);
+        if (!report) console.error(markdown);
+        return 1;
+    } catch (e: any) {
+        console.error(`Merge failed: ${e.message}`);
+        return 2;
+    }
+}
+
+process.exit(runMergeDriver(process.argv.slice(2)));
@@ -50,7 +50,7 @@ function runVerification() {
     };
 
     try {
-        const mergedOutput = mergeStringsIntoCatalog(xcstringsContent, [stringsFile]);
+        const { outputContent: mergedOutput } = mergeStringsIntoCatalog(xcstringsContent, [stringsFile]);
         const parsedOutput = JSON.parse(mergedOutput);
 
         // Check if plural keys are merged
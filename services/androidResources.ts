@@ -0,0 +1,356 @@
+/**
+ * Android Resources Service
+ * Reads and writes Android `strings.xml` resource files following aapt's rules: inline markup,
+ * CDATA, `<string-array>`, `translatable`/`tools:` attributes, comments and Android escaping.
+ */
+
+import { PluralVariations } from '../types';
+
+type PluralCategory = Exclude<keyof PluralVariations, '_isPlural'>;
+
+interface AndroidResourceBase {
+    name: string;
+    /** Every attribute except `name`, e.g. `translatable`, `formatted` or `tools:ignore`. */
+    attributes: Record<string, string>;
+    /** The XML comments written directly before the element. */
+    comments?: string[];
+}
+
+export interface AndroidStringResource extends AndroidResourceBase {
+    type: 'string';
+    /** The unescaped text. Inline markup such as `<b>` or `<xliff:g>` is kept as written. */
+    value: string;
+    /** Whether the value was written as a CDATA section. */
+    cdata?: boolean;
+}
+
+export interface AndroidPluralsResource extends AndroidResourceBase {
+    type: 'plurals';
+    items: Partial<Record<PluralCategory, string>>;
+}
+
+export interface AndroidStringArrayResource extends AndroidResourceBase {
+    type: 'string-array';
+    items: string[];
+}
+
+export type AndroidResource = AndroidStringResource | AndroidPluralsResource | AndroidStringArrayResource;
+
+export interface AndroidResourceFile {
+    /** Namespace declarations of the `<resources>` element, e.g. `{ "xmlns:tools": "http://schemas.android.com/tools" }`. */
+    namespaces: Record<string, string>;
+    resources: AndroidResource[];
+}
+
+const PLURAL_QUANTITIES: PluralCategory[] = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+const KNOWN_NAMESPACES: Record<string, string> = {
+    tools: 'http://schemas.android.com/tools',
+    xliff: 'urn:oasis:names:tc:xliff:document:1.2',
+};
+
+// Inline tags Android keeps as styling spans (or placeholders, for xliff:g) inside string resources
+const MARKUP_TAG = /<(\/?)(b|i|u|s|strike|sup|sub|big|small|tt|font|a|annotation|span|li|ul|ol|br|p|em|strong|xliff:g)((?:\s+[\w:-]+="[^"<>]*")*)\s*(\/?)>/gi;
+
+const INDENT = '    ';
+
+interface TextSegment {
+    text?: string;
+    markup?: string;
+}
+
+function escapeXmlText(str: string): string {
+    return str.replace(/[<>&]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;' }[c]!));
+}
+
+function escapeXmlAttribute(str: string): string {
+    return str.replace(/[<>&"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' }[c]!));
+}
+
+/**
+ * Resolves Android escaping in resource text the way aapt does: `\n`, `\t`, `\uXXXX` and
+ * escaped characters (`\'`, `\"`, `\\`, `\@`, `\?`) are unescaped, unescaped double quotes
+ * preserve the whitespace they enclose and are removed, and any other run of whitespace
+ * collapses to a single space and is trimmed at both ends.
+ * @param segments The text to decode; markup segments are copied unchanged.
+ * @returns The decoded text.
+ */
+function decodeAndroidSegments(segments: TextSegment[]): string {
+    let out = '';
+    let quoted = false;
+    let pendingSpace = false;
+
+    const append = (str: string) => {
+        if (pendingSpace) out += ' ';
+        pendingSpace = false;
+        out += str;
+    };
+
+    for (const segment of segments) {
+        if (segment.markup !== undefined) {
+            append(segment.markup);
+            continue;
+        }
+
+        const text = segment.text || '';
+        for (let i = 0; i < text.length; i++) {
+            const ch = text[i];
+            if (ch === '\\' && i + 1 < text.length) {
+                const next = text[++i];
+                if (next === 'n') {
+                    append('\n');
+                } else if (next === 't') {
+                    append('\t');
+                } else if (next === 'u' && /^[0-9a-fA-F]{4}$/.test(text.slice(i + 1, i + 5))) {
+                    append(String.fromCharCode(parseInt(text.slice(i + 1, i + 5), 16)));
+                    i += 4;
+                } else {
+                    append(next);
+                }
+            } else if (ch === '"') {
+                quoted = !quoted;
+            } else if (!quoted && /\s/.test(ch)) {
+                pendingSpace = out.length > 0;
+            } else {
+                append(ch);
+            }
+        }
+    }
+
+    return out;
+}
+
+/**
+ * Unescapes a single Android resource string written in XML (after XML entity decoding).
+ */
+export function decodeAndroidString(raw: string): string {
+    return decodeAndroidSegments([{ text: raw }]);
+}
+
+// Markup is only written as-is when every tag is closed in order; otherwise the output would not be valid XML
+function hasBalancedMarkup(text: string): boolean {
+    const open: string[] = [];
+    for (const [, closing, tag, , selfClosing] of text.matchAll(MARKUP_TAG)) {
+        if (selfClosing) continue;
+        if (!closing) {
+            open.push(tag);
+        } else if (open.pop() !== tag) {
+            return false;
+        }
+    }
+    return open.length === 0;
+}
+
+/**
+ * Escapes text for an Android string resource: quotes, apostrophes, backslashes, newlines and
+ * tabs are backslash-escaped, a leading `@` or `?` is escaped so it is not read as a reference,
+ * and the value is wrapped in double quotes when its spacing would otherwise collapse.
+ * @param text The text to encode.
+ * @param options `markup` keeps recognised inline tags (`<b>`, `<xliff:g>`, ...) as markup;
+ * `xml` controls XML escaping and is turned off for CDATA sections.
+ * @returns The encoded text, ready to be written between the element tags.
+ */
+export function encodeAndroidString(text: string, options: { markup?: boolean; xml?: boolean } = {}): string {
+    const { markup = true, xml = true } = options;
+
+    const encodeText = (str: string) => {
+        const escaped = str
+            .replace(/\\/g, '\\\\')
+            .replace(/"/g, '\\"')
+            .replace(/'/g, "\\'")
+            .replace(/\n/g, '\\n')
+            .replace(/\t/g, '\\t');
+        return xml ? escapeXmlText(escaped) : escaped;
+    };
+
+    let out = '';
+    let lastIndex = 0;
+    if (markup && xml && hasBalancedMarkup(text)) {
+        for (const match of text.matchAll(MARKUP_TAG)) {
+            out += encodeText(text.slice(lastIndex, match.index)) + match[0];
+            lastIndex = match.index! + match[0].length;
+        }
+    }
+    out += encodeText(text.slice(lastIndex));
+
+    if (/^[@?]/.test(out)) out = `\\${out}`;
+    if (/^ | $| {2}/.test(text)) out = `"${out}"`;
+    return out;
+}
+
+function readAttributes(element: Element): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const attribute of Array.from(element.attributes)) {
+        if (attribute.name === 'name') continue;
+        attributes[attribute.name] = attribute.value;
+    }
+    return attributes;
+}
+
+// Flattens the children of a value element into text and verbatim markup segments
+function readSegments(node: Node, segments: TextSegment[], state: { cdata: boolean }): void {
+    for (const child of Array.from(node.childNodes)) {
+        if (child.nodeType === Node.TEXT_NODE) {
+            segments.push({ text: child.nodeValue || '' });
+        } else if (child.nodeType === Node.CDATA_SECTION_NODE) {
+            state.cdata = true;
+            segments.push({ text: child.nodeValue || '' });
+        } else if (child.nodeType === Node.ELEMENT_NODE) {
+            const element = child as Element;
+            const attributes = Array.from(element.attributes)
+                .filter(attribute => !attribute.name.startsWith('xmlns'))
+                .map(attribute => ` ${attribute.name}="${escapeXmlAttribute(attribute.value)}"`)
+                .join('');
+            if (element.childNodes.length === 0) {
+                segments.push({ markup: `<${element.tagName}${attributes}/>` });
+            } else {
+                segments.push({ markup: `<${element.tagName}${attributes}>` });
+                readSegments(element, segments, state);
+                segments.push({ markup: `</${element.tagName}>` });
+            }
+        }
+    }
+}
+
+function readValue(element: Element): { value: string; cdata: boolean } {
+    const segments: TextSegment[] = [];
+    const state = { cdata: false };
+    readSegments(element, segments, state);
+    return { value: decodeAndroidSegments(segments), cdata: state.cdata };
+}
+
+/**
+ * Parses an Android resource file into its string resources, keeping everything needed to
+ * write it back unchanged: attributes, comments, CDATA sections and inline markup.
+ * Resources other than strings, plurals and string arrays are ignored.
+ * @param content The XML content of the strings.xml file.
+ * @returns The parsed resource file.
+ */
+export function parseAndroidResources(content: string): AndroidResourceFile {
+    const parser = new DOMParser();
+    const xmlDoc = parser.parseFromString(content.trim(), "application/xml");
+
+    const parserError = xmlDoc.getElementsByTagName("parsererror")[0];
+    if (parserError) {
+        throw new Error(`Invalid Android XML format. ${parserError.textContent}`);
+    }
+
+    const root = xmlDoc.documentElement;
+    if (!root || root.tagName !== 'resources') {
+        throw new Error("Invalid Android XML format. Expected a <resources> root element.");
+    }
+
+    const namespaces: Record<string, string> = {};
+    for (const attribute of Array.from(root.attributes)) {
+        if (attribute.name.startsWith('xmlns:')) namespaces[attribute.name] = attribute.value;
+    }
+
+    const resources: AndroidResource[] = [];
+    let pendingComments: string[] = [];
+
+    for (const node of Array.from(root.childNodes)) {
+        if (node.nodeType === Node.COMMENT_NODE) {
+            pendingComments.push((node.nodeValue || '').trim());
+            continue;
+        }
+        if (node.nodeType !== Node.ELEMENT_NODE) continue;
+
+        const element = node as Element;
+        const name = element.getAttribute('name');
+        const comments = pendingComments.length > 0 ? pendingComments : undefined;
+        pendingComments = [];
+        if (!name) continue;
+
+        const attributes = readAttributes(element);
+
+        if (element.tagName === 'string') {
+            const { value, cdata } = readValue(element);
+            resources.push({ type: 'string', name, value, cdata: cdata || undefined, attributes, comments });
+        } else if (element.tagName === 'plurals') {
+            const items: AndroidPluralsResource['items'] = {};
+            for (const item of Array.from(element.getElementsByTagName('item'))) {
+                const quantity = item.getAttribute('quantity') as PluralCategory | null;
+                if (quantity && PLURAL_QUANTITIES.includes(quantity)) {
+                    items[quantity] = readValue(item).value;
+                }
+            }
+            resources.push({ type: 'plurals', name, items, attributes, comments });
+        } else if (element.tagName === 'string-array') {
+            const items = Array.from(element.getElementsByTagName('item')).map(item => readValue(item).value);
+            resources.push({ type: 'string-array', name, items, attributes, comments });
+        }
+    }
+
+    return { namespaces, resources };
+}
+
+function writeAttributes(name: string, attributes: Record<string, string>): string {
+    const rest = Object.entries(attributes).map(([key, value]) => ` ${key}="${escapeXmlAttribute(value)}"`).join('');
+    return ` name="${escapeXmlAttribute(name)}"${rest}`;
+}
+
+function writeValue(value: string, cdata?: boolean): string {
+    if (!cdata) return encodeAndroidString(value);
+    // "]]>" cannot appear inside a CDATA section, so it is split across two sections
+    return `<![CDATA[${encodeAndroidString(value, { xml: false }).replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+/**
+ * Writes an Android resource file. Namespaces used by attributes or markup (`tools:`, `xliff:`)
+ * are declared on `<resources>` when missing.
+ * @param file The resource file.
+ * @returns The XML content of the strings.xml file.
+ */
+export function serializeAndroidResources(file: AndroidResourceFile): string {
+    const lines: string[] = [];
+    const usedPrefixes = new Set<string>();
+
+    const notePrefixes = (text: string) => {
+        for (const match of text.matchAll(/<\/?([a-z]+):/gi)) usedPrefixes.add(match[1]);
+    };
+
+    for (const resource of file.resources) {
+        for (const comment of resource.comments || []) {
+            lines.push(`${INDENT}<!-- ${comment.replace(/--/g, '- -')} -->`);
+        }
+        Object.keys(resource.attributes).forEach(attribute => {
+            if (attribute.includes(':')) usedPrefixes.add(attribute.split(':')[0]);
+        });
+
+        const open = writeAttributes(resource.name, resource.attributes);
+        if (resource.type === 'string') {
+            notePrefixes(resource.value);
+            lines.push(`${INDENT}<string${open}>${writeValue(resource.value, resource.cdata)}</string>`);
+        } else if (resource.type === 'plurals') {
+            lines.push(`${INDENT}<plurals${open}>`);
+            for (const quantity of PLURAL_QUANTITIES) {
+                const item = resource.items[quantity];
+                if (item === undefined) continue;
+                notePrefixes(item);
+                lines.push(`${INDENT}${INDENT}<item quantity="${quantity}">${writeValue(item)}</item>`);
+            }
+            lines.push(`${INDENT}</plurals>`);
+        } else {
+            lines.push(`${INDENT}<string-array${open}>`);
+            for (const item of resource.items) {
+                notePrefixes(item);
+                lines.push(`${INDENT}${INDENT}<item>${writeValue(item)}</item>`);
+            }
+            lines.push(`${INDENT}</string-array>`);
+        }
+    }
+
+    const namespaces = { ...file.namespaces };
+    for (const prefix of usedPrefixes) {
+        if (!namespaces[`xmlns:${prefix}`] && KNOWN_NAMESPACES[prefix]) {
+            namespaces[`xmlns:${prefix}`] = KNOWN_NAMESPACES[prefix];
+        }
+    }
+    const rootAttributes = Object.entries(namespaces).map(([key, value]) => ` ${key}="${escapeXmlAttribute(value)}"`).join('');
+
+    return `<?xml version="1.0" encoding="utf-8"?>
+<resources${rootAttributes}>
+${lines.join('\n')}
+</resources>
+`;
+}
@@ -0,0 +1,286 @@
+/**
+ * Catalog Diff Service
+ * Compares two versions of a localization file by key and language instead of by line, so that
+ * reordered or reformatted catalogs only show what actually changed, and writes the result as
+ * Markdown for release notes and pull requests.
+ */
+
+import { LanguageFile, StringValue, XCStringState } from '../types';
+import { collectTexts, compareCatalogKeys } from './stringCatalog';
+import { parseLocalizationFile, ParsedLocalizationFile } from './formatRegistry';
+
+export interface CatalogKeyChange {
+    key: string;
+    /** The source text of the key in the version that has it. */
+    sourceText?: string;
+}
+
+export interface CatalogKeyRename {
+    oldKey: string;
+    newKey: string;
+}
+
+export interface CatalogTextChange {
+    /** The key in the new version. */
+    key: string;
+    language: string;
+    /** The plural case, device or substitution the text belongs to, e.g. "plural.one"; empty for plain strings. */
+    path: string;
+    /** Undefined when the old version has no text here. */
+    oldText?: string;
+    /** Undefined when the new version has no text here. */
+    newText?: string;
+}
+
+export interface CatalogStateChange {
+    key: string;
+    language: string;
+    oldState: XCStringState;
+    newState: XCStringState;
+}
+
+export interface CatalogCommentChange {
+    key: string;
+    oldComment?: string;
+    newComment?: string;
+}
+
+export interface CatalogDiff {
+    oldFileName: string;
+    newFileName: string;
+    /** The source language of the new version, or of the old one when the new one names none. */
+    sourceLanguage: string;
+    addedKeys: CatalogKeyChange[];
+    removedKeys: CatalogKeyChange[];
+    renamedKeys: CatalogKeyRename[];
+    sourceChanges: CatalogTextChange[];
+    translationChanges: CatalogTextChange[];
+    stateChanges: CatalogStateChange[];
+    commentChanges: CatalogCommentChange[];
+}
+
+function getMainText(value: StringValue | undefined): string | undefined {
+    const texts = collectTexts(value);
+    return texts.get('') ?? texts.get('plural.other') ?? texts.values().next().value;
+}
+
+function compareTexts(key: string, language: string, oldValue: StringValue | undefined, newValue: StringValue | undefined): CatalogTextChange[] {
+    const oldTexts = collectTexts(oldValue);
+    const newTexts = collectTexts(newValue);
+    const changes: CatalogTextChange[] = [];
+    for (const path of new Set([...oldTexts.keys(), ...newTexts.keys()])) {
+        const oldText = oldTexts.get(path);
+        const newText = newTexts.get(path);
+        if (oldText !== newText) changes.push({ key, language, path, oldText, newText });
+    }
+    return changes;
+}
+
+// Untranslated entries have a state without a value; every other value counts as translated
+function getState(parsed: ParsedLocalizationFile, key: string, language: string): XCStringState | undefined {
+    return parsed.states[key]?.[language] ?? (parsed.data[key]?.[language] !== undefined ? 'translated' : undefined);
+}
+
+// What a key is recognised by when it is renamed: its source text, or all of its texts when it has none
+function getRenameSignature(parsed: ParsedLocalizationFile, key: string, sourceLanguage: string): string | undefined {
+    const values = parsed.data[key] || {};
+    const sourceValue = values[sourceLanguage];
+    if (sourceValue !== undefined) return getMainText(sourceValue)?.trim() ? JSON.stringify(sourceValue) : undefined;
+    const languages = Object.keys(values).sort();
+    if (languages.length === 0) return undefined;
+    return JSON.stringify(languages.map(language => [language, values[language]]));
+}
+
+// Pairs removed and added keys with the same signature, when no other removed or added key shares it
+function findRenamedKeys(
+    oldParsed: ParsedLocalizationFile,
+    newParsed: ParsedLocalizationFile,
+    removedKeys: string[],
+    addedKeys: string[],
+    sourceLanguage: string,
+): CatalogKeyRename[] {
+    const groupBySignature = (parsed: ParsedLocalizationFile, keys: string[]) => {
+        const groups = new Map<string, string[]>();
+        for (const key of keys) {
+            const signature = getRenameSignature(parsed, key, sourceLanguage);
+            if (signature !== undefined) groups.set(signature, [...(groups.get(signature) || []), key]);
+        }
+        return groups;
+    };
+    const removedBySignature = groupBySignature(oldParsed, removedKeys);
+    const addedBySignature = groupBySignature(newParsed, addedKeys);
+
+    const renamed: CatalogKeyRename[] = [];
+    for (const [signature, oldKeys] of removedBySignature) {
+        const newKeys = addedBySignature.get(signature);
+        if (oldKeys.length === 1 && newKeys?.length === 1) renamed.push({ oldKey: oldKeys[0], newKey: newKeys[0] });
+    }
+    return renamed;
+}
+
+/**
+ * Compares two versions of a localization file. Keys that are removed and added with the same
+ * source text are reported as renamed, unless other removed or added keys share that text; the
+ * changes inside a renamed key are reported under its new name. Single-language files are
+ * compared as if their language were the source language.
+ * @param oldFile The old version; its `langCode` is the language of single-language formats.
+ * @param newFile The new version, in the same or any other supported format.
+ * @returns The differences, by key in catalog order.
+ * @throws If either file cannot be read.
+ */
+export function diffLocalizationFiles(oldFile: LanguageFile, newFile: LanguageFile): CatalogDiff {
+    const oldParsed = parseLocalizationFile(oldFile).parsed;
+    const newParsed = parseLocalizationFile(newFile).parsed;
+    const sourceLanguage = newParsed.sourceLanguage || oldParsed.sourceLanguage || newParsed.languages[0] || oldParsed.languages[0] || 'en';
+
+    const oldKeys = Object.keys(oldParsed.data).sort(compareCatalogKeys);
+    const newKeys = Object.keys(newParsed.data).sort(compareCatalogKeys);
+    const oldKeySet = new Set(oldKeys);
+    const newKeySet = new Set(newKeys);
+    const removedKeys = oldKeys.filter(key => !newKeySet.has(key));
+    const addedKeys = newKeys.filter(key => !oldKeySet.has(key));
+    const renamedKeys = findRenamedKeys(oldParsed, newParsed, removedKeys, addedKeys, sourceLanguage);
+    const oldKeyByNewKey = new Map(newKeys.filter(key => oldKeySet.has(key)).map(key => [key, key]));
+    renamedKeys.forEach(({ oldKey, newKey }) => oldKeyByNewKey.set(newKey, oldKey));
+    const renamedOldKeys = new Set(renamedKeys.map(rename => rename.oldKey));
+
+    const diff: CatalogDiff = {
+        oldFileName: oldFile.name,
+        newFileName: newFile.name,
+        sourceLanguage,
+        addedKeys: addedKeys
+            .filter(key => !oldKeyByNewKey.has(key))
+            .map(key => ({ key, sourceText: getMainText(newParsed.data[key][sourceLanguage]) })),
+        removedKeys: removedKeys
+            .filter(key => !renamedOldKeys.has(key))
+            .map(key => ({ key, sourceText: getMainText(oldParsed.data[key][sourceLanguage]) })),
+        renamedKeys,
+        sourceChanges: [],
+        translationChanges: [],
+        stateChanges: [],
+        commentChanges: [],
+    };
+
+    for (const key of newKeys) {
+        const oldKey = oldKeyByNewKey.get(key);
+        if (oldKey === undefined) continue;
+        const oldValues = oldParsed.data[oldKey];
+        const newValues = newParsed.data[key];
+
+        const languages = new Set([...Object.keys(oldValues), ...Object.keys(newValues)]);
+        diff.sourceChanges.push(...compareTexts(key, sourceLanguage, oldValues[sourceLanguage], newValues[sourceLanguage]));
+        for (const language of [...languages].filter(language => language !== sourceLanguage).sort()) {
+            diff.translationChanges.push(...compareTexts(key, language, oldValues[language], newValues[language]));
+        }
+
+        const stateLanguages = new Set([...Object.keys(oldParsed.states[oldKey] || {}), ...Object.keys(newParsed.states[key] || {}), ...languages]);
+        for (const language of [...stateLanguages].sort()) {
+            const oldState = getState(oldParsed, oldKey, language);
+            const newState = getState(newParsed, key, language);
+            if (oldState && newState && oldState !== newState) diff.stateChanges.push({ key, language, oldState, newState });
+        }
+
+        const oldComment = oldParsed.comments[oldKey];
+        const newComment = newParsed.comments[key];
+        if ((oldComment || '') !== (newComment || '')) diff.commentChanges.push({ key, oldComment, newComment });
+    }
+
+    return diff;
+}
+
+/** Counts every change of a diff, e.g. for an empty state. */
+export function countCatalogDiffChanges(diff: CatalogDiff): number {
+    return diff.addedKeys.length + diff.removedKeys.length + diff.renamedKeys.length + diff.sourceChanges.length
+        + diff.translationChanges.length + diff.stateChanges.length + diff.commentChanges.length;
+}
+
+function escapeCell(text: string | undefined): string {
+    if (text === undefined) return '—';
+    if (text === '') return '*(empty)*';
+    return text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+function formatKey(key: string, path = ''): string {
+    const code = key.includes('`') ? `\`\` ${key} \`\`` : `\`${key}\``;
+    return `${code.replace(/\|/g, '\\|')}${path ? ` (${path})` : ''}`;
+}
+
+function formatTable(headers: string[], rows: string[][]): string[] {
+    return [
+        `| ${headers.join(' | ')} |`,
+        `| ${headers.map(() => '---').join(' | ')} |`,
+        ...rows.map(row => `| ${row.join(' | ')} |`),
+    ];
+}
+
+function formatTextChanges(changes: CatalogTextChange[]): string[] {
+    return formatTable(['Key', 'Before', 'After'], changes.map(change => [formatKey(change.key, change.path), escapeCell(change.oldText), escapeCell(change.newText)]));
+}
+
+function pluralize(count: number, singular: string, plural = `${singular}s`): string {
+    return `${count} ${count === 1 ? singular : plural}`;
+}
+
+/**
+ * Writes a diff as Markdown: a one-line summary of the changes, then a section with a table for each kind of
+ * change that occurs. Translation changes are grouped by language.
+ * @param diff The diff from `diffLocalizationFiles`.
+ * @returns The Markdown text, ending with a newline.
+ */
+export function formatCatalogDiffMarkdown(diff: CatalogDiff): string {
+    const lines: string[] = [`## Catalog Diff: \`${diff.oldFileName}\` → \`${diff.newFileName}\``, ''];
+    if (countCatalogDiffChanges(diff) === 0) {
+        lines.push('No changes.');
+        return lines.join('\n') + '\n';
+    }
+
+    const translationLanguages = Array.from(new Set(diff.translationChanges.map(change => change.language))).sort();
+    const summary = [
+        diff.addedKeys.length > 0 && `${pluralize(diff.addedKeys.length, 'key')} added`,
+        diff.removedKeys.length > 0 && `${pluralize(diff.removedKeys.length, 'key')} removed`,
+        diff.renamedKeys.length > 0 && `${pluralize(diff.renamedKeys.length, 'key')} renamed`,
+        diff.sourceChanges.length > 0 && `${pluralize(diff.sourceChanges.length, 'source string')} changed`,
+        diff.translationChanges.length > 0 && `${pluralize(diff.translationChanges.length, 'translation')} changed in ${pluralize(translationLanguages.length, 'language')}`,
+        diff.stateChanges.length > 0 && pluralize(diff.stateChanges.length, 'state change'),
+        diff.commentChanges.length > 0 && `${pluralize(diff.commentChanges.length, 'comment')} changed`,
+    ].filter(Boolean);
+    lines.push(summary.join(' · '));
+
+    const addSection = (title: string, count: number, content: string[]) => {
+        if (count === 0) return;
+        lines.push('', `### ${title} (${count})`, '', ...content);
+    };
+
+    addSection('Added keys', diff.addedKeys.length, formatTable(
+        ['Key', `Source text (${diff.sourceLanguage})`],
+        diff.addedKeys.map(change => [formatKey(change.key), escapeCell(change.sourceText)]),
+    ));
+    addSection('Removed keys', diff.removedKeys.length, formatTable(
+        ['Key', `Source text (${diff.sourceLanguage})`],
+        diff.removedKeys.map(change => [formatKey(change.key), escapeCell(change.sourceText)]),
+    ));
+    addSection('Renamed keys', diff.renamedKeys.length, formatTable(
+        ['Old key', 'New key'],
+        diff.renamedKeys.map(rename => [formatKey(rename.oldKey), formatKey(rename.newKey)]),
+    ));
+    addSection(`Changed ${diff.sourceLanguage} source strings`, diff.sourceChanges.length, formatTextChanges(diff.sourceChanges));
+
+    if (diff.translationChanges.length > 0) {
+        lines.push('', `### Changed translations (${diff.translationChanges.length})`);
+        for (const language of translationLanguages) {
+            const changes = diff.translationChanges.filter(change => change.language === language);
+            lines.push('', `#### ${language} (${changes.length})`, '', ...formatTextChanges(changes));
+        }
+    }
+
+    addSection('State changes', diff.stateChanges.length, formatTable(
+        ['Key', 'Language', 'Before', 'After'],
+        diff.stateChanges.map(change => [formatKey(change.key), change.language, change.oldState, change.newState]),
+    ));
+    addSection('Comment changes', diff.commentChanges.length, formatTable(
+        ['Key', 'Before', 'After'],
+        diff.commentChanges.map(change => [formatKey(change.key), escapeCell(change.oldComment), escapeCell(change.newComment)]),
+    ));
+
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,337 @@
+/**
+ * Catalog Merge Service
+ * Three-way merge of String Catalogs against their common ancestor, as version control does it:
+ * a change made on one side is taken over, and a change made differently on both sides is a
+ * conflict. Keys, their fields, each language and each plural or device case are merged on their
+ * own, so two branches that translate different languages or cases of the same key merge cleanly.
+ */
+
+import { XCStringEntry, XCStringLocalization, XCStringSubstitution, XCStringsDocument } from '../types';
+import { isEqual } from './converter';
+import { compareCatalogKeys } from './stringCatalog';
+
+export type MergeSide = 'ours' | 'theirs';
+
+export interface ThreeWayMergeConflict {
+    /** The key, or undefined for a field of the catalog itself such as `sourceLanguage`. */
+    key?: string;
+    /** The language, for conflicting localizations. */
+    language?: string;
+    /**
+     * What conflicts: "entry" when one side deleted a key the other changed, "localization", the path
+     * of a part of a localization such as `variations.plural.few`, or the field name.
+     */
+    field: string;
+    description: string;
+    base?: unknown;
+    ours?: unknown;
+    theirs?: unknown;
+    /** The side whose version the merged catalog holds. */
+    resolvedWith: MergeSide;
+}
+
+export interface ThreeWayMergeOptions {
+    /** The side that wins conflicting changes; ours by default. */
+    favor?: MergeSide;
+}
+
+export interface ThreeWayMergeResult {
+    doc: XCStringsDocument;
+    conflicts: ThreeWayMergeConflict[];
+    /** One line per key changed on the other side, and per conflict. */
+    logs: string[];
+}
+
+interface MergeOutcome<T> {
+    conflict: boolean;
+    value?: T;
+    changedBy?: MergeSide | 'both';
+}
+
+// The three-way rule: whichever side changed the base wins, and both changing it differently conflicts
+function mergeValues<T>(base: T | undefined, ours: T | undefined, theirs: T | undefined): MergeOutcome<T> {
+    if (isEqual(ours, theirs)) return { conflict: false, value: ours, changedBy: isEqual(base, ours) ? undefined : 'both' };
+    if (isEqual(base, ours)) return { conflict: false, value: theirs, changedBy: 'theirs' };
+    if (isEqual(base, theirs)) return { conflict: false, value: ours, changedBy: 'ours' };
+    return { conflict: true };
+}
+
+// Keys such as "constructor" are valid catalog keys, so only own properties count
+function getOwnValue<T>(target: Record<string, T> | undefined, field: string): T | undefined {
+    return target && Object.prototype.hasOwnProperty.call(target, field) ? target[field] : undefined;
+}
+
+function setField(target: Record<string, unknown>, field: string, value: unknown): void {
+    if (value === undefined) {
+        delete target[field];
+    } else {
+        target[field] = value;
+    }
+}
+
+// Merges every field of three objects but the ones named in `skip`, recording conflicts
+function mergeFields(
+    base: object,
+    ours: object,
+    theirs: object,
+    skip: string[],
+    favor: MergeSide,
+    onConflict: (field: string, values: unknown[]) => void,
+): Record<string, unknown> {
+    const merged: Record<string, unknown> = {};
+    const versions = [base, ours, theirs] as Record<string, unknown>[];
+    const fields = new Set(versions.flatMap(version => Object.keys(version)));
+    for (const field of fields) {
+        if (skip.includes(field)) continue;
+        const [baseValue, ourValue, theirValue] = versions.map(version => getOwnValue(version, field));
+        const outcome = mergeValues(baseValue, ourValue, theirValue);
+        if (outcome.conflict) {
+            onConflict(field, [baseValue, ourValue, theirValue]);
+            setField(merged, field, favor === 'ours' ? ourValue : theirValue);
+        } else {
+            setField(merged, field, outcome.value);
+        }
+    }
+    return merged;
+}
+
+// A localization, a variation case or a substitution: the parts of a localization merged on their own
+type LocalizationNode = XCStringLocalization & XCStringSubstitution;
+
+// Both sides must vary by the same kinds of variation for their cases to be merged one by one
+function getVariationShape(node: LocalizationNode): string {
+    const parts = Object.keys(node.variations || {}).map(type => `variations.${type}`);
+    if (node.stringUnit) parts.push('stringUnit');
+    return parts.sort().join(',');
+}
+
+function hasParts(node: LocalizationNode): boolean {
+    return Boolean(node.variations || node.substitutions);
+}
+
+function getAllFields(versions: (object | undefined)[]): string[] {
+    return Array.from(new Set(versions.flatMap(version => Object.keys(version || {}))));
+}
+
+function recordLocalizationConflict(
+    conflicts: ThreeWayMergeConflict[],
+    key: string,
+    language: string,
+    path: string[],
+    [base, ours, theirs]: unknown[],
+    favor: MergeSide,
+): void {
+    const subject = path.length > 0 ? `The ${path.join('.')} of the ${language} localization` : `The ${language} localization`;
+    conflicts.push({
+        key,
+        language,
+        field: path.length > 0 ? path.join('.') : 'localization',
+        description: ours === undefined || theirs === undefined
+            ? `${subject} was removed on one side and changed on the other.`
+            : base !== undefined
+                ? `${subject} was changed differently on both sides.`
+                : `${subject} was added differently on both sides.`,
+        base,
+        ours,
+        theirs,
+        resolvedWith: favor,
+    });
+}
+
+// Merges a localization part by part: each plural or device case and each substitution on its own
+function mergeLocalization(
+    key: string,
+    language: string,
+    path: string[],
+    base: LocalizationNode | undefined,
+    ours: LocalizationNode | undefined,
+    theirs: LocalizationNode | undefined,
+    favor: MergeSide,
+    conflicts: ThreeWayMergeConflict[],
+): LocalizationNode | undefined {
+    const outcome = mergeValues(base, ours, theirs);
+    if (!outcome.conflict) return outcome.value;
+
+    if (!ours || !theirs || !(hasParts(ours) || hasParts(theirs)) || getVariationShape(ours) !== getVariationShape(theirs)) {
+        recordLocalizationConflict(conflicts, key, language, path, [base, ours, theirs], favor);
+        return favor === 'ours' ? ours : theirs;
+    }
+
+    const merged: Record<string, unknown> = {};
+    const versions = [base || {}, ours, theirs] as Record<string, Record<string, unknown> | undefined>[];
+    for (const field of getAllFields(versions)) {
+        const [baseValue, ourValue, theirValue] = versions.map(version => getOwnValue(version, field));
+
+        if (field === 'variations' && ourValue && theirValue) {
+            // Same shape on both sides, so ours names every variation type that is left
+            const variations: Record<string, unknown> = {};
+            for (const type of Object.keys(ourValue)) {
+                const typeVersions = [baseValue, ourValue, theirValue].map(value => getOwnValue(value, type)) as Record<string, LocalizationNode>[];
+                const cases: Record<string, unknown> = {};
+                for (const name of getAllFields(typeVersions)) {
+                    const [baseCase, ourCase, theirCase] = typeVersions.map(version => getOwnValue(version, name));
+                    setField(cases, name, mergeLocalization(key, language, [...path, 'variations', type, name], baseCase, ourCase, theirCase, favor, conflicts));
+                }
+                variations[type] = cases;
+            }
+            merged.variations = variations;
+        } else if (field === 'substitutions' && ourValue && theirValue) {
+            const substitutionVersions = [baseValue, ourValue, theirValue] as Record<string, LocalizationNode>[];
+            const substitutions: Record<string, unknown> = {};
+            for (const name of getAllFields(substitutionVersions)) {
+                const [baseSubstitution, ourSubstitution, theirSubstitution] = substitutionVersions.map(version => getOwnValue(version, name));
+                setField(substitutions, name, mergeLocalization(key, language, [...path, 'substitutions', name], baseSubstitution, ourSubstitution, theirSubstitution, favor, conflicts));
+            }
+            merged.substitutions = substitutions;
+        } else {
+            const fieldOutcome = mergeValues(baseValue, ourValue, theirValue);
+            if (fieldOutcome.conflict) {
+                recordLocalizationConflict(conflicts, key, language, [...path, field], [baseValue, ourValue, theirValue], favor);
+                setField(merged, field, favor === 'ours' ? ourValue : theirValue);
+            } else {
+                setField(merged, field, fieldOutcome.value);
+            }
+        }
+    }
+    return merged as LocalizationNode;
+}
+
+function mergeEntry(
+    key: string,
+    base: XCStringEntry,
+    ours: XCStringEntry,
+    theirs: XCStringEntry,
+    favor: MergeSide,
+    conflicts: ThreeWayMergeConflict[],
+): XCStringEntry {
+    const entry: XCStringEntry = mergeFields(base, ours, theirs, ['localizations'], favor, (field, [baseValue, ourValue, theirValue]) => {
+        conflicts.push({ key, field, description: `The ${field} was changed on both sides.`, base: baseValue, ours: ourValue, theirs: theirValue, resolvedWith: favor });
+    });
+
+    if (base.localizations || ours.localizations || theirs.localizations) {
+        const versions = [base.localizations, ours.localizations, theirs.localizations];
+        const localizations: Record<string, XCStringLocalization> = {};
+        for (const language of getAllFields(versions)) {
+            const [baseLocalization, ourLocalization, theirLocalization] = versions.map(version => getOwnValue(version, language));
+            setField(localizations, language, mergeLocalization(key, language, [], baseLocalization, ourLocalization, theirLocalization, favor, conflicts));
+        }
+        entry.localizations = localizations;
+    }
+    return entry;
+}
+
+/**
+ * Merges two versions of a String Catalog with their common ancestor, key by key, language by
+ * language and case by case. When both sides change the same field or case differently, the
+ * favored side wins and the conflict is reported. A key deleted on one side and changed on the
+ * other is kept with the changes, so no translation is lost silently.
+ * @param base The common ancestor, or null when both sides added the catalog.
+ * @param ours The current version.
+ * @param theirs The version being merged in.
+ * @param options Which side wins conflicts.
+ * @returns The merged catalog, the conflicts and a log of the changes taken from either side.
+ */
+export function mergeStringCatalogsThreeWay(
+    base: XCStringsDocument | null,
+    ours: XCStringsDocument,
+    theirs: XCStringsDocument,
+    options: ThreeWayMergeOptions = {},
+): ThreeWayMergeResult {
+    const favor = options.favor ?? 'ours';
+    const baseDoc = base ?? { strings: {} } as unknown as XCStringsDocument;
+    const conflicts: ThreeWayMergeConflict[] = [];
+    const logs: string[] = [];
+
+    const doc = mergeFields(baseDoc, ours, theirs, ['strings'], favor, (field, [baseValue, ourValue, theirValue]) => {
+        conflicts.push({ field, description: `The catalog's ${field} was changed on both sides.`, base: baseValue, ours: ourValue, theirs: theirValue, resolvedWith: favor });
+        logs.push(`CONFLICT: The catalog's ${field} differs (ours: ${JSON.stringify(ourValue)}, theirs: ${JSON.stringify(theirValue)}).`);
+    }) as unknown as XCStringsDocument;
+    doc.strings = {};
+
+    const keys = new Set([...Object.keys(baseDoc.strings || {}), ...Object.keys(ours.strings || {}), ...Object.keys(theirs.strings || {})]);
+    for (const key of Array.from(keys).sort(compareCatalogKeys)) {
+        const [baseEntry, ourEntry, theirEntry] = [baseDoc, ours, theirs].map(version => getOwnValue(version.strings, key));
+        const outcome = mergeValues(baseEntry, ourEntry, theirEntry);
+
+        if (!outcome.conflict) {
+            if (outcome.value !== undefined) doc.strings[key] = outcome.value;
+            if (outcome.changedBy === 'theirs' || outcome.changedBy === 'ours') {
+                const change = !baseEntry ? 'added' : outcome.value === undefined ? 'removed' : 'changed';
+                logs.push(`Key '${key}' ${change} in ${outcome.changedBy}.`);
+            }
+            continue;
+        }
+
+        if (!ourEntry || !theirEntry) {
+            const changedSide: MergeSide = ourEntry ? 'ours' : 'theirs';
+            const deletedSide: MergeSide = ourEntry ? 'theirs' : 'ours';
+            doc.strings[key] = (ourEntry || theirEntry)!;
+            conflicts.push({
+                key,
+                field: 'entry',
+                description: `The key was removed in ${deletedSide} but changed in ${changedSide}; the changed key was kept.`,
+                base: baseEntry,
+                ours: ourEntry,
+                theirs: theirEntry,
+                resolvedWith: changedSide,
+            });
+            logs.push(`CONFLICT: Key '${key}' removed in ${deletedSide} but changed in ${changedSide}.`);
+            continue;
+        }
+
+        const conflictCount = conflicts.length;
+        doc.strings[key] = mergeEntry(key, baseEntry ?? {}, ourEntry, theirEntry, favor, conflicts);
+        const keyConflicts = conflicts.length - conflictCount;
+        logs.push(keyConflicts > 0
+            ? `CONFLICT: Key '${key}' has ${keyConflicts} conflicting ${keyConflicts === 1 ? 'change' : 'changes'}; used ${favor}.`
+            : `Key '${key}' merged from both sides.`);
+    }
+
+    return { doc, conflicts, logs };
+}
+
+function escapeCell(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+// A short, readable form of a conflicting value: the text and state of plain localizations, JSON otherwise
+function describeValue(value: unknown): string {
+    if (value === undefined) return '*(none)*';
+    const unit = (value as XCStringLocalization)?.stringUnit;
+    if (unit && Object.keys(value as object).length === 1) return escapeCell(`"${unit.value}" (${unit.state})`);
+    const json = JSON.stringify(value);
+    return escapeCell(json.length > 200 ? `${json.slice(0, 200)}…` : json);
+}
+
+/**
+ * Writes the conflicts of a three-way merge as Markdown, with the base, ours and theirs version
+ * of each and the side that was kept.
+ * @param result The result of `mergeStringCatalogsThreeWay`.
+ * @param fileName The name of the merged file, for the title.
+ * @returns The Markdown text, ending with a newline.
+ */
+export function formatThreeWayMergeReport(result: ThreeWayMergeResult, fileName: string): string {
+    const lines = [`## Merge conflicts in \`${fileName}\``, ''];
+    if (result.conflicts.length === 0) {
+        lines.push('No conflicts.');
+        return lines.join('\n') + '\n';
+    }
+
+    const count = result.conflicts.length;
+    lines.push(
+        `${count} ${count === 1 ? 'conflict was' : 'conflicts were'} resolved automatically. Check the kept version of each before committing.`,
+        '',
+        '| Key | Language | Conflict | Base | Ours | Theirs | Kept |',
+        '| --- | --- | --- | --- | --- | --- | --- |',
+        ...result.conflicts.map(conflict => `| ${[
+            conflict.key === undefined ? '*(catalog)*' : `\`${escapeCell(conflict.key)}\``,
+            conflict.language ?? '',
+            escapeCell(conflict.description),
+            describeValue(conflict.base),
+            describeValue(conflict.ours),
+            describeValue(conflict.theirs),
+            conflict.resolvedWith,
+        ].join(' | ')} |`),
+    );
+    return lines.join('\n') + '\n';
+}
@@ -1,36 +1,66 @@
-import { ParsedStrings, LanguageFile, ParsedMultiLanguageStrings, isPlural, PluralVariations, StringValue } from '../types';
+import {
+    ParsedStrings, LanguageFile, ParsedMultiLanguageStrings, isPlural, isDeviceVariations, isSubstitution,
+    PluralVariations, DeviceVariations, DeviceCategory, SubstitutionString, PluralSubstitution, StringValue, XCStringsDocument,
+    StringComments, StringAttributes, XCStringLocalization, XCStringUnit, XCStringState,
+} from '../types';
+import {
+    parseStringCatalogDocument,
+    serializeStringCatalogDocument,
+    createStringCatalogDocument,
+    cloneStringCatalogDocument,
+    getLocalizationValue,
+    buildLocalization,
+    ensureCatalogEntry,
+    compareCatalogKeys,
+    DEVICE_CATEGORIES,
+    PLURAL_CATEGORIES,
+} from './stringCatalog';
+import { inferFormatValueType, findFormatSpecifiers, convertFormatSpecifiers, FormatPlatform, FormatConversionIssue } from './formatSpecifiers';
+import { parseStringsEntries, formatStringsSyntaxError, escapeStringsLiteral, formatStringsComment } from './stringsParser';
+import { parseAndroidResources, serializeAndroidResources, AndroidResource, AndroidStringArrayResource } from './androidResources';
+import { parsePoFile, serializePoFile, mapPluralFormsToCategories, getPluralFormsHeader, PoEntry, PO_CONTEXT_SEPARATOR } from './gettext';
+import { icuToStringValue, stringValueToIcu, getIcuPluralArguments } from './icuMessageFormat';
+import { getFormatAdapter, ParsedLocalizationFile } from './formatRegistry';
 
 /**
  * Parses the content of a .strings file into a key-value object.
+ * Later occurrences of a key override earlier ones, as on device.
  * @param content The string content of the .strings file.
  * @returns A record of string keys to their corresponding values.
+ * @throws If the file contains a syntax error; the message gives the line and column.
  */
 export function parseStringsFile(content: string): ParsedStrings {
-    const strings: ParsedStrings = {};
+    return parseStringsFileWithComments(content).strings;
+}
 
-    const withoutComments = content.replace(/\/\*[\s\S]*?\*\/|([^:]|^)\/\/.*$/gm, '$1');
-    const regex = /"((?:\\.|[^"\\])*)"\s*=\s*"((?:\\.|[^"\\])*)"\s*;/g;
+/**
+ * Parses the content of a .strings file, keeping the developer comment written above each key.
+ * @param content The string content of the .strings file.
+ * @returns The key-value strings and the comments of the keys that have one.
+ * @throws If the file contains a syntax error; the message gives the line and column.
+ */
+export function parseStringsFileWithComments(content: string): { strings: ParsedStrings; comments: StringComments } {
+    const { entries, errors } = parseStringsEntries(content);
 
-    let match;
-    while ((match = regex.exec(withoutComments)) !== null) {
-        const key = match[1].replace(/\\"/g, '"').replace(/\\n/g, '\n');
-        const value = match[2].replace(/\\"/g, '"').replace(/\\n/g, '\n');
-        strings[key] = value;
+    if (errors.length > 0) {
+        const more = errors.length > 1 ? ` (and ${errors.length - 1} more)` : '';
+        throw new Error(`Invalid .strings file format. ${formatStringsSyntaxError(errors[0])}${more}`);
     }
 
-    if (Object.keys(strings).length === 0 && content.trim().length > 0) {
-        if (!content.trim().startsWith('/*') && !content.trim().startsWith('//')) {
-            console.warn("Potentially invalid .strings file format. No key-value pairs found.");
-        }
+    const strings: ParsedStrings = {};
+    const comments: StringComments = {};
+    for (const entry of entries) {
+        strings[entry.key] = entry.value;
+        if (entry.comment) comments[entry.key] = entry.comment;
     }
-
-    return strings;
+    return { strings, comments };
 }
 
 /**
- * Parses the content of a .stringsdict (XML plist) file into a key-value object for plurals.
+ * Parses the content of a .stringsdict (XML plist) file into a key-value object for plurals,
+ * multi-variable substitutions and device-specific variants (`NSStringDeviceSpecificRuleType`).
  * @param content The XML string content of the .stringsdict file.
- * @returns A record of string keys to their corresponding plural variations.
+ * @returns A record of string keys to their corresponding plural, substitution or device variations.
  */
 export function parseStringsDictFile(content: string): ParsedStrings {
     const strings: ParsedStrings = {};
@@ -52,128 +82,258 @@ export function parseStringsDictFile(content: string): ParsedStrings {
         const dictNode = keyNode.nextElementSibling;
         if (!key || !dictNode || dictNode.tagName !== 'dict') continue;
 
-        const variableKeyNode = Array.from(dictNode.children).find(el => el.tagName === 'key' && el.nextElementSibling?.tagName === 'dict' && el.textContent?.trim() !== 'NSStringLocalizedFormatKey');
-        if (!variableKeyNode) continue;
+        const deviceRuleNode = Array.from(dictNode.children).find(el => el.tagName === 'key' && el.textContent?.trim() === 'NSStringDeviceSpecificRuleType');
+        const deviceDict = deviceRuleNode?.nextElementSibling;
+        if (deviceDict && deviceDict.tagName === 'dict') {
+            const deviceVariations = parseDeviceRuleDict(deviceDict);
+            if (deviceVariations) strings[key] = deviceVariations;
+            continue;
+        }
 
-        const pluralDict = variableKeyNode.nextElementSibling;
-        if (!pluralDict || pluralDict.tagName !== 'dict') continue;
+        const formatValue = parseFormatDict(dictNode);
+        if (formatValue) strings[key] = formatValue;
+    }
+    return strings;
+}
 
-        const variations: Partial<Omit<PluralVariations, '_isPlural'>> = {};
-        const pluralRuleNodes = Array.from(pluralDict.children).filter(el => el.tagName === 'key');
+function getDictValue(dictNode: Element, name: string): Element | undefined {
+    const keyNode = Array.from(dictNode.children).find(el => el.tagName === 'key' && el.textContent?.trim() === name);
+    return keyNode?.nextElementSibling ?? undefined;
+}
 
-        for (const ruleNode of pluralRuleNodes) {
-            const rule = ruleNode.textContent?.trim();
-            const valueNode = ruleNode.nextElementSibling;
-            if (!rule || !valueNode || valueNode.tagName !== 'string') continue;
+function parsePluralRuleDict(pluralDict: Element): PluralVariations | undefined {
+    const variations: Partial<Omit<PluralVariations, '_isPlural'>> = {};
+    const pluralRuleNodes = Array.from(pluralDict.children).filter(el => el.tagName === 'key');
 
-            if (['zero', 'one', 'two', 'few', 'many', 'other'].includes(rule)) {
-                variations[rule as keyof typeof variations] = valueNode.textContent || '';
+    for (const ruleNode of pluralRuleNodes) {
+        const rule = ruleNode.textContent?.trim();
+        const valueNode = ruleNode.nextElementSibling;
+        if (!rule || !valueNode || valueNode.tagName !== 'string') continue;
+
+        if (['zero', 'one', 'two', 'few', 'many', 'other'].includes(rule)) {
+            variations[rule as keyof typeof variations] = valueNode.textContent || '';
+        }
+    }
+
+    if (!variations.other) return undefined;
+    return {
+        _isPlural: true,
+        ...variations,
+        other: variations.other,
+    };
+}
+
+/**
+ * Reads a format dictionary (`NSStringLocalizedFormatKey` plus one dictionary per variable).
+ * A format that is just a single `%#@var@` token becomes plain plural variations; anything else
+ * keeps its format string and every variable as a substitution.
+ */
+function parseFormatDict(dictNode: Element): PluralVariations | SubstitutionString | undefined {
+    const format = getDictValue(dictNode, 'NSStringLocalizedFormatKey')?.textContent ?? undefined;
+    const variables: { name: string; valueType?: string; variations: PluralVariations }[] = [];
+
+    for (const keyNode of Array.from(dictNode.children).filter(el => el.tagName === 'key')) {
+        const name = keyNode.textContent?.trim();
+        const variableDict = keyNode.nextElementSibling;
+        if (!name || name === 'NSStringLocalizedFormatKey' || !variableDict || variableDict.tagName !== 'dict') continue;
+
+        const specType = getDictValue(variableDict, 'NSStringFormatSpecTypeKey')?.textContent?.trim();
+        if (specType && specType !== 'NSStringPluralRuleType') continue;
+
+        const variations = parsePluralRuleDict(variableDict);
+        if (!variations) continue;
+        const valueType = getDictValue(variableDict, 'NSStringFormatValueTypeKey')?.textContent?.trim();
+        variables.push({ name, valueType: valueType || undefined, variations });
+    }
+
+    if (variables.length === 0) return undefined;
+
+    const tokens = format ? findSubstitutionTokens(format) : [];
+    const isSinglePlural = variables.length === 1 && (!format || (tokens.length === 1 && tokens[0].raw === format.trim()));
+    if (isSinglePlural) return variables[0].variations;
+
+    const substitutions: Record<string, PluralSubstitution> = {};
+    for (const variable of variables) {
+        const tokenIndex = tokens.findIndex(token => token.name === variable.name);
+        const token = tokens[tokenIndex];
+        substitutions[variable.name] = {
+            argNum: token ? token.position ?? tokenIndex + 1 : undefined,
+            formatSpecifier: variable.valueType || inferFormatValueType(variable.variations.other),
+            variations: variable.variations,
+        };
+    }
+    return { _isSubstitution: true, format: format || '', substitutions };
+}
+
+function findSubstitutionTokens(format: string): { raw: string; name: string; position?: number }[] {
+    return Array.from(format.matchAll(/%(?:(\d+)\$)?#@([^@]+)@/g)).map(match => ({
+        raw: match[0],
+        name: match[2],
+        position: match[1] ? parseInt(match[1], 10) : undefined,
+    }));
+}
+
+function parseDeviceRuleDict(deviceDict: Element): DeviceVariations | undefined {
+    const variations: DeviceVariations = { _isDevice: true };
+    let hasValue = false;
+
+    for (const deviceNode of Array.from(deviceDict.children).filter(el => el.tagName === 'key')) {
+        const device = deviceNode.textContent?.trim() as DeviceCategory | undefined;
+        const valueNode = deviceNode.nextElementSibling;
+        if (!device || !valueNode || !DEVICE_CATEGORIES.includes(device)) continue;
+
+        if (valueNode.tagName === 'string') {
+            variations[device] = valueNode.textContent || '';
+            hasValue = true;
+        } else if (valueNode.tagName === 'dict') {
+            const plural = parseFormatDict(valueNode);
+            if (plural && isPlural(plural)) {
+                variations[device] = plural;
+                hasValue = true;
             }
         }
+    }
+
+    return hasValue ? variations : undefined;
+}
+
+/**
+ * Reduces a value to what formats without device variants or substitutions can hold.
+ * Device variations resolve to the variant used on devices without a dedicated one; a
+ * substitution with one variable becomes plural variations of the whole sentence, and
+ * one with several variables is flattened using each variable's `other` phrase.
+ * @param value The value to resolve.
+ * @returns A plain string or plural variations.
+ */
+export function resolveBasicValue(value: StringValue): string | PluralVariations {
+    if (isSubstitution(value)) return flattenSubstitution(value);
+    if (!isDeviceVariations(value)) return value;
+    if (value.other !== undefined) return value.other;
+    const firstDevice = DEVICE_CATEGORIES.find(device => value[device] !== undefined);
+    return firstDevice ? value[firstDevice]! : '';
+}
 
-        if (variations.other) {
-            strings[key] = {
-                _isPlural: true,
-                ...variations,
-                other: variations.other,
-            };
+function flattenSubstitution(value: SubstitutionString): string | PluralVariations {
+    const tokens = findSubstitutionTokens(value.format);
+    const names = Object.keys(value.substitutions);
+
+    if (names.length === 1) {
+        const { variations } = value.substitutions[names[0]];
+        const plural = { ...variations };
+        for (const [category, phrase] of Object.entries(variations)) {
+            if (category === '_isPlural') continue;
+            plural[category as 'other'] = tokens.reduce((text, token) => token.name === names[0] ? text.replace(token.raw, phrase as string) : text, value.format);
         }
+        return plural;
     }
-    return strings;
+
+    return tokens.reduce((text, token) => {
+        const substitution = value.substitutions[token.name];
+        return substitution ? text.replace(token.raw, substitution.variations.other) : text;
+    }, value.format);
 }
 
 
 /**
- * Parses multiple .strings and .stringsdict files and merges them into a single structure.
+ * Parses multiple localization files of any supported format (see `formatRegistry`) and merges them into a single structure.
+ * Single-language files hold the language of their `langCode`; multi-language files (String Catalogs, XLIFF) bring their own.
+ * Developer comments are taken from the source language files first, then from any other file.
  * @param files An array of LanguageFile objects.
- * @returns An object containing the merged data, the source language, and all language codes.
+ * Android resource attributes and keys marked as not to be translated are collected from every file.
+ * @returns An object containing the merged data, the comments, the resource attributes, the
+ * non-translatable keys, the source language, all language codes, and the problems found while
+ * reading the files, such as placeholders with no iOS equivalent.
+ * @throws If a file is not supported, cannot be parsed, or has no language code.
  */
-export function mergeAndParseStrings(files: LanguageFile[]): { parsedData: ParsedMultiLanguageStrings; sourceLanguage: string; languages: string[] } {
+export function mergeAndParseStrings(files: LanguageFile[]): {
+    parsedData: ParsedMultiLanguageStrings;
+    comments: StringComments;
+    attributes: StringAttributes;
+    nonTranslatableKeys: string[];
+    sourceLanguage: string;
+    languages: string[];
+    issues: string[];
+} {
     if (files.length === 0) throw new Error("No files to process.");
-    if (files.some(f => !f.langCode.trim())) throw new Error("One or more files is missing a language code.");
 
-    const sourceLanguage = files[0].langCode;
-    const langToFileMap = new Map<string, LanguageFile[]>();
+    const parsedFiles: ParsedLocalizationFile[] = [];
+    const issues: string[] = [];
     for (const file of files) {
-        if (!langToFileMap.has(file.langCode)) langToFileMap.set(file.langCode, []);
-        langToFileMap.get(file.langCode)!.push(file);
-    }
-
-    const languages = Array.from(langToFileMap.keys());
-    const parsedFiles: { langCode: string; data: ParsedStrings }[] = [];
-
-    for (const [langCode, langFiles] of langToFileMap.entries()) {
-        const langData: ParsedStrings = {};
-        for (const file of langFiles) {
-            try {
-                let parsedContent: ParsedStrings;
-                if (file.name.endsWith('.stringsdict')) {
-                    parsedContent = parseStringsDictFile(file.content);
-                } else {
-                    parsedContent = parseStringsFile(file.content);
-                }
-                Object.assign(langData, parsedContent);
-            } catch (e: any) {
-                throw new Error(`Error parsing file ${file.name}: ${e.message}`);
-            }
+        const adapter = getFormatAdapter(file);
+        if (!adapter.multiLanguage && !file.langCode.trim()) throw new Error("One or more files is missing a language code.");
+        let parsed: ParsedLocalizationFile;
+        try {
+            parsed = adapter.parse(file.content, { fileName: file.name, language: file.langCode.trim() });
+        } catch (e: any) {
+            throw new Error(`Error parsing file ${file.name}: ${e.message}`);
         }
-        parsedFiles.push({ langCode, data: langData });
+        parsedFiles.push(parsed);
+        issues.push(...(parsed.issues || []).map(issue => `${file.name}: ${issue}`));
     }
 
-    const allKeys = new Set<string>();
-    parsedFiles.forEach(pf => Object.keys(pf.data).forEach(key => allKeys.add(key)));
-
+    const sourceLanguage = files[0].langCode.trim() || parsedFiles[0].sourceLanguage || parsedFiles[0].languages[0];
+    const languages = new Set<string>();
     const mergedData: ParsedMultiLanguageStrings = {};
-    for (const key of allKeys) {
-        mergedData[key] = {};
-        for (const pf of parsedFiles) {
-            if (pf.data[key] !== undefined) {
-                mergedData[key][pf.langCode] = pf.data[key];
-            }
+    const comments: StringComments = {};
+    const attributes: StringAttributes = {};
+    const nonTranslatableKeys = new Set<string>();
+
+    // Source language files go first so that their comments win
+    const isSource = (parsed: ParsedLocalizationFile) => parsed.languages[0] === sourceLanguage;
+    for (const parsed of [...parsedFiles.filter(isSource), ...parsedFiles.filter(parsed => !isSource(parsed))]) {
+        parsed.languages.forEach(language => languages.add(language));
+        for (const [key, values] of Object.entries(parsed.data)) {
+            // Untranslated entries have no value and are left out
+            if (Object.keys(values).length === 0) continue;
+            mergedData[key] = { ...mergedData[key], ...values };
         }
+        for (const [key, comment] of Object.entries(parsed.comments)) {
+            if (!(key in comments)) comments[key] = comment;
+        }
+        for (const [key, keyAttributes] of Object.entries(parsed.attributes || {})) {
+            attributes[key] = { ...keyAttributes, ...attributes[key] };
+        }
+        parsed.nonTranslatableKeys.forEach(key => nonTranslatableKeys.add(key));
     }
 
-    return { parsedData: mergedData, sourceLanguage, languages };
+    return {
+        parsedData: mergedData,
+        comments,
+        attributes,
+        nonTranslatableKeys: Array.from(nonTranslatableKeys),
+        sourceLanguage,
+        languages: Array.from(languages),
+        issues,
+    };
 }
 
 
 /**
  * Generates an iOS String Catalog (.xcstrings) JSON string from multi-language data.
+ * When a base catalog is given, the data is applied on top of it so that comments, states
+ * and other metadata of existing entries are kept.
  * @param data The parsed multi-language key-value data.
  * @param sourceLanguage The source language code (e.g., "en").
+ * @param baseCatalog An optional existing catalog to update instead of starting from scratch.
+ * @param comments Optional developer comments, written to each entry's `comment` field.
+ * @param nonTranslatableKeys Keys marked as not to be translated, such as Android's `translatable="false"`; written as `shouldTranslate: false`.
  * @returns A formatted JSON string.
  */
-export function generateIosStringCatalog(data: ParsedMultiLanguageStrings, sourceLanguage: string): string {
-    const catalog = {
-        sourceLanguage: sourceLanguage,
-        strings: Object.entries(data).reduce((acc, [key, localizations]) => {
-            acc[key] = {
-                extractionState: "manual",
-                localizations: Object.entries(localizations).reduce((langAcc, [lang, value]) => {
-                    if (isPlural(value)) {
-                        langAcc[lang] = {
-                            variations: {
-                                plural: Object.entries(value).reduce((pluralAcc, [pluralKey, pluralValue]) => {
-                                    if (pluralKey === '_isPlural') return pluralAcc;
-                                    pluralAcc[pluralKey] = { stringUnit: { state: "translated", value: pluralValue } };
-                                    return pluralAcc;
-                                }, {} as any)
-                            }
-                        };
-                    } else {
-                        langAcc[lang] = {
-                            stringUnit: { state: "translated", value: value },
-                        };
-                    }
-                    return langAcc;
-                }, {} as any),
-            };
-            return acc;
-        }, {} as any),
-        version: "1.0",
-    };
+export function generateIosStringCatalog(data: ParsedMultiLanguageStrings, sourceLanguage: string, baseCatalog?: XCStringsDocument, comments?: StringComments, nonTranslatableKeys?: string[]): string {
+    const catalog = baseCatalog ? cloneStringCatalogDocument(baseCatalog) : createStringCatalogDocument(sourceLanguage);
+    const nonTranslatable = new Set(nonTranslatableKeys);
+
+    for (const [key, localizations] of Object.entries(data)) {
+        const entry = ensureCatalogEntry(catalog, key);
+        if (comments?.[key]) entry.comment = comments[key];
+        if (nonTranslatable.has(key)) entry.shouldTranslate = false;
+        if (!entry.localizations) entry.localizations = {};
+        for (const [lang, value] of Object.entries(localizations)) {
+            entry.localizations[lang] = buildLocalization(value, entry.localizations[lang]);
+        }
+    }
 
-    return JSON.stringify(catalog, null, 2);
+    return serializeStringCatalogDocument(catalog);
 }
 
 /**
@@ -188,7 +348,7 @@ export function parseJson(content: string): ParsedStrings {
 
         const flatten = (obj: any, prefix = '') => {
             for (const key in obj) {
-                if (typeof obj[key] === 'object' && obj[key] !== null && !isPlural(obj[key] as any)) {
+                if (typeof obj[key] === 'object' && obj[key] !== null && !isPlural(obj[key] as any) && !isDeviceVariations(obj[key] as any) && !isSubstitution(obj[key] as any)) {
                     flatten(obj[key], prefix + key + '.');
                 } else {
                     strings[prefix + key] = obj[key] as StringValue;
@@ -213,34 +373,342 @@ export function generateJson(data: ParsedStrings): string {
     return JSON.stringify(data, null, 2);
 }
 
+// --- I18NEXT & FLUTTER ARB ---
+
+// An argument such as "{count, plural," marks a message written in ICU MessageFormat
+const ICU_COMPLEX_ARGUMENT = /\{\s*[^\s{},]+\s*,\s*(?:plural|selectordinal|select)\s*,/;
+
+// Reads one ICU message; one the catalog cannot express is kept as written and reported
+function readIcuMessage(key: string, message: string, issues: string[]): StringValue {
+    try {
+        return icuToStringValue(message);
+    } catch (e: any) {
+        issues.push(`${key}: ${e.message} The message was kept as written.`);
+        return message;
+    }
+}
+
+/**
+ * Reads the ICU MessageFormat messages among some strings, such as the plurals of web and
+ * translation tool exports, with `icuToStringValue`. Other strings are left alone.
+ * @param strings The parsed strings.
+ * @returns The strings with ICU plurals converted, and one issue per message kept as written.
+ */
+export function readIcuMessages(strings: ParsedStrings): { strings: ParsedStrings; issues: string[] } {
+    const converted: ParsedStrings = {};
+    const issues: string[] = [];
+    for (const [key, value] of Object.entries(strings)) {
+        converted[key] = typeof value === 'string' && ICU_COMPLEX_ARGUMENT.test(value) ? readIcuMessage(key, value, issues) : value;
+    }
+    return { strings: converted, issues };
+}
+
+// i18next plural keys: "item_one", "item_other" (v21+), or "item" / "item_plural" (v3 and earlier)
+const I18NEXT_PLURAL_SUFFIX = /^(.+)_(zero|one|two|few|many|other)$/;
+const I18NEXT_COUNT_PLACEHOLDER = /\{\{\s*count\s*\}\}/g;
+
+/**
+ * Parses an i18next JSON resource file. Nested objects are flattened into dotted keys, and
+ * plural suffixes (`key_one`, `key_other`, or the legacy `key` / `key_plural` pair) are grouped
+ * into plural variations with `{{count}}` written as `%lld`. Suffixed keys are only grouped when
+ * at least two forms, including `other`, are present, so a lone `menu_other` stays a plain key.
+ * @param content The JSON string content.
+ * @returns A record of string keys to their corresponding values.
+ */
+export function parseI18nextJson(content: string): ParsedStrings {
+    const flat = parseJson(content);
+    const strings: ParsedStrings = {};
+    const toPhrase = (value: StringValue) => (value as string).replace(I18NEXT_COUNT_PLACEHOLDER, '%lld');
+
+    const formCounts = new Map<string, number>();
+    for (const [key, value] of Object.entries(flat)) {
+        const match = key.match(I18NEXT_PLURAL_SUFFIX);
+        if (match && typeof value === 'string') formCounts.set(match[1], (formCounts.get(match[1]) ?? 0) + 1);
+    }
+    const isPluralSet = (base: string) => typeof flat[`${base}_other`] === 'string' && (formCounts.get(base) ?? 0) >= 2;
+
+    for (const [key, value] of Object.entries(flat)) {
+        if (typeof value !== 'string') {
+            strings[key] = value;
+            continue;
+        }
+
+        const match = key.match(I18NEXT_PLURAL_SUFFIX);
+        if (match && isPluralSet(match[1])) {
+            const base = match[1];
+            const existing = strings[base];
+            const variations: PluralVariations = isPlural(existing) ? existing : { _isPlural: true, other: '' };
+            variations[match[2] as keyof Omit<PluralVariations, '_isPlural'>] = toPhrase(value);
+            strings[base] = variations;
+        } else if (key.endsWith('_plural') && typeof flat[key.slice(0, -'_plural'.length)] === 'string') {
+            const base = key.slice(0, -'_plural'.length);
+            strings[base] = { _isPlural: true, one: toPhrase(flat[base]), other: toPhrase(value) };
+        } else if (typeof flat[`${key}_plural`] !== 'string' && !isPlural(strings[key])) {
+            strings[key] = value;
+        }
+    }
+    return strings;
+}
+
+/**
+ * Generates an i18next JSON resource file. Dotted keys become nested objects, as i18next
+ * resolves them with its default key separator; a key that clashes with a nested path is
+ * kept flat. Plurals are written as suffixed keys with `%lld` written as `{{count}}`.
+ * @param data The parsed key-value string data.
+ * @returns A JSON string.
+ */
+export function generateI18nextJson(data: ParsedStrings): string {
+    const root: Record<string, any> = {};
+
+    const assign = (key: string, value: string) => {
+        const path = key.split('.');
+        let node = root;
+        for (let i = 0; i < path.length - 1; i++) {
+            const child = node[path[i]];
+            if (child === undefined) {
+                node = node[path[i]] = {};
+            } else if (typeof child === 'object' && !path.some(part => part === '')) {
+                node = child;
+            } else {
+                root[key] = value;
+                return;
+            }
+        }
+        const leaf = path[path.length - 1];
+        if (node[leaf] === undefined) {
+            node[leaf] = value;
+        } else {
+            root[key] = value;
+        }
+    };
+
+    for (const [key, value] of Object.entries(data)) {
+        const resolved = resolveBasicValue(value);
+        if (isPlural(resolved)) {
+            const countSpecifier = new RegExp(`%(?:\\d+\\$)?${inferFormatValueType(resolved.other, 'lld')}`, 'g');
+            for (const category of PLURAL_CATEGORIES) {
+                const phrase = resolved[category];
+                if (phrase !== undefined) assign(`${key}_${category}`, phrase.replace(countSpecifier, '{{count}}'));
+            }
+        } else {
+            assign(key, resolved as string);
+        }
+    }
+    return JSON.stringify(root, null, 2);
+}
+
+/**
+ * Parses a Flutter .arb file. ICU messages are read with `icuToStringValue`, so plurals become
+ * plural variations or substitutions; messages a catalog cannot express (such as `select`) are
+ * kept as written and reported. The `description` of a key's `@key` metadata becomes its comment.
+ * @param content The JSON string content.
+ * @returns The strings, their comments, the `@@locale`, if declared, and one issue per message kept as written.
+ */
+export function parseArbFile(content: string): { strings: ParsedStrings; comments: StringComments; locale?: string; issues: string[] } {
+    let json: Record<string, any>;
+    try {
+        json = JSON.parse(content);
+    } catch {
+        throw new Error("Invalid ARB format. The file is not valid JSON.");
+    }
+    if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+        throw new Error("Invalid ARB format. Expected a JSON object.");
+    }
+
+    const strings: ParsedStrings = {};
+    const comments: StringComments = {};
+    const issues: string[] = [];
+    for (const [key, value] of Object.entries(json)) {
+        if (key.startsWith('@') || typeof value !== 'string') continue;
+
+        strings[key] = readIcuMessage(key, value, issues);
+        const description = json[`@${key}`]?.description;
+        if (typeof description === 'string' && description) comments[key] = description;
+    }
+
+    const locale = typeof json['@@locale'] === 'string' ? json['@@locale'] : undefined;
+    return { strings, comments, locale, issues };
+}
+
+/**
+ * Generates a Flutter .arb file. Plurals are written as ICU plural messages over `int`
+ * placeholders (`count`, or the substitution variable names), and comments as the
+ * `description` of each key's metadata. Device variations are reduced to their fallback.
+ * @param data The parsed key-value string data.
+ * @param locale The `@@locale` to declare; gen-l10n falls back to the file name when omitted.
+ * @param comments Optional comments for each key.
+ * @returns A JSON string.
+ */
+export function generateArbFile(data: ParsedStrings, locale?: string, comments?: StringComments): string {
+    const arb: Record<string, any> = {};
+    if (locale) arb['@@locale'] = locale;
+
+    for (const [key, value] of Object.entries(data)) {
+        const message = isDeviceVariations(value) ? resolveBasicValue(value) : value;
+        const metadata: Record<string, any> = {};
+        if (comments?.[key]) metadata.description = comments[key];
+
+        arb[key] = stringValueToIcu(message);
+        const pluralArguments = getIcuPluralArguments(message);
+        if (pluralArguments.length > 0) {
+            metadata.placeholders = Object.fromEntries(pluralArguments.map(name => [name, { type: 'int' }]));
+        }
+        if (Object.keys(metadata).length > 0) arb[`@${key}`] = metadata;
+    }
+    return JSON.stringify(arb, null, 2);
+}
+
 function escapeXml(str: string): string {
     return str.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '\'': '&apos;', '"': '&quot;' }[c]!));
 }
 
-export function generateSingleAndroidXml(data: ParsedStrings): string {
-    const lines: string[] = [];
-    Object.entries(data).forEach(([key, value]) => {
-        const sanitizedKey = key.replace(/[^a-zA-Z0-9_]/g, '_');
-        if (isPlural(value)) {
-            lines.push(`    <plurals name="${sanitizedKey}">`);
-            for (const [quantity, text] of Object.entries(value)) {
-                if (quantity === '_isPlural') continue;
-                lines.push(`        <item quantity="${quantity}">${escapeXml(text as string)}</item>`);
+// Keys of the form "name[0]" hold the items of an Android <string-array>
+const ANDROID_ARRAY_ITEM_KEY = /^(.+)\[(\d+)\]$/;
+
+function toAndroidResourceName(key: string): string {
+    return key.replace(/[^a-zA-Z0-9_]/g, '_');
+}
+
+export interface FormatConversionWarning extends FormatConversionIssue {
+    key: string;
+    language?: string;
+}
+
+// Converts the placeholders of a value, adding each one that cannot be mapped to `warnings` once per key
+function convertPlatformValue(value: string | PluralVariations, target: FormatPlatform, key = '', warnings?: FormatConversionWarning[]): string | PluralVariations {
+    const seen = new Set<string>();
+    const convert = (phrase: string): string => {
+        const { text, issues } = convertFormatSpecifiers(phrase, target);
+        for (const issue of issues) {
+            if (!warnings || seen.has(issue.specifier)) continue;
+            seen.add(issue.specifier);
+            warnings.push({ ...issue, key });
+        }
+        return text;
+    };
+
+    if (!isPlural(value)) return convert(value);
+    const converted: PluralVariations = { ...value };
+    for (const [category, phrase] of Object.entries(value)) {
+        if (category === '_isPlural') continue;
+        converted[category as 'other'] = convert(phrase as string);
+    }
+    return converted;
+}
+
+/**
+ * Lists the placeholders that cannot be expressed on the target platform. The converters leave
+ * such placeholders unchanged, so this works on the data before or after conversion.
+ * @param data The parsed key-value string data for one language.
+ * @param target The platform the strings are (or were) converted for.
+ * @param language The language of the data, recorded on each warning.
+ * @returns One warning per unmappable placeholder, in key order.
+ */
+export function findFormatConversionIssues(data: ParsedStrings, target: FormatPlatform, language?: string): FormatConversionWarning[] {
+    const warnings: FormatConversionWarning[] = [];
+    for (const [key, rawValue] of Object.entries(data)) {
+        const value = resolveBasicValue(rawValue);
+        const phrases = isPlural(value)
+            ? Object.entries(value).filter(([category]) => category !== '_isPlural').map(([, phrase]) => phrase as string)
+            : [value];
+        const seen = new Set<string>();
+        for (const phrase of phrases) {
+            for (const issue of convertFormatSpecifiers(phrase, target).issues) {
+                if (seen.has(issue.specifier)) continue;
+                seen.add(issue.specifier);
+                warnings.push({ ...issue, key, language });
             }
-            lines.push(`    </plurals>`);
+        }
+    }
+    return warnings;
+}
+
+/**
+ * Lists the unmappable placeholders of every language in a multi-language structure.
+ * @see findFormatConversionIssues
+ */
+export function findAllFormatConversionIssues(data: ParsedMultiLanguageStrings, languages: string[], target: FormatPlatform): FormatConversionWarning[] {
+    return languages.flatMap(lang => {
+        const langSpecificStrings: ParsedStrings = {};
+        for (const key in data) {
+            if (data[key][lang] !== undefined) {
+                langSpecificStrings[key] = data[key][lang];
+            }
+        }
+        return findFormatConversionIssues(langSpecificStrings, target, lang);
+    });
+}
+
+/**
+ * Formats a warning for display, e.g. "greeting (fr): '%p' has no Android equivalent".
+ */
+export function formatFormatConversionWarning(warning: FormatConversionWarning): string {
+    return `${warning.key}${warning.language ? ` (${warning.language})` : ''}: ${warning.message}`;
+}
+
+/**
+ * Generates an Android strings.xml file. Placeholders are converted to Android's form
+ * (`%@` → `%s`, `%lld` → `%d`), values are escaped following Android's resource rules,
+ * inline markup such as `<b>` or `<xliff:g>` is kept, and keys written as `name[index]` are
+ * grouped into a `<string-array>`.
+ * @param data The parsed key-value string data for one language.
+ * @param comments Developer comments, written as XML comments above their resource.
+ * @param attributes Resource attributes such as `formatted` or `tools:ignore`, written back onto their resource.
+ * @param nonTranslatableKeys Keys marked as not to be translated, such as a catalog's `shouldTranslate: false`; written as `translatable="false"`.
+ * @returns The XML content of the strings.xml file.
+ */
+export function generateSingleAndroidXml(data: ParsedStrings, comments?: StringComments, attributes?: StringAttributes, nonTranslatableKeys?: string[]): string {
+    const resources: AndroidResource[] = [];
+    const arrays = new Map<string, AndroidStringArrayResource>();
+    const nonTranslatable = new Set(nonTranslatableKeys);
+
+    Object.entries(data).forEach(([key, rawValue]) => {
+        const value = convertPlatformValue(resolveBasicValue(rawValue), 'android');
+        const resourceComments = comments?.[key] ? [comments[key]] : undefined;
+        const resourceAttributes: Record<string, string> = { ...attributes?.[key] };
+        if (nonTranslatable.has(key)) resourceAttributes.translatable = 'false';
+
+        const arrayMatch = key.match(ANDROID_ARRAY_ITEM_KEY);
+        if (arrayMatch) {
+            const name = toAndroidResourceName(arrayMatch[1]);
+            let array = arrays.get(name);
+            if (!array) {
+                array = { type: 'string-array', name, items: [], attributes: resourceAttributes, comments: resourceComments };
+                arrays.set(name, array);
+                resources.push(array);
+            }
+            array.items[Number(arrayMatch[2])] = isPlural(value) ? value.other : value;
+            return;
+        }
+
+        if (isPlural(value)) {
+            const { _isPlural, ...items } = value;
+            resources.push({ type: 'plurals', name: toAndroidResourceName(key), items, attributes: resourceAttributes, comments: resourceComments });
         } else {
-            lines.push(`    <string name="${sanitizedKey}">${escapeXml(value as string)}</string>`);
+            resources.push({ type: 'string', name: toAndroidResourceName(key), value, attributes: resourceAttributes, comments: resourceComments });
         }
     });
 
-    return `<?xml version="1.0" encoding="utf-8"?>
-<resources>
-${lines.join('\n')}
-</resources>
-`;
+    // Arrays written with gaps in their indices still produce one item per index
+    arrays.forEach(array => {
+        array.items = Array.from(array.items, item => item ?? '');
+    });
+
+    return serializeAndroidResources({ namespaces: {}, resources });
 }
 
-export function generateAllAndroidXml(data: ParsedMultiLanguageStrings, languages: string[]): Record<string, string> {
+/**
+ * Generates one strings.xml file per language.
+ * @see generateSingleAndroidXml
+ * @returns The XML content by language code.
+ */
+export function generateAllAndroidXml(
+    data: ParsedMultiLanguageStrings,
+    languages: string[],
+    comments?: StringComments,
+    attributes?: StringAttributes,
+    nonTranslatableKeys?: string[],
+): Record<string, string> {
     const allXmls: Record<string, string> = {};
     for (const lang of languages) {
         const langSpecificStrings: ParsedStrings = {};
@@ -250,49 +718,32 @@ export function generateAllAndroidXml(data: ParsedMultiLanguageStrings, language
             }
         }
         if (Object.keys(langSpecificStrings).length > 0) {
-            allXmls[lang] = generateSingleAndroidXml(langSpecificStrings);
+            allXmls[lang] = generateSingleAndroidXml(langSpecificStrings, comments, attributes, nonTranslatableKeys);
         }
     }
     return allXmls;
 }
 
-function escapeStringsValue(str: string): string {
-    return str.replace(/"/g, '\\"').replace(/\n/g, '\\n');
-}
-
-export function parseStringCatalog(content: string): { parsedData: ParsedMultiLanguageStrings; languages: string[] } {
-    const catalog = JSON.parse(content);
-    if (!catalog.strings || typeof catalog.strings !== 'object' || !catalog.sourceLanguage) {
-        throw new Error("Invalid .xcstrings file format. Missing 'strings' or 'sourceLanguage'.");
-    }
+export function parseStringCatalog(content: string): { parsedData: ParsedMultiLanguageStrings; comments: StringComments; languages: string[]; nonTranslatableKeys: string[] } {
+    const catalog = parseStringCatalogDocument(content);
 
     const parsedData: ParsedMultiLanguageStrings = {};
+    const comments: StringComments = {};
+    const nonTranslatableKeys: string[] = [];
     const languageSet = new Set<string>();
 
     for (const key in catalog.strings) {
         const entry = catalog.strings[key];
+        if (entry.comment) comments[key] = entry.comment;
+        if (entry.shouldTranslate === false) nonTranslatableKeys.push(key);
         if (!entry.localizations || typeof entry.localizations !== 'object') continue;
 
         parsedData[key] = {};
         for (const langCode in entry.localizations) {
             languageSet.add(langCode);
-            const localization = entry.localizations[langCode];
-
-            if (localization.variations?.plural) {
-                const pluralData: Partial<Omit<PluralVariations, '_isPlural'>> = {};
-                let hasOther = false;
-                for (const pluralKey in localization.variations.plural) {
-                    const pluralValue = localization.variations.plural[pluralKey]?.stringUnit?.value;
-                    if (pluralValue !== undefined) {
-                        pluralData[pluralKey as keyof typeof pluralData] = pluralValue;
-                        if (pluralKey === 'other') hasOther = true;
-                    }
-                }
-                if (hasOther) {
-                    parsedData[key][langCode] = { _isPlural: true, ...pluralData, other: pluralData.other! };
-                }
-            } else if (localization.stringUnit?.value) {
-                parsedData[key][langCode] = localization.stringUnit.value;
+            const value = getLocalizationValue(entry.localizations[langCode]);
+            if (value !== undefined) {
+                parsedData[key][langCode] = value;
             }
         }
     }
@@ -301,14 +752,20 @@ export function parseStringCatalog(content: string): { parsedData: ParsedMultiLa
         throw new Error("No localizations found in the string catalog.");
     }
 
-    return { parsedData, languages: Array.from(languageSet) };
+    return { parsedData, comments, languages: Array.from(languageSet), nonTranslatableKeys };
 }
 
-export function generateSingleStringsFileContent(data: ParsedStrings): string {
-    return Object.entries(data).map(([key, value]) => `"${key}" = "${escapeStringsValue(value as string)}";`).join('\n');
+export function generateSingleStringsFileContent(data: ParsedStrings, comments?: StringComments): string {
+    const entries = Object.entries(data).map(([key, value]) => {
+        const line = `"${escapeStringsLiteral(key)}" = "${escapeStringsLiteral(resolveBasicValue(value) as string)}";`;
+        return comments?.[key] ? `${formatStringsComment(comments[key])}\n${line}` : line;
+    });
+    // Commented entries are separated by a blank line, as genstrings writes them
+    const hasComments = comments !== undefined && Object.keys(data).some(key => comments[key]);
+    return entries.join(hasComments ? '\n\n' : '\n');
 }
 
-function generateSingleStringsDictFileContent(data: ParsedStrings): string {
+export function generateSingleStringsDictFileContent(data: ParsedStrings): string {
     const lines = [
         '<?xml version="1.0" encoding="UTF-8"?>',
         '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
@@ -317,33 +774,70 @@ function generateSingleStringsDictFileContent(data: ParsedStrings): string {
     ];
 
     for (const [key, value] of Object.entries(data)) {
-        if (!isPlural(value)) continue;
-        lines.push(`    <key>${escapeXml(key)}</key>`);
-        lines.push('    <dict>');
-        lines.push('        <key>NSStringLocalizedFormatKey</key>');
-        lines.push('        <string>%#@count@</string>');
-        lines.push('        <key>count</key>');
-        lines.push('        <dict>');
-        lines.push('            <key>NSStringFormatSpecTypeKey</key>');
-        lines.push('            <string>NSStringPluralRuleType</string>');
-        lines.push('            <key>NSStringFormatValueTypeKey</key>');
-        lines.push('            <string>d</string>');
-
-        for (const [pluralKey, pluralValue] of Object.entries(value)) {
-            if (pluralKey === '_isPlural') continue;
-            lines.push(`            <key>${escapeXml(pluralKey)}</key>`);
-            lines.push(`            <string>${escapeXml(pluralValue as string)}</string>`);
+        if (isDeviceVariations(value)) {
+            lines.push(`    <key>${escapeXml(key)}</key>`);
+            lines.push('    <dict>');
+            lines.push('        <key>NSStringDeviceSpecificRuleType</key>');
+            lines.push('        <dict>');
+            for (const device of DEVICE_CATEGORIES) {
+                const deviceValue = value[device];
+                if (deviceValue === undefined) continue;
+                lines.push(`            <key>${device}</key>`);
+                if (isPlural(deviceValue)) {
+                    lines.push('            <dict>');
+                    lines.push(...formatDictLines(deviceValue, '                '));
+                    lines.push('            </dict>');
+                } else {
+                    lines.push(`            <string>${escapeXml(deviceValue)}</string>`);
+                }
+            }
+            lines.push('        </dict>');
+            lines.push('    </dict>');
+            continue;
         }
 
-        lines.push('        </dict>');
+        if (!isPlural(value) && !isSubstitution(value)) continue;
+        lines.push(`    <key>${escapeXml(key)}</key>`);
+        lines.push('    <dict>');
+        lines.push(...formatDictLines(value, '        '));
         lines.push('    </dict>');
     }
     lines.push('</dict>', '</plist>');
     return lines.join('\n');
 }
 
+function formatDictLines(value: PluralVariations | SubstitutionString, indent: string): string[] {
+    const variables: [string, string, PluralVariations][] = isSubstitution(value)
+        ? Object.entries(value.substitutions).map(([name, substitution]) => [name, substitution.formatSpecifier, substitution.variations])
+        : [['count', inferFormatValueType(value.other), value]];
+    const format = isSubstitution(value) ? value.format : '%#@count@';
+
+    const lines = [
+        `${indent}<key>NSStringLocalizedFormatKey</key>`,
+        `${indent}<string>${escapeXml(format)}</string>`,
+    ];
+
+    for (const [name, valueType, variations] of variables) {
+        lines.push(`${indent}<key>${escapeXml(name)}</key>`);
+        lines.push(`${indent}<dict>`);
+        lines.push(`${indent}    <key>NSStringFormatSpecTypeKey</key>`);
+        lines.push(`${indent}    <string>NSStringPluralRuleType</string>`);
+        lines.push(`${indent}    <key>NSStringFormatValueTypeKey</key>`);
+        lines.push(`${indent}    <string>${escapeXml(valueType)}</string>`);
+
+        for (const [pluralKey, pluralValue] of Object.entries(variations)) {
+            if (pluralKey === '_isPlural') continue;
+            lines.push(`${indent}    <key>${escapeXml(pluralKey)}</key>`);
+            lines.push(`${indent}    <string>${escapeXml(pluralValue as string)}</string>`);
+        }
+
+        lines.push(`${indent}</dict>`);
+    }
+    return lines;
+}
+
 
-export function generateAllStringsFiles(data: ParsedMultiLanguageStrings, languages: string[]): Record<string, string> {
+export function generateAllStringsFiles(data: ParsedMultiLanguageStrings, languages: string[], comments?: StringComments): Record<string, string> {
     const allFiles: Record<string, string> = {};
 
     for (const lang of languages) {
@@ -354,7 +848,7 @@ export function generateAllStringsFiles(data: ParsedMultiLanguageStrings, langua
             const value = data[key][lang];
             if (value === undefined) continue;
 
-            if (isPlural(value)) {
+            if (isPlural(value) || isDeviceVariations(value) || isSubstitution(value)) {
                 pluralStrings[key] = value;
             } else {
                 simpleStrings[key] = value;
@@ -362,7 +856,7 @@ export function generateAllStringsFiles(data: ParsedMultiLanguageStrings, langua
         }
 
         if (Object.keys(simpleStrings).length > 0) {
-            allFiles[`${lang}.strings`] = generateSingleStringsFileContent(simpleStrings);
+            allFiles[`${lang}.strings`] = generateSingleStringsFileContent(simpleStrings, comments);
         }
         if (Object.keys(pluralStrings).length > 0) {
             allFiles[`${lang}.stringsdict`] = generateSingleStringsDictFileContent(pluralStrings);
@@ -372,75 +866,70 @@ export function generateAllStringsFiles(data: ParsedMultiLanguageStrings, langua
 }
 
 /**
- * Parses the content of an Android strings.xml file.
+ * Parses the content of an Android strings.xml file. Android escaping is resolved, placeholders
+ * are converted to their iOS form (`%s` → `%@`, `%d` → `%lld`), inline markup is kept as written,
+ * CDATA sections contribute their text, and the items of a `<string-array>` are returned as
+ * `name[0]`, `name[1]`, ...
  * @param content The XML string content of the strings.xml file.
- * @returns A record of string keys to their corresponding values.
+ * @returns The strings by key, and the placeholders that have no iOS equivalent and were kept as written.
  */
-export function parseAndroidXml(content: string): ParsedStrings {
-    const strings: ParsedStrings = {};
-    const parser = new DOMParser();
-    const xmlDoc = parser.parseFromString(content, "application/xml");
-
-    if (xmlDoc.getElementsByTagName("parsererror").length > 0) {
-        throw new Error("Invalid Android XML format.");
-    }
-
-    const stringNodes = xmlDoc.querySelectorAll('resources > string');
-    stringNodes.forEach(node => {
-        const key = node.getAttribute('name');
-        const value = node.innerHTML; // Use innerHTML to preserve tags like <b>
-        if (key && value) {
-            const plainTextValue = value.replace(/<[^>]*>/g, '');
-            strings[key] = plainTextValue;
-        }
-    });
-
-    const pluralsNodes = xmlDoc.querySelectorAll('resources > plurals');
-    pluralsNodes.forEach(node => {
-        const key = node.getAttribute('name');
-        if (!key) return;
-
-        const variations: Partial<Omit<PluralVariations, '_isPlural'>> = {};
-        const itemNodes = node.querySelectorAll('item');
-        let hasOther = false;
-
-        itemNodes.forEach(itemNode => {
-            const quantity = itemNode.getAttribute('quantity');
-            const value = itemNode.textContent;
+export function parseAndroidXml(content: string): { strings: ParsedStrings; issues: FormatConversionWarning[] } {
+    return readAndroidResourceStrings(parseAndroidResources(content).resources);
+}
 
-            if (quantity && value && ['zero', 'one', 'two', 'few', 'many', 'other'].includes(quantity)) {
-                variations[quantity as keyof typeof variations] = value;
-                if (quantity === 'other') hasOther = true;
+/**
+ * Reads the strings of already parsed Android resources, as `parseAndroidXml` does, for callers
+ * that also need the resources themselves (their comments and attributes).
+ * @param resources The resources of a strings.xml file, from `parseAndroidResources`.
+ * @returns The strings by key, and the placeholders that have no iOS equivalent and were kept as written.
+ */
+export function readAndroidResourceStrings(resources: AndroidResource[]): { strings: ParsedStrings; issues: FormatConversionWarning[] } {
+    const strings: ParsedStrings = {};
+    const issues: FormatConversionWarning[] = [];
+
+    for (const resource of resources) {
+        if (resource.type === 'string') {
+            strings[resource.name] = convertPlatformValue(resource.value, 'ios', resource.name, issues);
+        } else if (resource.type === 'plurals') {
+            if (resource.items.other !== undefined) {
+                strings[resource.name] = convertPlatformValue({ _isPlural: true, ...resource.items, other: resource.items.other }, 'ios', resource.name, issues);
             }
-        });
-
-        if (hasOther) {
-            strings[key] = {
-                _isPlural: true,
-                ...variations,
-                other: variations.other!,
-            };
+        } else {
+            resource.items.forEach((item, index) => {
+                const key = `${resource.name}[${index}]`;
+                strings[key] = convertPlatformValue(item, 'ios', key, issues);
+            });
         }
-    });
+    }
 
-    return strings;
+    return { strings, issues };
 }
 
 
+function escapePropertiesText(text: string): string {
+    return text
+        .replace(/\\/g, '\\\\')
+        .replace(/\n/g, '\\n')
+        .replace(/\r/g, '\\r')
+        .replace(/\t/g, '\\t')
+        .replace(/\f/g, '\\f');
+}
+
 function escapePropertiesKey(key: string): string {
-    return key.replace(/([=:\s])/g, '\\$1');
+    return escapePropertiesText(key)
+        .replace(/[=: ]/g, '\\$&')
+        .replace(/^[#!]/, '\\$&');
 }
 
 function escapePropertiesValue(value: string): string {
-    return value
-        .replace(/\\/g, '\\\\')
-        .replace(/\n/g, '\\n')
-        .replace(/\r/g, '\\r')
-        .replace(/\t/g, '\\t');
+    // Leading whitespace would otherwise be read as part of the separator
+    return escapePropertiesText(value).replace(/^ /, '\\ ');
 }
 
 /**
- * Generates a Java .properties file content from parsed strings.
+ * Generates a Java .properties file content from parsed strings. Placeholders are converted to
+ * java.util.Formatter's form (`%@` → `%s`, `%lld` → `%d`); see `findFormatConversionIssues`
+ * with the "java" platform for the ones that cannot be.
  * @param data The parsed key-value string data.
  * @returns A string representing the content of a .properties file.
  */
@@ -449,7 +938,7 @@ export function generatePropertiesFile(data: ParsedStrings): string {
     const sortedKeys = Object.keys(data).sort();
 
     for (const key of sortedKeys) {
-        const value = data[key];
+        const value = convertPlatformValue(resolveBasicValue(data[key]), 'java');
         const escapedKey = escapePropertiesKey(key);
 
         if (isPlural(value)) {
@@ -458,81 +947,640 @@ export function generatePropertiesFile(data: ParsedStrings): string {
                 lines.push(`${escapedKey}.${quantity} = ${escapePropertiesValue(text as string)}`);
             }
         } else {
-            lines.push(`${escapedKey} = ${escapePropertiesValue(value as string)}`);
+            lines.push(`${escapedKey} = ${escapePropertiesValue(value)}`);
         }
     }
     return lines.join('\n');
 }
 
+const PROPERTIES_PLURAL_SUFFIX = /^(.+)\.(zero|one|two|few|many|other)$/;
+
+function unescapePropertiesText(text: string, lineNumber: number): string {
+    return text.replace(/\\(u[\s\S]{0,4}|[\s\S])/g, (_, escape: string) => {
+        if (escape[0] === 'u') {
+            if (!/^u[0-9a-fA-F]{4}$/.test(escape)) {
+                throw new Error(`Invalid .properties file format. Line ${lineNumber}: malformed \\uXXXX escape '\\${escape}'.`);
+            }
+            return String.fromCharCode(parseInt(escape.slice(1), 16));
+        }
+        return ({ t: '\t', n: '\n', r: '\r', f: '\f' } as Record<string, string>)[escape] ?? escape;
+    });
+}
+
 /**
- * Merges translations from parsed strings into an existing String Catalog.
- * @param catalogContent The content of the source .xcstrings file.
- * @param stringsFiles The list of .strings files to merge.
- * @returns The updated .xcstrings content.
+ * Parses a Java .properties file following `java.util.Properties.load`: `=`, `:` or whitespace
+ * separate keys from values, backslashes escape separators and `\uXXXX` characters, a trailing
+ * backslash continues the line, and `#` or `!` start a comment. Keys written with the
+ * `key.one` / `key.other` convention of `generatePropertiesFile` are grouped into plural
+ * variations when at least two forms, including `other`, are present. Placeholders are converted
+ * to their iOS form (`%s` → `%@`, `%d` → `%lld`).
+ * @param content The content of the .properties file.
+ * @returns The key-value strings, the comment written directly above each key, and the placeholders that have no iOS equivalent.
+ * @throws If a `\u` escape is malformed; the message gives the line.
  */
-export function mergeStringsIntoCatalog(catalogContent: string, stringsFiles: LanguageFile[]): string {
-    const catalog = JSON.parse(catalogContent);
-    if (!catalog.strings || typeof catalog.strings !== 'object') {
-        throw new Error("Invalid .xcstrings file format.");
+export function parsePropertiesFile(content: string): { strings: ParsedStrings; comments: StringComments; issues: FormatConversionWarning[] } {
+    const flat: Record<string, string> = {};
+    const comments: StringComments = {};
+    const naturalLines = content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+    let pendingComment: string[] = [];
+
+    for (let i = 0; i < naturalLines.length; i++) {
+        const lineNumber = i + 1;
+        const line = naturalLines[i].replace(/^[ \t\f]+/, '');
+        if (line === '') {
+            pendingComment = [];
+            continue;
+        }
+        if (line[0] === '#' || line[0] === '!') {
+            pendingComment.push(line.slice(1).replace(/^ /, ''));
+            continue;
+        }
+
+        // A line ending in an odd number of backslashes continues on the next one, minus its indentation
+        let logical = line;
+        while (/(^|[^\\])(\\\\)*\\$/.test(logical) && i + 1 < naturalLines.length) {
+            logical = logical.slice(0, -1) + naturalLines[++i].replace(/^[ \t\f]+/, '');
+        }
+        if (/(^|[^\\])(\\\\)*\\$/.test(logical)) logical = logical.slice(0, -1);
+
+        const keyMatch = logical.match(/^((?:\\[\s\S]|[^\\=: \t\f])*)[ \t\f]*[=:]?[ \t\f]*/)!;
+        const key = unescapePropertiesText(keyMatch[1], lineNumber);
+        flat[key] = unescapePropertiesText(logical.slice(keyMatch[0].length), lineNumber);
+        if (pendingComment.length > 0) comments[key] = pendingComment.join('\n');
+        pendingComment = [];
+    }
+
+    // Group "key.one" / "key.other" into plurals unless "key" is also a plain key
+    const pluralForms: Record<string, Partial<Record<string, string>>> = {};
+    for (const key of Object.keys(flat)) {
+        const match = key.match(PROPERTIES_PLURAL_SUFFIX);
+        if (match && flat[`${match[1]}.other`] !== undefined && flat[match[1]] === undefined) {
+            (pluralForms[match[1]] ??= {})[match[2]] = flat[key];
+        }
     }
 
+    const strings: ParsedStrings = {};
+    for (const [key, value] of Object.entries(flat)) {
+        const match = key.match(PROPERTIES_PLURAL_SUFFIX);
+        const forms = match ? pluralForms[match[1]] : undefined;
+        if (!match || !forms || Object.keys(forms).length < 2) {
+            strings[key] = value;
+            continue;
+        }
+        const base = match[1];
+        if (strings[base] === undefined) {
+            strings[base] = { _isPlural: true, ...forms, other: forms.other! };
+            if (comments[key]) comments[base] = comments[key];
+        }
+        delete comments[key];
+    }
+
+    const issues: FormatConversionWarning[] = [];
+    for (const [key, value] of Object.entries(strings)) {
+        strings[key] = convertPlatformValue(value as string | PluralVariations, 'ios', key, issues);
+    }
+    return { strings, comments, issues };
+}
+
+/**
+ * Reads the language of a Java resource bundle file from its name, e.g. "messages_fr_CA.properties" → "fr-CA".
+ * @param fileName The file name.
+ * @returns The language code, or undefined for the default bundle ("messages.properties").
+ */
+export function getPropertiesLanguage(fileName: string): string | undefined {
+    const match = fileName.match(/_([a-z]{2,3})(?:_([A-Z]{2}|\d{3}))?(?:_[A-Za-z0-9]+)?\.properties$/);
+    if (!match) return undefined;
+    // "my_app.properties" is a base name with an underscore, not the language "app"
+    const languageNames = new Intl.DisplayNames(['en'], { type: 'language', fallback: 'none' });
+    if (!languageNames.of(match[1])) return undefined;
+    return match[2] ? `${match[1]}-${match[2]}` : match[1];
+}
+
+/**
+ * Merges translations from localization files of any supported format into an existing String Catalog.
+ * XLIFF files are applied with their own target language and states, see `importXliffIntoCatalog`;
+ * single-language files without a language code are skipped. Keys the catalog does not have are
+ * reported, not added.
+ * @param catalogContent The content of the source .xcstrings file.
+ * @param stringsFiles The files to merge, e.g. .strings, .stringsdict or .xliff.
+ * @param catalogFileName The name of the catalog, matched against the `original` of XLIFF files.
+ * @returns The updated .xcstrings content, and the files and keys that were skipped.
+ * @throws If a file is not supported or cannot be parsed.
+ */
+export function mergeStringsIntoCatalog(
+    catalogContent: string,
+    stringsFiles: LanguageFile[],
+    catalogFileName = 'Localizable.xcstrings',
+): { outputContent: string; report: CatalogImportReport } {
+    const catalog = parseStringCatalogDocument(catalogContent);
+    const report = createCatalogImportReport();
+
     for (const file of stringsFiles) {
-        const langCode = file.langCode;
-        if (!langCode) continue;
+        const adapter = getFormatAdapter(file);
+        if (adapter.id === 'xliff') {
+            try {
+                applyXliffToCatalog(catalog, file.content, catalogFileName, report);
+            } catch (e: any) {
+                throw new Error(`Error parsing file ${file.name}: ${e.message}`);
+            }
+            continue;
+        }
+
+        const langCode = file.langCode.trim();
+        if (!langCode && !adapter.multiLanguage) continue;
 
-        let parsedStrings: ParsedStrings;
+        let parsed: ParsedLocalizationFile;
         try {
-            if (file.name.endsWith('.stringsdict')) {
-                parsedStrings = parseStringsDictFile(file.content);
-            } else {
-                parsedStrings = parseStringsFile(file.content);
+            parsed = adapter.parse(file.content, { fileName: file.name, language: langCode });
+        } catch (e: any) {
+            throw new Error(`Error parsing file ${file.name}: ${e.message}`);
+        }
+        report.issues.push(...(parsed.issues || []).map(issue => `${file.name}: ${issue}`));
+
+        for (const [key, values] of Object.entries(parsed.data)) {
+            const entry = Object.prototype.hasOwnProperty.call(catalog.strings, key) ? catalog.strings[key] : undefined;
+            if (!entry) {
+                addUnknownKey(report, key);
+                continue;
             }
-        } catch (e) {
-            console.warn(`Failed to parse ${file.name}, skipping. Error:`, e);
+            // The catalog's own comment wins; the file's comment only fills a missing one
+            if (!entry.comment && parsed.comments[key]) entry.comment = parsed.comments[key];
+            for (const [language, value] of Object.entries(values)) {
+                if (!entry.localizations) entry.localizations = {};
+                entry.localizations[language] = buildLocalization(value, entry.localizations[language]);
+            }
+        }
+    }
+
+    return { outputContent: serializeStringCatalogDocument(catalog), report };
+}
+
+// --- GETTEXT ---
+
+function splitGettextKey(key: string): { context?: string; msgid: string } {
+    const separator = key.indexOf(PO_CONTEXT_SEPARATOR);
+    return separator === -1 ? { msgid: key } : { context: key.slice(0, separator), msgid: key.slice(separator + 1) };
+}
+
+/**
+ * Parses a gettext .po or .pot file. Keys are the msgids, prefixed with the msgctxt and
+ * `PO_CONTEXT_SEPARATOR` when the entry has a context. Values are the translations; a template
+ * (.pot) has none, so its source texts are used instead. Untranslated, fuzzy and obsolete
+ * entries are left out, as gettext itself ignores them at runtime.
+ * @param content The text content of the file.
+ * @param isTemplate Whether the file is a .pot template.
+ * @returns The strings, the extracted (`#.`) or translator comments, the `Language` header, and the keys of fuzzy and untranslated entries.
+ */
+export function parseGettextFile(content: string, isTemplate = false): { strings: ParsedStrings; comments: StringComments; language: string; fuzzyKeys: string[]; untranslatedKeys: string[] } {
+    const { headers, entries } = parsePoFile(content);
+    const language = (headers['Language'] || '').replace('_', '-');
+    const categories = mapPluralFormsToCategories(headers['Plural-Forms'] || getPluralFormsHeader(language || 'en'), language);
+
+    const strings: ParsedStrings = {};
+    const comments: StringComments = {};
+    const fuzzyKeys: string[] = [];
+    const untranslatedKeys: string[] = [];
+
+    for (const entry of entries) {
+        if (entry.obsolete) continue;
+        const key = entry.context !== undefined ? `${entry.context}${PO_CONTEXT_SEPARATOR}${entry.msgid}` : entry.msgid;
+
+        const comment = (entry.extractedComments.length > 0 ? entry.extractedComments : entry.translatorComments).join('\n');
+        if (comment) comments[key] = comment;
+
+        if (entry.flags.includes('fuzzy') && !isTemplate) {
+            fuzzyKeys.push(key);
             continue;
         }
 
-        for (const [key, value] of Object.entries(parsedStrings)) {
-            if (catalog.strings[key]) {
-                if (!catalog.strings[key].localizations) {
-                    catalog.strings[key].localizations = {};
-                }
+        if (entry.msgidPlural === undefined) {
+            const value = isTemplate ? entry.msgid : entry.msgstr[0];
+            if (value) strings[key] = value;
+            else untranslatedKeys.push(key);
+            continue;
+        }
+
+        if (isTemplate) {
+            strings[key] = { _isPlural: true, one: entry.msgid, other: entry.msgidPlural };
+            continue;
+        }
+
+        const variations: Partial<Omit<PluralVariations, '_isPlural'>> = {};
+        entry.msgstr.forEach((translation, index) => {
+            const category = categories[index];
+            if (translation && category && variations[category] === undefined) variations[category] = translation;
+        });
+        // The last plural form is gettext's catch-all, which CLDR calls "other"
+        const fallback = [...entry.msgstr].reverse().find(Boolean);
+        if (fallback) strings[key] = { _isPlural: true, ...variations, other: variations.other ?? fallback };
+        else untranslatedKeys.push(key);
+    }
+
+    return { strings, comments, language, fuzzyKeys, untranslatedKeys };
+}
+
+/**
+ * Generates a gettext .po file for one language, or a .pot template when no language is given.
+ * Keys become msgids (and msgctxt, see `parseGettextFile`); plural variations are written
+ * as `msgstr[n]` following the language's `Plural-Forms`.
+ * @param data The parsed key-value string data for one language.
+ * @param language The language of the translations, or undefined for a template.
+ * @param comments Developer comments, written as extracted (`#.`) comments.
+ * @returns The file content.
+ */
+export function generateSinglePoFileContent(data: ParsedStrings, language?: string, comments?: StringComments): string {
+    const pluralForms = language ? getPluralFormsHeader(language) : undefined;
+    const categories = pluralForms ? mapPluralFormsToCategories(pluralForms, language!) : ['one', 'other'] as const;
+
+    const entries: PoEntry[] = Object.entries(data).map(([key, rawValue], index) => {
+        const { context, msgid } = splitGettextKey(key);
+        const value = resolveBasicValue(rawValue);
+        const entry: PoEntry = {
+            context,
+            msgid,
+            msgstr: [''],
+            translatorComments: [],
+            extractedComments: comments?.[key] ? comments[key].split('\n') : [],
+            references: [],
+            flags: findFormatSpecifiers(msgid).some(specifier => !specifier.options.includes(' ')) ? ['c-format'] : [],
+            line: index,
+        };
+        if (isPlural(value)) {
+            entry.msgidPlural = msgid;
+            entry.msgstr = categories.map(category => language ? value[category] ?? value.other : '');
+        } else if (language) {
+            entry.msgstr = [value];
+        }
+        return entry;
+    });
+
+    const headers: Record<string, string> = {};
+    if (language) headers['Language'] = language;
+    headers['MIME-Version'] = '1.0';
+    headers['Content-Type'] = 'text/plain; charset=UTF-8';
+    headers['Content-Transfer-Encoding'] = '8bit';
+    if (pluralForms) headers['Plural-Forms'] = pluralForms;
 
-                if (isPlural(value)) {
-                    // Handle Plural
-                    const pluralVariations: Record<string, { stringUnit: { state: string; value: string } }> = {};
-                    for (const [pluralKey, pluralValue] of Object.entries(value)) {
-                        if (pluralKey === '_isPlural') continue;
-                        if (typeof pluralValue === 'string') {
-                            pluralVariations[pluralKey] = {
-                                stringUnit: {
-                                    state: "translated",
-                                    value: pluralValue
-                                }
-                            };
-                        }
-                    }
-
-                    catalog.strings[key].localizations[langCode] = {
-                        variations: {
-                            plural: pluralVariations
-                        }
-                    };
-
-                } else if (typeof value === 'string') {
-                    // Handle Simple String
-                    catalog.strings[key].localizations[langCode] = {
-                        stringUnit: {
-                            state: "translated",
-                            value: value
-                        }
-                    };
+    return serializePoFile({ headers, headerComments: [], entries });
+}
+
+/**
+ * Generates one .po file per language plus a `messages.pot` template with every key.
+ * @returns A record of file names ("fr.po", "messages.pot") to file contents.
+ */
+export function generateAllPoFiles(data: ParsedMultiLanguageStrings, languages: string[], comments?: StringComments): Record<string, string> {
+    const allFiles: Record<string, string> = {};
+    const templateStrings: ParsedStrings = {};
+    for (const lang of languages) {
+        const langSpecificStrings: ParsedStrings = {};
+        for (const key in data) {
+            if (data[key][lang] !== undefined) {
+                langSpecificStrings[key] = data[key][lang];
+                templateStrings[key] ??= data[key][lang];
+            }
+        }
+        if (Object.keys(langSpecificStrings).length > 0) {
+            allFiles[`${lang}.po`] = generateSinglePoFileContent(langSpecificStrings, lang, comments);
+        }
+    }
+    if (Object.keys(templateStrings).length > 0) {
+        allFiles['messages.pot'] = generateSinglePoFileContent(templateStrings, undefined, comments);
+    }
+    return allFiles;
+}
+
+// --- XLIFF ---
+
+// Xcode addresses the variations of a catalog entry as "key|==|plural.one", "key|==|device.iphone"
+// or "key|==|substitutions.name.plural.one"; a plain string unit uses the bare key.
+const XLIFF_ID_SEPARATOR = '|==|';
+
+const XLIFF_NAMESPACE = 'urn:oasis:names:tc:xliff:document:1.2';
+
+interface XliffUnit {
+    path: string;
+    source: string;
+    target?: XCStringUnit;
+}
+
+function joinXliffPath(path: string, segment: string): string {
+    return path ? `${path}.${segment}` : segment;
+}
+
+// The plural cases a translator has to fill in for the target language, plus any already translated
+function getTargetPluralCategories(language: string, existing: Record<string, XCStringLocalization> | undefined): string[] {
+    let required: string[] = [];
+    try {
+        required = new Intl.PluralRules(language).resolvedOptions().pluralCategories;
+    } catch {
+        required = ['other'];
+    }
+    return PLURAL_CATEGORIES.filter(category => required.includes(category) || existing?.[category] !== undefined);
+}
+
+function collectXliffUnits(path: string, source: XCStringLocalization, target: XCStringLocalization | undefined, targetLanguage: string, units: XliffUnit[]): void {
+    if (source.stringUnit) {
+        units.push({ path, source: source.stringUnit.value, target: target?.stringUnit });
+    }
+
+    const { plural, device } = source.variations || {};
+    for (const [deviceKey, deviceSource] of Object.entries(device || {})) {
+        collectXliffUnits(joinXliffPath(path, `device.${deviceKey}`), deviceSource, target?.variations?.device?.[deviceKey], targetLanguage, units);
+    }
+    if (plural) {
+        const targetPlural = target?.variations?.plural;
+        for (const category of getTargetPluralCategories(targetLanguage, targetPlural)) {
+            // Categories the source language lacks are translated from its "other" case
+            const pluralSource = plural[category] || plural.other;
+            if (!pluralSource) continue;
+            collectXliffUnits(joinXliffPath(path, `plural.${category}`), pluralSource, targetPlural?.[category], targetLanguage, units);
+        }
+    }
+    for (const [name, substitution] of Object.entries(source.substitutions || {})) {
+        const targetSubstitution = target?.substitutions?.[name];
+        collectXliffUnits(joinXliffPath(path, `substitutions.${name}`), substitution, targetSubstitution, targetLanguage, units);
+    }
+}
+
+function toXliffState(state: XCStringState | undefined): string | undefined {
+    switch (state) {
+        case 'new': return 'new';
+        case 'translated': return 'translated';
+        case 'needs_review':
+        case 'stale': return 'needs-review-translation';
+        default: return undefined;
+    }
+}
+
+function fromXliffState(state: string | null): XCStringState {
+    if (!state) return 'translated';
+    if (state === 'new' || state === 'needs-translation') return 'new';
+    if (state.startsWith('needs-')) return 'needs_review';
+    return 'translated';
+}
+
+/**
+ * Exports a String Catalog to XLIFF 1.2 with one file per target language, laid out the way
+ * Xcode's "Export Localizations" writes them: the entry comment becomes a `<note>`, each
+ * string unit state becomes a `state` attribute, and every plural, device and substitution
+ * case is its own trans-unit. Keys marked `shouldTranslate: false` are left out.
+ * @param catalogContent The content of the .xcstrings file.
+ * @param original The catalog path written to the `original` attribute of each `<file>`.
+ * @param targetLanguages The languages to export; defaults to every non-source language in the catalog.
+ * @returns A record of file names (e.g. "fr.xliff") to XLIFF content; empty when there is nothing to translate.
+ */
+export function generateXliffFiles(catalogContent: string, original = 'Localizable.xcstrings', targetLanguages?: string[]): Record<string, string> {
+    const catalog = parseStringCatalogDocument(catalogContent);
+    const sourceLanguage = catalog.sourceLanguage;
+
+    const languages = targetLanguages || Array.from(new Set(
+        Object.values(catalog.strings).flatMap(entry => Object.keys(entry.localizations || {}))
+    )).filter(lang => lang !== sourceLanguage).sort();
+
+    const keys = Object.keys(catalog.strings).sort(compareCatalogKeys);
+    const files: Record<string, string> = {};
+
+    for (const language of languages) {
+        const lines = [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            `<xliff xmlns="${XLIFF_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" version="1.2" xsi:schemaLocation="${XLIFF_NAMESPACE} http://docs.oasis-open.org/xliff/v1.2/os/xliff-core-1.2-strict.xsd">`,
+            `  <file original="${escapeXml(original)}" source-language="${escapeXml(sourceLanguage)}" target-language="${escapeXml(language)}" datatype="plaintext">`,
+            '    <header>',
+            '      <tool tool-id="ios-development-tools" tool-name="iOS Development Tools"/>',
+            '    </header>',
+            '    <body>',
+        ];
+
+        for (const key of keys) {
+            const entry = catalog.strings[key];
+            if (entry.shouldTranslate === false) continue;
+
+            // Keys without a source localization use the key itself as source text, as Xcode does
+            const source = entry.localizations?.[sourceLanguage] || { stringUnit: { value: key } };
+            const units: XliffUnit[] = [];
+            collectXliffUnits('', source, entry.localizations?.[language], language, units);
+
+            for (const unit of units) {
+                const id = unit.path ? `${key}${XLIFF_ID_SEPARATOR}${unit.path}` : key;
+                lines.push(`      <trans-unit id="${escapeXml(id)}" xml:space="preserve">`);
+                lines.push(`        <source>${escapeXml(unit.source)}</source>`);
+                if (unit.target) {
+                    const state = toXliffState(unit.target.state);
+                    lines.push(`        <target${state ? ` state="${state}"` : ''}>${escapeXml(unit.target.value)}</target>`);
+                }
+                if (entry.comment) {
+                    lines.push(`        <note>${escapeXml(entry.comment)}</note>`);
                 }
+                lines.push('      </trans-unit>');
+            }
+        }
+
+        lines.push('    </body>', '  </file>', '</xliff>');
+        files[`${language}.xliff`] = `${lines.join('\n')}\n`;
+    }
+
+    return files;
+}
+
+// Finds (creating as needed) the catalog node a trans-unit path points to.
+// New substitutions copy their argument number and format from the source localization.
+function resolveXliffPath(localization: XCStringLocalization, path: string, source: XCStringLocalization | undefined): XCStringLocalization {
+    const segments = path ? path.split('.') : [];
+    let node = localization;
+    let sourceNode = source;
+
+    for (let i = 0; i < segments.length; i += 2) {
+        const kind = segments[i];
+        const name = segments[i + 1];
+        if (!name) throw new Error(`Unsupported trans-unit path "${path}".`);
+
+        if (kind === 'substitutions') {
+            const sourceSubstitution = sourceNode?.substitutions?.[name];
+            if (!node.substitutions) node.substitutions = {};
+            if (!node.substitutions[name]) {
+                node.substitutions[name] = { argNum: sourceSubstitution?.argNum, formatSpecifier: sourceSubstitution?.formatSpecifier };
+            }
+            node = node.substitutions[name];
+            sourceNode = sourceSubstitution;
+        } else if (kind === 'plural' || kind === 'device') {
+            if (!node.variations) node.variations = {};
+            const cases = node.variations[kind] || (node.variations[kind] = {});
+            if (!cases[name]) cases[name] = {};
+            node = cases[name];
+            sourceNode = sourceNode?.variations?.[kind]?.[name];
+        } else {
+            throw new Error(`Unsupported trans-unit path "${path}".`);
+        }
+    }
+
+    return node;
+}
+
+function readXliffFileNodes(content: string): Element[] {
+    const parser = new DOMParser();
+    const xmlDoc = parser.parseFromString(content.trim(), "application/xml");
+
+    const parserError = xmlDoc.getElementsByTagName("parsererror")[0];
+    if (parserError) {
+        throw new Error(`Invalid XLIFF format. ${parserError.textContent}`);
+    }
+
+    const fileNodes = Array.from(xmlDoc.getElementsByTagName("file"));
+    if (fileNodes.length === 0) {
+        throw new Error("Invalid XLIFF format. No <file> element found.");
+    }
+    return fileNodes;
+}
+
+function splitXliffId(id: string): { key: string; path: string } {
+    const separatorIndex = id.indexOf(XLIFF_ID_SEPARATOR);
+    return separatorIndex === -1
+        ? { key: id, path: '' }
+        : { key: id.slice(0, separatorIndex), path: id.slice(separatorIndex + XLIFF_ID_SEPARATOR.length) };
+}
+
+/** What an import into an existing String Catalog left out. */
+export interface CatalogImportReport {
+    /** The `original` of XLIFF `<file>` elements that belong to other files of the project. */
+    skippedFiles: string[];
+    /** Keys the catalog does not have; their translations are not imported. */
+    unknownKeys: string[];
+    /** Problems in the imported files that did not stop the import, by file, e.g. placeholders with no iOS equivalent. */
+    issues: string[];
+}
+
+export function createCatalogImportReport(): CatalogImportReport {
+    return { skippedFiles: [], unknownKeys: [], issues: [] };
+}
+
+function addUnknownKey(report: CatalogImportReport, key: string): void {
+    if (!report.unknownKeys.includes(key)) report.unknownKeys.push(key);
+}
+
+function getFileBaseName(path: string): string {
+    return path.split(/[\\/]/).pop()!.toLowerCase();
+}
+
+// An Xcode export holds one <file> per localizable file of the project (catalogs, InfoPlist.strings,
+// storyboards); only the one whose `original` names the catalog belongs to it. A catalog that was
+// renamed after the export still matches the export's only String Catalog.
+function findCatalogFileNodes(fileNodes: Element[], catalogFileName: string): Element[] {
+    const catalogName = getFileBaseName(catalogFileName);
+    const matching = fileNodes.filter(fileNode => {
+        const original = fileNode.getAttribute('original');
+        return !original || getFileBaseName(original) === catalogName;
+    });
+    if (matching.length > 0) return matching;
+    const catalogs = fileNodes.filter(fileNode => getFileBaseName(fileNode.getAttribute('original')!).endsWith('.xcstrings'));
+    return catalogs.length === 1 ? catalogs : [];
+}
+
+function applyXliffToCatalog(catalog: XCStringsDocument, content: string, catalogFileName: string, report: CatalogImportReport): void {
+    const fileNodes = readXliffFileNodes(content);
+    const catalogFileNodes = findCatalogFileNodes(fileNodes, catalogFileName);
+    for (const fileNode of fileNodes) {
+        if (catalogFileNodes.includes(fileNode)) continue;
+        const original = fileNode.getAttribute('original')!;
+        if (!report.skippedFiles.includes(original)) report.skippedFiles.push(original);
+    }
+
+    for (const fileNode of catalogFileNodes) {
+        const targetLanguage = fileNode.getAttribute('target-language');
+        if (!targetLanguage) {
+            throw new Error("Invalid XLIFF format. A <file> element has no 'target-language' attribute.");
+        }
+
+        for (const unitNode of Array.from(fileNode.getElementsByTagName("trans-unit"))) {
+            const id = unitNode.getAttribute('id');
+            const targetNode = unitNode.getElementsByTagName("target")[0];
+            if (!id || !targetNode) continue;
+
+            const { key, path } = splitXliffId(id);
+            const entry = Object.prototype.hasOwnProperty.call(catalog.strings, key) ? catalog.strings[key] : undefined;
+            if (!entry) {
+                addUnknownKey(report, key);
+                continue;
+            }
+            if (entry.shouldTranslate === false) continue;
+            if (!entry.localizations) entry.localizations = {};
+            if (!entry.localizations[targetLanguage]) entry.localizations[targetLanguage] = {};
+
+            const node = resolveXliffPath(entry.localizations[targetLanguage], path, entry.localizations[catalog.sourceLanguage]);
+            node.stringUnit = { state: fromXliffState(targetNode.getAttribute('state')), value: targetNode.textContent || '' };
+        }
+    }
+}
+
+/**
+ * Imports translated XLIFF 1.2 files (as produced by `generateXliffFiles` or by Xcode) into a
+ * String Catalog. Each `<file>` whose `original` names the catalog is applied to its
+ * `target-language`; the other files of an Xcode export (InfoPlist.strings, storyboards) are
+ * skipped. Units without a `<target>` are skipped, units whose key the catalog does not have are
+ * reported instead of added, and XLIFF states are mapped back to catalog states.
+ * @param catalogContent The content of the .xcstrings file to update.
+ * @param catalogFileName The name or path of the catalog, matched against each `<file>`'s `original`.
+ * @param xliffContents The contents of the translated XLIFF files.
+ * @returns The updated .xcstrings content, and the files and keys that were skipped.
+ */
+export function importXliffIntoCatalog(catalogContent: string, catalogFileName: string, xliffContents: string[]): { outputContent: string; report: CatalogImportReport } {
+    const catalog = parseStringCatalogDocument(catalogContent);
+    const report = createCatalogImportReport();
+    for (const content of xliffContents) {
+        applyXliffToCatalog(catalog, content, catalogFileName, report);
+    }
+    return { outputContent: serializeStringCatalogDocument(catalog), report };
+}
+
+function isSourcePluralPath(path: string, sourceLanguage: string): boolean {
+    const categories = getTargetPluralCategories(sourceLanguage, undefined);
+    return Array.from(path.matchAll(/(?:^|\.)plural\.(\w+)/g)).every(([, category]) => categories.includes(category));
+}
+
+/**
+ * Reads a standalone XLIFF 1.2 file into a String Catalog document, so that it can be used
+ * without the catalog it was exported from. Source texts become the source-language
+ * localization, targets the target-language one (with their states mapped back), and the
+ * `<note>` of a unit the comment of its key. Units without a `<target>` are left untranslated.
+ * @param content The XLIFF content.
+ * @returns A catalog holding the languages of every `<file>`.
+ * @throws If the content is not valid XLIFF.
+ */
+export function parseXliffFile(content: string): XCStringsDocument {
+    const fileNodes = readXliffFileNodes(content);
+    const catalog = createStringCatalogDocument(fileNodes[0].getAttribute('source-language') || 'en');
+
+    for (const fileNode of fileNodes) {
+        const sourceLanguage = fileNode.getAttribute('source-language') || catalog.sourceLanguage;
+        const targetLanguage = fileNode.getAttribute('target-language');
+
+        for (const unitNode of Array.from(fileNode.getElementsByTagName("trans-unit"))) {
+            const id = unitNode.getAttribute('id');
+            if (!id) continue;
+
+            const { key, path } = splitXliffId(id);
+            const entry = ensureCatalogEntry(catalog, key);
+            const note = unitNode.getElementsByTagName("note")[0]?.textContent;
+            if (note && !entry.comment) entry.comment = note;
+            if (!entry.localizations) entry.localizations = {};
+
+            // Plural cases the target language needs but the source language lacks repeat the source's "other" case
+            const sourceNode = unitNode.getElementsByTagName("source")[0];
+            if (sourceNode && isSourcePluralPath(path, sourceLanguage)) {
+                if (!entry.localizations[sourceLanguage]) entry.localizations[sourceLanguage] = {};
+                const node = resolveXliffPath(entry.localizations[sourceLanguage], path, undefined);
+                if (!node.stringUnit) node.stringUnit = { state: 'translated', value: sourceNode.textContent || '' };
+            }
+
+            const targetNode = unitNode.getElementsByTagName("target")[0];
+            if (targetLanguage && targetNode) {
+                if (!entry.localizations[targetLanguage]) entry.localizations[targetLanguage] = {};
+                const node = resolveXliffPath(entry.localizations[targetLanguage], path, entry.localizations[sourceLanguage]);
+                node.stringUnit = { state: fromXliffState(targetNode.getAttribute('state')), value: targetNode.textContent || '' };
             }
         }
     }
 
-    return JSON.stringify(catalog, null, 2);
+    return catalog;
 }
 
 // --- SMART MERGE LOGIC ---
@@ -740,9 +1788,9 @@ export function mergeStringCatalogs(files: LanguageFile[], resolutions: Record<s
         }
     });
 
-    const mergedCatalog = {
+    const mergedCatalog: XCStringsDocument = {
         sourceLanguage: parsedFiles[0].content.sourceLanguage || "en",
-        strings: {} as Record<string, any>,
+        strings: {},
         version: parsedFiles[0].content.version || "1.0"
     };
 
@@ -790,7 +1838,7 @@ export function mergeStringCatalogs(files: LanguageFile[], resolutions: Record<s
     report.logs.push(`Merge complete. Final catalog has ${report.mergedKeysCount} keys.`);
 
     return {
-        outputContent: JSON.stringify(mergedCatalog, null, 2),
+        outputContent: serializeStringCatalogDocument(mergedCatalog),
         report
     };
 }
\ No newline at end of file
@@ -1,12 +1,6 @@
 
-import { LanguageFile, ParsedStrings, ParsedMultiLanguageStrings, isPlural } from '../types';
-import {
-    parseStringsFile,
-    parseStringsDictFile,
-    parseJson,
-    parseStringCatalog,
-    parseAndroidXml
-} from './converter';
+import { LanguageFile, isPlural, isDeviceVariations, isSubstitution } from '../types';
+import { parseLocalizationFile } from './formatRegistry';
 
 export interface DuplicateLocation {
     fileName: string;
@@ -24,21 +18,11 @@ export function findDuplicates(files: LanguageFile[]): DuplicateResult[] {
 
     for (const file of files) {
         try {
-            if (file.name.endsWith('.xcstrings')) {
-                processXcStrings(file, valueMap);
-            } else {
-                let parsed: ParsedStrings = {};
-                if (file.name.endsWith('.strings')) {
-                    parsed = parseStringsFile(file.content);
-                } else if (file.name.endsWith('.stringsdict')) {
-                    parsed = parseStringsDictFile(file.content);
-                } else if (file.name.endsWith('.json')) {
-                    parsed = parseJson(file.content);
-                } else if (file.name.endsWith('.xml')) {
-                    parsed = parseAndroidXml(file.content);
+            const { adapter, parsed } = parseLocalizationFile(file);
+            for (const [key, langData] of Object.entries(parsed.data)) {
+                for (const [lang, value] of Object.entries(langData)) {
+                    processTopLevelValue(value, file.name, key, valueMap, adapter.multiLanguage ? lang : undefined);
                 }
-
-                processParsedStrings(file.name, parsed, valueMap);
             }
         } catch (e) {
             console.error(`Error parsing file ${file.name} for duplicate checking`, e);
@@ -60,6 +44,17 @@ export function findDuplicates(files: LanguageFile[]): DuplicateResult[] {
 function processTopLevelValue(value: any, fileName: string, key: string, valueMap: Map<string, DuplicateLocation[]>, language?: string) {
     if (typeof value === 'string') {
         addValue(value, fileName, key, valueMap, language);
+    } else if (isDeviceVariations(value)) {
+        // Each device variant is reported as "key.iphone", "key.mac", ... and may itself be plural
+        Object.entries(value).forEach(([device, deviceVal]) => {
+            if (device === '_isDevice') return;
+            processTopLevelValue(deviceVal, fileName, `${key}.${device}`, valueMap, language);
+        });
+    } else if (isSubstitution(value)) {
+        // Plural phrases of each variable are reported as "key.files.one", "key.files.other", ...
+        Object.entries(value.substitutions).forEach(([name, substitution]) => {
+            processTopLevelValue(substitution.variations, fileName, `${key}.${name}`, valueMap, language);
+        });
     } else if (isPlural(value)) {
         // For plurals, we check individual variations? 
         // The requirement says "Duplicate value finder".
@@ -77,26 +72,6 @@ function processTopLevelValue(value: any, fileName: string, key: string, valueMa
     }
 }
 
-function processParsedStrings(fileName: string, parsed: ParsedStrings, valueMap: Map<string, DuplicateLocation[]>) {
-    for (const [key, value] of Object.entries(parsed)) {
-        processTopLevelValue(value, fileName, key, valueMap);
-    }
-}
-
-function processXcStrings(file: LanguageFile, valueMap: Map<string, DuplicateLocation[]>) {
-    try {
-        const { parsedData, languages } = parseStringCatalog(file.content);
-
-        for (const [key, langData] of Object.entries(parsedData)) {
-            for (const [lang, value] of Object.entries(langData)) {
-                processTopLevelValue(value, file.name, key, valueMap, lang);
-            }
-        }
-    } catch (e) {
-        console.error("Failed to process xcstrings for duplicates", e);
-    }
-}
-
 function addValue(value: string, fileName: string, key: string, valueMap: Map<string, DuplicateLocation[]>, language?: string) {
     const trimmed = value.trim();
     if (!trimmed) return; // Skip empty strings
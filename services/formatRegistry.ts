@@ -0,0 +1,466 @@
+/**
+ * Format Registry
+ * One adapter per localization file format, so that every tool detects, reads and writes
+ * files the same way. Adding an adapter here makes the format available in all of them.
+ */
+
+import { LanguageFile, ParsedStrings, ParsedMultiLanguageStrings, StringComments, StringAttributes, XCStringsDocument, XCStringState, isPlural } from '../types';
+import { parseStringCatalogDocument, getLocalizationValue, collectStringUnits } from './stringCatalog';
+import { parseAndroidResources } from './androidResources';
+import { readPoLanguage } from './gettext';
+import { getLanguageFromPath } from './languageDetection';
+import { LANGUAGES } from '../constants/languages';
+import {
+    parseStringsFileWithComments,
+    parseStringsDictFile,
+    readAndroidResourceStrings,
+    parseGettextFile,
+    parseI18nextJson,
+    parseArbFile,
+    parsePropertiesFile,
+    parseXliffFile,
+    getPropertiesLanguage,
+    generateIosStringCatalog,
+    generateSingleStringsFileContent,
+    generateSingleStringsDictFileContent,
+    generateSingleAndroidXml,
+    generateSinglePoFileContent,
+    generateJson,
+    generateI18nextJson,
+    generateArbFile,
+    generatePropertiesFile,
+    formatFormatConversionWarning,
+    readIcuMessages,
+} from './converter';
+
+export type FormatId = 'xcstrings' | 'xliff' | 'strings' | 'stringsdict' | 'android' | 'gettext' | 'json' | 'arb' | 'properties' | (string & {});
+
+/** A localization file read into the multi-language model. */
+export interface ParsedLocalizationFile {
+    /** Values by key, then by language. A key may have no value in any language. */
+    data: ParsedMultiLanguageStrings;
+    comments: StringComments;
+    /** Every language the file holds, the source language first when the format names one. */
+    languages: string[];
+    sourceLanguage?: string;
+    /**
+     * The state of strings that are not plainly translated, by key, then by language.
+     * Untranslated entries have a state but no value.
+     */
+    states: Record<string, Record<string, XCStringState>>;
+    /** Keys the file marks as not to be translated (`translatable="false"`, `shouldTranslate: false`). */
+    nonTranslatableKeys: string[];
+    /** Android resource attributes such as `formatted` or `tools:ignore`, by key. */
+    attributes?: StringAttributes;
+    /**
+     * Problems that did not stop the file from being read, such as placeholders with no iOS
+     * equivalent or ICU messages kept as written. Each names its key.
+     */
+    issues?: string[];
+}
+
+export interface FormatParseContext {
+    fileName: string;
+    /**
+     * The language assigned to the file by the user, if any. Single-language formats fall back
+     * to the language the file declares, then to its folder ("fr.lproj/", "values-fr/") or name
+     * ("fr.po"), then to English.
+     */
+    language?: string;
+}
+
+export interface FormatAdapter {
+    id: FormatId;
+    /** A short name for messages, e.g. "Android XML". */
+    label: string;
+    /** Lower-case extensions including the dot, e.g. [".po", ".pot"]. */
+    extensions: string[];
+    /** Whether one file holds several languages (String Catalogs, XLIFF). */
+    multiLanguage: boolean;
+    /** Recognises the format from the content alone, for files whose extension is unknown or wrong. */
+    sniff(content: string): boolean;
+    /** Reads the language a file names for itself without a full parse, e.g. the gettext `Language` header. */
+    declaredLanguage?(content: string): string | undefined;
+    /** @throws If the content is not valid for the format. */
+    parse(content: string, context: FormatParseContext): ParsedLocalizationFile;
+    /**
+     * Writes the strings of one language; formats that cannot be written from the model leave this out.
+     * The keys not to translate and the attributes of a parsed file are kept where the format can hold them.
+     */
+    serialize?(data: ParsedStrings, language: string, comments?: StringComments, metadata?: Pick<ParsedLocalizationFile, 'nonTranslatableKeys' | 'attributes'>): string;
+}
+
+const DEFAULT_LANGUAGE = 'en';
+
+// Languages a file name may name. Any short word is some ISO 639 code ("new" is Newari, "bak"
+// Bashkir, "src" Sardinian), so only the app's languages count, plus the current codes of those
+// it lists under legacy ones ("iw" for Hebrew) and common app languages it lacks.
+const FILE_NAME_LANGUAGES = new Set([
+    ...LANGUAGES.map(language => language.code.split('-')[0]),
+    'en', 'he', 'jv', 'nb', 'nn', 'zh', 'yue', 'fil', 'ckb', 'ti', 'rw', 'ug',
+]);
+
+/**
+ * Reads a language from a file name that is, or ends with, a language tag:
+ * "fr.po", "pt-BR.strings", "zh_Hant.json", "app_de.arb". Only widely used languages count, so
+ * "strings_new.xml" or "src.po" name none.
+ * @param fileName The file name or path.
+ * @returns The language code, or undefined when the name holds none.
+ */
+export function getLanguageFromFileName(fileName: string): string | undefined {
+    const baseName = fileName.split('/').pop()!.replace(/\.[^.]+$/, '');
+    const match = baseName.match(/(?:^|_)([a-z]{2,3})(?:[-_]([A-Za-z]{4}|[A-Z]{2}|\d{3}))?$/);
+    if (!match || !FILE_NAME_LANGUAGES.has(match[1])) return undefined;
+    return match[2] ? `${match[1]}-${match[2]}` : match[1];
+}
+
+function resolveFileLanguage(context: FormatParseContext, declared?: string): string {
+    return context.language || declared || getLanguageFromPath(context.fileName) || DEFAULT_LANGUAGE;
+}
+
+function readSingleLanguageFile(
+    strings: ParsedStrings,
+    language: string,
+    comments: StringComments = {},
+    states: Record<string, XCStringState> = {},
+    nonTranslatableKeys: string[] = [],
+): ParsedLocalizationFile {
+    const data: ParsedMultiLanguageStrings = {};
+    for (const [key, value] of Object.entries(strings)) {
+        data[key] = { [language]: value };
+    }
+    const keyStates: ParsedLocalizationFile['states'] = {};
+    for (const [key, state] of Object.entries(states)) {
+        if (!data[key]) data[key] = {};
+        keyStates[key] = { [language]: state };
+    }
+    return { data, comments, languages: [language], states: keyStates, nonTranslatableKeys };
+}
+
+function readCatalogDocument(catalog: XCStringsDocument): ParsedLocalizationFile {
+    const data: ParsedMultiLanguageStrings = {};
+    const comments: StringComments = {};
+    const states: ParsedLocalizationFile['states'] = {};
+    const nonTranslatableKeys: string[] = [];
+    const languages = new Set<string>([catalog.sourceLanguage]);
+
+    for (const [key, entry] of Object.entries(catalog.strings)) {
+        data[key] = {};
+        if (entry.comment) comments[key] = entry.comment;
+        if (entry.shouldTranslate === false) nonTranslatableKeys.push(key);
+
+        for (const [language, localization] of Object.entries(entry.localizations || {})) {
+            languages.add(language);
+            const value = getLocalizationValue(localization);
+            if (value !== undefined) data[key][language] = value;
+            // Plural and device variations are only translated when every case is
+            const pending = collectStringUnits(localization).find(unit => unit.state && unit.state !== 'translated');
+            if (pending?.state) {
+                if (!states[key]) states[key] = {};
+                states[key][language] = pending.state;
+            }
+        }
+    }
+
+    return { data, comments, languages: Array.from(languages), sourceLanguage: catalog.sourceLanguage, states, nonTranslatableKeys };
+}
+
+function isJsonObject(content: string): boolean {
+    if (!content.trim().startsWith('{')) return false;
+    try {
+        const json = JSON.parse(content);
+        return typeof json === 'object' && json !== null && !Array.isArray(json);
+    } catch {
+        return false;
+    }
+}
+
+const xcstringsAdapter: FormatAdapter = {
+    id: 'xcstrings',
+    label: 'String Catalog',
+    extensions: ['.xcstrings'],
+    multiLanguage: true,
+    sniff: content => isJsonObject(content) && /"sourceLanguage"\s*:/.test(content) && /"strings"\s*:/.test(content),
+    declaredLanguage: content => content.match(/"sourceLanguage"\s*:\s*"([^"]+)"/)?.[1],
+    parse: content => readCatalogDocument(parseStringCatalogDocument(content)),
+    serialize: (data, language, comments, metadata) => {
+        const catalogData: ParsedMultiLanguageStrings = {};
+        for (const [key, value] of Object.entries(data)) {
+            catalogData[key] = { [language]: value };
+        }
+        return generateIosStringCatalog(catalogData, language, undefined, comments, metadata?.nonTranslatableKeys);
+    },
+};
+
+const xliffAdapter: FormatAdapter = {
+    id: 'xliff',
+    label: 'XLIFF',
+    extensions: ['.xliff', '.xlf'],
+    multiLanguage: true,
+    sniff: content => /<xliff[\s>]/.test(content),
+    // The language a translator works on; a source-only file is in its source language
+    declaredLanguage: content => (content.match(/<file\b[^>]*\btarget-language="([^"]+)"/) || content.match(/<file\b[^>]*\bsource-language="([^"]+)"/))?.[1],
+    parse: content => readCatalogDocument(parseXliffFile(content)),
+};
+
+const stringsAdapter: FormatAdapter = {
+    id: 'strings',
+    label: 'Strings',
+    extensions: ['.strings'],
+    multiLanguage: false,
+    sniff: content => /^\s*"(?:[^"\\\n]|\\.)*"\s*=\s*"/m.test(content),
+    parse: (content, context) => {
+        const { strings, comments } = parseStringsFileWithComments(content);
+        return readSingleLanguageFile(strings, resolveFileLanguage(context), comments);
+    },
+    serialize: (data, _language, comments) => generateSingleStringsFileContent(data, comments),
+};
+
+const stringsDictAdapter: FormatAdapter = {
+    id: 'stringsdict',
+    label: 'Strings Dictionary',
+    extensions: ['.stringsdict'],
+    multiLanguage: false,
+    sniff: content => /<plist[\s>]/.test(content) && content.includes('NSStringLocalizedFormatKey'),
+    parse: (content, context) => readSingleLanguageFile(parseStringsDictFile(content), resolveFileLanguage(context)),
+    serialize: data => generateSingleStringsDictFileContent(data),
+};
+
+const androidAdapter: FormatAdapter = {
+    id: 'android',
+    label: 'Android XML',
+    extensions: ['.xml'],
+    multiLanguage: false,
+    sniff: content => /<resources[\s>]/.test(content),
+    parse: (content, context) => {
+        const comments: StringComments = {};
+        const attributes: StringAttributes = {};
+        const nonTranslatableKeys: string[] = [];
+        const { resources } = parseAndroidResources(content);
+        for (const resource of resources) {
+            const keys = resource.type === 'string-array'
+                ? resource.items.map((_, index) => `${resource.name}[${index}]`)
+                : [resource.name];
+            if (resource.comments?.length) {
+                keys.forEach(key => comments[key] = resource.comments!.join('\n'));
+            }
+            // `translatable` is kept as a non-translatable key, which other formats understand too
+            const { translatable, ...otherAttributes } = resource.attributes;
+            if (translatable === 'false') nonTranslatableKeys.push(...keys);
+            if (Object.keys(otherAttributes).length > 0) {
+                keys.forEach(key => attributes[key] = otherAttributes);
+            }
+        }
+        const android = readAndroidResourceStrings(resources);
+        // Apps that format with ICU4J's MessageFormat write their plurals as ICU messages
+        const { strings, issues } = readIcuMessages(android.strings);
+        return {
+            ...readSingleLanguageFile(strings, resolveFileLanguage(context), comments, {}, nonTranslatableKeys),
+            attributes,
+            issues: [...android.issues.map(formatFormatConversionWarning), ...issues],
+        };
+    },
+    serialize: (data, _language, comments, metadata) => generateSingleAndroidXml(data, comments, metadata?.attributes, metadata?.nonTranslatableKeys),
+};
+
+const gettextAdapter: FormatAdapter = {
+    id: 'gettext',
+    label: 'Gettext',
+    extensions: ['.po', '.pot'],
+    multiLanguage: false,
+    sniff: content => /^msgid\s+"/m.test(content) && /^msgstr(?:\[\d+\])?\s+"/m.test(content),
+    declaredLanguage: content => readPoLanguage(content) || undefined,
+    parse: (content, context) => {
+        const isTemplate = context.fileName.toLowerCase().endsWith('.pot');
+        const parsed = parseGettextFile(content, isTemplate);
+        const states: Record<string, XCStringState> = {};
+        parsed.untranslatedKeys.forEach(key => states[key] = 'new');
+        parsed.fuzzyKeys.forEach(key => states[key] = 'needs_review');
+        return readSingleLanguageFile(parsed.strings, resolveFileLanguage(context, parsed.language), parsed.comments, states);
+    },
+    serialize: (data, language, comments) => generateSinglePoFileContent(data, language, comments),
+};
+
+const arbAdapter: FormatAdapter = {
+    id: 'arb',
+    label: 'Flutter ARB',
+    extensions: ['.arb'],
+    multiLanguage: false,
+    sniff: content => isJsonObject(content) && /"@@locale"\s*:|"@[^"@]+"\s*:\s*\{/.test(content),
+    declaredLanguage: content => content.match(/"@@locale"\s*:\s*"([^"]+)"/)?.[1].replace('_', '-'),
+    parse: (content, context) => {
+        const { strings, comments, locale, issues } = parseArbFile(content);
+        return { ...readSingleLanguageFile(strings, resolveFileLanguage(context, locale?.replace('_', '-')), comments), issues };
+    },
+    serialize: (data, language, comments) => generateArbFile(data, language, comments),
+};
+
+const jsonAdapter: FormatAdapter = {
+    id: 'json',
+    label: 'JSON',
+    extensions: ['.json'],
+    multiLanguage: false,
+    // Catalogs and ARB files are JSON too, but are read by their own adapters
+    sniff: content => isJsonObject(content) && !xcstringsAdapter.sniff(content) && !arbAdapter.sniff(content),
+    // i18next plural sets ("item_one", "item_other") are read as plurals, as the JSON Converter reads them,
+    // and ICU plurals as i18next-icu and web exports write them
+    parse: (content, context) => {
+        const { strings, issues } = readIcuMessages(parseI18nextJson(content));
+        return { ...readSingleLanguageFile(strings, resolveFileLanguage(context)), issues };
+    },
+    // Plain JSON has no plurals of its own, so files with plurals are written with i18next suffixes
+    serialize: data => Object.values(data).some(isPlural) ? generateI18nextJson(data) : generateJson(data),
+};
+
+const propertiesAdapter: FormatAdapter = {
+    id: 'properties',
+    label: 'Java Properties',
+    extensions: ['.properties'],
+    multiLanguage: false,
+    // Almost any text is a valid .properties file, so it is only recognised by its extension
+    sniff: () => false,
+    parse: (content, context) => {
+        const { strings, comments, issues } = parsePropertiesFile(content);
+        return {
+            ...readSingleLanguageFile(strings, resolveFileLanguage(context, getPropertiesLanguage(context.fileName)), comments),
+            issues: issues.map(formatFormatConversionWarning),
+        };
+    },
+    serialize: data => generatePropertiesFile(data),
+};
+
+// The order is the sniffing order: more specific formats come before the ones they resemble
+const FORMAT_ADAPTERS: FormatAdapter[] = [
+    xcstringsAdapter,
+    arbAdapter,
+    jsonAdapter,
+    xliffAdapter,
+    stringsDictAdapter,
+    androidAdapter,
+    gettextAdapter,
+    stringsAdapter,
+    propertiesAdapter,
+];
+
+/**
+ * Adds a format to every tool, or replaces the adapter registered with the same id.
+ * @param adapter The adapter to register.
+ */
+export function registerFormatAdapter(adapter: FormatAdapter): void {
+    const index = FORMAT_ADAPTERS.findIndex(existing => existing.id === adapter.id);
+    if (index === -1) {
+        FORMAT_ADAPTERS.push(adapter);
+    } else {
+        FORMAT_ADAPTERS[index] = adapter;
+    }
+}
+
+/**
+ * Returns the registered adapters, optionally limited to some formats.
+ * @param ids The formats to return, in the order given; all formats when omitted.
+ */
+export function getFormatAdapters(ids?: FormatId[]): FormatAdapter[] {
+    if (!ids) return [...FORMAT_ADAPTERS];
+    return ids.map(id => FORMAT_ADAPTERS.find(adapter => adapter.id === id)).filter((adapter): adapter is FormatAdapter => !!adapter);
+}
+
+/**
+ * Finds the adapter for a file from its extension and content. When the content does not match
+ * the extension's format but matches another one, the content wins.
+ * @param fileName The file name or path.
+ * @param content The file content, needed for files whose extension is unknown.
+ * @param ids The formats the caller supports; all formats when omitted.
+ * @returns The adapter, or undefined when the format is not supported.
+ */
+export function findFormatAdapter(fileName: string, content?: string, ids?: FormatId[]): FormatAdapter | undefined {
+    const adapters = getFormatAdapters(ids);
+    const lowerName = fileName.toLowerCase();
+    const byExtension = adapters.find(adapter => adapter.extensions.some(extension => lowerName.endsWith(extension)));
+    if (content === undefined) return byExtension;
+    // The content wins over a misleading extension, e.g. a catalog saved as .json or XLIFF saved as .xml;
+    // when no format recognises the content, the extension's adapter reports what is wrong with it
+    if (byExtension) {
+        if (byExtension.sniff(content)) return byExtension;
+        return adapters.find(adapter => adapter.sniff(content)) || byExtension;
+    }
+    // A known extension of a format the caller does not support is not worth sniffing
+    if (ids && findFormatAdapter(fileName)) return undefined;
+    return adapters.find(adapter => adapter.sniff(content));
+}
+
+/**
+ * Lists the extensions of some formats for messages and `accept` attributes.
+ * @param ids The formats; all formats when omitted.
+ * @returns E.g. [".strings", ".stringsdict"]; join them with "," for an `accept` attribute.
+ */
+export function getFormatExtensions(ids?: FormatId[]): string[] {
+    return getFormatAdapters(ids).flatMap(adapter => adapter.extensions);
+}
+
+/**
+ * Builds the message shown for files no adapter can read.
+ * @param fileNames The names of the unsupported files.
+ * @param ids The formats the tool supports; all formats when omitted.
+ */
+export function formatUnsupportedFilesMessage(fileNames: string[], ids?: FormatId[]): string {
+    const files = fileNames.map(name => `"${name}"`).join(', ');
+    return `Unsupported file format: ${files}. Supported formats are ${getFormatExtensions(ids).join(', ')}.`;
+}
+
+/** A file in a supported format that could not be read, with the reason. */
+export interface FileReadFailure {
+    fileName: string;
+    message: string;
+}
+
+/**
+ * Builds the message shown for files in a supported format that failed to parse, so a tool does
+ * not look clean for files it never read.
+ * @param failures The files and the reason each could not be read.
+ */
+export function formatUnreadableFilesMessage(failures: FileReadFailure[]): string {
+    const files = failures.map(failure => `"${failure.fileName}" (${failure.message})`).join(', ');
+    return `Could not read ${files}. ${failures.length === 1 ? 'It is' : 'They are'} left out of the results.`;
+}
+
+/**
+ * Finds the adapter for a file, failing with a clear message when there is none.
+ * @param file The file.
+ * @param ids The formats the caller supports; all formats when omitted.
+ * @throws If the format of the file is not supported.
+ */
+export function getFormatAdapter(file: Pick<LanguageFile, 'name' | 'content'>, ids?: FormatId[]): FormatAdapter {
+    const adapter = findFormatAdapter(file.name, file.content, ids);
+    if (!adapter) throw new Error(formatUnsupportedFilesMessage([file.name], ids));
+    return adapter;
+}
+
+/**
+ * Reads any supported localization file into the multi-language model.
+ * @param file The file; its `langCode` is the language of single-language formats.
+ * @param ids The formats the caller supports; all formats when omitted.
+ * @returns The parsed file and the adapter that read it.
+ * @throws If the format is not supported, or the content is not valid for it.
+ */
+export function parseLocalizationFile(file: LanguageFile, ids?: FormatId[]): { adapter: FormatAdapter; parsed: ParsedLocalizationFile } {
+    const adapter = getFormatAdapter(file, ids);
+    return { adapter, parsed: adapter.parse(file.content, { fileName: file.name, language: file.langCode.trim() }) };
+}
+
+/**
+ * Splits files into those some adapter can read and the names of the others.
+ * @param files The files to check.
+ * @param ids The formats the tool supports; all formats when omitted.
+ */
+export function partitionSupportedFiles<T extends Pick<LanguageFile, 'name' | 'content'>>(files: T[], ids?: FormatId[]): { supported: T[]; unsupported: string[] } {
+    const supported: T[] = [];
+    const unsupported: string[] = [];
+    for (const file of files) {
+        if (findFormatAdapter(file.name, file.content, ids)) {
+            supported.push(file);
+        } else {
+            unsupported.push(file.name);
+        }
+    }
+    return { supported, unsupported };
+}
@@ -0,0 +1,173 @@
+/**
+ * Format Specifier Service
+ * Helpers for reading printf-style placeholders (`%@`, `%lld`, `%1$@`, ...) in localized strings.
+ */
+
+export interface FormatSpecifier {
+    /** The full placeholder as written, e.g. "%1$lld". */
+    raw: string;
+    /** Explicit argument position for positional placeholders ("%2$@" → 2). */
+    position?: number;
+    /** Flags, width and precision between the position and the length modifier, e.g. ".2". */
+    options: string;
+    /** Length modifier and conversion character, e.g. "lld", "f", "@". */
+    conversion: string;
+    index: number;
+}
+
+// %[position$][flags][width][.precision][length]conversion — `%%` and `%#@var@` tokens are matched so they can be skipped
+const FORMAT_SPECIFIER_REGEX = /%%|%(?:\d+\$)?#@[^@]*@|%(?:(\d+)\$)?([-+ 0#']*(?:\d+|\*)?(?:\.(?:\d+|\*))?)((?:hh|h|ll|l|q|z|t|j|L)?[@dDiuUxXoOfFeEgGcCsSpaA])/g;
+
+/**
+ * Finds every printf-style format specifier in a string, ignoring `%%` and `%#@var@` tokens.
+ * @param text The localized string.
+ * @returns The specifiers in order of appearance.
+ */
+export function findFormatSpecifiers(text: string): FormatSpecifier[] {
+    const specifiers: FormatSpecifier[] = [];
+    for (const match of text.matchAll(FORMAT_SPECIFIER_REGEX)) {
+        if (!match[3]) continue;
+        specifiers.push({
+            raw: match[0],
+            position: match[1] ? parseInt(match[1], 10) : undefined,
+            options: match[2] || '',
+            conversion: match[3],
+            index: match.index ?? 0,
+        });
+    }
+    return specifiers;
+}
+
+// ICU, i18next and Java MessageFormat arguments such as "{count}"
+const BRACE_ARGUMENT_REGEX = /\{[^{}]*\}/g;
+
+/**
+ * Replaces every placeholder in a string, so only its prose is left: format specifiers, `%#@var@`
+ * tokens and brace arguments such as `{count}`. `%%` is kept, as it stands for a percent sign.
+ * @param text The localized string.
+ * @param replacement The text each placeholder is replaced with.
+ * @returns The string with its placeholders replaced.
+ */
+export function replacePlaceholders(text: string, replacement: string): string {
+    return text
+        .replace(FORMAT_SPECIFIER_REGEX, token => token === '%%' ? token : replacement)
+        .replace(BRACE_ARGUMENT_REGEX, replacement);
+}
+
+/**
+ * Infers the `NSStringFormatValueTypeKey` of a plural phrase from its placeholders.
+ * Numeric placeholders win since plural rules can only be driven by a number.
+ * @param text A plural case such as "%lld files".
+ * @param fallback The type to use when the phrase has no placeholder.
+ * @returns The conversion without the leading `%`, e.g. "lld", "f" or "@".
+ */
+export function inferFormatValueType(text: string, fallback = 'd'): string {
+    const specifiers = findFormatSpecifiers(text);
+    const numeric = specifiers.find(specifier => /[dDiuUxXoOfFeEgGaA]$/.test(specifier.conversion));
+    return (numeric ?? specifiers[0])?.conversion ?? fallback;
+}
+
+/** Java resource bundles use java.util.Formatter, the syntax Android's getString() follows. */
+export type FormatPlatform = 'ios' | 'android' | 'java';
+
+const PLATFORM_NAMES: Record<FormatPlatform, string> = { ios: 'iOS', android: 'Android', java: 'Java' };
+
+export interface FormatConversionIssue {
+    /** The placeholder as written, e.g. "%p". */
+    specifier: string;
+    message: string;
+}
+
+export interface FormatConversionResult {
+    text: string;
+    /** Placeholders that have no equivalent on the target platform; they are left unchanged. */
+    issues: FormatConversionIssue[];
+}
+
+// java.util.Formatter syntax as used by Android's getString(): %[index$|<][flags][width][.precision]conversion.
+// The space flag is left out so that prose such as "50% off" is not read as a placeholder.
+const ANDROID_SPECIFIER_REGEX = /%%|%n|%(?:(\d+)\$|(<))?([-#+0,(]*\d*(?:\.\d+)?)([tT][A-Za-z]|[bBhHsScCdoxXeEfgGaA])/g;
+
+const IOS_SUBSTITUTION_REGEX = /%(?:\d+\$)?#@[^@]*@/g;
+
+const ANDROID_CONVERSIONS: Record<string, string> = {
+    '@': 's', s: 's', S: 's',
+    d: 'd', D: 'd', i: 'd', u: 'd', U: 'd',
+    x: 'x', X: 'X', o: 'o', O: 'o',
+    f: 'f', F: 'f', e: 'e', E: 'E', g: 'g', G: 'G', a: 'a', A: 'A',
+    c: 'c', C: 'c',
+};
+
+const IOS_CONVERSIONS: Record<string, string> = {
+    s: '@', S: '@',
+    d: 'lld', x: 'llx', X: 'llX', o: 'llo',
+    f: 'f', e: 'e', E: 'E', g: 'g', G: 'G', a: 'a', A: 'A',
+    c: 'C', C: 'C',
+};
+
+/**
+ * Rewrites the placeholders of a string for another platform: `%@` ↔ `%s`, `%lld` ↔ `%d`,
+ * positional forms (`%1$@` ↔ `%1$s`) and the thousands-grouping flag (`'` ↔ `,`).
+ * Placeholders already valid on the target platform are kept. When converting to Android or
+ * Java, strings with several placeholders are given explicit positions, as Android lint requires.
+ * @param text The localized string.
+ * @param target The platform the string is converted for.
+ * @returns The converted string and the placeholders that could not be mapped.
+ */
+export function convertFormatSpecifiers(text: string, target: FormatPlatform): FormatConversionResult {
+    return target === 'ios' ? convertToIos(text) : convertToJavaFormatter(text, target);
+}
+
+function convertToJavaFormatter(text: string, target: FormatPlatform): FormatConversionResult {
+    const platform = PLATFORM_NAMES[target];
+    const issues: FormatConversionIssue[] = [];
+    for (const [substitution] of text.matchAll(IOS_SUBSTITUTION_REGEX)) {
+        issues.push({ specifier: substitution, message: `Substitution variables have no ${platform} equivalent${target === 'android' ? '; use <plurals> instead' : ''}` });
+    }
+
+    // As on the Android side, a '%' followed by a space is prose ("50% of"), not a placeholder
+    const specifiers = findFormatSpecifiers(text).filter(specifier => !specifier.options.includes(' '));
+    const numberArguments = specifiers.length > 1 && specifiers.every(specifier => specifier.position === undefined);
+
+    let out = '';
+    let lastIndex = 0;
+    specifiers.forEach((specifier, i) => {
+        const conversion = ANDROID_CONVERSIONS[specifier.conversion.slice(-1)];
+        let replacement = specifier.raw;
+        if (!conversion) {
+            issues.push({ specifier: specifier.raw, message: `'${specifier.raw}' has no ${platform} equivalent` });
+        } else if (specifier.options.includes('*')) {
+            issues.push({ specifier: specifier.raw, message: `Variable width or precision in '${specifier.raw}' is not supported on ${platform}` });
+        } else {
+            const position = specifier.position ?? (numberArguments ? i + 1 : undefined);
+            replacement = `%${position !== undefined ? `${position}$` : ''}${specifier.options.replace(/'/g, ',')}${conversion}`;
+        }
+        out += text.slice(lastIndex, specifier.index) + replacement;
+        lastIndex = specifier.index + specifier.raw.length;
+    });
+    out += text.slice(lastIndex);
+
+    return { text: out, issues };
+}
+
+function convertToIos(text: string): FormatConversionResult {
+    const issues: FormatConversionIssue[] = [];
+
+    const converted = text.replace(ANDROID_SPECIFIER_REGEX, (raw, position: string | undefined, relative: string | undefined, options: string, conversion: string) => {
+        if (raw === '%%') return raw;
+        if (raw === '%n') return '\n';
+
+        const mapped = IOS_CONVERSIONS[conversion];
+        if (!mapped) {
+            issues.push({ specifier: raw, message: `'${raw}' has no iOS equivalent` });
+            return raw;
+        }
+        if (relative || options.includes('(')) {
+            issues.push({ specifier: raw, message: `'${raw}' uses a java.util.Formatter feature that iOS does not support` });
+            return raw;
+        }
+        return `%${position ? `${position}$` : ''}${options.replace(/,/g, "'")}${mapped}`;
+    });
+
+    return { text: converted, issues };
+}
@@ -0,0 +1,422 @@
+/**
+ * Gettext Service
+ * Reads and writes GNU gettext catalogs (.po and .pot): contexts, plural forms, comments,
+ * references and flags. Plural forms are mapped to CLDR categories by evaluating the
+ * catalog's `Plural-Forms` expression, so `msgstr[n]` lines up with `one`/`few`/`other`.
+ */
+
+import { PluralVariations } from '../types';
+import { PLURAL_CATEGORIES } from './stringCatalog';
+
+type PluralCategory = Exclude<keyof PluralVariations, '_isPlural'>;
+
+export interface PoEntry {
+    /** The `msgctxt`, which disambiguates identical source strings. */
+    context?: string;
+    msgid: string;
+    msgidPlural?: string;
+    /** One translation, or one per plural form (`msgstr[n]`). Empty strings mean untranslated. */
+    msgstr: string[];
+    /** `# ` comments, written by translators. */
+    translatorComments: string[];
+    /** `#. ` comments, extracted from the source code for translators. */
+    extractedComments: string[];
+    /** `#: ` source references, e.g. "src/app.js:12". */
+    references: string[];
+    /** `#, ` flags, e.g. "fuzzy" or "c-format". */
+    flags: string[];
+    /** Entries kept as `#~` because they are no longer used by the sources. */
+    obsolete?: boolean;
+    line: number;
+}
+
+export interface PoFile {
+    /** Header fields from the `msgid ""` entry, in file order. */
+    headers: Record<string, string>;
+    /** Comments written above the header entry. */
+    headerComments: string[];
+    entries: PoEntry[];
+}
+
+/** Separator gettext uses between `msgctxt` and `msgid` in compiled catalogs. */
+export const PO_CONTEXT_SEPARATOR = '\u0004';
+
+// Plural-Forms for languages whose rules have more than "one" and "other", from the gettext manual.
+// Welsh uses the CLDR rule, with one form per category, rather than the manual's four forms.
+const KNOWN_PLURAL_FORMS: Record<string, string> = {
+    ar: 'nplurals=6; plural=(n==0 ? 0 : n==1 ? 1 : n==2 ? 2 : n%100>=3 && n%100<=10 ? 3 : n%100>=11 ? 4 : 5);',
+    be: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+    bs: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+    cs: 'nplurals=3; plural=(n==1) ? 0 : (n>=2 && n<=4) ? 1 : 2;',
+    cy: 'nplurals=6; plural=(n==0) ? 0 : (n==1) ? 1 : (n==2) ? 2 : (n==3) ? 3 : (n==6) ? 4 : 5;',
+    ga: 'nplurals=5; plural=n==1 ? 0 : n==2 ? 1 : (n>2 && n<7) ? 2 : (n>6 && n<11) ? 3 : 4;',
+    he: 'nplurals=3; plural=(n==1 ? 0 : n==2 ? 1 : 2);',
+    hr: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+    lt: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && (n%100<10 || n%100>=20) ? 1 : 2);',
+    lv: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n != 0 ? 1 : 2);',
+    pl: 'nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+    ro: 'nplurals=3; plural=(n==1 ? 0 : (n==0 || (n%100 > 0 && n%100 < 20)) ? 1 : 2);',
+    ru: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+    sk: 'nplurals=3; plural=(n==1) ? 0 : (n>=2 && n<=4) ? 1 : 2;',
+    sl: 'nplurals=4; plural=(n%100==1 ? 0 : n%100==2 ? 1 : n%100==3 || n%100==4 ? 2 : 3);',
+    sr: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+    uk: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+};
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+    n: '\n', t: '\t', r: '\r', a: '\x07', b: '\b', f: '\f', v: '\v', '"': '"', '\\': '\\',
+};
+
+function unescapePoString(raw: string, line: number): string {
+    let out = '';
+    for (let i = 0; i < raw.length; i++) {
+        if (raw[i] !== '\\') {
+            out += raw[i];
+            continue;
+        }
+        const next = raw[++i];
+        if (next in SIMPLE_ESCAPES) {
+            out += SIMPLE_ESCAPES[next];
+        } else if (next === 'x') {
+            const hex = raw.slice(i + 1).match(/^[0-9a-fA-F]{1,2}/)?.[0];
+            if (!hex) throw new Error(`Line ${line}: Invalid '\\x' escape.`);
+            out += String.fromCharCode(parseInt(hex, 16));
+            i += hex.length;
+        } else if (/[0-7]/.test(next)) {
+            const octal = raw.slice(i).match(/^[0-7]{1,3}/)![0];
+            out += String.fromCharCode(parseInt(octal, 8));
+            i += octal.length - 1;
+        } else {
+            throw new Error(`Line ${line}: Unknown escape sequence '\\${next ?? ''}'.`);
+        }
+    }
+    return out;
+}
+
+function escapePoString(str: string): string {
+    return str
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, '\\n')
+        .replace(/\r/g, '\\r')
+        .replace(/\t/g, '\\t');
+}
+
+/**
+ * Parses the content of a .po or .pot file.
+ * @param content The text content of the file.
+ * @returns The header and the entries, including obsolete (`#~`) ones.
+ */
+export function parsePoFile(content: string): PoFile {
+    const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+    const entries: PoEntry[] = [];
+
+    let entry: PoEntry | null = null;
+    let pendingComments: Omit<PoEntry, 'msgid' | 'msgstr' | 'line'> = emptyComments();
+    // The field that continuation lines ("...") append to
+    let field: { name: 'msgctxt' | 'msgid' | 'msgid_plural' | 'msgstr'; index: number } | null = null;
+
+    const finishEntry = () => {
+        if (entry) entries.push(entry);
+        entry = null;
+        field = null;
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const lineNumber = i + 1;
+        let line = lines[i].trim();
+        if (line === '') {
+            finishEntry();
+            continue;
+        }
+
+        let obsolete = false;
+        if (line.startsWith('#~')) {
+            obsolete = true;
+            line = line.slice(2).trim();
+            if (line === '') continue;
+        } else if (line.startsWith('#')) {
+            // A comment after the fields of an entry starts the next entry
+            if (entry) finishEntry();
+            readComment(line, pendingComments);
+            continue;
+        }
+
+        const keywordMatch = line.match(/^(msgctxt|msgid_plural|msgid|msgstr(?:\[(\d+)\])?)\s+(".*")$/);
+        const text = keywordMatch ? keywordMatch[3] : line;
+        if (!/^".*"$/.test(text)) {
+            throw new Error(`Line ${lineNumber}: Expected a quoted string or a keyword, found '${line}'.`);
+        }
+        const value = unescapePoString(text.slice(1, -1), lineNumber);
+
+        if (!keywordMatch) {
+            if (!entry || !field) throw new Error(`Line ${lineNumber}: String continuation without a keyword.`);
+            appendToField(entry, field, value);
+            continue;
+        }
+
+        const keyword = keywordMatch[1].replace(/\[\d+\]$/, '') as 'msgctxt' | 'msgid' | 'msgid_plural' | 'msgstr';
+        const index = keywordMatch[2] ? parseInt(keywordMatch[2], 10) : 0;
+
+        // msgctxt and msgid start a new entry unless they directly follow the context of the current one
+        const startsEntry = keyword === 'msgctxt' || (keyword === 'msgid' && !(entry && field?.name === 'msgctxt'));
+        if (startsEntry) {
+            finishEntry();
+            entry = { msgid: '', msgstr: [], ...pendingComments, obsolete: obsolete || undefined, line: lineNumber };
+            pendingComments = emptyComments();
+        }
+        if (!entry) throw new Error(`Line ${lineNumber}: '${keyword}' without a preceding msgid.`);
+
+        field = { name: keyword, index };
+        if (keyword === 'msgstr') entry.msgstr[index] = '';
+        appendToField(entry, field, value);
+    }
+    finishEntry();
+
+    let headers: Record<string, string> = {};
+    let headerComments: string[] = [];
+    const headerIndex = entries.findIndex(candidate => candidate.msgid === '' && !candidate.context && !candidate.obsolete);
+    if (headerIndex !== -1) {
+        const [header] = entries.splice(headerIndex, 1);
+        headers = parseHeaderFields(header.msgstr[0] || '');
+        headerComments = header.translatorComments;
+    }
+
+    for (const parsed of entries) {
+        for (let n = 0; n < parsed.msgstr.length; n++) parsed.msgstr[n] ??= '';
+        if (parsed.msgstr.length === 0) {
+            throw new Error(`Line ${parsed.line}: Missing msgstr for "${parsed.msgid}".`);
+        }
+    }
+
+    return { headers, headerComments, entries };
+}
+
+function emptyComments(): Omit<PoEntry, 'msgid' | 'msgstr' | 'line'> {
+    return { translatorComments: [], extractedComments: [], references: [], flags: [] };
+}
+
+function readComment(line: string, comments: Omit<PoEntry, 'msgid' | 'msgstr' | 'line'>): void {
+    const marker = line[1];
+    const text = line.slice(2).trim();
+    if (marker === '.') {
+        comments.extractedComments.push(text);
+    } else if (marker === ':') {
+        comments.references.push(...text.split(/\s+/).filter(Boolean));
+    } else if (marker === ',') {
+        comments.flags.push(...text.split(',').map(flag => flag.trim()).filter(Boolean));
+    } else if (marker === '|') {
+        // Previous msgid of a fuzzy entry: only meaningful to gettext's own merge tools
+    } else {
+        comments.translatorComments.push(line.slice(1).replace(/^ /, ''));
+    }
+}
+
+function appendToField(entry: PoEntry, field: { name: string; index: number }, value: string): void {
+    if (field.name === 'msgctxt') entry.context = (entry.context ?? '') + value;
+    else if (field.name === 'msgid') entry.msgid += value;
+    else if (field.name === 'msgid_plural') entry.msgidPlural = (entry.msgidPlural ?? '') + value;
+    else entry.msgstr[field.index] = (entry.msgstr[field.index] ?? '') + value;
+}
+
+function parseHeaderFields(header: string): Record<string, string> {
+    const fields: Record<string, string> = {};
+    for (const line of header.split('\n')) {
+        const separator = line.indexOf(':');
+        if (separator <= 0) continue;
+        fields[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+    return fields;
+}
+
+function writePoString(keyword: string, value: string): string[] {
+    // Multi-line values are written one line per "\n", after an empty first string, as msgmerge does
+    const parts = value.split(/(?<=\n)/);
+    if (parts.length <= 1) return [`${keyword} "${escapePoString(value)}"`];
+    return [`${keyword} ""`, ...parts.map(part => `"${escapePoString(part)}"`)];
+}
+
+/**
+ * Writes a .po or .pot file.
+ * @param file The catalog to write.
+ * @returns The file content.
+ */
+export function serializePoFile(file: PoFile): string {
+    const blocks: string[] = [];
+
+    const header = Object.entries(file.headers).map(([name, value]) => `${name}: ${value}\n`).join('');
+    blocks.push([
+        ...file.headerComments.map(comment => `# ${comment}`.trimEnd()),
+        ...writePoString('msgid', ''),
+        ...writePoString('msgstr', header),
+    ].join('\n'));
+
+    for (const entry of file.entries) {
+        const prefix = entry.obsolete ? '#~ ' : '';
+        const lines = [
+            ...entry.translatorComments.map(comment => `# ${comment}`.trimEnd()),
+            ...entry.extractedComments.map(comment => `#. ${comment}`),
+            ...(entry.references.length > 0 ? [`#: ${entry.references.join(' ')}`] : []),
+            ...(entry.flags.length > 0 ? [`#, ${entry.flags.join(', ')}`] : []),
+        ];
+        const fields: string[] = [];
+        if (entry.context !== undefined) fields.push(...writePoString('msgctxt', entry.context));
+        fields.push(...writePoString('msgid', entry.msgid));
+        if (entry.msgidPlural !== undefined) {
+            fields.push(...writePoString('msgid_plural', entry.msgidPlural));
+            entry.msgstr.forEach((translation, n) => fields.push(...writePoString(`msgstr[${n}]`, translation)));
+        } else {
+            fields.push(...writePoString('msgstr', entry.msgstr[0] ?? ''));
+        }
+        blocks.push([...lines, ...fields.map(field => prefix + field)].join('\n'));
+    }
+
+    return `${blocks.join('\n\n')}\n`;
+}
+
+/**
+ * Reads the `Language` header of a .po file without parsing the entries.
+ * @returns The language code (e.g. "pt-BR"), or an empty string when the header has none.
+ */
+export function readPoLanguage(content: string): string {
+    const match = content.match(/"Language:\s*([A-Za-z]{2,3}(?:[_-][A-Za-z0-9]+)?)\s*\\n"/);
+    return match ? match[1].replace('_', '-') : '';
+}
+
+/**
+ * Returns the `Plural-Forms` header gettext uses for a language.
+ * Languages not in the built-in table fall back on their CLDR categories: one form when the
+ * language has no plurals, otherwise the English rule.
+ */
+export function getPluralFormsHeader(language: string): string {
+    const base = language.split(/[-_]/)[0].toLowerCase();
+    if (KNOWN_PLURAL_FORMS[base]) return KNOWN_PLURAL_FORMS[base];
+    if (base === 'fr' || language === 'pt-BR' || language === 'pt_BR') return 'nplurals=2; plural=(n > 1);';
+
+    let categories: string[] = ['one', 'other'];
+    try {
+        categories = new Intl.PluralRules(language).resolvedOptions().pluralCategories;
+    } catch {
+        // Unknown locale: keep the English rule
+    }
+    return categories.length === 1 ? 'nplurals=1; plural=0;' : 'nplurals=2; plural=(n != 1);';
+}
+
+/**
+ * Maps every plural form index of a `Plural-Forms` header to the CLDR category it stands for
+ * in the given language, by evaluating the expression for sample numbers. Every index gets its
+ * own category, so no form is folded into another and lost, even when the gettext rule does not
+ * line up with CLDR (the four-form Welsh rule against CLDR's six categories).
+ * @param pluralForms The header, e.g. "nplurals=2; plural=(n != 1);".
+ * @param language The language used to look up CLDR categories.
+ * @returns One category per index, e.g. `['one', 'few', 'many']` for Russian.
+ */
+export function mapPluralFormsToCategories(pluralForms: string, language: string): PluralCategory[] {
+    const nplurals = parseInt(pluralForms.match(/nplurals\s*=\s*(\d+)/)?.[1] || '2', 10);
+    const expression = pluralForms.match(/plural\s*=\s*([^;]+)/)?.[1] || '(n != 1)';
+    const evaluate = compilePluralExpression(expression);
+
+    let rules: Intl.PluralRules;
+    try {
+        rules = new Intl.PluralRules(language || 'en');
+    } catch {
+        rules = new Intl.PluralRules('en');
+    }
+
+    // Each form stands for the category most of its sample numbers fall into
+    const counts: Partial<Record<PluralCategory, number>>[] = Array.from({ length: nplurals }, () => ({}));
+    for (let n = 0; n <= 200; n++) {
+        const index = evaluate(n);
+        if (index < 0 || index >= nplurals) continue;
+        const category = rules.select(n) as PluralCategory;
+        counts[index][category] = (counts[index][category] ?? 0) + 1;
+    }
+    // The form that shares the most sample numbers with a category stands for it, then the next best
+    const categories: (PluralCategory | undefined)[] = new Array(nplurals).fill(undefined);
+    const matches = counts
+        .flatMap((count, index) => Object.entries(count).map(([category, total]) => ({ index, category: category as PluralCategory, total: total! })))
+        .sort((a, b) => b.total - a.total || a.index - b.index);
+    for (const { index, category } of matches) {
+        if (!categories[index] && !categories.includes(category)) categories[index] = category;
+    }
+    // Forms no sample number reaches, or whose numbers all went to other forms, take the categories left,
+    // the catch-all first
+    const unused = (['other', ...PLURAL_CATEGORIES.filter(category => category !== 'other')] as PluralCategory[])
+        .filter(category => !categories.includes(category));
+    return categories.map(category => category ?? unused.shift() ?? 'other');
+}
+
+// A tiny evaluator for the C subset used in Plural-Forms: n, integers, parentheses,
+// ! * / % + - < <= > >= == != && || and ?:
+function compilePluralExpression(expression: string): (n: number) => number {
+    const tokens = expression.match(/\d+|n|&&|\|\||==|!=|<=|>=|[()?:!<>*/%+-]/g) || [];
+    let pos = 0;
+
+    type Node = (n: number) => number;
+    const peek = () => tokens[pos];
+    const next = () => tokens[pos++];
+
+    const parseTernary = (): Node => {
+        const condition = parseBinary(0);
+        if (peek() !== '?') return condition;
+        next();
+        const whenTrue = parseTernary();
+        if (next() !== ':') throw new Error(`Invalid Plural-Forms expression: ${expression}`);
+        const whenFalse = parseTernary();
+        return n => condition(n) ? whenTrue(n) : whenFalse(n);
+    };
+
+    const PRECEDENCE: string[][] = [['||'], ['&&'], ['==', '!='], ['<', '<=', '>', '>='], ['+', '-'], ['*', '/', '%']];
+    const apply = (op: string, a: number, b: number): number => {
+        switch (op) {
+            case '||': return a || b ? 1 : 0;
+            case '&&': return a && b ? 1 : 0;
+            case '==': return a === b ? 1 : 0;
+            case '!=': return a !== b ? 1 : 0;
+            case '<': return a < b ? 1 : 0;
+            case '<=': return a <= b ? 1 : 0;
+            case '>': return a > b ? 1 : 0;
+            case '>=': return a >= b ? 1 : 0;
+            case '+': return a + b;
+            case '-': return a - b;
+            case '*': return a * b;
+            case '/': return b === 0 ? 0 : Math.trunc(a / b);
+            default: return b === 0 ? 0 : a % b;
+        }
+    };
+
+    const parseBinary = (level: number): Node => {
+        if (level === PRECEDENCE.length) return parseUnary();
+        let left = parseBinary(level + 1);
+        while (PRECEDENCE[level].includes(peek())) {
+            const op = next();
+            const lhs = left;
+            const rhs = parseBinary(level + 1);
+            left = n => apply(op, lhs(n), rhs(n));
+        }
+        return left;
+    };
+
+    const parseUnary = (): Node => {
+        const token = next();
+        if (token === '!') {
+            const operand = parseUnary();
+            return n => operand(n) ? 0 : 1;
+        }
+        if (token === '(') {
+            const inner = parseTernary();
+            if (next() !== ')') throw new Error(`Invalid Plural-Forms expression: ${expression}`);
+            return inner;
+        }
+        if (token === 'n') return n => n;
+        if (token !== undefined && /^\d+$/.test(token)) {
+            const value = parseInt(token, 10);
+            return () => value;
+        }
+        throw new Error(`Invalid Plural-Forms expression: ${expression}`);
+    };
+
+    const evaluate = parseTernary();
+    if (pos !== tokens.length) throw new Error(`Invalid Plural-Forms expression: ${expression}`);
+    return n => Number(evaluate(n));
+}
@@ -0,0 +1,270 @@
+/**
+ * Glossary Service
+ * Product terms with fixed treatment in translations: terms that must never be translated
+ * ("Apple Pay", brand names) and terms with a mandatory translation per language.
+ * Glossaries are imported from CSV/TSV or TBX, and translations are checked against them.
+ */
+
+import { LanguageFile } from '../types';
+import { collectTextContexts } from './lintEngine';
+import { parseDelimited } from './spreadsheet';
+
+export interface GlossaryTerm {
+    /** The term in the source language. */
+    term: string;
+    /** Whether the term must appear unchanged in every translation. */
+    doNotTranslate: boolean;
+    /** The mandatory translation of the term by language code, e.g. { de: "Einstellungen" }. */
+    translations: Record<string, string>;
+    caseSensitive: boolean;
+    note?: string;
+}
+
+export interface Glossary {
+    sourceLanguage: string;
+    terms: GlossaryTerm[];
+}
+
+export interface GlossaryIssue {
+    key: string;
+    langCode: string;
+    /** Where the text sits within the value: "" for the value itself, "plural.few" or "device.ipad". */
+    path: string;
+    term: string;
+    message: string;
+    text: string;
+    sourceText?: string;
+}
+
+const DEFAULT_SOURCE_LANGUAGE = 'en';
+
+const LANGUAGE_CODE = /^[a-zA-Z]{2,3}(?:[-_][a-zA-Z0-9]{2,8})*$/;
+
+// Header names accepted for the columns that are not languages
+const TERM_COLUMNS = ['term', 'source', 'source term'];
+const DO_NOT_TRANSLATE_COLUMNS = ['do not translate', 'do_not_translate', 'donottranslate', 'dnt', 'untranslatable'];
+const CASE_SENSITIVE_COLUMNS = ['case sensitive', 'case_sensitive', 'casesensitive'];
+const NOTE_COLUMNS = ['note', 'notes', 'comment', 'description', 'definition'];
+
+function normalizeLanguageCode(code: string): string {
+    return code.trim().replace(/_/g, '-');
+}
+
+function getPrimaryLanguage(langCode: string): string {
+    return langCode.split(/[-_]/)[0].toLowerCase();
+}
+
+function isTrue(value: string | undefined | null): boolean {
+    return /^(?:true|yes|y|x|1)$/i.test((value || '').trim());
+}
+
+/**
+ * Reads a glossary from CSV or TSV. The first column holds the source terms; its header is
+ * "term" or the source language code ("en"). Columns named with a language code hold the
+ * mandatory translations, and "do not translate", "case sensitive" and "note" columns are optional.
+ * @param content The CSV or TSV content.
+ * @param format Which delimiter separates the cells.
+ * @returns The glossary.
+ * @throws {Error} If there is no header row or no term column.
+ */
+export function parseGlossaryDelimited(content: string, format: 'csv' | 'tsv'): Glossary {
+    const [header, ...rows] = parseDelimited(content, format).filter(row => row.some(cell => cell.trim()));
+    if (!header) throw new Error('The glossary is empty.');
+
+    const columns = header.map(name => name.trim());
+    const lowerColumns = columns.map(name => name.toLowerCase());
+    let termIndex = lowerColumns.findIndex(name => TERM_COLUMNS.includes(name));
+    let sourceLanguage = DEFAULT_SOURCE_LANGUAGE;
+    if (termIndex === -1 && LANGUAGE_CODE.test(columns[0])) {
+        termIndex = 0;
+        sourceLanguage = normalizeLanguageCode(columns[0]);
+    }
+    if (termIndex === -1) {
+        throw new Error('The glossary needs a "term" column, or a source language code such as "en" as its first column.');
+    }
+
+    const findColumn = (names: string[]) => lowerColumns.findIndex(name => names.includes(name));
+    const doNotTranslateIndex = findColumn(DO_NOT_TRANSLATE_COLUMNS);
+    const caseSensitiveIndex = findColumn(CASE_SENSITIVE_COLUMNS);
+    const noteIndex = findColumn(NOTE_COLUMNS);
+    const languageColumns = columns
+        .map((name, index) => ({ language: normalizeLanguageCode(name), index }))
+        .filter(({ language, index }) => index !== termIndex && LANGUAGE_CODE.test(language)
+            && ![doNotTranslateIndex, caseSensitiveIndex, noteIndex].includes(index));
+
+    const terms: GlossaryTerm[] = [];
+    for (const row of rows) {
+        const term = (row[termIndex] || '').trim();
+        if (!term) continue;
+        const translations: Record<string, string> = {};
+        for (const { language, index } of languageColumns) {
+            const translation = (row[index] || '').trim();
+            if (translation) translations[language] = translation;
+        }
+        const note = noteIndex === -1 ? '' : (row[noteIndex] || '').trim();
+        terms.push({
+            term,
+            doNotTranslate: isTrue(row[doNotTranslateIndex]),
+            translations,
+            caseSensitive: isTrue(row[caseSensitiveIndex]),
+            ...(note ? { note } : {}),
+        });
+    }
+    return { sourceLanguage, terms };
+}
+
+function getXmlLanguage(element: Element): string | null {
+    return element.getAttribute('xml:lang') || element.getAttributeNS('http://www.w3.org/XML/1998/namespace', 'lang');
+}
+
+/**
+ * Reads a glossary from TBX (TermBase eXchange), in the TBX 2 (`termEntry`/`langSet`) or
+ * TBX 3 (`conceptEntry`/`langSec`) layout. A concept is "do not translate" when it is marked
+ * with a `doNotTranslate` or `translatable="no"` note, or when every language uses the source term.
+ * @param content The TBX content.
+ * @param sourceLanguage The source language, when the file does not name one on its root element.
+ * @returns The glossary.
+ * @throws {Error} If the content is not valid XML.
+ */
+export function parseGlossaryTbx(content: string, sourceLanguage?: string): Glossary {
+    const doc = new DOMParser().parseFromString(content, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('Invalid TBX file: the XML could not be parsed.');
+    }
+
+    const concepts = [...Array.from(doc.getElementsByTagName('termEntry')), ...Array.from(doc.getElementsByTagName('conceptEntry'))];
+    const declaredLanguage = getXmlLanguage(doc.documentElement);
+    const languageSets = (concept: Element) => [...Array.from(concept.getElementsByTagName('langSet')), ...Array.from(concept.getElementsByTagName('langSec'))];
+    const source = normalizeLanguageCode(sourceLanguage || declaredLanguage
+        || (concepts[0] && languageSets(concepts[0]).map(getXmlLanguage).find(Boolean))
+        || DEFAULT_SOURCE_LANGUAGE);
+
+    const terms: GlossaryTerm[] = [];
+    for (const concept of concepts) {
+        let term = '';
+        const translations: Record<string, string> = {};
+        for (const languageSet of languageSets(concept)) {
+            const language = normalizeLanguageCode(getXmlLanguage(languageSet) || '');
+            const text = languageSet.getElementsByTagName('term')[0]?.textContent?.trim();
+            if (!language || !text) continue;
+            if (getPrimaryLanguage(language) === getPrimaryLanguage(source) && !term) {
+                term = text;
+            } else {
+                translations[language] = text;
+            }
+        }
+        if (!term) continue;
+
+        const notes = Array.from(concept.querySelectorAll('descrip, termNote, admin, note'));
+        const markedDoNotTranslate = notes.some(note => {
+            const type = (note.getAttribute('type') || '').toLowerCase();
+            const value = note.textContent || '';
+            return (type === 'donottranslate' && isTrue(value)) || (type === 'translatable' && /^(?:no|false)$/i.test(value.trim()));
+        });
+        const translatedTerms = Object.values(translations);
+        const doNotTranslate = markedDoNotTranslate || (translatedTerms.length > 0 && translatedTerms.every(text => text === term));
+        const note = concept.querySelector('descrip[type="definition"], note')?.textContent?.trim();
+        terms.push({ term, doNotTranslate, translations: doNotTranslate ? {} : translations, caseSensitive: false, ...(note ? { note } : {}) });
+    }
+    return { sourceLanguage: source, terms };
+}
+
+/**
+ * Reads a glossary file, choosing the parser from its extension.
+ * @param fileName The file name: .csv, .tsv or .tbx.
+ * @param content The file content.
+ * @returns The glossary.
+ * @throws {Error} If the format is not supported or the content is invalid.
+ */
+export function importGlossary(fileName: string, content: string): Glossary {
+    const extension = fileName.toLowerCase().split('.').pop();
+    if (extension === 'csv' || extension === 'tsv') return parseGlossaryDelimited(content, extension);
+    if (extension === 'tbx' || extension === 'xml') return parseGlossaryTbx(content);
+    throw new Error(`Unsupported glossary format: ${fileName}. Use a .csv, .tsv or .tbx file.`);
+}
+
+/**
+ * Adds imported terms to a glossary; an imported term replaces the term with the same text.
+ * @returns The combined glossary, with the source language of the existing one.
+ */
+export function mergeGlossaries(existing: Glossary, imported: Glossary): Glossary {
+    const importedTerms = new Set(imported.terms.map(term => term.term.toLowerCase()));
+    return {
+        sourceLanguage: existing.terms.length > 0 ? existing.sourceLanguage : imported.sourceLanguage,
+        terms: [...existing.terms.filter(term => !importedTerms.has(term.term.toLowerCase())), ...imported.terms],
+    };
+}
+
+// Finds the term as a whole word: "Pay" does not match inside "Payment"
+function containsTerm(text: string, term: GlossaryTerm): boolean {
+    const escaped = term.term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, term.caseSensitive ? 'u' : 'iu').test(text);
+}
+
+// The mandatory translation for a language, falling back from "pt-BR" to "pt"
+function getTermTranslation(term: GlossaryTerm, langCode: string): string | undefined {
+    const code = normalizeLanguageCode(langCode);
+    return term.translations[code]
+        ?? Object.entries(term.translations).find(([language]) => language.toLowerCase() === code.toLowerCase())?.[1]
+        ?? Object.entries(term.translations).find(([language]) => language.toLowerCase() === getPrimaryLanguage(code))?.[1];
+}
+
+// Mandatory translations may be inflected or part of a compound, so they are found anywhere in the text
+function containsTranslation(text: string, translation: string, langCode: string): boolean {
+    return text.toLocaleLowerCase(langCode).includes(translation.toLocaleLowerCase(langCode));
+}
+
+/**
+ * Checks one translated text against the glossary.
+ * @param text The translation.
+ * @param langCode The language of the translation.
+ * @param sourceText The source text it translates. Without one, as for a single .strings file,
+ * the text is only checked for source terms that were left untranslated.
+ * @param glossary The glossary.
+ * @returns The broken term and a message for each problem.
+ */
+export function checkGlossaryText(text: string, langCode: string, sourceText: string | undefined, glossary: Glossary): { term: string; message: string }[] {
+    if (getPrimaryLanguage(langCode) === getPrimaryLanguage(glossary.sourceLanguage)) return [];
+    const problems: { term: string; message: string }[] = [];
+    for (const term of glossary.terms) {
+        const translation = getTermTranslation(term, langCode);
+        if (sourceText === undefined) {
+            if (!term.doNotTranslate && translation && containsTerm(text, term) && !containsTranslation(text, translation, langCode)) {
+                problems.push({ term: term.term, message: `"${term.term}" is left untranslated; the glossary translates it as "${translation}"` });
+            }
+            continue;
+        }
+        if (!containsTerm(sourceText, term)) continue;
+        if (term.doNotTranslate) {
+            if (!text.includes(term.term)) problems.push({ term: term.term, message: `"${term.term}" must not be translated` });
+        } else if (translation && !containsTranslation(text, translation, langCode)) {
+            problems.push({ term: term.term, message: `"${term.term}" must be translated as "${translation}"` });
+        }
+    }
+    return problems;
+}
+
+/**
+ * Checks every translation of some localization files against the glossary, including plural
+ * cases and device variants. Texts are paired with their source text as for lint. Files whose
+ * first language is not the glossary's source language, such as a lone `de.strings`, have no
+ * source text to compare with and are only checked for terms left untranslated.
+ * @param files The files, in any supported format.
+ * @param glossary The glossary.
+ * @returns The problems, by key and language.
+ */
+export function checkGlossary(files: LanguageFile[], glossary: Glossary): GlossaryIssue[] {
+    if (glossary.terms.length === 0) return [];
+    const { sourceLanguage, contexts } = collectTextContexts(files);
+    if (!sourceLanguage) return [];
+    const hasSourceTexts = getPrimaryLanguage(sourceLanguage) === getPrimaryLanguage(glossary.sourceLanguage);
+
+    const issues: GlossaryIssue[] = [];
+    for (const { key, langCode, path, text, sourceText } of contexts) {
+        if (hasSourceTexts && sourceText === undefined) continue;
+        for (const { term, message } of checkGlossaryText(text, langCode, hasSourceTexts ? sourceText : undefined, glossary)) {
+            issues.push({ key, langCode, path, term, message, text, sourceText });
+        }
+    }
+    return issues.sort((a, b) => a.key.localeCompare(b.key) || a.langCode.localeCompare(b.langCode));
+}
@@ -0,0 +1,27 @@
+import { Glossary } from './glossary';
+
+// ─── Glossary Store (localStorage) ───────────────────────────────────────────
+
+const STORAGE_KEY = 'localization-glossary';
+
+const EMPTY_GLOSSARY: Glossary = { sourceLanguage: 'en', terms: [] };
+
+export const glossaryStore = {
+    load(): Glossary {
+        try {
+            const raw = localStorage.getItem(STORAGE_KEY);
+            const glossary = raw ? JSON.parse(raw) : null;
+            return glossary && Array.isArray(glossary.terms) ? glossary : EMPTY_GLOSSARY;
+        } catch {
+            return EMPTY_GLOSSARY;
+        }
+    },
+
+    save(glossary: Glossary): void {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(glossary));
+    },
+
+    clear(): void {
+        localStorage.removeItem(STORAGE_KEY);
+    },
+};
@@ -0,0 +1,420 @@
+/**
+ * ICU MessageFormat Service
+ * Parses and prints ICU messages (`{count, plural, one{# item} other{# items}}`), as used by
+ * Flutter .arb files, web i18n libraries and translation tools, and maps them onto catalog values.
+ */
+
+import { StringValue, PluralVariations, PluralSubstitution, SubstitutionString, isPlural, isDeviceVariations, isSubstitution } from '../types';
+import { PLURAL_CATEGORIES } from './stringCatalog';
+import { inferFormatValueType } from './formatSpecifiers';
+
+type PluralCategory = Exclude<keyof PluralVariations, '_isPlural'>;
+
+export type IcuNode =
+    | { type: 'text'; value: string }
+    /** `#` inside a plural case: the plural count. */
+    | { type: 'pound' }
+    /** A simple argument such as `{name}` or `{price, number, currency}`. */
+    | { type: 'argument'; name: string; format?: string; style?: string }
+    | { type: 'plural'; name: string; ordinal: boolean; offset: number; cases: Record<string, IcuNode[]> }
+    | { type: 'select'; name: string; cases: Record<string, IcuNode[]> };
+
+type IcuPluralNode = Extract<IcuNode, { type: 'plural' }>;
+
+// Characters that start ICU syntax; `#` only inside a plural case
+const ICU_SYNTAX = /[{}#|]/;
+
+const ARGUMENT_NAME = /[\p{L}\p{N}_]+/uy;
+const SELECTOR = /=\d+|[\p{L}_][\p{L}\p{N}_-]*/uy;
+
+// Exact-value selectors that have a plural category with the same meaning in every language
+const EXACT_SELECTORS: Record<string, PluralCategory> = { '=0': 'zero', '=1': 'one', '=2': 'two' };
+
+// A simple argument written in catalog text, kept as-is so it survives a round trip
+const SIMPLE_ARGUMENT = /\{\s*[\p{L}\p{N}_]+\s*(?:,\s*[\p{L}_]+\s*(?:,[^{}]*)?)?\}/u;
+
+class IcuParser {
+    private pos = 0;
+
+    constructor(private readonly message: string) {}
+
+    parse(): IcuNode[] {
+        const nodes = this.parseMessage(false);
+        if (this.pos < this.message.length) this.fail("unexpected '}'");
+        return nodes;
+    }
+
+    private fail(reason: string): never {
+        throw new Error(`Invalid ICU message at position ${this.pos}: ${reason}.`);
+    }
+
+    private skipWhitespace() {
+        while (/\s/.test(this.message[this.pos] || '')) this.pos++;
+    }
+
+    private read(pattern: RegExp): string | undefined {
+        pattern.lastIndex = this.pos;
+        const match = pattern.exec(this.message);
+        if (!match) return undefined;
+        this.pos += match[0].length;
+        return match[0];
+    }
+
+    private expect(char: string) {
+        this.skipWhitespace();
+        if (this.message[this.pos] !== char) this.fail(`expected '${char}'`);
+        this.pos++;
+    }
+
+    /** Reads nodes up to the end of the message or the `}` closing the enclosing case. */
+    private parseMessage(inPlural: boolean): IcuNode[] {
+        const nodes: IcuNode[] = [];
+        let text = '';
+        const flushText = () => {
+            if (text) nodes.push({ type: 'text', value: text });
+            text = '';
+        };
+
+        while (this.pos < this.message.length) {
+            const ch = this.message[this.pos];
+            if (ch === "'") {
+                text += this.readApostrophe(inPlural);
+            } else if (ch === '}') {
+                break;
+            } else if (ch === '{') {
+                flushText();
+                nodes.push(this.parseArgument(inPlural));
+            } else if (ch === '#' && inPlural) {
+                flushText();
+                nodes.push({ type: 'pound' });
+                this.pos++;
+            } else {
+                text += ch;
+                this.pos++;
+            }
+        }
+        flushText();
+        return nodes;
+    }
+
+    /** `''` is an apostrophe; an apostrophe before syntax characters quotes them up to the next lone apostrophe. */
+    private readApostrophe(inPlural: boolean): string {
+        const next = this.message[this.pos + 1];
+        if (next === "'") {
+            this.pos += 2;
+            return "'";
+        }
+        if (!next || !ICU_SYNTAX.test(next) || (next === '#' && !inPlural)) {
+            this.pos++;
+            return "'";
+        }
+
+        let quoted = '';
+        this.pos++;
+        while (this.pos < this.message.length) {
+            if (this.message[this.pos] === "'") {
+                if (this.message[this.pos + 1] !== "'") {
+                    this.pos++;
+                    return quoted;
+                }
+                this.pos++;
+            }
+            quoted += this.message[this.pos++];
+        }
+        return quoted;
+    }
+
+    private parseArgument(inPlural: boolean): IcuNode {
+        this.pos++;
+        this.skipWhitespace();
+        const name = this.read(ARGUMENT_NAME);
+        if (!name) this.fail('expected an argument name');
+        this.skipWhitespace();
+
+        if (this.message[this.pos] === '}') {
+            this.pos++;
+            return { type: 'argument', name };
+        }
+        this.expect(',');
+        this.skipWhitespace();
+        const format = this.read(/[\p{L}_]+/uy);
+        if (!format) this.fail(`expected an argument type for '${name}'`);
+        this.skipWhitespace();
+
+        if (format === 'plural' || format === 'selectordinal') {
+            this.expect(',');
+            this.skipWhitespace();
+            const offset = this.read(/offset:\s*\d+/y);
+            return {
+                type: 'plural',
+                name,
+                ordinal: format === 'selectordinal',
+                offset: offset ? parseInt(offset.replace(/\D/g, ''), 10) : 0,
+                cases: this.parseCases(name, true),
+            };
+        }
+        if (format === 'select') {
+            this.expect(',');
+            return { type: 'select', name, cases: this.parseCases(name, inPlural) };
+        }
+
+        // number, date, time, ... with an optional style that may itself contain braces
+        let style: string | undefined;
+        if (this.message[this.pos] === ',') {
+            this.pos++;
+            const start = this.pos;
+            let depth = 0;
+            while (this.pos < this.message.length && (depth > 0 || this.message[this.pos] !== '}')) {
+                if (this.message[this.pos] === '{') depth++;
+                if (this.message[this.pos] === '}') depth--;
+                this.pos++;
+            }
+            style = this.message.slice(start, this.pos).trim();
+        }
+        this.expect('}');
+        return { type: 'argument', name, format, style };
+    }
+
+    private parseCases(name: string, inPlural: boolean): Record<string, IcuNode[]> {
+        const cases: Record<string, IcuNode[]> = {};
+        for (;;) {
+            this.skipWhitespace();
+            if (this.pos >= this.message.length) this.fail(`missing '}' after the cases of '${name}'`);
+            if (this.message[this.pos] === '}') break;
+            const selector = this.read(SELECTOR);
+            if (!selector) this.fail(`expected a case selector for '${name}'`);
+            if (cases[selector]) this.fail(`duplicate case '${selector}' for '${name}'`);
+            this.expect('{');
+            cases[selector] = this.parseMessage(inPlural);
+            this.expect('}');
+        }
+        this.pos++;
+        if (!cases.other) {
+            throw new Error(`Invalid ICU message: '${name}' has no 'other' case.`);
+        }
+        return cases;
+    }
+}
+
+/**
+ * Parses an ICU message into its syntax tree.
+ * @param message The ICU message.
+ * @returns The top-level nodes of the message.
+ * @throws If the message is malformed; the message gives the position.
+ */
+export function parseIcuMessage(message: string): IcuNode[] {
+    return new IcuParser(message).parse();
+}
+
+function printText(text: string, inPlural: boolean): string {
+    return text
+        // An apostrophe that could start a quote is doubled, including one that ends the text
+        .replace(inPlural ? /'(?=[{}#|']|$)/g : /'(?=[{}|']|$)/g, "''")
+        .replace(inPlural ? /[{}#|]+/g : /[{}|]+/g, literal => `'${literal}'`);
+}
+
+/**
+ * Prints ICU nodes back to a message, quoting literal syntax characters.
+ * @param nodes The nodes to print.
+ * @param inPlural Whether the nodes are inside a plural case, where a literal `#` must be quoted.
+ * @returns The ICU message.
+ */
+export function printIcuMessage(nodes: IcuNode[], inPlural = false): string {
+    return nodes.map(node => {
+        switch (node.type) {
+            case 'text':
+                return printText(node.value, inPlural);
+            case 'pound':
+                return '#';
+            case 'argument':
+                return `{${[node.name, node.format, node.style].filter(Boolean).join(', ')}}`;
+            case 'plural': {
+                const offset = node.offset ? `offset:${node.offset} ` : '';
+                const cases = Object.entries(node.cases).map(([selector, nodes]) => `${selector}{${printIcuMessage(nodes, true)}}`);
+                return `{${node.name}, ${node.ordinal ? 'selectordinal' : 'plural'}, ${offset}${cases.join(' ')}}`;
+            }
+            case 'select': {
+                const cases = Object.entries(node.cases).map(([selector, nodes]) => `${selector}{${printIcuMessage(nodes, inPlural)}}`);
+                return `{${node.name}, select, ${cases.join(' ')}}`;
+            }
+        }
+    }).join('');
+}
+
+// --- CATALOG MAPPING ---
+
+function unsupportedPlural(node: IcuPluralNode): Error {
+    return new Error(node.ordinal
+        ? `ICU 'selectordinal' on '${node.name}' has no String Catalog equivalent; catalogs only vary by cardinal plural.`
+        : `Nested ICU plural '${node.name}' has no String Catalog equivalent; write the plurals side by side instead.`);
+}
+
+/**
+ * Writes nodes as catalog text: `#` (and the plural argument itself) becomes the count specifier,
+ * simple arguments are kept as written.
+ */
+function renderCatalogText(nodes: IcuNode[], countSpecifier: string, plural?: string): string {
+    return nodes.map(node => {
+        switch (node.type) {
+            case 'text':
+                return node.value;
+            case 'pound':
+                return `%${countSpecifier}`;
+            case 'argument':
+                return node.name === plural && !node.format ? `%${countSpecifier}` : printIcuMessage([node]);
+            case 'plural':
+                throw unsupportedPlural(node);
+            case 'select':
+                throw new Error(`ICU 'select' on '${node.name}' has no String Catalog equivalent; use a separate key for each case.`);
+        }
+    }).join('');
+}
+
+function toPluralVariations(node: IcuPluralNode, countSpecifier: string, prefix: IcuNode[] = [], suffix: IcuNode[] = []): PluralVariations {
+    if (node.ordinal) throw unsupportedPlural(node);
+    if (node.offset) {
+        throw new Error(`ICU plural '${node.name}' uses an offset, which has no String Catalog equivalent.`);
+    }
+
+    const variations: Partial<Record<PluralCategory, string>> = {};
+    const render = (nodes: IcuNode[]) => renderCatalogText([...prefix, ...nodes, ...suffix], countSpecifier, node.name);
+
+    for (const [selector, nodes] of Object.entries(node.cases)) {
+        if (selector.startsWith('=')) continue;
+        if (!(PLURAL_CATEGORIES as readonly string[]).includes(selector)) {
+            throw new Error(`'${selector}' in ICU plural '${node.name}' is not a plural category.`);
+        }
+        variations[selector as PluralCategory] = render(nodes);
+    }
+    for (const [selector, nodes] of Object.entries(node.cases)) {
+        if (!selector.startsWith('=')) continue;
+        const category = EXACT_SELECTORS[selector];
+        if (!category) {
+            throw new Error(`The exact value '${selector}' in ICU plural '${node.name}' has no String Catalog plural category.`);
+        }
+        if (variations[category] === undefined) variations[category] = render(nodes);
+    }
+
+    return { _isPlural: true, ...variations, other: variations.other! };
+}
+
+/**
+ * Converts an ICU message to a catalog value. A message with one plural becomes plural variations
+ * (text around the plural is copied into every case); several plurals side by side become a
+ * substitution string with one `%#@name@` variable each. Exact values `=0`, `=1` and `=2` map to
+ * `zero`, `one` and `two` unless the keyword is also present. Simple arguments such as `{name}`
+ * are kept as written.
+ * @param message The ICU message.
+ * @param countSpecifier The printf conversion that stands for the plural count, without the `%`.
+ * @returns The catalog value.
+ * @throws If the message is malformed, or uses `select`, `selectordinal`, offsets, nested plurals
+ * or other exact values, none of which a String Catalog can express.
+ */
+export function icuToStringValue(message: string, countSpecifier = 'lld'): StringValue {
+    const nodes = parseIcuMessage(message);
+    const plurals = nodes.filter((node): node is IcuPluralNode => node.type === 'plural');
+
+    if (plurals.length === 0) return renderCatalogText(nodes, countSpecifier);
+
+    if (plurals.length === 1) {
+        const index = nodes.indexOf(plurals[0]);
+        return toPluralVariations(plurals[0], countSpecifier, nodes.slice(0, index), nodes.slice(index + 1));
+    }
+
+    const substitutions: Record<string, PluralSubstitution> = {};
+    const format = nodes.map(node => {
+        if (node.type !== 'plural') return renderCatalogText([node], countSpecifier);
+        if (substitutions[node.name]) {
+            throw new Error(`ICU plural '${node.name}' appears twice; a String Catalog substitution can only be used once.`);
+        }
+        substitutions[node.name] = {
+            argNum: Object.keys(substitutions).length + 1,
+            formatSpecifier: countSpecifier,
+            variations: toPluralVariations(node, countSpecifier),
+        };
+        return `%#@${node.name}@`;
+    }).join('');
+    return { _isSubstitution: true, format, substitutions };
+}
+
+/**
+ * Splits catalog text into ICU nodes: simple arguments stay arguments and, inside a plural,
+ * the count specifier becomes `#`.
+ */
+function parseCatalogText(text: string, countSpecifier?: string): IcuNode[] {
+    const countPattern = countSpecifier
+        ? `|%(?:\\d+\\$)?${countSpecifier.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`
+        : '';
+    const pattern = new RegExp(`${SIMPLE_ARGUMENT.source}${countPattern}`, 'gu');
+
+    const nodes: IcuNode[] = [];
+    let lastIndex = 0;
+    for (const match of text.matchAll(pattern)) {
+        const index = match.index ?? 0;
+        if (index > lastIndex) nodes.push({ type: 'text', value: text.slice(lastIndex, index) });
+        nodes.push(match[0].startsWith('%') ? { type: 'pound' } : parseIcuMessage(match[0])[0]);
+        lastIndex = index + match[0].length;
+    }
+    if (lastIndex < text.length) nodes.push({ type: 'text', value: text.slice(lastIndex) });
+    return nodes;
+}
+
+function toPluralNode(name: string, variations: PluralVariations, countSpecifier: string): IcuPluralNode {
+    const cases: Record<string, IcuNode[]> = {};
+    for (const category of PLURAL_CATEGORIES) {
+        const phrase = variations[category];
+        // In a String Catalog `zero` applies to 0 in every language; ICU's `zero` keyword only exists in a few
+        if (phrase !== undefined) cases[category === 'zero' ? '=0' : category] = parseCatalogText(phrase, countSpecifier);
+    }
+    return { type: 'plural', name, ordinal: false, offset: 0, cases };
+}
+
+function substitutionToNodes(value: SubstitutionString): IcuNode[] {
+    const nodes: IcuNode[] = [];
+    let lastIndex = 0;
+    for (const match of value.format.matchAll(/%(?:\d+\$)?#@([^@]+)@/g)) {
+        const index = match.index ?? 0;
+        nodes.push(...parseCatalogText(value.format.slice(lastIndex, index)));
+        const substitution = value.substitutions[match[1]];
+        nodes.push(substitution
+            ? toPluralNode(match[1], substitution.variations, substitution.formatSpecifier)
+            : { type: 'text', value: match[0] });
+        lastIndex = index + match[0].length;
+    }
+    nodes.push(...parseCatalogText(value.format.slice(lastIndex)));
+    return nodes;
+}
+
+/**
+ * Converts a catalog value to an ICU message. Plural variations become a plural over `argument`
+ * with the count specifier written as `#`; each variable of a substitution string becomes a plural
+ * named after it.
+ * @param value The catalog value.
+ * @param argument The name of the plural argument for plain plural variations.
+ * @returns The ICU message.
+ * @throws If the value varies by device, which ICU cannot express.
+ */
+export function stringValueToIcu(value: StringValue, argument = 'count'): string {
+    if (isDeviceVariations(value)) {
+        throw new Error("Device variations have no ICU MessageFormat equivalent.");
+    }
+    if (isPlural(value)) {
+        return printIcuMessage([toPluralNode(argument, value, inferFormatValueType(value.other, 'lld'))]);
+    }
+    if (isSubstitution(value)) {
+        return printIcuMessage(substitutionToNodes(value));
+    }
+    return printIcuMessage(parseCatalogText(value));
+}
+
+/**
+ * Lists the plural arguments that {@link stringValueToIcu} writes for a catalog value.
+ * @param value The catalog value.
+ * @param argument The name used for plain plural variations.
+ * @returns The argument names.
+ */
+export function getIcuPluralArguments(value: StringValue, argument = 'count'): string[] {
+    if (isPlural(value)) return [argument];
+    if (isSubstitution(value)) return Object.keys(value.substitutions);
+    return [];
+}
@@ -0,0 +1,191 @@
+/**
+ * Language Detection Service
+ * Guesses the language of an uploaded localization file so that tools can pre-fill it: from
+ * what the file declares, the folder it sits in, its name, and as a last resort the script
+ * its text is written in.
+ */
+
+import { LanguageDetection, StringValue, isSubstitution } from '../types';
+import { findFormatAdapter, getLanguageFromFileName } from './formatRegistry';
+import { replacePlaceholders } from './formatSpecifiers';
+
+// Folder names older Xcode projects use instead of language codes
+const LEGACY_LPROJ_NAMES: Record<string, string> = {
+    english: 'en',
+    french: 'fr',
+    german: 'de',
+    italian: 'it',
+    japanese: 'ja',
+    spanish: 'es',
+    dutch: 'nl',
+};
+
+interface ScriptLanguage {
+    script: string;
+    pattern: RegExp;
+    langCode: string;
+}
+
+// Scripts that point to one language, or to one language far more often than to the others
+// (Cyrillic is most often Russian, Arabic most often Arabic). Latin is shared by too many.
+const SCRIPT_LANGUAGES: ScriptLanguage[] = [
+    { script: 'Japanese', pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/u, langCode: 'ja' },
+    { script: 'Hangul', pattern: /\p{Script=Hangul}/u, langCode: 'ko' },
+    { script: 'Chinese', pattern: /\p{Script=Han}/u, langCode: 'zh' },
+    { script: 'Cyrillic', pattern: /\p{Script=Cyrillic}/u, langCode: 'ru' },
+    { script: 'Greek', pattern: /\p{Script=Greek}/u, langCode: 'el' },
+    { script: 'Arabic', pattern: /\p{Script=Arabic}/u, langCode: 'ar' },
+    { script: 'Hebrew', pattern: /\p{Script=Hebrew}/u, langCode: 'he' },
+    { script: 'Thai', pattern: /\p{Script=Thai}/u, langCode: 'th' },
+    { script: 'Devanagari', pattern: /\p{Script=Devanagari}/u, langCode: 'hi' },
+    { script: 'Bengali', pattern: /\p{Script=Bengali}/u, langCode: 'bn' },
+    { script: 'Tamil', pattern: /\p{Script=Tamil}/u, langCode: 'ta' },
+    { script: 'Telugu', pattern: /\p{Script=Telugu}/u, langCode: 'te' },
+    { script: 'Gujarati', pattern: /\p{Script=Gujarati}/u, langCode: 'gu' },
+    { script: 'Kannada', pattern: /\p{Script=Kannada}/u, langCode: 'kn' },
+    { script: 'Malayalam', pattern: /\p{Script=Malayalam}/u, langCode: 'ml' },
+    { script: 'Gurmukhi', pattern: /\p{Script=Gurmukhi}/u, langCode: 'pa' },
+    { script: 'Georgian', pattern: /\p{Script=Georgian}/u, langCode: 'ka' },
+    { script: 'Armenian', pattern: /\p{Script=Armenian}/u, langCode: 'hy' },
+    { script: 'Khmer', pattern: /\p{Script=Khmer}/u, langCode: 'km' },
+    { script: 'Lao', pattern: /\p{Script=Lao}/u, langCode: 'lo' },
+    { script: 'Myanmar', pattern: /\p{Script=Myanmar}/u, langCode: 'my' },
+    { script: 'Sinhala', pattern: /\p{Script=Sinhala}/u, langCode: 'si' },
+    { script: 'Ethiopic', pattern: /\p{Script=Ethiopic}/u, langCode: 'am' },
+];
+
+// The share of letters a script needs before the text is taken to be written in it
+const SCRIPT_THRESHOLD = 0.25;
+
+// Markup is not text in any language, just like placeholders
+const MARKUP_PATTERN = /<[^>]+>/g;
+
+// "pt_BR" → "pt-BR", "zh-hans" → "zh-Hans"; undefined when the primary language is unknown
+function normalizeLanguageTag(tag: string): string | undefined {
+    let canonical: string;
+    try {
+        [canonical] = Intl.getCanonicalLocales(tag.replace(/_/g, '-'));
+    } catch {
+        return undefined;
+    }
+    const languageNames = new Intl.DisplayNames(['en'], { type: 'language', fallback: 'none' });
+    return languageNames.of(canonical.split('-')[0]) ? canonical : undefined;
+}
+
+// "fr.lproj" → "fr"; "Base.lproj" holds no language
+function getLprojLanguage(folder: string): string | undefined {
+    const match = folder.match(/^(.+)\.lproj$/i);
+    if (!match || match[1].toLowerCase() === 'base') return undefined;
+    return LEGACY_LPROJ_NAMES[match[1].toLowerCase()] || normalizeLanguageTag(match[1]);
+}
+
+// Android resource qualifiers: "values-fr", "values-pt-rBR", "values-b+sr+Latn", "values-fr-land"
+function getAndroidValuesLanguage(folder: string): string | undefined {
+    const bcp47 = folder.match(/^values-b\+([a-zA-Z]{2,3}(?:\+[a-zA-Z0-9]+)*)(?:-|$)/);
+    if (bcp47) return normalizeLanguageTag(bcp47[1].replace(/\+/g, '-'));
+    const legacy = folder.match(/^values-([a-z]{2,3})(?:-r([A-Z]{2}))?(?:-|$)/);
+    if (!legacy) return undefined;
+    return normalizeLanguageTag(legacy[2] ? `${legacy[1]}-${legacy[2]}` : legacy[1]);
+}
+
+function collectTexts(value: StringValue): string[] {
+    if (typeof value === 'string') return [value];
+    if (isSubstitution(value)) {
+        return [value.format, ...Object.values(value.substitutions).flatMap(substitution => collectTexts(substitution.variations))];
+    }
+    return Object.entries(value)
+        .filter(([category]) => !category.startsWith('_'))
+        .flatMap(([, caseValue]) => collectTexts(caseValue as StringValue));
+}
+
+/**
+ * Guesses a language from the script a text is written in. Latin-script text gives no guess,
+ * and neither does text whose letters are mostly Latin (such as English with a few brand names).
+ * @param text The translated text.
+ * @returns The most likely language and the script it was read from.
+ */
+export function guessLanguageFromScript(text: string): { langCode: string; script: string } | undefined {
+    const counts = new Map<ScriptLanguage, number>();
+    let letters = 0;
+    for (const char of replacePlaceholders(text, ' ').replace(MARKUP_PATTERN, ' ')) {
+        if (!/\p{L}/u.test(char)) continue;
+        letters++;
+        const match = SCRIPT_LANGUAGES.find(entry => entry.pattern.test(char));
+        if (match) counts.set(match, (counts.get(match) || 0) + 1);
+    }
+    if (letters === 0) return undefined;
+
+    // Japanese mixes kana with Chinese characters, so any share of kana makes the Han letters Japanese
+    const [kana, , han] = SCRIPT_LANGUAGES;
+    if (counts.has(kana) && counts.has(han) && counts.get(kana)! >= counts.get(han)! * 0.1) {
+        counts.set(kana, counts.get(kana)! + counts.get(han)!);
+        counts.delete(han);
+    }
+
+    const [best] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+    if (!best || best[1] / letters < SCRIPT_THRESHOLD) return undefined;
+    return { langCode: best[0].langCode, script: best[0].script };
+}
+
+// The nearest folder wins, as in "fr.lproj/Settings.bundle/en.lproj/Root.strings"
+function findFolderLanguage(path: string): { langCode: string; folder: string } | undefined {
+    const folders = path.split('/').slice(0, -1).reverse();
+    for (const folder of folders) {
+        const langCode = getLprojLanguage(folder) || getAndroidValuesLanguage(folder);
+        if (langCode) return { langCode, folder };
+    }
+    return undefined;
+}
+
+/**
+ * Reads the language a file's path names: the nearest `.lproj` or `values-` folder, then the file name.
+ * @param path The file path, e.g. "fr.lproj/Localizable.strings"; a bare name works too.
+ * @returns The language code, or undefined when the path names none.
+ */
+export function getLanguageFromPath(path: string): string | undefined {
+    return findFolderLanguage(path)?.langCode || getLanguageFromFileName(path);
+}
+
+/**
+ * Guesses the language of a localization file, in order of confidence:
+ * - **high**: the language the file declares (XLIFF `target-language`, gettext `Language`,
+ *   ARB `@@locale`), or the folder it sits in (`fr.lproj/`, `values-fr/`, `values-b+sr+Latn/`);
+ * - **medium**: a file name that is, or ends with, a language code (`fr.strings`, `app_fr.arb`);
+ * - **low**: the script the translations are written in (Cyrillic → `ru`, Hangul → `ko`, ...).
+ * @param path The file path, e.g. "fr.lproj/Localizable.strings" or "res/values-fr/strings.xml"; a bare name works too.
+ * @param content The file content.
+ * @returns The language and how sure the guess is, or undefined when nothing points to a language.
+ */
+export function detectFileLanguage(path: string, content: string): LanguageDetection | undefined {
+    const adapter = findFormatAdapter(path, content);
+    const fileName = path.split('/').pop()!;
+
+    const declared = adapter?.declaredLanguage?.(content);
+    const declaredLanguage = declared && normalizeLanguageTag(declared);
+    if (declaredLanguage) {
+        return { langCode: declaredLanguage, confidence: 'high', reason: `Declared in the ${adapter!.label} file` };
+    }
+
+    const folderLanguage = findFolderLanguage(path);
+    if (folderLanguage) {
+        return { langCode: folderLanguage.langCode, confidence: 'high', reason: `From the ${folderLanguage.folder} folder` };
+    }
+
+    const nameLanguage = getLanguageFromFileName(fileName);
+    if (nameLanguage) {
+        return { langCode: nameLanguage, confidence: 'medium', reason: `From the file name ${fileName}` };
+    }
+
+    // Multi-language files have no single script to go by
+    if (!adapter || adapter.multiLanguage) return undefined;
+    let texts: string[];
+    try {
+        const parsed = adapter.parse(content, { fileName, language: 'und' });
+        texts = Object.values(parsed.data).flatMap(values => Object.values(values).flatMap(collectTexts));
+    } catch {
+        return undefined;
+    }
+    const guess = guessLanguageFromScript(texts.join('\n'));
+    if (!guess) return undefined;
+    return { langCode: guess.langCode, confidence: 'low', reason: `Guessed from text written in ${guess.script} script` };
+}
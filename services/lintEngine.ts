@@ -0,0 +1,312 @@
+/**
+ * Lint Service
+ * Checks the texts of localization files with a set of pluggable rules: whitespace, typography,
+ * untranslated or overlong translations, punctuation and unbalanced brackets. Each rule can be
+ * turned off or given another severity; see lintSettingsStore.ts for the saved settings.
+ */
+
+import { LanguageFile, StringValue } from '../types';
+import { replacePlaceholders } from './formatSpecifiers';
+import { collectTexts } from './stringCatalog';
+import { parseLocalizationFile, FileReadFailure } from './formatRegistry';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export const LINT_SEVERITIES: LintSeverity[] = ['error', 'warning', 'info'];
+
+export interface LintContext {
+    key: string;
+    langCode: string;
+    /** Where the text sits within the value: "" for the value itself, "plural.few" or "device.ipad". */
+    path: string;
+    text: string;
+    /** The matching text of the source language; undefined when the text is itself in the source language. */
+    sourceText?: string;
+    sourceLanguage: string;
+}
+
+export interface LintRule {
+    id: string;
+    name: string;
+    description: string;
+    defaultSeverity: LintSeverity;
+    /**
+     * Checks one text.
+     * @returns A message describing the problem, or undefined when the text passes.
+     */
+    check(context: LintContext): string | undefined;
+}
+
+export interface LintRuleSettings {
+    enabled: boolean;
+    severity: LintSeverity;
+}
+
+export type LintSettings = Record<string, LintRuleSettings>;
+
+export interface LintFinding {
+    ruleId: string;
+    severity: LintSeverity;
+    key: string;
+    langCode: string;
+    path: string;
+    message: string;
+    text: string;
+}
+
+export interface LintResult {
+    sourceLanguage?: string;
+    findings: LintFinding[];
+    /** Files in a supported format that failed to parse, and were not linted. */
+    unreadableFiles: FileReadFailure[];
+}
+
+const TERMINAL_PUNCTUATION: Record<string, string> = {
+    '.': 'a period', '。': 'a period', '।': 'a period', '။': 'a period',
+    '?': 'a question mark', '？': 'a question mark', '؟': 'a question mark', ';': 'a question mark', '\u037E': 'a question mark',
+    '!': 'an exclamation mark', '！': 'an exclamation mark',
+    ':': 'a colon', '：': 'a colon',
+    '…': 'an ellipsis',
+};
+
+// Scripts that do not end sentences with punctuation
+const LANGUAGES_WITHOUT_TERMINAL_PUNCTUATION = ['th', 'lo', 'km'];
+
+const BRACKET_PAIRS: [string, string][] = [['(', ')'], ['[', ']'], ['{', '}'], ['«', '»'], ['‹', '›'], ['「', '」'], ['『', '』'], ['（', '）']];
+
+function getPrimaryLanguage(langCode: string): string {
+    return langCode.split(/[-_]/)[0].toLowerCase();
+}
+
+function getTerminalPunctuation(text: string, langCode: string): string | undefined {
+    const last = text.trimEnd().replace(/["'”’»」』)]+$/, '').slice(-1);
+    // Greek writes its question mark (U+037E) as a semicolon too; elsewhere a semicolon ends a clause, not a sentence
+    if (last === ';' && getPrimaryLanguage(langCode) !== 'el') return undefined;
+    if (text.trimEnd().endsWith('...')) return 'an ellipsis';
+    return TERMINAL_PUNCTUATION[last];
+}
+
+function countCharacters(text: string, characters: string): number {
+    let count = 0;
+    for (const char of text) {
+        if (characters.includes(char)) count++;
+    }
+    return count;
+}
+
+function findUnbalancedPairs(text: string): string[] {
+    const unbalanced = BRACKET_PAIRS
+        .filter(([open, close]) => countCharacters(text, open) !== countCharacters(text, close))
+        .map(([open, close]) => `${open}${close}`);
+    if (countCharacters(text, '"') % 2 !== 0) unbalanced.push('""');
+    // German „…“ and English “…” share a closing mark, so curly quotes are only counted as a whole
+    if (countCharacters(text, '“”„') % 2 !== 0) unbalanced.push('“”');
+    return unbalanced;
+}
+
+const lintRules: LintRule[] = [
+    {
+        id: 'whitespace',
+        name: 'Leading or trailing whitespace',
+        description: 'Whitespace at the start or end of a text that the source text does not have.',
+        defaultSeverity: 'warning',
+        check: ({ text, sourceText }) => {
+            const leading = /^\s/.test(text) && !/^\s/.test(sourceText ?? '');
+            const trailing = /\s$/.test(text) && !/\s$/.test(sourceText ?? '');
+            if (leading && trailing) return 'Starts and ends with whitespace';
+            if (leading) return 'Starts with whitespace';
+            if (trailing) return 'Ends with whitespace';
+            return undefined;
+        },
+    },
+    {
+        id: 'ellipsis',
+        name: 'Three periods instead of an ellipsis',
+        description: 'Three periods ("...") where the ellipsis character ("…") belongs.',
+        defaultSeverity: 'info',
+        check: ({ text }) => text.includes('...') ? 'Uses "..." instead of the ellipsis character "…"' : undefined,
+    },
+    {
+        id: 'double-space',
+        name: 'Doubled spaces',
+        description: 'Two or more spaces in a row between words.',
+        defaultSeverity: 'warning',
+        // Placeholders are not words, and "%@ %@" is not a doubled space in prose
+        check: ({ text }) => /\S {2,}\S/.test(replacePlaceholders(text, 'x')) ? 'Contains doubled spaces' : undefined,
+    },
+    {
+        id: 'untranslated',
+        name: 'Identical to the source text',
+        description: 'A translation that is the same as the source text, which usually means it was never translated.',
+        defaultSeverity: 'warning',
+        check: ({ text, sourceText, langCode, sourceLanguage }) => {
+            if (sourceText === undefined || text !== sourceText) return undefined;
+            // Regional variants of the source language ("en-GB" for "en") are often identical on purpose
+            if (getPrimaryLanguage(langCode) === getPrimaryLanguage(sourceLanguage)) return undefined;
+            // Texts without words ("OK", "%@", "–") read the same in most languages
+            if (!/\p{L}{3,}/u.test(replacePlaceholders(text, ''))) return undefined;
+            return 'Identical to the source text; it may not be translated yet';
+        },
+    },
+    {
+        id: 'length',
+        name: 'Much longer than the source text',
+        description: 'A translation more than twice as long as the source text (and at least 10 characters longer), which may not fit the layout.',
+        defaultSeverity: 'info',
+        check: ({ text, sourceText }) => {
+            if (!sourceText) return undefined;
+            if (text.length <= sourceText.length * 2 || text.length - sourceText.length < 10) return undefined;
+            return `Is ${(text.length / sourceText.length).toFixed(1)}× as long as the source text`;
+        },
+    },
+    {
+        id: 'terminal-punctuation',
+        name: 'Mismatched terminal punctuation',
+        description: 'A translation that ends with different punctuation than the source text, e.g. a missing period or question mark.',
+        defaultSeverity: 'warning',
+        check: ({ text, sourceText, langCode, sourceLanguage }) => {
+            if (!sourceText || !text.trim()) return undefined;
+            if (LANGUAGES_WITHOUT_TERMINAL_PUNCTUATION.includes(getPrimaryLanguage(langCode))) return undefined;
+            const expected = getTerminalPunctuation(sourceText, sourceLanguage);
+            const actual = getTerminalPunctuation(text, langCode);
+            if (expected === actual) return undefined;
+            if (!expected) return `Ends with ${actual}, but the source text does not`;
+            if (!actual) return `The source text ends with ${expected}, but the translation does not`;
+            return `Ends with ${actual}, but the source text ends with ${expected}`;
+        },
+    },
+    {
+        id: 'brackets',
+        name: 'Unbalanced quotes or brackets',
+        description: 'Quotes or brackets opened but not closed (or the reverse), unless the source text is unbalanced the same way.',
+        defaultSeverity: 'error',
+        check: ({ text, sourceText }) => {
+            const sourceUnbalanced = sourceText === undefined ? [] : findUnbalancedPairs(sourceText);
+            const unbalanced = findUnbalancedPairs(text).filter(pair => !sourceUnbalanced.includes(pair));
+            return unbalanced.length > 0 ? `Unbalanced ${unbalanced.join(', ')}` : undefined;
+        },
+    },
+];
+
+/**
+ * Adds a rule to the lint engine, or replaces the rule with the same id.
+ * @param rule The rule to add.
+ */
+export function registerLintRule(rule: LintRule): void {
+    const index = lintRules.findIndex(existing => existing.id === rule.id);
+    if (index === -1) {
+        lintRules.push(rule);
+    } else {
+        lintRules[index] = rule;
+    }
+}
+
+/**
+ * Lists the lint rules in the order their results are shown.
+ */
+export function getLintRules(): LintRule[] {
+    return [...lintRules];
+}
+
+/**
+ * Completes saved settings with the defaults of each rule, so that rules added since
+ * the settings were saved are enabled with their default severity.
+ * @param saved The saved settings; the defaults of all rules when omitted.
+ */
+export function resolveLintSettings(saved: LintSettings = {}): LintSettings {
+    const settings: LintSettings = {};
+    for (const rule of lintRules) {
+        const ruleSettings = saved[rule.id];
+        settings[rule.id] = {
+            enabled: ruleSettings?.enabled ?? true,
+            severity: ruleSettings && LINT_SEVERITIES.includes(ruleSettings.severity) ? ruleSettings.severity : rule.defaultSeverity,
+        };
+    }
+    return settings;
+}
+
+// The source text for a path, falling back to the source's "other" case and then to its main text
+function findSourceText(sourceTexts: Map<string, string>, path: string): string | undefined {
+    return sourceTexts.get(path)
+        ?? sourceTexts.get(path.replace(/plural\.\w+$/, 'plural.other'))
+        ?? sourceTexts.get('')
+        ?? sourceTexts.get('plural.other')
+        ?? sourceTexts.values().next().value;
+}
+
+/**
+ * Lists every text of some localization files with its source text. The first file decides the
+ * source language, as in the Strings Analyser; translations are paired with the source text of
+ * their key, or with the key itself when the source language has no text for it.
+ * @param files The files, in any supported format.
+ * @returns The source language (undefined when no file could be read), one context per text, and the files that failed to parse.
+ */
+export function collectTextContexts(files: LanguageFile[]): { sourceLanguage?: string; contexts: LintContext[]; unreadableFiles: FileReadFailure[] } {
+    const values: Record<string, Record<string, StringValue>> = {};
+    const unreadableFiles: FileReadFailure[] = [];
+    let sourceLanguage: string | undefined;
+
+    for (const file of files) {
+        try {
+            const { parsed } = parseLocalizationFile(file);
+            if (!sourceLanguage) sourceLanguage = parsed.sourceLanguage || parsed.languages[0];
+            const nonTranslatableKeys = new Set(parsed.nonTranslatableKeys);
+            for (const [key, languageValues] of Object.entries(parsed.data)) {
+                if (nonTranslatableKeys.has(key)) continue;
+                values[key] = { ...values[key], ...languageValues };
+            }
+        } catch (e: any) {
+            unreadableFiles.push({ fileName: file.name, message: e.message });
+        }
+    }
+    if (!sourceLanguage) return { contexts: [], unreadableFiles };
+
+    const contexts: LintContext[] = [];
+    for (const [key, languageValues] of Object.entries(values)) {
+        const sourceTexts = new Map<string, string>();
+        collectTexts(languageValues[sourceLanguage] ?? key, '', sourceTexts);
+
+        for (const [langCode, value] of Object.entries(languageValues)) {
+            const texts = new Map<string, string>();
+            collectTexts(value, '', texts);
+            for (const [path, text] of texts) {
+                contexts.push({
+                    key,
+                    langCode,
+                    path,
+                    text,
+                    sourceText: langCode === sourceLanguage ? undefined : findSourceText(sourceTexts, path),
+                    sourceLanguage,
+                });
+            }
+        }
+    }
+    return { sourceLanguage, contexts, unreadableFiles };
+}
+
+/**
+ * Lints every text of some localization files, see `collectTextContexts`.
+ * @param files The files to lint, in any supported format. Files that fail to parse are returned in `unreadableFiles`.
+ * @param settings Which rules run and with which severity; every rule with its default severity when omitted.
+ * @returns The findings in rule order, then by key and language.
+ */
+export function lintFiles(files: LanguageFile[], settings?: LintSettings): LintResult {
+    const resolved = resolveLintSettings(settings);
+    const rules = lintRules.filter(rule => resolved[rule.id].enabled);
+    const { sourceLanguage, contexts, unreadableFiles } = collectTextContexts(files);
+
+    const findings: LintFinding[] = [];
+    for (const context of contexts) {
+        for (const rule of rules) {
+            const message = rule.check(context);
+            if (message) {
+                const { key, langCode, path, text } = context;
+                findings.push({ ruleId: rule.id, severity: resolved[rule.id].severity, key, langCode, path, message, text });
+            }
+        }
+    }
+
+    const ruleOrder = rules.map(rule => rule.id);
+    findings.sort((a, b) => ruleOrder.indexOf(a.ruleId) - ruleOrder.indexOf(b.ruleId));
+    return { sourceLanguage, findings, unreadableFiles };
+}
@@ -0,0 +1,53 @@
+import { LintSettings, resolveLintSettings } from './lintEngine';
+
+// ─── Lint Settings Types ─────────────────────────────────────────────────────
+
+export const DEFAULT_LINT_PROJECT = 'Default';
+
+const STORAGE_KEY = 'localization-lint-settings';
+const ACTIVE_PROJECT_KEY = 'localization-lint-active-project';
+
+// ─── Lint Settings Store (localStorage) ──────────────────────────────────────
+
+// Rule settings by project name, so each app can keep its own rule set
+function readProjects(): Record<string, LintSettings> {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        return raw ? JSON.parse(raw) : {};
+    } catch {
+        return {};
+    }
+}
+
+export const lintSettingsStore = {
+    getProjects(): string[] {
+        const names = Object.keys(readProjects()).filter(name => name !== DEFAULT_LINT_PROJECT);
+        return [DEFAULT_LINT_PROJECT, ...names.sort((a, b) => a.localeCompare(b))];
+    },
+
+    load(project: string): LintSettings {
+        return resolveLintSettings(readProjects()[project]);
+    },
+
+    save(project: string, settings: LintSettings): void {
+        const projects = readProjects();
+        projects[project] = settings;
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(projects));
+    },
+
+    remove(project: string): void {
+        const projects = readProjects();
+        delete projects[project];
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(projects));
+        if (lintSettingsStore.getActiveProject() === project) lintSettingsStore.setActiveProject(DEFAULT_LINT_PROJECT);
+    },
+
+    getActiveProject(): string {
+        const project = localStorage.getItem(ACTIVE_PROJECT_KEY);
+        return project && lintSettingsStore.getProjects().includes(project) ? project : DEFAULT_LINT_PROJECT;
+    },
+
+    setActiveProject(project: string): void {
+        localStorage.setItem(ACTIVE_PROJECT_KEY, project);
+    },
+};
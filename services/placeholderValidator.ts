@@ -0,0 +1,198 @@
+/**
+ * Placeholder Validation Service
+ * Compares the printf-style placeholders of translations with those of the source language.
+ * A translation that drops a placeholder, changes its type or reorders placeholders without
+ * positional indices makes `String(format:)` read the wrong argument, which can crash the app.
+ */
+
+import { PluralVariations, StringValue, XCStringsDocument, isDeviceVariations, isPlural, isSubstitution } from '../types';
+import { DEVICE_CATEGORIES, PLURAL_CATEGORIES, getLocalizationValue, getFallbackText, joinPath } from './stringCatalog';
+import { findFormatSpecifiers } from './formatSpecifiers';
+
+export interface PlaceholderIssue {
+    key: string;
+    langCode: string;
+    /** Where the text sits within the value: "" for the value itself, "plural.few", "device.ipad" or "substitutions.count.plural.one". */
+    path: string;
+    message: string;
+    sourceText: string;
+    translationText: string;
+}
+
+interface ResolvedArgument {
+    raw: string;
+    type: string;
+}
+
+const SUBSTITUTION_TOKEN_REGEX = /%(?:\d+\$)?#@([^@]*)@/g;
+
+// The type of argument a conversion reads; %d and %x read the same integer, %d and %lld do not
+function getArgumentType(conversion: string): string {
+    const length = conversion.slice(0, -1);
+    const character = conversion.slice(-1);
+    if (character === '@') return 'object';
+    if ('fFeEgGaA'.includes(character)) return 'double';
+    if (character === 's' || character === 'S') return 'C string';
+    if (character === 'p') return 'pointer';
+    if (character === 'c' || character === 'C') return 'character';
+    return ['l', 'll', 'q', 'j', 'z', 't'].includes(length) ? '64-bit integer' : '32-bit integer';
+}
+
+function describeType(type: string): string {
+    return /^[aeiou]/i.test(type) ? `an ${type}` : `a ${type}`;
+}
+
+// Maps each argument position to the placeholder that reads it, the way String(format:) numbers them
+function resolveArguments(text: string): { args: Map<number, ResolvedArgument>; positional: boolean; sequential: boolean } {
+    // As on Android, a '%' followed by a space is prose ("50% off"), not a placeholder
+    const specifiers = findFormatSpecifiers(text).filter(specifier => !specifier.options.includes(' '));
+    const args = new Map<number, ResolvedArgument>();
+    let next = 1;
+    for (const specifier of specifiers) {
+        const position = specifier.position ?? next++;
+        if (!args.has(position)) args.set(position, { raw: specifier.raw, type: getArgumentType(specifier.conversion) });
+    }
+    return {
+        args,
+        positional: specifiers.some(specifier => specifier.position !== undefined),
+        sequential: specifiers.some(specifier => specifier.position === undefined),
+    };
+}
+
+/**
+ * Compares the placeholders of a translated text with those of its source text.
+ * @param source The source language text, e.g. "%@ has %lld new messages".
+ * @param translation The translated text.
+ * @param allowMissing Whether the translation may leave placeholders out, as plural cases such as "one" ("One message") may.
+ * @returns A message for each problem; empty when the placeholders match.
+ */
+export function comparePlaceholders(source: string, translation: string, allowMissing = false): string[] {
+    const messages: string[] = [];
+    const expected = resolveArguments(source);
+    const actual = resolveArguments(translation);
+
+    if (actual.positional && actual.sequential) {
+        messages.push('Mixes numbered (%1$@) and unnumbered (%@) placeholders');
+    }
+
+    // Placeholders in a different order without positions: the same types, read from the wrong arguments
+    const expectedTypes = Array.from(expected.args.values()).map(arg => arg.type);
+    const actualTypes = Array.from(actual.args.keys()).sort((a, b) => a - b).map(position => actual.args.get(position)!.type);
+    const isReordered = !actual.positional && expectedTypes.length === actualTypes.length
+        && expectedTypes.join() !== actualTypes.join()
+        && [...expectedTypes].sort().join() === [...actualTypes].sort().join();
+    if (isReordered) {
+        messages.push('Placeholders are reordered without positions; number them as in %2$@ so each reads its own argument');
+    } else {
+        for (const [position, arg] of actual.args) {
+            const sourceArg = expected.args.get(position);
+            if (!sourceArg) {
+                messages.push(`'${arg.raw}' reads argument ${position}, which the source text does not pass`);
+            } else if (sourceArg.type !== arg.type) {
+                messages.push(`'${arg.raw}' reads argument ${position} as ${describeType(arg.type)}, but the source text passes ${describeType(sourceArg.type)} ('${sourceArg.raw}')`);
+            }
+        }
+        if (!allowMissing) {
+            for (const [position, sourceArg] of expected.args) {
+                if (!actual.args.has(position)) messages.push(`'${sourceArg.raw}' is missing`);
+            }
+        }
+    }
+
+    // %#@name@ tokens of a substitution have to survive translation for their plural phrase to be shown
+    const sourceTokens = new Set(Array.from(source.matchAll(SUBSTITUTION_TOKEN_REGEX), match => match[1]));
+    const translationTokens = new Set(Array.from(translation.matchAll(SUBSTITUTION_TOKEN_REGEX), match => match[1]));
+    for (const name of sourceTokens) {
+        if (!translationTokens.has(name)) messages.push(`The substitution '%#@${name}@' is missing`);
+    }
+    for (const name of translationTokens) {
+        if (!sourceTokens.has(name)) messages.push(`The substitution '%#@${name}@' is not in the source text`);
+    }
+
+    return messages;
+}
+
+function comparePlurals(key: string, langCode: string, source: StringValue, translation: PluralVariations, path: string, issues: PlaceholderIssue[]): void {
+    for (const category of PLURAL_CATEGORIES) {
+        const translationText = translation[category];
+        if (translationText === undefined) continue;
+        // Every case is given the same arguments, which the source "other" case uses most fully;
+        // other cases often spell the number out ("One file"), so they may leave it out
+        const sourceText = getFallbackText(source);
+        for (const message of comparePlaceholders(sourceText, translationText, category !== 'other')) {
+            issues.push({ key, langCode, path: joinPath(path, `plural.${category}`), message, sourceText, translationText });
+        }
+    }
+}
+
+function compareValues(key: string, langCode: string, source: StringValue, translation: StringValue, path: string, issues: PlaceholderIssue[]): void {
+    if (isDeviceVariations(translation)) {
+        for (const device of DEVICE_CATEGORIES) {
+            const translationVariant = translation[device];
+            if (translationVariant === undefined) continue;
+            const sourceVariant = isDeviceVariations(source) ? source[device] ?? source.other : source;
+            if (sourceVariant === undefined) continue;
+            compareValues(key, langCode, sourceVariant, translationVariant, joinPath(path, `device.${device}`), issues);
+        }
+        return;
+    }
+    if (isDeviceVariations(source)) {
+        const sourceVariant = source.other ?? DEVICE_CATEGORIES.map(device => source[device]).find(variant => variant !== undefined);
+        if (sourceVariant !== undefined) compareValues(key, langCode, sourceVariant, translation, path, issues);
+        return;
+    }
+    if (isPlural(translation)) {
+        comparePlurals(key, langCode, source, translation, path, issues);
+        return;
+    }
+
+    const sourceText = getFallbackText(source);
+    const translationText = getFallbackText(translation);
+    for (const message of comparePlaceholders(sourceText, translationText)) {
+        issues.push({ key, langCode, path, message, sourceText, translationText });
+    }
+    if (isSubstitution(translation) && isSubstitution(source)) {
+        for (const [name, substitution] of Object.entries(translation.substitutions)) {
+            const sourceSubstitution = source.substitutions[name];
+            if (!sourceSubstitution) continue;
+            comparePlurals(key, langCode, sourceSubstitution.variations, substitution.variations, joinPath(path, `substitutions.${name}`), issues);
+        }
+    }
+}
+
+/**
+ * Compares every text of a translation with the matching text of the source language,
+ * descending into plural cases, device variants and substitutions.
+ * @param key The string key, reported with each issue.
+ * @param langCode The language of the translation.
+ * @param source The source language value.
+ * @param translation The translated value.
+ * @returns The placeholder problems of the translation.
+ */
+export function validatePlaceholders(key: string, langCode: string, source: StringValue, translation: StringValue): PlaceholderIssue[] {
+    const issues: PlaceholderIssue[] = [];
+    compareValues(key, langCode, source, translation, '', issues);
+    return issues;
+}
+
+/**
+ * Checks the placeholders of every translation in a String Catalog. Keys without a source
+ * language localization are compared with the key itself, as Xcode uses it as the source text.
+ * @param doc The parsed catalog.
+ * @returns The placeholder problems of all keys and languages.
+ */
+export function validateCatalogPlaceholders(doc: XCStringsDocument): PlaceholderIssue[] {
+    const issues: PlaceholderIssue[] = [];
+    for (const [key, entry] of Object.entries(doc.strings || {})) {
+        if (entry.shouldTranslate === false) continue;
+        const localizations = entry.localizations || {};
+        const source = getLocalizationValue(localizations[doc.sourceLanguage]) ?? key;
+        for (const [langCode, localization] of Object.entries(localizations)) {
+            if (langCode === doc.sourceLanguage) continue;
+            const translation = getLocalizationValue(localization);
+            if (translation === undefined) continue;
+            issues.push(...validatePlaceholders(key, langCode, source, translation));
+        }
+    }
+    return issues;
+}
@@ -0,0 +1,148 @@
+/**
+ * Pseudo-localization Service
+ * Adds synthetic languages to a String Catalog so that truncation, hard-coded strings and
+ * right-to-left layout problems show up before real translations arrive:
+ * - `en-XA`: accented and expanded, "[Šéţţîñĝš one two]";
+ * - `ar-XB`: each word forced right-to-left with bidi control characters.
+ * Placeholders, Markdown and the plural, device and substitution structure are left intact.
+ */
+
+import { XCStringLocalization, XCStringsDocument } from '../types';
+import { cloneStringCatalogDocument, parseStringCatalogDocument, serializeStringCatalogDocument } from './stringCatalog';
+
+export type PseudoLocale = 'en-XA' | 'ar-XB';
+
+export const PSEUDO_LOCALES: { id: PseudoLocale; label: string; description: string }[] = [
+    { id: 'en-XA', label: 'Accented (en-XA)', description: 'Accented letters, expanded and bracketed to reveal truncation and hard-coded strings' },
+    { id: 'ar-XB', label: 'Right-to-left (ar-XB)', description: 'Words forced right-to-left with bidi marks to check mirrored layouts' },
+];
+
+export interface PseudoLocalizationOptions {
+    /** How much longer en-XA texts are made, in percent of their length; 30 by default. */
+    expansion?: number;
+}
+
+const DEFAULT_EXPANSION = 30;
+
+// Text that must reach the app unchanged: printf placeholders and substitution tokens (including
+// a substitution case's own %arg), Markdown code spans, link targets and HTML-style tags
+const PROTECTED_PATTERN = /%arg|%%|%(?:\d+\$)?#@[^@]*@|%(?:\d+\$)?[-+ 0#']*(?:\d+|\*)?(?:\.(?:\d+|\*))?(?:hh|h|ll|l|q|z|t|j|L)?[@dDiuUxXoOfFeEgGcCsSpaA]|`[^`]*`|\]\([^)]*\)|<[^>]+>/g;
+
+const ACCENTED: Record<string, string> = {
+    a: 'á', b: 'ƀ', c: 'ç', d: 'ð', e: 'é', f: 'ƒ', g: 'ĝ', h: 'ĥ', i: 'î', j: 'ĵ', k: 'ķ', l: 'ļ', m: 'ɱ',
+    n: 'ñ', o: 'ö', p: 'þ', q: 'ǫ', r: 'ŕ', s: 'š', t: 'ţ', u: 'û', v: 'ṽ', w: 'ŵ', x: 'ẋ', y: 'ý', z: 'ž',
+    A: 'Å', B: 'Ɓ', C: 'Ç', D: 'Ð', E: 'É', F: 'Ƒ', G: 'Ĝ', H: 'Ĥ', I: 'Î', J: 'Ĵ', K: 'Ķ', L: 'Ļ', M: 'Ṁ',
+    N: 'Ñ', O: 'Ö', P: 'Þ', Q: 'Ǫ', R: 'Ŕ', S: 'Š', T: 'Ţ', U: 'Û', V: 'Ṽ', W: 'Ŵ', X: 'Ẋ', Y: 'Ý', Z: 'Ž',
+};
+
+const EXPANSION_WORDS = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten'];
+
+const RLM = '\u200F';
+const RLO = '\u202E';
+const PDF = '\u202C';
+
+// Splits a text into the parts to transform and the protected parts between them
+function splitProtected(text: string): { text: string; isProtected: boolean }[] {
+    const parts: { text: string; isProtected: boolean }[] = [];
+    let lastIndex = 0;
+    for (const match of text.matchAll(PROTECTED_PATTERN)) {
+        const index = match.index ?? 0;
+        if (index > lastIndex) parts.push({ text: text.slice(lastIndex, index), isProtected: false });
+        parts.push({ text: match[0], isProtected: true });
+        lastIndex = index + match[0].length;
+    }
+    if (lastIndex < text.length) parts.push({ text: text.slice(lastIndex), isProtected: false });
+    return parts;
+}
+
+function accentText(text: string, expansion: number): string {
+    const parts = splitProtected(text);
+    const accented = parts.map(part => part.isProtected ? part.text : Array.from(part.text, char => ACCENTED[char] ?? char).join('')).join('');
+
+    // Pad with words until the text is the requested share longer, counting only the visible text
+    const visibleLength = parts.filter(part => !part.isProtected).reduce((length, part) => length + part.text.length, 0);
+    const padLength = Math.ceil(visibleLength * expansion / 100);
+    const padding: string[] = [];
+    for (let length = 0, i = 0; length < padLength; i++) {
+        const word = EXPANSION_WORDS[i % EXPANSION_WORDS.length];
+        padding.push(word);
+        length += word.length + 1;
+    }
+    return `[${accented}${padding.length > 0 ? ` ${padding.join(' ')}` : ''}]`;
+}
+
+function mirrorText(text: string): string {
+    // Only words are reversed; placeholders and Markdown markers stay left-to-right in between
+    return splitProtected(text)
+        .map(part => part.isProtected ? part.text : part.text.replace(/[\p{L}\p{N}'’]+/gu, word => `${RLM}${RLO}${word}${PDF}${RLM}`))
+        .join('');
+}
+
+/**
+ * Pseudo-localizes one text, leaving its placeholders, Markdown markers and tags intact.
+ * @param text The source text, e.g. "Delete %lld **files**?".
+ * @param locale The pseudo-locale to produce.
+ * @param options The expansion of en-XA texts.
+ * @returns The pseudo-localized text, e.g. "[Ðéļéţé %lld **ƒîļéš**? one two three]".
+ */
+export function pseudoLocalizeText(text: string, locale: PseudoLocale, options: PseudoLocalizationOptions = {}): string {
+    if (!text) return text;
+    return locale === 'en-XA' ? accentText(text, options.expansion ?? DEFAULT_EXPANSION) : mirrorText(text);
+}
+
+// Rewrites every string unit of a copied localization, keeping its variations and substitutions
+function pseudoLocalizeLocalization(localization: XCStringLocalization, locale: PseudoLocale, options: PseudoLocalizationOptions): XCStringLocalization {
+    const result: XCStringLocalization = {};
+    if (localization.stringUnit) {
+        result.stringUnit = { state: 'translated', value: pseudoLocalizeText(localization.stringUnit.value, locale, options) };
+    }
+    if (localization.variations) {
+        result.variations = {};
+        for (const [kind, cases] of Object.entries(localization.variations) as [keyof typeof localization.variations, Record<string, XCStringLocalization>][]) {
+            result.variations[kind] = Object.fromEntries(
+                Object.entries(cases).map(([name, variation]) => [name, pseudoLocalizeLocalization(variation, locale, options)]),
+            );
+        }
+    }
+    if (localization.substitutions) {
+        result.substitutions = Object.fromEntries(Object.entries(localization.substitutions).map(([name, substitution]) => [name, {
+            ...substitution,
+            variations: substitution.variations && pseudoLocalizeLocalization({ variations: substitution.variations }, locale, options).variations,
+        }]));
+    }
+    return result;
+}
+
+/**
+ * Adds pseudo-localized languages to a String Catalog, generated from the source language.
+ * Keys without a source localization are pseudo-localized from the key itself, which Xcode
+ * uses as their source text. Keys marked `shouldTranslate: false` are left out.
+ * @param doc The catalog document; it is not modified.
+ * @param locales The pseudo-locales to add; existing localizations of them are replaced.
+ * @param options The expansion of en-XA texts.
+ * @returns A copy of the catalog with the pseudo-locales added.
+ */
+export function pseudoLocalizeCatalogDocument(doc: XCStringsDocument, locales: PseudoLocale[], options: PseudoLocalizationOptions = {}): XCStringsDocument {
+    const result = cloneStringCatalogDocument(doc);
+    for (const [key, entry] of Object.entries(result.strings)) {
+        if (entry.shouldTranslate === false) continue;
+        const source: XCStringLocalization = entry.localizations?.[doc.sourceLanguage] ?? { stringUnit: { state: 'translated', value: key } };
+        entry.localizations = entry.localizations || {};
+        for (const locale of locales) {
+            entry.localizations[locale] = pseudoLocalizeLocalization(source, locale, options);
+        }
+    }
+    return result;
+}
+
+/**
+ * Adds pseudo-localized languages to the content of a .xcstrings file.
+ * @param content The .xcstrings file content.
+ * @param locales The pseudo-locales to add.
+ * @param options The expansion of en-XA texts.
+ * @returns The updated .xcstrings file content.
+ * @throws {Error} If the content is not a valid String Catalog.
+ */
+export function pseudoLocalizeCatalog(content: string, locales: PseudoLocale[], options: PseudoLocalizationOptions = {}): string {
+    return serializeStringCatalogDocument(pseudoLocalizeCatalogDocument(parseStringCatalogDocument(content), locales, options));
+}
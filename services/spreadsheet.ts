@@ -0,0 +1,509 @@
+/**
+ * Spreadsheet Service
+ * Exports multi-language strings to a CSV/TSV grid for review in a spreadsheet, and applies
+ * the edited grid back onto a String Catalog.
+ */
+
+import {
+    ParsedMultiLanguageStrings, StringComments, StringValue, PluralVariations, DeviceVariations, DeviceCategory,
+    PluralSubstitution, XCStringsDocument, XCStringState, isPlural, isDeviceVariations, isSubstitution,
+} from '../types';
+import {
+    parseStringCatalogDocument,
+    serializeStringCatalogDocument,
+    getLocalizationValue,
+    buildLocalization,
+    ensureCatalogEntry,
+    collectStringUnits,
+    PLURAL_CATEGORIES,
+    DEVICE_CATEGORIES,
+} from './stringCatalog';
+
+export type SpreadsheetFormat = 'csv' | 'tsv';
+
+export interface SpreadsheetCellChange {
+    /** Line of the row in the sheet; the header is row 1. */
+    row: number;
+    /** The row key as written in the sheet, e.g. "items_count[one]". */
+    rowKey: string;
+    /** The language code, or "comment". */
+    column: string;
+    previous?: string;
+    value: string;
+}
+
+export interface SpreadsheetImportIssue {
+    row: number;
+    rowKey?: string;
+    column?: string;
+    message: string;
+}
+
+export interface SpreadsheetImportResult {
+    /** The updated .xcstrings content. */
+    content: string;
+    /** Cells whose text differs from the catalog. */
+    changed: SpreadsheetCellChange[];
+    /** Cells for keys, languages or plural forms the catalog did not have yet. */
+    added: SpreadsheetCellChange[];
+    /** Cells that were not applied. */
+    invalid: SpreadsheetImportIssue[];
+}
+
+const KEY_COLUMN = 'key';
+const COMMENT_COLUMN = 'comment';
+const STATE_COLUMN = 'state';
+
+// A row key ends with one bracketed segment per variation level: "key[one]", "key[ipad][other]", "key[files][one]"
+const ROW_KEY_SEGMENTS = /^(.+?)((?:\[[^[\]]+\])+)$/;
+
+const LANGUAGE_CODE = /^[a-zA-Z]{2,3}(?:[-_][a-zA-Z0-9]{2,8})*$/;
+
+// Cells starting with these are run as formulas by spreadsheet apps; leading apostrophes are counted
+// so a text that starts with one and then a formula character survives the round trip
+const FORMULA_CELL = /^'*[=+\-@\t\r]/;
+
+// Severity order used to summarize the states of a key's string units
+const STATE_SEVERITY: XCStringState[] = ['translated', 'new', 'needs_review', 'stale'];
+
+function getDelimiter(format: SpreadsheetFormat): string {
+    return format === 'tsv' ? '\t' : ',';
+}
+
+/**
+ * Splits delimited text into rows of cells, following RFC 4180: quoted cells may contain the
+ * delimiter, line breaks and doubled quotes.
+ * @param content The CSV or TSV content.
+ * @param format Which delimiter separates the cells.
+ * @returns The rows, without the trailing empty line.
+ */
+export function parseDelimited(content: string, format: SpreadsheetFormat): string[][] {
+    const delimiter = getDelimiter(format);
+    const text = content.replace(/^\uFEFF/, '');
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                cell += ch;
+            }
+        } else if (ch === '"' && cell === '') {
+            quoted = true;
+        } else if (ch === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += ch;
+        }
+    }
+    if (cell !== '' || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows;
+}
+
+/**
+ * Joins rows of cells into delimited text, quoting cells that contain the delimiter, quotes,
+ * line breaks or surrounding whitespace.
+ * @param rows The rows of cells.
+ * @param format Which delimiter separates the cells.
+ * @returns The CSV or TSV content.
+ */
+export function serializeDelimited(rows: string[][], format: SpreadsheetFormat): string {
+    const delimiter = getDelimiter(format);
+    const quote = (cell: string) => cell.includes(delimiter) || /["\r\n]|^\s|\s$/.test(cell)
+        ? `"${cell.replace(/"/g, '""')}"`
+        : cell;
+    return rows.map(row => row.map(quote).join(delimiter)).join('\r\n') + '\r\n';
+}
+
+// "=SUM(A1)" → "'=SUM(A1)", so a spreadsheet shows the text instead of running it
+function escapeFormulaCell(cell: string): string {
+    return FORMULA_CELL.test(cell) ? `'${cell}` : cell;
+}
+
+function unescapeFormulaCell(cell: string): string {
+    return cell.startsWith("'") && FORMULA_CELL.test(cell.slice(1)) ? cell.slice(1) : cell;
+}
+
+/**
+ * Lists the cells of a value: a plain string is one cell with an empty path; variations get
+ * one cell per case, addressed by bracketed segments ("[one]", "[ipad][other]", "[files][one]").
+ * The format of a substitution string is the cell with the empty path.
+ */
+function flattenStringValue(value: StringValue): Record<string, string> {
+    const cells: Record<string, string> = {};
+    const addPlural = (prefix: string, variations: PluralVariations) => {
+        for (const category of PLURAL_CATEGORIES) {
+            if (variations[category] !== undefined) cells[`${prefix}[${category}]`] = variations[category]!;
+        }
+    };
+
+    if (isPlural(value)) {
+        addPlural('', value);
+    } else if (isDeviceVariations(value)) {
+        for (const device of DEVICE_CATEGORIES) {
+            const deviceValue = value[device];
+            if (deviceValue === undefined) continue;
+            if (isPlural(deviceValue)) {
+                addPlural(`[${device}]`, deviceValue);
+            } else {
+                cells[`[${device}]`] = deviceValue;
+            }
+        }
+    } else if (isSubstitution(value)) {
+        cells[''] = value.format;
+        for (const [name, substitution] of Object.entries(value.substitutions)) {
+            addPlural(`[${name}]`, substitution.variations);
+        }
+    } else {
+        cells[''] = value;
+    }
+    return cells;
+}
+
+function splitPath(path: string): string[] {
+    return Array.from(path.matchAll(/\[([^[\]]+)\]/g), match => match[1]);
+}
+
+const isPluralCategory = (segment: string) => (PLURAL_CATEGORIES as readonly string[]).includes(segment);
+const isDeviceCategory = (segment: string) => (DEVICE_CATEGORIES as string[]).includes(segment);
+
+function toPluralVariations(cases: Record<string, string>, label: string): PluralVariations {
+    if (cases.other === undefined) {
+        throw new Error(`${label} has no 'other' plural form.`);
+    }
+    return { _isPlural: true, ...cases, other: cases.other };
+}
+
+/**
+ * Rebuilds a value from its cells. The kind of value follows the template (the value already in
+ * the catalog, or that of another language) and is otherwise inferred from the paths.
+ * @throws If the cells do not form a valid value of that kind.
+ */
+function unflattenStringValue(cells: Record<string, string>, template?: StringValue): StringValue {
+    const paths = Object.keys(cells).map(path => ({ path, segments: splitPath(path) }));
+    const hasPlain = cells[''] !== undefined;
+    const nested = paths.filter(({ segments }) => segments.length > 0);
+
+    let kind: 'string' | 'plural' | 'device' | 'substitution';
+    if (template !== undefined) {
+        kind = isPlural(template) ? 'plural' : isDeviceVariations(template) ? 'device' : isSubstitution(template) ? 'substitution' : 'string';
+    } else if (nested.length === 0) {
+        kind = 'string';
+    } else if (hasPlain) {
+        kind = 'substitution';
+    } else if (nested.some(({ segments }) => !isPluralCategory(segments[0]) || segments.length > 1)) {
+        kind = 'device';
+    } else {
+        kind = 'plural';
+    }
+
+    const unexpected = (path: string) => new Error(`The row '${path || '(no variation)'}' does not fit a ${kind === 'string' ? 'plain string' : `${kind} value`}.`);
+
+    if (kind === 'string') {
+        if (nested.length > 0) throw unexpected(nested[0].path);
+        return cells[''];
+    }
+
+    if (kind === 'plural') {
+        if (hasPlain) throw unexpected('');
+        const cases: Record<string, string> = {};
+        for (const { path, segments } of nested) {
+            if (segments.length !== 1 || !isPluralCategory(segments[0])) throw unexpected(path);
+            cases[segments[0]] = cells[path];
+        }
+        return toPluralVariations(cases, 'The plural');
+    }
+
+    if (kind === 'device') {
+        if (hasPlain) throw unexpected('');
+        const value: DeviceVariations = { _isDevice: true };
+        const pluralCases: Partial<Record<DeviceCategory, Record<string, string>>> = {};
+        for (const { path, segments } of nested) {
+            const device = segments[0] as DeviceCategory;
+            if (!isDeviceCategory(device) || segments.length > 2 || (segments.length === 2 && !isPluralCategory(segments[1]))) throw unexpected(path);
+            if (segments.length === 1) {
+                value[device] = cells[path];
+            } else {
+                (pluralCases[device] ??= {})[segments[1]] = cells[path];
+            }
+        }
+        for (const [device, cases] of Object.entries(pluralCases)) {
+            if (value[device as DeviceCategory] !== undefined) {
+                throw new Error(`The device '${device}' has both a plain value and plural forms.`);
+            }
+            value[device as DeviceCategory] = toPluralVariations(cases, `The device '${device}'`);
+        }
+        return value;
+    }
+
+    if (!hasPlain) {
+        throw new Error("A substitution string needs a row for its format.");
+    }
+    const templateSubstitutions = template && isSubstitution(template) ? template.substitutions : {};
+    const variableCases: Record<string, Record<string, string>> = {};
+    for (const { path, segments } of nested) {
+        if (segments.length !== 2 || !isPluralCategory(segments[1])) throw unexpected(path);
+        (variableCases[segments[0]] ??= {})[segments[1]] = cells[path];
+    }
+    const referenced = Array.from(cells[''].matchAll(/%(?:\d+\$)?#@([^@]+)@/g), match => match[1]);
+    const missing = referenced.find(name => !variableCases[name]);
+    if (missing) {
+        throw new Error(`The format uses '%#@${missing}@' but there are no plural forms for '${missing}'.`);
+    }
+    const unused = Object.keys(variableCases).find(name => !referenced.includes(name));
+    if (unused) {
+        throw new Error(`The format does not use the variable '${unused}'.`);
+    }
+    const substitutions: Record<string, PluralSubstitution> = {};
+    Object.entries(variableCases).forEach(([name, cases], index) => {
+        substitutions[name] = {
+            argNum: templateSubstitutions[name]?.argNum ?? index + 1,
+            formatSpecifier: templateSubstitutions[name]?.formatSpecifier ?? 'lld',
+            variations: toPluralVariations(cases, `The variable '${name}'`),
+        };
+    });
+    return { _isSubstitution: true, format: cells[''], substitutions };
+}
+
+function getRequiredPluralCategories(language: string): string[] {
+    try {
+        return new Intl.PluralRules(language).resolvedOptions().pluralCategories;
+    } catch {
+        return ['other'];
+    }
+}
+
+/**
+ * Summarizes the state of each key of a catalog: the most severe state of its string units
+ * (`stale` > `needs_review` > `new` > `translated`), `new` when a catalog language has no
+ * localization for the key, and `stale` for keys Xcode marked as stale.
+ * @param catalogContent The content of the .xcstrings file.
+ * @returns A record of keys to their state.
+ */
+export function getCatalogKeyStates(catalogContent: string): Record<string, XCStringState> {
+    const catalog = parseStringCatalogDocument(catalogContent);
+    const languages = new Set(Object.values(catalog.strings).flatMap(entry => Object.keys(entry.localizations || {})));
+    const states: Record<string, XCStringState> = {};
+
+    for (const [key, entry] of Object.entries(catalog.strings)) {
+        const localizations = entry.localizations || {};
+        const candidates: XCStringState[] = Object.values(localizations).flatMap(collectStringUnits).map(unit => unit.state);
+        if (entry.shouldTranslate !== false && Array.from(languages).some(language => !localizations[language])) candidates.push('new');
+        if (entry.extractionState === 'stale') candidates.push('stale');
+
+        states[key] = candidates.reduce<XCStringState>((worst, state) =>
+            STATE_SEVERITY.indexOf(state) > STATE_SEVERITY.indexOf(worst) ? state : worst, 'translated');
+    }
+    return states;
+}
+
+/**
+ * Builds a spreadsheet with a `key`, `comment` and `state` column and one column per language.
+ * Plural, device and substitution cases get a row each (`key[one]`, `key[ipad]`,
+ * `key[files][one]`); plurals also get a row for every form the exported languages need. Cells a
+ * spreadsheet would run as a formula (starting with `=`, `+`, `-` or `@`) are prefixed with `'`,
+ * which `importSpreadsheetIntoCatalog` removes again.
+ * @param data The strings of every language.
+ * @param languages The languages to export, in column order.
+ * @param format CSV or TSV.
+ * @param comments Optional comments for each key.
+ * @param states Optional state of each key, see `getCatalogKeyStates`.
+ * @returns The spreadsheet content. CSV starts with a byte order mark so Excel reads it as UTF-8.
+ */
+export function generateSpreadsheet(
+    data: ParsedMultiLanguageStrings,
+    languages: string[],
+    format: SpreadsheetFormat,
+    comments?: StringComments,
+    states?: Record<string, string>
+): string {
+    const rows: string[][] = [[KEY_COLUMN, COMMENT_COLUMN, STATE_COLUMN, ...languages]];
+    const requiredCategories = new Set(languages.flatMap(getRequiredPluralCategories));
+
+    for (const [key, values] of Object.entries(data)) {
+        const cellsByLanguage = Object.fromEntries(languages.map(language =>
+            [language, values[language] !== undefined ? flattenStringValue(values[language]) : {}]));
+
+        const paths = new Set<string>();
+        for (const cells of Object.values(cellsByLanguage)) {
+            Object.keys(cells).forEach(path => paths.add(path));
+        }
+        if (Object.values(values).some(isPlural)) {
+            PLURAL_CATEGORIES.filter(category => requiredCategories.has(category)).forEach(category => paths.add(`[${category}]`));
+        }
+        if (paths.size === 0) paths.add('');
+
+        // Keep devices and plural forms in catalog order whatever language contributed them
+        const rank = (path: string) => splitPath(path).map(segment => {
+            if (isPluralCategory(segment)) return `p${PLURAL_CATEGORIES.indexOf(segment as typeof PLURAL_CATEGORIES[number])}`;
+            if (isDeviceCategory(segment)) return `d${DEVICE_CATEGORIES.indexOf(segment as DeviceCategory)}`;
+            return `n${segment}`;
+        }).join('\u0000');
+        const sortedPaths = Array.from(paths).sort((a, b) => a === '' ? -1 : b === '' ? 1 : rank(a).localeCompare(rank(b)));
+
+        sortedPaths.forEach((path, index) => {
+            rows.push([
+                `${key}${path}`,
+                index === 0 ? comments?.[key] ?? '' : '',
+                index === 0 ? states?.[key] ?? '' : '',
+                ...languages.map(language => cellsByLanguage[language][path] ?? ''),
+            ]);
+        });
+    }
+
+    const content = serializeDelimited(rows.map(row => row.map(escapeFormulaCell)), format);
+    return format === 'csv' ? `\uFEFF${content}` : content;
+}
+
+interface SheetRow {
+    row: number;
+    rowKey: string;
+    path: string;
+    comment: string;
+    cells: Record<string, string>;
+}
+
+function splitRowKey(rowKey: string, catalog: XCStringsDocument): { key: string; path: string } {
+    // A key that itself ends in brackets (e.g. "items[0]") is matched whole first
+    if (catalog.strings[rowKey]) return { key: rowKey, path: '' };
+    const match = rowKey.match(ROW_KEY_SEGMENTS);
+    return match ? { key: match[1], path: match[2] } : { key: rowKey, path: '' };
+}
+
+/**
+ * Applies an edited spreadsheet (as written by `generateSpreadsheet`) to a String Catalog.
+ * Non-empty cells overwrite the catalog and mark the edited unit as translated; empty cells leave
+ * the catalog unchanged, so nothing is ever deleted. Comments are updated from the `comment`
+ * column; the `state` column is informational and ignored. The `'` written before cells that
+ * start like a formula is removed.
+ * @param catalogContent The content of the .xcstrings file to update.
+ * @param sheetContent The content of the CSV or TSV file.
+ * @param format CSV or TSV.
+ * @returns The updated catalog and a report of changed, added and invalid cells.
+ * @throws If the sheet has no `key` column.
+ */
+export function importSpreadsheetIntoCatalog(catalogContent: string, sheetContent: string, format: SpreadsheetFormat): SpreadsheetImportResult {
+    const catalog = parseStringCatalogDocument(catalogContent);
+    const [header = [], ...sheetBody] = parseDelimited(sheetContent, format);
+    const body = sheetBody.map(cells => cells.map(unescapeFormulaCell));
+    const columns = header.map(cell => cell.trim());
+
+    const keyIndex = columns.findIndex(column => column.toLowerCase() === KEY_COLUMN);
+    if (keyIndex === -1) {
+        throw new Error(`Invalid spreadsheet. The first row must name a '${KEY_COLUMN}' column.`);
+    }
+    const commentIndex = columns.findIndex(column => column.toLowerCase() === COMMENT_COLUMN);
+
+    const result: SpreadsheetImportResult = { content: catalogContent, changed: [], added: [], invalid: [] };
+    const languageColumns: { index: number; language: string }[] = [];
+    columns.forEach((column, index) => {
+        if (!column || [KEY_COLUMN, COMMENT_COLUMN, STATE_COLUMN].includes(column.toLowerCase())) return;
+        if (LANGUAGE_CODE.test(column)) {
+            languageColumns.push({ index, language: column });
+        } else {
+            result.invalid.push({ row: 1, column, message: `'${column}' is not a language code; the column was ignored.` });
+        }
+    });
+
+    // Group the rows by catalog key
+    const rowsByKey = new Map<string, SheetRow[]>();
+    const seenRowKeys = new Set<string>();
+    body.forEach((cells, index) => {
+        const row = index + 2;
+        const rowKey = (cells[keyIndex] || '').trim();
+        const values = Object.fromEntries(languageColumns
+            .map(({ index, language }) => [language, cells[index] ?? ''])
+            .filter(([, value]) => value !== ''));
+        const comment = commentIndex === -1 ? '' : cells[commentIndex] ?? '';
+
+        if (!rowKey) {
+            if (Object.keys(values).length > 0) result.invalid.push({ row, message: 'The row has translations but no key.' });
+            return;
+        }
+        if (seenRowKeys.has(rowKey)) {
+            result.invalid.push({ row, rowKey, message: `'${rowKey}' appears more than once; only the first row was applied.` });
+            return;
+        }
+        seenRowKeys.add(rowKey);
+
+        const { key, path } = splitRowKey(rowKey, catalog);
+        if (!rowsByKey.has(key)) rowsByKey.set(key, []);
+        rowsByKey.get(key)!.push({ row, rowKey, path, comment, cells: values });
+    });
+
+    for (const [key, rows] of rowsByKey) {
+        const entry = catalog.strings[key];
+
+        const commentRow = rows.find(row => row.comment.trim() !== '');
+        if (commentRow && commentRow.comment !== (entry?.comment ?? '')) {
+            const change = { row: commentRow.row, rowKey: commentRow.rowKey, column: COMMENT_COLUMN, previous: entry?.comment, value: commentRow.comment };
+            (entry?.comment ? result.changed : result.added).push(change);
+            ensureCatalogEntry(catalog, key).comment = commentRow.comment;
+        }
+
+        for (const { language } of languageColumns) {
+            const sheetRows = rows.filter(row => row.cells[language] !== undefined);
+            if (sheetRows.length === 0) continue;
+
+            const localizations = entry?.localizations || {};
+            const reject = (message: string) => sheetRows.forEach(row => result.invalid.push({ row: row.row, rowKey: row.rowKey, column: language, message }));
+            if (entry?.shouldTranslate === false && language !== catalog.sourceLanguage) {
+                reject(`'${key}' is marked as not translatable.`);
+                continue;
+            }
+
+            const existing = getLocalizationValue(localizations[language]);
+            const template = existing
+                ?? getLocalizationValue(localizations[catalog.sourceLanguage])
+                ?? Object.values(localizations).map(getLocalizationValue).find(value => value !== undefined);
+            const currentCells = existing !== undefined ? flattenStringValue(existing) : {};
+            const mergedCells = { ...currentCells };
+            for (const row of sheetRows) mergedCells[row.path] = row.cells[language];
+
+            let value: StringValue;
+            try {
+                value = unflattenStringValue(mergedCells, template);
+            } catch (e: any) {
+                reject(e.message);
+                continue;
+            }
+
+            let edited = false;
+            for (const row of sheetRows) {
+                const previous = currentCells[row.path];
+                const cellValue = row.cells[language];
+                if (previous === cellValue) continue;
+                (previous === undefined ? result.added : result.changed).push({ row: row.row, rowKey: row.rowKey, column: language, previous, value: cellValue });
+                edited = true;
+            }
+            if (!edited) continue;
+
+            const target = ensureCatalogEntry(catalog, key);
+            if (!target.localizations) target.localizations = {};
+            target.localizations[language] = buildLocalization(value, target.localizations[language]);
+        }
+    }
+
+    if (result.changed.length > 0 || result.added.length > 0) {
+        result.content = serializeStringCatalogDocument(catalog);
+    }
+    return result;
+}
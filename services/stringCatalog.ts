@@ -0,0 +1,322 @@
+/**
+ * String Catalog Service
+ * Lossless reading and writing of Xcode String Catalog (.xcstrings) documents.
+ * Unknown fields are carried through untouched so that edits never drop Xcode metadata.
+ */
+
+import {
+    XCStringsDocument, XCStringEntry, XCStringLocalization, XCStringUnit, XCStringSubstitution,
+    StringValue, PluralVariations, DeviceVariations, DeviceCategory, SubstitutionString, PluralSubstitution,
+    isPlural, isDeviceVariations, isSubstitution,
+} from '../types';
+
+export const PLURAL_CATEGORIES = ['zero', 'one', 'two', 'few', 'many', 'other'] as const;
+
+export const DEVICE_CATEGORIES: DeviceCategory[] = ['iphone', 'ipod', 'ipad', 'mac', 'applewatch', 'appletv', 'applevision', 'other'];
+
+/**
+ * Appends a segment to the path of a text within a value, e.g. "device.iphone" + "plural.one".
+ */
+export function joinPath(path: string, segment: string): string {
+    return path ? `${path}.${segment}` : segment;
+}
+
+/**
+ * Lists every text of a value by its path: "" for a plain string or the format of a substitution,
+ * "plural.one", "device.ipad.plural.other" and "substitutions.files.plural.one" for the others.
+ * @param value The value; undefined gives no texts.
+ * @param path The path of the value itself, prefixed to every path.
+ * @param texts The map to add the texts to.
+ * @returns The texts by path.
+ */
+export function collectTexts(value: StringValue | undefined, path = '', texts = new Map<string, string>()): Map<string, string> {
+    if (value === undefined) return texts;
+    if (typeof value === 'string') {
+        texts.set(path, value);
+    } else if (isPlural(value)) {
+        for (const category of PLURAL_CATEGORIES) {
+            const caseText = value[category];
+            if (caseText !== undefined) texts.set(joinPath(path, `plural.${category}`), caseText);
+        }
+    } else if (isSubstitution(value)) {
+        texts.set(path, value.format);
+        for (const [name, substitution] of Object.entries(value.substitutions)) {
+            collectTexts(substitution.variations, joinPath(path, `substitutions.${name}`), texts);
+        }
+    } else if (isDeviceVariations(value)) {
+        for (const device of DEVICE_CATEGORIES) {
+            const deviceValue = value[device];
+            if (deviceValue !== undefined) collectTexts(deviceValue, joinPath(path, `device.${device}`), texts);
+        }
+    }
+    return texts;
+}
+
+/**
+ * Returns the text that stands for a whole value: the `other` case of a plural, the format of a
+ * substitution, and the `other` (or first) variant of a device variation.
+ */
+export function getFallbackText(value: StringValue): string {
+    if (typeof value === 'string') return value;
+    if (isPlural(value)) return value.other;
+    if (isSubstitution(value)) return value.format;
+    const fallback = value.other ?? DEVICE_CATEGORIES.map(device => value[device]).find(deviceValue => deviceValue !== undefined);
+    return fallback === undefined ? '' : getFallbackText(fallback);
+}
+
+const INDENT = '  ';
+
+// Xcode writes catalogs through JSONSerialization with sorted keys, which compares keys
+// numerically, case-insensitively and with forced ordering in the system locale.
+const keyCollator = new Intl.Collator('en', { numeric: true, sensitivity: 'accent' });
+
+/**
+ * Parses the content of a .xcstrings file into a typed document, keeping every field.
+ * @param content The JSON string content of the .xcstrings file.
+ * @returns The catalog document.
+ */
+export function parseStringCatalogDocument(content: string): XCStringsDocument {
+    let json: any;
+    try {
+        json = JSON.parse(content);
+    } catch (e: any) {
+        throw new Error(`Invalid .xcstrings file format. ${e.message}`);
+    }
+
+    if (!json || typeof json !== 'object' || Array.isArray(json)) {
+        throw new Error("Invalid .xcstrings file format. Expected a JSON object.");
+    }
+    if (!json.strings || typeof json.strings !== 'object' || !json.sourceLanguage) {
+        throw new Error("Invalid .xcstrings file format. Missing 'strings' or 'sourceLanguage'.");
+    }
+
+    return json as XCStringsDocument;
+}
+
+/**
+ * Compares two object keys the way Xcode orders them in a String Catalog.
+ * Keys that only differ by case fall back to a plain code unit comparison so the order is total.
+ */
+export function compareCatalogKeys(a: string, b: string): number {
+    const result = keyCollator.compare(a, b);
+    if (result !== 0) return result;
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Serializes a catalog document exactly as Xcode writes it: keys sorted at every level
+ * with Xcode's comparison rules, two-space indentation, `"key" : value` separators,
+ * `/` escaped as `\/`, empty objects spanning a blank line, and a trailing newline.
+ * @param doc The catalog document.
+ * @returns The .xcstrings file content.
+ */
+export function serializeStringCatalogDocument(doc: XCStringsDocument): string {
+    return serializeXcodeJson(doc);
+}
+
+/**
+ * Serializes any JSON value with the layout Xcode uses for the JSON files it writes
+ * (String Catalogs, .xcloc `contents.json`).
+ */
+export function serializeXcodeJson(value: unknown): string {
+    return `${writeJsonValue(value, 0)}\n`;
+}
+
+/**
+ * Writes a string as a JSON string literal the way Xcode does, with `/` escaped as `\/`.
+ * @param text The string.
+ * @returns The quoted literal, e.g. `"MM\/dd"`.
+ */
+export function quoteXcodeJsonString(text: string): string {
+    return JSON.stringify(text).replace(/\//g, '\\/');
+}
+
+function writeJsonValue(value: unknown, depth: number): string {
+    const closingPad = INDENT.repeat(depth);
+    const pad = INDENT.repeat(depth + 1);
+
+    if (Array.isArray(value)) {
+        if (value.length === 0) return `[\n\n${closingPad}]`;
+        const items = value.map(item => `${pad}${writeJsonValue(item, depth + 1)}`);
+        return `[\n${items.join(',\n')}\n${closingPad}]`;
+    }
+
+    if (value !== null && typeof value === 'object') {
+        const entries = Object.entries(value)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => compareCatalogKeys(a, b));
+        if (entries.length === 0) return `{\n\n${closingPad}}`;
+        const members = entries.map(([k, v]) => `${pad}${quoteXcodeJsonString(k)} : ${writeJsonValue(v, depth + 1)}`);
+        return `{\n${members.join(',\n')}\n${closingPad}}`;
+    }
+
+    if (typeof value === 'string') return quoteXcodeJsonString(value);
+    return JSON.stringify(value ?? null);
+}
+
+/**
+ * Creates an empty catalog document.
+ * @param sourceLanguage The source language code (e.g., "en").
+ */
+export function createStringCatalogDocument(sourceLanguage: string): XCStringsDocument {
+    return { sourceLanguage, strings: {}, version: "1.0" };
+}
+
+/**
+ * Deep copies a catalog document so it can be edited without touching the original.
+ */
+export function cloneStringCatalogDocument(doc: XCStringsDocument): XCStringsDocument {
+    return JSON.parse(JSON.stringify(doc));
+}
+
+/**
+ * Reads the simplified value of a localization: a plain string, plural variations,
+ * or device variations (whose cases may in turn vary by plural).
+ * @returns The value, or undefined when the localization has no usable content.
+ */
+export function getLocalizationValue(localization: XCStringLocalization | undefined): StringValue | undefined {
+    if (!localization) return undefined;
+
+    const device = localization.variations?.device;
+    if (device) {
+        const deviceData: DeviceVariations = { _isDevice: true };
+        let hasValue = false;
+        for (const [deviceKey, deviceLocalization] of Object.entries(device)) {
+            const deviceValue = getLocalizationValue(deviceLocalization);
+            if (deviceValue === undefined || isDeviceVariations(deviceValue) || isSubstitution(deviceValue)) continue;
+            deviceData[deviceKey as DeviceCategory] = deviceValue;
+            hasValue = true;
+        }
+        return hasValue ? deviceData : undefined;
+    }
+
+    const plural = localization.variations?.plural;
+    if (plural) {
+        return readPluralVariations(plural);
+    }
+
+    if (localization.substitutions && localization.stringUnit?.value) {
+        const substitutions: Record<string, PluralSubstitution> = {};
+        for (const [name, substitution] of Object.entries(localization.substitutions)) {
+            const specifier = substitution.formatSpecifier || 'lld';
+            const variations = substitution.variations?.plural && readPluralVariations(substitution.variations.plural, `%${specifier}`);
+            if (!variations) continue;
+            substitutions[name] = { argNum: substitution.argNum, formatSpecifier: specifier, variations };
+        }
+        if (Object.keys(substitutions).length > 0) {
+            return { _isSubstitution: true, format: localization.stringUnit.value, substitutions };
+        }
+    }
+
+    if (localization.stringUnit?.value) {
+        return localization.stringUnit.value;
+    }
+    return undefined;
+}
+
+// Substitution cases refer to their own argument as `%arg`; the simplified model uses the concrete specifier
+function readPluralVariations(plural: Record<string, XCStringLocalization>, argReplacement?: string): PluralVariations | undefined {
+    const pluralData: Partial<Omit<PluralVariations, '_isPlural'>> = {};
+    for (const category of PLURAL_CATEGORIES) {
+        const pluralValue = plural[category]?.stringUnit?.value;
+        if (pluralValue === undefined) continue;
+        pluralData[category] = argReplacement ? pluralValue.replace(/%arg/g, argReplacement) : pluralValue;
+    }
+    if (pluralData.other === undefined) return undefined;
+    return { _isPlural: true, ...pluralData, other: pluralData.other };
+}
+
+function buildPluralCases(value: PluralVariations, existingPlural: Record<string, XCStringLocalization>, specifier?: string): Record<string, XCStringLocalization> {
+    const argPattern = specifier ? new RegExp(`%(?:\\d+\\$)?${specifier.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'g') : null;
+    const plural: Record<string, XCStringLocalization> = {};
+    for (const category of PLURAL_CATEGORIES) {
+        let categoryValue = value[category];
+        if (categoryValue === undefined) continue;
+        if (argPattern) categoryValue = categoryValue.replace(argPattern, '%arg');
+        const previous = existingPlural[category];
+        plural[category] = previous?.stringUnit?.value === categoryValue
+            ? previous
+            : { stringUnit: { state: "translated", value: categoryValue } };
+    }
+    return plural;
+}
+
+/**
+ * Collects every string unit of a localization, descending into device and plural variations.
+ */
+export function collectStringUnits(localization: XCStringLocalization | undefined): XCStringUnit[] {
+    if (!localization) return [];
+    const units: XCStringUnit[] = [];
+    if (localization.stringUnit) units.push(localization.stringUnit);
+    const { plural, device } = localization.variations || {};
+    for (const variation of [...Object.values(device || {}), ...Object.values(plural || {})]) {
+        units.push(...collectStringUnits(variation));
+    }
+    for (const substitution of Object.values(localization.substitutions || {})) {
+        units.push(...collectStringUnits({ variations: substitution.variations }));
+    }
+    return units;
+}
+
+/**
+ * Builds the catalog localization for a simplified value, reusing whatever the existing
+ * localization already holds: unchanged units keep their state and unrelated fields are preserved.
+ * @param value The new value for the localization.
+ * @param existing The localization currently in the catalog, if any.
+ * @returns The updated localization.
+ */
+export function buildLocalization(value: StringValue, existing?: XCStringLocalization): XCStringLocalization {
+    const { stringUnit: existingUnit, variations: existingVariations, ...rest } = existing || {};
+
+    if (isDeviceVariations(value)) {
+        const existingDevice = existingVariations?.device || {};
+        const device: Record<string, XCStringLocalization> = {};
+        for (const deviceKey of DEVICE_CATEGORIES) {
+            const deviceValue = value[deviceKey];
+            if (deviceValue === undefined) continue;
+            device[deviceKey] = buildLocalization(deviceValue, existingDevice[deviceKey]);
+        }
+        return { ...rest, variations: { device } };
+    }
+
+    const { substitutions: existingSubstitutions, ...unrelated } = rest;
+
+    if (isPlural(value)) {
+        const plural = buildPluralCases(value, existingVariations?.plural || {});
+        return { ...unrelated, variations: { plural } };
+    }
+
+    if (isSubstitution(value)) {
+        const substitutions: Record<string, XCStringSubstitution> = {};
+        for (const [name, substitution] of Object.entries(value.substitutions)) {
+            const previous = existingSubstitutions?.[name];
+            substitutions[name] = {
+                ...previous,
+                argNum: substitution.argNum ?? previous?.argNum,
+                formatSpecifier: substitution.formatSpecifier,
+                variations: { plural: buildPluralCases(substitution.variations, previous?.variations?.plural || {}, substitution.formatSpecifier) },
+            };
+        }
+        return { ...unrelated, stringUnit: buildStringUnit(value.format, existingUnit), substitutions };
+    }
+
+    // A plain format that still references substitution variables keeps the existing plural phrases
+    const keptSubstitutions = existingSubstitutions && value.includes('%#@') ? { substitutions: existingSubstitutions } : {};
+    return { ...unrelated, ...keptSubstitutions, stringUnit: buildStringUnit(value, existingUnit) };
+}
+
+function buildStringUnit(value: string, existingUnit?: XCStringUnit): XCStringUnit {
+    return existingUnit?.value === value
+        ? existingUnit
+        : { state: "translated", value };
+}
+
+/**
+ * Returns the entry for a key, creating a manually managed entry when it does not exist yet.
+ */
+export function ensureCatalogEntry(doc: XCStringsDocument, key: string): XCStringEntry {
+    if (!doc.strings[key]) {
+        doc.strings[key] = { extractionState: "manual" };
+    }
+    return doc.strings[key];
+}
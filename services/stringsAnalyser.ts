@@ -1,5 +1,11 @@
 
-import { LanguageFile } from '../types';
+import { LanguageFile, PluralVariations, StringValue, isDeviceVariations, isPlural, isSubstitution } from '../types';
+import { DEVICE_CATEGORIES, PLURAL_CATEGORIES, getFallbackText } from './stringCatalog';
+import { parseLocalizationFile, FormatId, ParsedLocalizationFile, FileReadFailure } from './formatRegistry';
+import { validatePlaceholders, PlaceholderIssue } from './placeholderValidator';
+
+// Apple platforms use an explicit zero case in any language; Android ignores it unless the language has one
+const ZERO_CASE_FORMATS: FormatId[] = ['xcstrings', 'stringsdict', 'xliff'];
 
 export interface StringsAnalysisResult {
     totalKeys: number;
@@ -8,12 +14,18 @@ export interface StringsAnalysisResult {
     duplicates: DuplicateValue[];
     looseDuplicates: DuplicateValue[]; // Case-insensitive, trimmed
     keys: KeyAnalysis[];
+    pluralIssues: PluralIssue[];
+    /** Translations whose placeholders do not match those of the source language. */
+    placeholderIssues: PlaceholderIssue[];
+    sourceLanguage?: string;
+    /** Files in a supported format that failed to parse, and are missing from every result. */
+    unreadableFiles: FileReadFailure[];
 }
 
 export interface LanguageAnalysis {
     langCode: string;
     translatedCount: number;
-    pendingCount: number; // For xcstrings, means state is not translated or needs review. For XML, might be harder to determine without source, so maybe just presence.
+    pendingCount: number; // Includes plurals missing a case the language needs. For xcstrings, means state is not translated or needs review. For XML, might be harder to determine without source, so maybe just presence.
     missingCount: number;
     percentComplete: number;
 }
@@ -30,19 +42,33 @@ export interface KeyAnalysis {
     hasDuplicates: boolean;
 }
 
+/**
+ * A plural whose cases do not match the plural categories CLDR defines for its language.
+ */
+export interface PluralIssue {
+    key: string;
+    langCode: string;
+    /** Where the plural sits within the value: "" for the value itself, "device.iphone" or "substitutions.count". */
+    path: string;
+    /** Categories the language needs but the plural lacks, e.g. "few" and "many" for Russian. */
+    missing: string[];
+    /** Categories the language never selects, e.g. "one" for Japanese. */
+    superfluous: string[];
+}
+
 export const analyzeStrings = (files: LanguageFile[]): StringsAnalysisResult => {
     const keysMap: Record<string, KeyAnalysis> = {};
     const languagesSet = new Set<string>();
+    const pluralIssuesMap: Record<string, PluralIssue[]> = {};
+    const valuesMap: Record<string, Record<string, StringValue>> = {};
+    const unreadableFiles: FileReadFailure[] = [];
+    let sourceLanguage: string | undefined;
 
     // 1. Parse Files
     files.forEach(file => {
-        if (file.name.endsWith('.xcstrings')) {
-            parseXCStrings(file.content, keysMap, languagesSet);
-        } else if (file.name.endsWith('.xml')) {
-            parseXML(file, keysMap, languagesSet);
-        } else if (file.name.endsWith('.xliff')) {
-            parseXLIFF(file, keysMap, languagesSet);
-        }
+        const parsed = addFile(file, keysMap, languagesSet, pluralIssuesMap, valuesMap, unreadableFiles);
+        // As when combining files, the first file decides the source language
+        if (parsed && !sourceLanguage) sourceLanguage = parsed.sourceLanguage || parsed.languages[0];
     });
 
     const totalKeys = Object.keys(keysMap).length;
@@ -57,7 +83,8 @@ export const analyzeStrings = (files: LanguageFile[]): StringsAnalysisResult =>
         Object.values(keysMap).forEach(keyData => {
             const trans = keyData.translations[lang];
             if (trans) {
-                if (trans.state === 'needs_review' || trans.state === 'new') {
+                const incompletePlural = pluralIssuesMap[getPluralIssuesKey(keyData.key, lang)]?.some(issue => issue.missing.length > 0);
+                if (trans.state === 'needs_review' || trans.state === 'new' || incompletePlural) {
                     pending++;
                 } else {
                     translated++;
@@ -122,189 +149,131 @@ export const analyzeStrings = (files: LanguageFile[]): StringsAnalysisResult =>
         languages: languageAnalysis,
         duplicates: duplicates.sort((a, b) => b.count - a.count),
         looseDuplicates: looseDuplicates.sort((a, b) => b.count - a.count),
-        keys: Object.values(keysMap)
+        keys: Object.values(keysMap),
+        pluralIssues: Object.values(pluralIssuesMap).flat(),
+        placeholderIssues: findPlaceholderIssues(valuesMap, sourceLanguage),
+        sourceLanguage,
+        unreadableFiles,
     };
 };
 
-const parseXCStrings = (content: string, keysMap: Record<string, KeyAnalysis>, languagesSet: Set<string>) => {
-    try {
-        const json = JSON.parse(content);
-        // sourceLanguage = json.sourceLanguage
+const getPluralIssuesKey = (key: string, langCode: string): string => `${langCode}\u0000${key}`;
 
-        if (json.strings) {
-            Object.entries(json.strings).forEach(([key, entry]: [string, any]) => {
-                if (!keysMap[key]) {
-                    keysMap[key] = { key, translations: {}, hasDuplicates: false };
-                }
+// Whole numbers below a thousand and a few fractions: the counts an app actually shows
+const PLURAL_SAMPLE_NUMBERS = [
+    ...Array.from({ length: 1000 }, (_, i) => i),
+    ...Array.from({ length: 20 }, (_, i) => i + 0.5),
+];
 
-                // Add Check for source language value if it exists directly in 'extractionState' or inferred?
-                // Usually source value is the key itself or separate?
-                // In xcstrings, if no localizations, it might use the key.
-
-                if (entry.localizations) {
-                    Object.entries(entry.localizations).forEach(([lang, loc]: [string, any]) => {
-                        languagesSet.add(lang);
-                        let value = "";
-                        if (loc.stringUnit) {
-                            value = loc.stringUnit.value;
-                        } else if (loc.variations) {
-                            // Use 'other' or first available for representation
-                            if (loc.variations.plural) {
-                                Object.values(loc.variations.plural).forEach((variation: any) => {
-                                    if (variation.stringUnit && variation.stringUnit.value) {
-                                        value = variation.stringUnit.value;
-                                    }
-                                });
-                            } else if (loc.variations.device) {
-                                // just pick one
-                                const deviceVars = Object.values(loc.variations.device) as any[];
-                                value = deviceVars[0]?.stringUnit?.value || "";
-                            }
-                        }
-
-                        keysMap[key].translations[lang] = {
-                            value,
-                            state: loc.stringUnit?.state || 'translated'
-                        };
-                    });
-                }
-            });
-        }
-    } catch (e) {
-        console.error("Failed to parse xcstrings", e);
+// Sampling the rules takes a thousand calls, so each language is only sampled once
+const pluralCategoriesCache = new Map<string, { allowed: string[]; required: string[] }>();
+
+// The categories a language has, and the ones ordinary counts select. French, Spanish, Italian and
+// Portuguese only use "many" for millions ("1 000 000 de fichiers"), so it is allowed but not required.
+const getPluralCategories = (langCode: string): { allowed: string[]; required: string[] } => {
+    const cached = pluralCategoriesCache.get(langCode);
+    if (cached) return cached;
+    let categories: { allowed: string[]; required: string[] };
+    try {
+        const rules = new Intl.PluralRules(langCode);
+        const required = new Set(PLURAL_SAMPLE_NUMBERS.map(count => rules.select(count)));
+        categories = { allowed: rules.resolvedOptions().pluralCategories, required: Array.from(required) };
+    } catch {
+        categories = { allowed: ['other'], required: ['other'] };
     }
+    pluralCategoriesCache.set(langCode, categories);
+    return categories;
 };
 
-const parseXML = (file: LanguageFile, keysMap: Record<string, KeyAnalysis>, languagesSet: Set<string>) => {
-    // Attempt to guess language from filename or parent folder if passed? 
-    // for single file upload without path info, we might not know lang.
-    // Default to 'unknown' or try to parse 'values-xx'?
-    // The InputPanel usually just gives filename. 
-    // If it's just 'strings.xml', we assume 'en' or we treat it as a single language file.
-    // Let's assume the user might rename it or we treat it as "Base" or the file name itself if indeterminate.
-
-    // HACK: for now, use file name as language identifier if it looks like a language code, else 'xml-content'.
-    // Better: In the UI, maybe we can ask? But for now let's just use "XML" as the language if single, 
-    // or if the user uploads "fr.xml", "en.xml", use those.
-
-    let lang = file.name.replace('.xml', '');
-    if (lang === 'strings') lang = 'en'; // Default assumption commonly
-
-    languagesSet.add(lang);
-
-    const parser = new DOMParser();
-    const xmlDoc = parser.parseFromString(file.content, "text/xml");
-
-    const stringElements = xmlDoc.getElementsByTagName("string");
-
-    for (let i = 0; i < stringElements.length; i++) {
-        const el = stringElements[i];
-        const key = el.getAttribute("name");
-        const value = el.textContent || "";
-
-        if (key) {
-            if (!keysMap[key]) {
-                keysMap[key] = { key, translations: {}, hasDuplicates: false };
-            }
-            keysMap[key].translations[lang] = { value, state: 'translated' };
+// Each plural within a value, with its path: the value itself, a device variant or a substitution
+const collectPlurals = (value: StringValue, path: string, plurals: { path: string; plural: PluralVariations }[]) => {
+    if (typeof value === 'string') return;
+    if (isPlural(value)) {
+        plurals.push({ path, plural: value });
+    } else if (isSubstitution(value)) {
+        for (const [name, substitution] of Object.entries(value.substitutions)) {
+            plurals.push({ path: `substitutions.${name}`, plural: substitution.variations });
         }
-    }
-
-    // Handle string-array?
-    const stringArrayElements = xmlDoc.getElementsByTagName("string-array");
-    for (let i = 0; i < stringArrayElements.length; i++) {
-        const el = stringArrayElements[i];
-        const keyBase = el.getAttribute("name");
-        if (keyBase) {
-            const items = el.getElementsByTagName("item");
-            for (let j = 0; j < items.length; j++) {
-                const subKey = `${keyBase}.${j}`;
-                const value = items[j].textContent || "";
-                if (!keysMap[subKey]) {
-                    keysMap[subKey] = { key: subKey, translations: {}, hasDuplicates: false };
-                }
-                keysMap[subKey].translations[lang] = { value, state: 'translated' };
-            }
+    } else if (isDeviceVariations(value)) {
+        for (const device of DEVICE_CATEGORIES) {
+            const deviceValue = value[device];
+            if (deviceValue !== undefined) collectPlurals(deviceValue, `device.${device}`, plurals);
         }
     }
 };
 
-const parseXLIFF = (file: LanguageFile, keysMap: Record<string, KeyAnalysis>, languagesSet: Set<string>) => {
-    const parser = new DOMParser();
-    const xmlDoc = parser.parseFromString(file.content, "text/xml");
-
-    // Attempt to find target language from <file> tag
-    const files = xmlDoc.getElementsByTagName("file");
-    let targetLang = "unknown";
-
-    // Usually one file element per xliff, but just in case
-    if (files.length > 0) {
-        // Prefer target-language, fallback to source-language or infer from filename
-        const targetAttr = files[0].getAttribute("target-language");
-        if (targetAttr) {
-            targetLang = targetAttr;
-        } else {
-            // If no target-language, it might be a source-only file or we look at the file name
-            // but strictly speaking XLIFFs for translation should have target-language.
-            targetLang = file.langCode || "en";
+const findPluralIssues = (key: string, langCode: string, value: StringValue, allowsZero: boolean): PluralIssue[] => {
+    const plurals: { path: string; plural: PluralVariations }[] = [];
+    collectPlurals(value, '', plurals);
+    if (plurals.length === 0) return [];
+
+    const { allowed, required } = getPluralCategories(langCode);
+    const issues: PluralIssue[] = [];
+    for (const { path, plural } of plurals) {
+        const present = PLURAL_CATEGORIES.filter(category => plural[category]);
+        const missing = PLURAL_CATEGORIES.filter(category => required.includes(category) && !present.includes(category));
+        const superfluous = present.filter(category => !allowed.includes(category) && !(category === 'zero' && allowsZero));
+        if (missing.length > 0 || superfluous.length > 0) {
+            issues.push({ key, langCode, path, missing, superfluous });
         }
-    } else {
-        targetLang = file.langCode || "en";
     }
+    return issues;
+};
 
-    languagesSet.add(targetLang);
-
-    const transUnits = xmlDoc.getElementsByTagName("trans-unit");
-    for (let i = 0; i < transUnits.length; i++) {
-        const unit = transUnits[i];
-        const key = unit.getAttribute("id");
-        if (!key) continue;
-
-        const sourceEl = unit.getElementsByTagName("source")[0];
-        const targetEl = unit.getElementsByTagName("target")[0];
-        // NoteEl?
-
-        const sourceVal = sourceEl ? sourceEl.textContent || "" : "";
-        let targetVal = targetEl ? targetEl.textContent || "" : "";
-
-        // If target is missing, do we rely on source? 
-        // In XLIFF, if not translated, target might be missing or empty.
-        // If state is new, it might use source. 
+// Keys without a source language value have nothing to compare with: a key is often an identifier
+// ("settings_title"), not the source text
+const findPlaceholderIssues = (valuesMap: Record<string, Record<string, StringValue>>, sourceLanguage: string | undefined): PlaceholderIssue[] => {
+    if (!sourceLanguage) return [];
+    return Object.entries(valuesMap).flatMap(([key, values]) => {
+        const source = values[sourceLanguage];
+        if (source === undefined) return [];
+        return Object.entries(values)
+            .filter(([lang]) => lang !== sourceLanguage)
+            .flatMap(([lang, value]) => validatePlaceholders(key, lang, source, value));
+    });
+};
 
-        const state = targetEl ? targetEl.getAttribute("state") : "new";
+const addFile = (
+    file: LanguageFile,
+    keysMap: Record<string, KeyAnalysis>,
+    languagesSet: Set<string>,
+    pluralIssuesMap: Record<string, PluralIssue[]>,
+    valuesMap: Record<string, Record<string, StringValue>>,
+    unreadableFiles: FileReadFailure[],
+): ParsedLocalizationFile | undefined => {
+    let parsed: ParsedLocalizationFile;
+    let formatId: FormatId;
+    try {
+        const { adapter, parsed: parsedFile } = parseLocalizationFile(file);
+        parsed = parsedFile;
+        formatId = adapter.id;
+    } catch (e: any) {
+        unreadableFiles.push({ fileName: file.name, message: e.message });
+        return undefined;
+    }
 
-        // Use source value as fallback for value if target is empty?
-        // Actually for analysis, we want to know what is translated.
-        // If target is empty, it's missing or pending.
+    parsed.languages.forEach(lang => languagesSet.add(lang));
+    const nonTranslatableKeys = new Set(parsed.nonTranslatableKeys);
 
-        // However, we need to populate the 'key' structure.
+    for (const [key, values] of Object.entries(parsed.data)) {
+        // Strings marked as not translatable are not expected in other languages
+        if (nonTranslatableKeys.has(key)) continue;
         if (!keysMap[key]) {
             keysMap[key] = { key, translations: {}, hasDuplicates: false };
+            valuesMap[key] = {};
         }
 
-        keysMap[key].translations[targetLang] = {
-            value: targetVal || "", // Use empty string if missing to signify existence but no content
-            state: state || 'translated'
-        };
-
-        // Also we might want to track source language value if possible? 
-        // For now our data model is key -> lang -> value.
-        // If we want to capture source explicitly we'd need another field or treat source-language as a lang.
-        // Let's treat source-language as a lang too if we find it?
-        // Typically XLIFF has source-language="en".
-
-        if (files.length > 0) {
-            const sourceLang = files[0].getAttribute("source-language");
-            if (sourceLang && sourceLang !== targetLang) {
-                languagesSet.add(sourceLang);
-                // Only set source if not already set (avoid overwriting if multiple files have same source)
-                if (!keysMap[key].translations[sourceLang]) {
-                    keysMap[key].translations[sourceLang] = {
-                        value: sourceVal,
-                        state: 'translated' // Source is always 'translated' / original
-                    };
-                }
-            }
+        const states = parsed.states[key] || {};
+        for (const [lang, value] of Object.entries(values)) {
+            // Plural and device variations are represented by their fallback case
+            keysMap[key].translations[lang] = { value: getFallbackText(value), state: states[lang] || 'translated' };
+            pluralIssuesMap[getPluralIssuesKey(key, lang)] = findPluralIssues(key, lang, value, ZERO_CASE_FORMATS.includes(formatId));
+            valuesMap[key][lang] = value;
+        }
+        // Untranslated entries have a state but no value
+        for (const [lang, state] of Object.entries(states)) {
+            if (!(lang in values)) keysMap[key].translations[lang] = { value: '', state };
         }
     }
+    return parsed;
 };
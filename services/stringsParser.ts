@@ -0,0 +1,323 @@
+/**
+ * Strings Parser Service
+ * Tokenizer and parser for the old-style property list grammar of Apple .strings files.
+ * Every problem is reported with its line and column instead of silently dropping entries.
+ */
+
+export type StringsTokenType = 'string' | 'equals' | 'semicolon' | 'comment';
+
+export interface StringsToken {
+    type: StringsTokenType;
+    /** The unescaped text of a string, or the inner text of a comment. */
+    value: string;
+    /** Whether a string was written in quotes (keys and values may also be bare words). */
+    quoted?: boolean;
+    /** Whether a quoted string has no closing quote; it then ends at the end of its line. */
+    unterminated?: boolean;
+    line: number;
+    column: number;
+    /** Position just past the last character of the token. */
+    endLine: number;
+    endColumn: number;
+}
+
+export interface StringsSyntaxError {
+    line: number;
+    column: number;
+    message: string;
+}
+
+export interface StringsEntry {
+    key: string;
+    value: string;
+    /** The developer comment written directly above the entry, if any. */
+    comment?: string;
+    line: number;
+    column: number;
+}
+
+export interface StringsParseResult {
+    entries: StringsEntry[];
+    errors: StringsSyntaxError[];
+}
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+    a: '\x07', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t', v: '\v',
+};
+
+// Characters allowed in an unquoted string, as accepted by CFPropertyList
+const UNQUOTED_CHAR = /[A-Za-z0-9_$+/:.\-]/;
+
+const HEX_DIGIT = /[0-9A-Fa-f]/;
+const OCTAL_DIGIT = /[0-7]/;
+
+/**
+ * Splits the content of a .strings file into tokens. A leading byte order mark is ignored.
+ * Lexical errors (unterminated strings or comments, bad escapes, stray characters) are
+ * collected rather than thrown so that the rest of the file is still tokenized. A string without
+ * its closing quote ends at the end of its line, so it does not swallow the lines after it.
+ * @param content The text content of the .strings file.
+ * @returns The tokens, including comments, and any lexical errors.
+ */
+export function tokenizeStrings(content: string): { tokens: StringsToken[]; errors: StringsSyntaxError[] } {
+    const tokens: StringsToken[] = [];
+    const errors: StringsSyntaxError[] = [];
+
+    let pos = content.charCodeAt(0) === 0xFEFF ? 1 : 0;
+    let line = 1;
+    let lineStart = pos;
+
+    const column = () => pos - lineStart + 1;
+    const advance = () => {
+        if (content[pos] === '\n') {
+            line++;
+            lineStart = pos + 1;
+        }
+        pos++;
+    };
+    const push = (type: StringsTokenType, value: string, startLine: number, startColumn: number, quoted?: boolean, unterminated?: boolean) => {
+        tokens.push({ type, value, quoted, unterminated, line: startLine, column: startColumn, endLine: line, endColumn: column() });
+    };
+
+    while (pos < content.length) {
+        const ch = content[pos];
+        const startLine = line;
+        const startColumn = column();
+
+        if (/\s/.test(ch)) {
+            advance();
+        } else if (ch === '/' && content[pos + 1] === '*') {
+            const end = content.indexOf('*/', pos + 2);
+            const stop = end === -1 ? content.length : end + 2;
+            const text = content.slice(pos + 2, end === -1 ? content.length : end);
+            while (pos < stop) advance();
+            if (end === -1) {
+                errors.push({ line: startLine, column: startColumn, message: 'Unterminated comment' });
+            } else {
+                push('comment', text, startLine, startColumn);
+            }
+        } else if (ch === '/' && content[pos + 1] === '/') {
+            let end = content.indexOf('\n', pos);
+            if (end === -1) end = content.length;
+            const text = content.slice(pos + 2, end);
+            pos = end;
+            push('comment', text, startLine, startColumn);
+        } else if (ch === '"' || ch === "'") {
+            const { value, unterminated } = readQuotedString(ch);
+            push('string', value, startLine, startColumn, true, unterminated);
+        } else if (ch === '=') {
+            advance();
+            push('equals', ch, startLine, startColumn);
+        } else if (ch === ';') {
+            advance();
+            push('semicolon', ch, startLine, startColumn);
+        } else if (UNQUOTED_CHAR.test(ch)) {
+            let value = '';
+            while (pos < content.length && UNQUOTED_CHAR.test(content[pos])) {
+                value += content[pos];
+                advance();
+            }
+            push('string', value, startLine, startColumn, false);
+        } else {
+            errors.push({ line: startLine, column: startColumn, message: `Unexpected character '${ch}'` });
+            advance();
+        }
+    }
+
+    return { tokens, errors };
+
+    function readQuotedString(quote: string): { value: string; unterminated: boolean } {
+        const start = pos;
+        const startLine = line;
+        const startLineStart = lineStart;
+        const startColumn = column();
+        let value = '';
+        advance();
+
+        while (pos < content.length && content[pos] !== quote) {
+            if (content[pos] !== '\\') {
+                value += content[pos];
+                advance();
+                continue;
+            }
+
+            const escapeLine = line;
+            const escapeColumn = column();
+            advance();
+            if (pos >= content.length) break;
+            const escaped = content[pos];
+
+            if (escaped in SIMPLE_ESCAPES) {
+                value += SIMPLE_ESCAPES[escaped];
+                advance();
+            } else if (escaped === 'U' || escaped === 'u') {
+                advance();
+                let digits = '';
+                while (digits.length < 4 && pos < content.length && HEX_DIGIT.test(content[pos])) {
+                    digits += content[pos];
+                    advance();
+                }
+                if (digits.length === 0) {
+                    errors.push({ line: escapeLine, column: escapeColumn, message: `Invalid '\\${escaped}' escape: expected hexadecimal digits` });
+                } else {
+                    value += String.fromCharCode(parseInt(digits, 16));
+                }
+            } else if (OCTAL_DIGIT.test(escaped)) {
+                let digits = '';
+                while (digits.length < 3 && pos < content.length && OCTAL_DIGIT.test(content[pos])) {
+                    digits += content[pos];
+                    advance();
+                }
+                value += String.fromCharCode(parseInt(digits, 8));
+            } else {
+                // Any other escaped character (including quotes and backslashes) stands for itself
+                value += escaped;
+                advance();
+            }
+        }
+
+        if (pos >= content.length) {
+            errors.push({ line: startLine, column: startColumn, message: 'Unterminated string' });
+            // Strings may span lines, but one that never ends most likely lost its quote on this line
+            const lineEnd = content.indexOf('\n', start);
+            pos = lineEnd === -1 ? content.length : lineEnd;
+            line = startLine;
+            lineStart = startLineStart;
+            return { value: content.slice(start + 1, pos), unterminated: true };
+        }
+        advance();
+        return { value, unterminated: false };
+    }
+}
+
+/**
+ * Parses the content of a .strings file into its entries, in file order.
+ * `"key" = "value";` and the shorthand `"key";` (value equal to the key) are supported,
+ * with quoted or bare keys and values. After a syntax error the parser resumes at the
+ * next entry, so a single typo never hides the keys that follow it.
+ * @param content The text content of the .strings file.
+ * @returns The parsed entries and every lexical or syntax error, with positions.
+ */
+export function parseStringsEntries(content: string): StringsParseResult {
+    const { tokens: allTokens, errors } = tokenizeStrings(content);
+    const tokens: StringsToken[] = [];
+    const commentsBefore = new Map<StringsToken, StringsToken[]>();
+    const entries: StringsEntry[] = [];
+
+    let pendingComments: StringsToken[] = [];
+    for (const token of allTokens) {
+        if (token.type === 'comment') {
+            pendingComments.push(token);
+            continue;
+        }
+        if (pendingComments.length > 0) {
+            commentsBefore.set(token, pendingComments);
+            pendingComments = [];
+        }
+        tokens.push(token);
+    }
+
+    const describe = (token: StringsToken) => token.type === 'string' ? `"${token.value}"` : `'${token.value}'`;
+    const report = (token: StringsToken | undefined, previous: StringsToken, message: string) => {
+        errors.push(token
+            ? { line: token.line, column: token.column, message: `${message}, found ${describe(token)}` }
+            : { line: previous.endLine, column: previous.endColumn, message: `${message}, found end of file` });
+    };
+
+    let i = 0;
+    while (i < tokens.length) {
+        const previousToken = tokens[i - 1];
+        const keyToken = tokens[i++];
+        if (keyToken.type !== 'string') {
+            report(keyToken, keyToken, 'Expected a key');
+            continue;
+        }
+
+        let value = keyToken.value;
+        let last = keyToken;
+        if (tokens[i]?.type === 'equals') {
+            last = tokens[i++];
+            const valueToken = tokens[i];
+            if (valueToken?.type !== 'string') {
+                report(valueToken, last, `Expected a value for key "${keyToken.value}"`);
+                // Skip the rest of the broken entry
+                while (i < tokens.length && tokens[i].type !== 'semicolon') i++;
+                i++;
+                continue;
+            }
+            value = valueToken.value;
+            last = valueToken;
+            i++;
+        }
+
+        if (tokens[i]?.type === 'semicolon') {
+            i++;
+        } else if (!last.unterminated) {
+            // A missing semicolon is reported against the end of the entry; the entry itself is kept
+            errors.push({ line: last.endLine, column: last.endColumn, message: `Expected ';' after the entry for key "${keyToken.value}"` });
+        }
+        const comment = leadingComment(keyToken, commentsBefore.get(keyToken), previousToken);
+        entries.push({ key: keyToken.value, value, comment, line: keyToken.line, column: keyToken.column });
+    }
+
+    errors.sort((a, b) => a.line - b.line || a.column - b.column);
+    return { entries, errors };
+}
+
+// Only comments directly above a key describe it: a blank line separates file headers from
+// the first entry, and a comment on the previous entry's line belongs to that entry.
+function leadingComment(key: StringsToken, comments: StringsToken[] = [], previous?: StringsToken): string | undefined {
+    const attached: string[] = [];
+    let nextLine = key.line;
+    for (let j = comments.length - 1; j >= 0; j--) {
+        const comment = comments[j];
+        if (comment.endLine < nextLine - 1) break;
+        if (previous && comment.line === previous.endLine) break;
+        attached.unshift(comment.value.trim());
+        nextLine = comment.line;
+    }
+    return attached.filter(Boolean).join('\n') || undefined;
+}
+
+/**
+ * Formats a syntax error for display, e.g. "Line 3, column 12: Unterminated string".
+ */
+export function formatStringsSyntaxError(error: StringsSyntaxError): string {
+    return `Line ${error.line}, column ${error.column}: ${error.message}`;
+}
+
+/**
+ * Escapes text for use inside a quoted .strings key or value.
+ */
+export function escapeStringsLiteral(str: string): string {
+    return str
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, '\\n')
+        .replace(/\r/g, '\\r')
+        .replace(/\t/g, '\\t');
+}
+
+/**
+ * Formats a developer comment as a .strings block comment.
+ */
+export function formatStringsComment(comment: string): string {
+    return `/* ${comment.replace(/\*\//g, '* /')} */`;
+}
+
+/**
+ * Decodes the raw bytes of a .strings file. Files with a UTF-16 byte order mark (as written
+ * by older versions of Xcode and genstrings) are decoded as UTF-16; everything else as UTF-8.
+ * @param buffer The raw file content.
+ * @returns The decoded text without the byte order mark.
+ */
+export function decodeStringsFile(buffer: ArrayBuffer): string {
+    const bytes = new Uint8Array(buffer);
+    if (bytes[0] === 0xFF && bytes[1] === 0xFE) {
+        return new TextDecoder('utf-16le').decode(bytes);
+    }
+    if (bytes[0] === 0xFE && bytes[1] === 0xFF) {
+        return new TextDecoder('utf-16be').decode(bytes);
+    }
+    return new TextDecoder('utf-8').decode(bytes);
+}
@@ -0,0 +1,276 @@
+/**
+ * Translation Memory Service
+ * Collects source text → translation pairs from loaded localization files and fills missing
+ * translations of a String Catalog with the closest ones. Only plain strings are remembered and
+ * filled; plural, device and substitution variations are left to translators.
+ */
+
+import { LanguageFile, StringValue, XCStringState, XCStringsDocument } from '../types';
+import { cloneStringCatalogDocument } from './stringCatalog';
+import { parseLocalizationFile, partitionSupportedFiles, ParsedLocalizationFile, FileReadFailure } from './formatRegistry';
+
+export interface TranslationMemoryEntry {
+    /** The source language, target language and source text; a text has one translation per language. */
+    id: string;
+    sourceLanguage: string;
+    sourceText: string;
+    language: string;
+    translation: string;
+    state: XCStringState;
+    /** The key and file the translation was last seen under. */
+    key: string;
+    origin: string;
+    updatedAt: number;
+}
+
+export interface TranslationMemoryMatch {
+    entry: TranslationMemoryEntry;
+    /** 1 for the same source text, less for similar ones. */
+    similarity: number;
+}
+
+export interface TranslationMemoryFill {
+    key: string;
+    language: string;
+    sourceText: string;
+    match: TranslationMemoryMatch;
+    /** `translated` for exact matches of translated entries, `needs_review` for everything else. */
+    state: XCStringState;
+}
+
+export interface TranslationMemoryFillOptions {
+    /** The languages to fill; languages the catalog does not have yet are added. */
+    languages: string[];
+    /** The lowest similarity, from 0 to 1, a fuzzy match needs; 0.75 by default. */
+    minSimilarity?: number;
+}
+
+export const DEFAULT_MIN_SIMILARITY = 0.75;
+
+export function getMemoryEntryId(sourceLanguage: string, language: string, sourceText: string): string {
+    return `${sourceLanguage}\u0000${language}\u0000${sourceText}`;
+}
+
+function addParsedEntries(parsed: ParsedLocalizationFile, sourceLanguage: string, origin: string, updatedAt: number, entries: Map<string, TranslationMemoryEntry>): void {
+    const nonTranslatableKeys = new Set(parsed.nonTranslatableKeys);
+    for (const [key, values] of Object.entries(parsed.data)) {
+        if (nonTranslatableKeys.has(key)) continue;
+        // Xcode uses the key as the source text of keys without a source localization
+        const sourceText = values[sourceLanguage] ?? (parsed.sourceLanguage ? key : undefined);
+        if (typeof sourceText !== 'string' || !sourceText.trim()) continue;
+        for (const [language, translation] of Object.entries(values)) {
+            if (language === sourceLanguage || typeof translation !== 'string' || !translation.trim()) continue;
+            const id = getMemoryEntryId(sourceLanguage, language, sourceText);
+            entries.set(id, {
+                id,
+                sourceLanguage,
+                sourceText,
+                language,
+                translation,
+                state: parsed.states[key]?.[language] ?? 'translated',
+                key,
+                origin,
+                updatedAt,
+            });
+        }
+    }
+}
+
+/**
+ * Collects the translation memory entries of a set of loaded files. Files holding several
+ * languages (String Catalogs, XLIFF) pair their own source and target texts; single-language
+ * files are paired by key, with the language of the first one as the source language.
+ * Files in other formats are skipped.
+ * @param files The files, each with its language.
+ * @returns One entry per source text and target language, and the files that failed to parse.
+ */
+export function collectMemoryEntries(files: LanguageFile[]): { entries: TranslationMemoryEntry[]; unreadableFiles: FileReadFailure[] } {
+    const entries = new Map<string, TranslationMemoryEntry>();
+    const unreadableFiles: FileReadFailure[] = [];
+    const updatedAt = Date.now();
+    const singleLanguageFiles: ParsedLocalizationFile[] = [];
+    const singleLanguageFileNames: string[] = [];
+
+    for (const file of partitionSupportedFiles(files).supported) {
+        let parsed: ParsedLocalizationFile;
+        try {
+            parsed = parseLocalizationFile(file).parsed;
+        } catch (e: any) {
+            unreadableFiles.push({ fileName: file.name, message: e.message });
+            continue;
+        }
+        if (Object.keys(parsed.data).length === 0) continue;
+        if (parsed.languages.length > 1 || parsed.sourceLanguage) {
+            addParsedEntries(parsed, parsed.sourceLanguage ?? parsed.languages[0], file.name, updatedAt, entries);
+        } else {
+            singleLanguageFiles.push(parsed);
+            singleLanguageFileNames.push(file.name);
+        }
+    }
+
+    if (singleLanguageFiles.length > 1) {
+        const combined: ParsedLocalizationFile = { data: {}, comments: {}, languages: [], states: {}, nonTranslatableKeys: [] };
+        for (const parsed of singleLanguageFiles) {
+            for (const [key, values] of Object.entries(parsed.data)) combined.data[key] = { ...combined.data[key], ...values };
+            for (const [key, states] of Object.entries(parsed.states)) combined.states[key] = { ...combined.states[key], ...states };
+            combined.nonTranslatableKeys.push(...parsed.nonTranslatableKeys);
+        }
+        addParsedEntries(combined, singleLanguageFiles[0].languages[0], singleLanguageFileNames.join(', '), updatedAt, entries);
+    }
+
+    return { entries: Array.from(entries.values()), unreadableFiles };
+}
+
+function normalizeText(text: string): string {
+    return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// Stops as soon as the distance is sure to exceed `maxDistance`, returning `maxDistance + 1`
+function getEditDistance(a: string, b: string, maxDistance = Infinity): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMinimum = i;
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+            rowMinimum = Math.min(rowMinimum, current[j]);
+        }
+        if (rowMinimum > maxDistance) return maxDistance + 1;
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+// Memory entries with their normalized source text, shortest first, so a lookup only visits the
+// entries whose length can reach the similarity
+interface MemoryIndexEntry {
+    entry: TranslationMemoryEntry;
+    normalizedText: string;
+}
+
+// 0.7 * 10 is 7.000000000000001; without a tolerance the bounds would drop texts right at the threshold
+const ROUNDING_TOLERANCE = 1e-9;
+
+function indexMemoryEntries(entries: TranslationMemoryEntry[]): MemoryIndexEntry[] {
+    return entries
+        .map(entry => ({ entry, normalizedText: normalizeText(entry.sourceText) }))
+        .sort((a, b) => a.normalizedText.length - b.normalizedText.length);
+}
+
+function findIndexedMatches(index: MemoryIndexEntry[], sourceText: string, minSimilarity: number): TranslationMemoryMatch[] {
+    const normalizedText = normalizeText(sourceText);
+    const textLength = normalizedText.length;
+    // A text of length L is within (1 - s) · max(L, T) edits of one of length T only when s · T <= L <= T / s
+    const minLength = Math.ceil(minSimilarity * textLength - ROUNDING_TOLERANCE);
+    const maxLength = minSimilarity > 0 ? Math.floor(textLength / minSimilarity + ROUNDING_TOLERANCE) : Infinity;
+
+    let low = 0;
+    let high = index.length;
+    while (low < high) {
+        const middle = (low + high) >> 1;
+        if (index[middle].normalizedText.length < minLength) low = middle + 1;
+        else high = middle;
+    }
+
+    const matches: TranslationMemoryMatch[] = [];
+    for (let i = low; i < index.length && index[i].normalizedText.length <= maxLength; i++) {
+        const { entry, normalizedText: entryText } = index[i];
+        let similarity: number;
+        if (entry.sourceText === sourceText) {
+            similarity = 1;
+        } else {
+            const length = Math.max(entryText.length, textLength);
+            if (length === 0) continue;
+            const distance = getEditDistance(normalizedText, entryText, Math.floor((1 - minSimilarity) * length + ROUNDING_TOLERANCE));
+            similarity = Math.min(0.99, 1 - distance / length);
+        }
+        if (similarity >= minSimilarity) matches.push({ entry, similarity });
+    }
+    return matches.sort((a, b) => b.similarity - a.similarity
+        || Number(b.entry.state === 'translated') - Number(a.entry.state === 'translated')
+        || b.entry.updatedAt - a.entry.updatedAt);
+}
+
+/**
+ * Scores how alike two source texts are, from their edit distance ignoring case and spacing.
+ * @returns 1 for identical texts, at most 0.99 for texts that differ only in case or spacing, down to 0.
+ */
+export function getTextSimilarity(a: string, b: string): number {
+    if (a === b) return 1;
+    const normalizedA = normalizeText(a);
+    const normalizedB = normalizeText(b);
+    const length = Math.max(normalizedA.length, normalizedB.length);
+    if (length === 0) return 0;
+    return Math.min(0.99, 1 - getEditDistance(normalizedA, normalizedB) / length);
+}
+
+/**
+ * Finds the remembered translations of a source text, best first.
+ * @param entries The translation memory.
+ * @param sourceText The text to translate.
+ * @param sourceLanguage The language of the text.
+ * @param language The language to translate into.
+ * @param minSimilarity The lowest similarity to return.
+ * @returns The matches, by similarity, then translated entries first, then the most recent.
+ */
+export function findMemoryMatches(
+    entries: TranslationMemoryEntry[],
+    sourceText: string,
+    sourceLanguage: string,
+    language: string,
+    minSimilarity = DEFAULT_MIN_SIMILARITY,
+): TranslationMemoryMatch[] {
+    const candidates = entries.filter(entry => entry.sourceLanguage === sourceLanguage && entry.language === language);
+    return findIndexedMatches(indexMemoryEntries(candidates), sourceText, minSimilarity);
+}
+
+function isMissing(value: StringValue | undefined): boolean {
+    return value === undefined || (typeof value === 'string' && !value.trim());
+}
+
+/**
+ * Fills the missing translations of a String Catalog from the translation memory. A translation
+ * is missing when the language has no localization for the key or an empty one. Exact matches of
+ * translated entries are marked translated; fuzzy matches are marked `needs_review`.
+ * @param doc The catalog document; it is not modified.
+ * @param entries The translation memory.
+ * @param options The languages to fill and the lowest similarity to use.
+ * @returns A copy of the catalog with the translations filled, and what was filled.
+ */
+export function fillFromTranslationMemory(
+    doc: XCStringsDocument,
+    entries: TranslationMemoryEntry[],
+    options: TranslationMemoryFillOptions,
+): { doc: XCStringsDocument; fills: TranslationMemoryFill[] } {
+    const result = cloneStringCatalogDocument(doc);
+    const fills: TranslationMemoryFill[] = [];
+    const minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+    // Indexed once per language rather than scanned whole for every key
+    const languageIndexes = new Map(options.languages.map(language => [
+        language,
+        indexMemoryEntries(entries.filter(entry => entry.sourceLanguage === doc.sourceLanguage && entry.language === language)),
+    ]));
+
+    for (const [key, entry] of Object.entries(result.strings)) {
+        if (entry.shouldTranslate === false) continue;
+        const source = entry.localizations?.[doc.sourceLanguage];
+        if (source?.variations || source?.substitutions) continue;
+        const sourceText = source?.stringUnit?.value ?? key;
+        if (!sourceText.trim()) continue;
+
+        for (const [language, index] of languageIndexes) {
+            if (language === doc.sourceLanguage) continue;
+            const target = entry.localizations?.[language];
+            if (target?.variations || target?.substitutions || !isMissing(target?.stringUnit?.value)) continue;
+            const [match] = findIndexedMatches(index, sourceText, minSimilarity);
+            if (!match) continue;
+
+            const state: XCStringState = match.similarity === 1 && match.entry.state === 'translated' ? 'translated' : 'needs_review';
+            entry.localizations = entry.localizations || {};
+            entry.localizations[language] = { ...target, stringUnit: { state, value: match.entry.translation } };
+            fills.push({ key, language, sourceText, match, state });
+        }
+    }
+
+    return { doc: result, fills };
+}
@@ -0,0 +1,100 @@
+import { LanguageFile } from '../types';
+import { collectMemoryEntries, TranslationMemoryEntry } from './translationMemory';
+
+// ─── Translation Memory Store (IndexedDB) ────────────────────────────────────
+
+// IndexedDB rather than localStorage: the memory grows with every catalog and stays in the browser
+const DB_NAME = 'localization-translation-memory';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!databasePromise) {
+        databasePromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                databasePromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return databasePromise;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+export const translationMemoryStore = {
+    async getEntries(): Promise<TranslationMemoryEntry[]> {
+        const db = await openDatabase();
+        return requestResult(db.transaction(STORE_NAME).objectStore(STORE_NAME).getAll());
+    },
+
+    async count(): Promise<number> {
+        const db = await openDatabase();
+        return requestResult(db.transaction(STORE_NAME).objectStore(STORE_NAME).count());
+    },
+
+    /**
+     * Adds entries, replacing older translations of the same source text. A translation that
+     * still needs review never replaces a translated one.
+     * @returns The number of entries written.
+     */
+    async addEntries(entries: TranslationMemoryEntry[]): Promise<number> {
+        if (entries.length === 0) return 0;
+        const db = await openDatabase();
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        let written = 0;
+        for (const entry of entries) {
+            const request = store.get(entry.id);
+            request.onsuccess = () => {
+                const existing: TranslationMemoryEntry | undefined = request.result;
+                if (existing?.state === 'translated' && entry.state !== 'translated') return;
+                store.put(entry);
+                written++;
+            };
+        }
+        await transactionDone(transaction);
+        return written;
+    },
+
+    /**
+     * Remembers the translations of loaded files. Failures are logged rather than thrown,
+     * so a tool keeps working when the browser blocks IndexedDB. Files that cannot be read are
+     * left out; the tool that loaded them reports them.
+     */
+    async addFiles(files: LanguageFile[]): Promise<number> {
+        try {
+            return await translationMemoryStore.addEntries(collectMemoryEntries(files).entries);
+        } catch (e) {
+            console.error('Failed to update the translation memory', e);
+            return 0;
+        }
+    },
+
+    async clear(): Promise<void> {
+        const db = await openDatabase();
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        transaction.objectStore(STORE_NAME).clear();
+        await transactionDone(transaction);
+    },
+};
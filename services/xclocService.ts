@@ -0,0 +1,179 @@
+/**
+ * Xcode Localization Bundle Service
+ * Reads and writes .xcloc bundles, the hand-off format of Xcode's "Export Localizations":
+ * a `contents.json`, the XLIFF in `Localized Contents/<lang>.xliff` and the source files in `Source Contents/`.
+ */
+
+import JSZip from 'jszip';
+import { CatalogImportReport, generateXliffFiles, importXliffIntoCatalog } from './converter';
+import { parseStringCatalogDocument, serializeXcodeJson } from './stringCatalog';
+
+export interface XclocBundle {
+    /** Path of the bundle folder, e.g. "fr.xcloc". Empty when the archive holds a bare bundle. */
+    path: string;
+    targetLocale: string;
+    developmentRegion?: string;
+    xliff: string;
+    /** Number of trans-units in the XLIFF. */
+    unitCount: number;
+}
+
+interface XclocContents {
+    developmentRegion: string;
+    project: string;
+    targetLocale: string;
+    toolInfo: {
+        toolID: string;
+        toolName: string;
+        toolVersion: string;
+    };
+    version: string;
+}
+
+const LOCALIZED_CONTENTS_PATTERN = /^(.*?)Localized Contents\/[^/]+\.xliff$/;
+
+type FileReaderMap = Record<string, () => Promise<string>>;
+
+async function collectXclocBundles(files: FileReaderMap): Promise<XclocBundle[]> {
+    const bundles: XclocBundle[] = [];
+
+    for (const filePath of Object.keys(files).sort()) {
+        if (filePath.startsWith('__MACOSX/')) continue;
+        const match = filePath.match(LOCALIZED_CONTENTS_PATTERN);
+        if (!match) continue;
+
+        const root = match[1];
+        const xliff = await files[filePath]();
+
+        let contents: Partial<XclocContents> = {};
+        const contentsPath = `${root}contents.json`;
+        if (files[contentsPath]) {
+            try {
+                contents = JSON.parse(await files[contentsPath]());
+            } catch {
+                throw new Error(`Invalid contents.json in ${root || 'the bundle'}.`);
+            }
+        }
+
+        // contents.json is authoritative; fall back to the XLIFF's own target language
+        const targetLocale = contents.targetLocale || xliff.match(/target-language="([^"]+)"/)?.[1];
+        if (!targetLocale) {
+            throw new Error(`Could not determine the target language of ${filePath}.`);
+        }
+
+        bundles.push({
+            path: root.replace(/\/$/, ''),
+            targetLocale,
+            developmentRegion: contents.developmentRegion,
+            xliff,
+            unitCount: (xliff.match(/<trans-unit\b/g) || []).length,
+        });
+    }
+
+    if (bundles.length === 0) {
+        throw new Error("No .xcloc bundle found. Expected a 'Localized Contents/<lang>.xliff' file.");
+    }
+    return bundles;
+}
+
+/**
+ * Reads every .xcloc bundle from a zip archive. The archive may hold a single zipped
+ * .xcloc folder, a folder of several bundles, or the bundle contents directly.
+ * @param data The zip archive.
+ * @returns The bundles found, sorted by path.
+ */
+export async function readXclocBundlesFromZip(data: ArrayBuffer | Blob): Promise<XclocBundle[]> {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(data);
+    } catch {
+        throw new Error("The file is not a valid zip archive.");
+    }
+
+    const files: FileReaderMap = {};
+    zip.forEach((relativePath, entry) => {
+        if (!entry.dir) files[relativePath] = () => entry.async('string');
+    });
+    return collectXclocBundles(files);
+}
+
+/**
+ * Reads every .xcloc bundle from files picked with a folder input (`webkitdirectory`).
+ * @param fileList The picked files; their `webkitRelativePath` gives the bundle layout.
+ * @returns The bundles found, sorted by path.
+ */
+export async function readXclocBundlesFromFiles(fileList: File[]): Promise<XclocBundle[]> {
+    const files: FileReaderMap = {};
+    for (const file of fileList) {
+        files[file.webkitRelativePath || file.name] = () => file.text();
+    }
+    return collectXclocBundles(files);
+}
+
+/**
+ * Maps the translations of .xcloc bundles back onto a String Catalog. A bundle's XLIFF holds every
+ * localizable file of the project; only the `<file>` whose `original` names the catalog is applied,
+ * and keys the catalog does not have are reported instead of added, see `importXliffIntoCatalog`.
+ * @param catalogContent The content of the .xcstrings file to update.
+ * @param catalogFileName The name of the catalog file.
+ * @param bundles The bundles to apply.
+ * @returns The updated .xcstrings content, and the files and keys that were skipped.
+ */
+export function applyXclocBundles(catalogContent: string, catalogFileName: string, bundles: XclocBundle[]): { outputContent: string; report: CatalogImportReport } {
+    return importXliffIntoCatalog(catalogContent, catalogFileName, bundles.map(bundle => bundle.xliff));
+}
+
+/**
+ * Builds a zip archive with one .xcloc bundle per target language, as Xcode's
+ * "Export Localizations" would produce for the catalog.
+ * @param catalogContent The content of the .xcstrings file.
+ * @param catalogFileName The catalog file name, used for the XLIFF `original` and `Source Contents/`.
+ * @param additionalLanguages Languages to export on top of those already in the catalog, e.g. to start a new translation.
+ * @param projectName The project name recorded in `contents.json`.
+ * @returns The zip archive and the names of the bundles it contains.
+ */
+export async function buildXclocArchive(
+    catalogContent: string,
+    catalogFileName: string,
+    additionalLanguages: string[] = [],
+    projectName = 'Localizable.xcodeproj'
+): Promise<{ blob: Blob; bundleNames: string[] }> {
+    const catalog = parseStringCatalogDocument(catalogContent);
+    const catalogLanguages = Object.values(catalog.strings).flatMap(entry => Object.keys(entry.localizations || {}));
+    const languages = Array.from(new Set([...catalogLanguages, ...additionalLanguages]))
+        .filter(language => language !== catalog.sourceLanguage)
+        .sort();
+
+    if (languages.length === 0) {
+        throw new Error("The catalog has no target languages. Add at least one language to export.");
+    }
+
+    const xliffFiles = generateXliffFiles(catalogContent, catalogFileName, languages);
+    const zip = new JSZip();
+    const bundleNames: string[] = [];
+
+    for (const language of languages) {
+        const bundleName = `${language}.xcloc`;
+        const contents: XclocContents = {
+            developmentRegion: catalog.sourceLanguage,
+            project: projectName,
+            targetLocale: language,
+            toolInfo: {
+                toolID: 'ios-development-tools',
+                toolName: 'iOS Development Tools',
+                toolVersion: '1.0',
+            },
+            version: '1.0',
+        };
+
+        const bundle = zip.folder(bundleName)!;
+        bundle.file('contents.json', serializeXcodeJson(contents));
+        bundle.file(`Localized Contents/${language}.xliff`, xliffFiles[`${language}.xliff`]);
+        bundle.file(`Source Contents/${catalogFileName}`, catalogContent);
+        bundle.folder('Notes');
+        bundleNames.push(bundleName);
+    }
+
+    const blob = await zip.generateAsync({ type: 'blob' });
+    return { blob, bundleNames };
+}
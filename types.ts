@@ -9,23 +9,72 @@ export interface PluralVariations {
     other: string;
 }
 
-export type StringValue = string | PluralVariations;
+export type DeviceCategory = 'iphone' | 'ipod' | 'ipad' | 'mac' | 'applewatch' | 'appletv' | 'applevision' | 'other';
+
+/**
+ * Per-device variants of a string ("Vary by Device" in Xcode). Each device may itself vary by plural.
+ * `other` is the fallback used on devices without a dedicated variant.
+ */
+export type DeviceVariations = { _isDevice: true } & Partial<Record<DeviceCategory, string | PluralVariations>>;
+
+export interface PluralSubstitution {
+    argNum?: number;
+    /** The printf conversion of the argument without the leading `%`, e.g. "lld", "f" or "@". */
+    formatSpecifier: string;
+    variations: PluralVariations;
+}
+
+/**
+ * A format string whose `%#@name@` tokens are each replaced by their own plural phrase,
+ * e.g. "%#@files@ in %#@folders@". Plural cases use the concrete specifier ("%lld file").
+ */
+export interface SubstitutionString {
+    _isSubstitution: true;
+    format: string;
+    substitutions: Record<string, PluralSubstitution>;
+}
+
+export type StringValue = string | PluralVariations | DeviceVariations | SubstitutionString;
 
 export function isPlural(value: StringValue): value is PluralVariations {
     return typeof value === 'object' && value !== null && '_isPlural' in value && value._isPlural === true;
 }
 
+export function isDeviceVariations(value: StringValue): value is DeviceVariations {
+    return typeof value === 'object' && value !== null && '_isDevice' in value && value._isDevice === true;
+}
+
+export function isSubstitution(value: StringValue): value is SubstitutionString {
+    return typeof value === 'object' && value !== null && '_isSubstitution' in value && value._isSubstitution === true;
+}
+
 export type ParsedStrings = Record<string, StringValue>;
 
 export enum OutputFormat {
     IOS = 'iOS String Catalog',
     ANDROID = 'Android XML',
+    XLIFF = 'XLIFF',
+    GETTEXT = 'Gettext',
+    SPREADSHEET = 'Spreadsheet',
+    PSEUDO = 'Pseudo-localization',
+}
+
+export type LanguageConfidence = 'high' | 'medium' | 'low';
+
+/** How the language of an uploaded file was guessed, see `detectFileLanguage`. */
+export interface LanguageDetection {
+    langCode: string;
+    confidence: LanguageConfidence;
+    /** Why the language was chosen, e.g. "From the fr.lproj folder". */
+    reason: string;
 }
 
 export interface LanguageFile {
     name: string;
     content: string;
     langCode: string;
+    /** Set when `langCode` was pre-filled by detection; cleared once the user edits it. */
+    langDetection?: LanguageDetection;
 }
 
 /**
@@ -34,6 +83,63 @@ export interface LanguageFile {
  */
 export type ParsedMultiLanguageStrings = Record<string, Record<string, StringValue>>;
 
+/**
+ * Developer comments (translator context) keyed by string key.
+ * E.g., { "welcome_title": "Title of the onboarding screen" }
+ */
+export type StringComments = Record<string, string>;
+
+/**
+ * Android resource attributes other than `name` and `translatable`, keyed by string key.
+ * E.g., { "app_name": { "formatted": "false", "tools:ignore": "MissingTranslation" } }
+ */
+export type StringAttributes = Record<string, Record<string, string>>;
+
+/**
+ * Lossless model of an Xcode String Catalog (.xcstrings) file.
+ * Mirrors the JSON layout one-to-one so that every field Xcode writes (comments, states,
+ * extraction states, variations, substitutions) survives a parse/serialize round trip.
+ */
+export type XCStringState = 'new' | 'translated' | 'needs_review' | 'stale' | (string & {});
+
+export type XCStringExtractionState = 'manual' | 'extracted_with_value' | 'migrated' | 'stale' | (string & {});
+
+export interface XCStringUnit {
+    state?: XCStringState;
+    value: string;
+}
+
+export interface XCStringVariations {
+    plural?: Record<string, XCStringLocalization>;
+    device?: Record<string, XCStringLocalization>;
+}
+
+export interface XCStringSubstitution {
+    argNum?: number;
+    formatSpecifier?: string;
+    variations?: XCStringVariations;
+}
+
+/** A localization, or a single variation case; both share the same shape in the file. */
+export interface XCStringLocalization {
+    stringUnit?: XCStringUnit;
+    variations?: XCStringVariations;
+    substitutions?: Record<string, XCStringSubstitution>;
+}
+
+export interface XCStringEntry {
+    comment?: string;
+    extractionState?: XCStringExtractionState;
+    shouldTranslate?: boolean;
+    localizations?: Record<string, XCStringLocalization>;
+}
+
+export interface XCStringsDocument {
+    sourceLanguage: string;
+    strings: Record<string, XCStringEntry>;
+    version: string;
+}
+
 export type ConversionMode = 'stringsToCatalog' | 'catalogToStrings';
 
-export type ViewMode = 'dashboard' | 'combine' | 'extract' | 'properties' | 'editor' | 'renamer' | 'merge' | 'merge-catalogs' | 'wordcount' | 'analyser' | 'json-converter' | 'xml-converter' | 'json-formatter' | 'json-to-swift' | 'duplicate-finder' | 'script-runner' | 'mock-data' | 'app-icon-generator' | 'color-converter' | 'encoding-tool' | 'screenshot-generator';
+export type ViewMode = 'dashboard' | 'combine' | 'extract' | 'properties' | 'editor' | 'renamer' | 'merge' | 'merge-catalogs' | 'catalog-diff' | 'wordcount' | 'analyser' | 'json-converter' | 'xml-converter' | 'json-formatter' | 'json-to-swift' | 'duplicate-finder' | 'script-runner' | 'mock-data' | 'app-icon-generator' | 'color-converter' | 'encoding-tool' | 'screenshot-generator' | 'xcloc';